@@ -0,0 +1,65 @@
+import {parseAgentEvent} from '../src/native/agentKernel';
+
+describe('parseAgentEvent', () => {
+  test('narrows a decision and drops unknown fields', () => {
+    expect(
+      parseAgentEvent({
+        type: 'decision_parsed',
+        timestamp: 5,
+        step: 2,
+        raw: '{"action":"swipe"}',
+        action: 'swipe',
+        direction: 'sideways',
+        index: '3',
+        tokens: 12,
+      }),
+    ).toEqual({
+      type: 'decision_parsed',
+      timestamp: 5,
+      step: 2,
+      raw: '{"action":"swipe"}',
+      decision: {action: 'swipe'},
+      heuristic: false,
+      tokens: 12,
+    });
+  });
+
+  test('maps an unknown action to unknown', () => {
+    expect(
+      parseAgentEvent({type: 'action_executed', step: 1, action: 'fly'}),
+    ).toMatchObject({action: 'unknown'});
+  });
+
+  test('drops step events without a numeric step', () => {
+    expect(parseAgentEvent({type: 'step_started', maxSteps: 5})).toBeNull();
+    expect(
+      parseAgentEvent({type: 'screen_observed', step: '1', screen: ''}),
+    ).toBeNull();
+  });
+
+  test('drops verdicts and done reasons outside the known set', () => {
+    expect(
+      parseAgentEvent({type: 'approval_resolved', step: 1, verdict: 'maybe'}),
+    ).toBeNull();
+    expect(
+      parseAgentEvent({type: 'approval_resolved', step: 1, verdict: 'skip'}),
+    ).toMatchObject({verdict: 'skip'});
+    expect(parseAgentEvent({type: 'done', reason: 'bored'})).toBeNull();
+    expect(
+      parseAgentEvent({type: 'done', reason: 'max_steps', message: 'Max'}),
+    ).toMatchObject({reason: 'max_steps', message: 'Max'});
+  });
+
+  test('falls back to exception for unknown error reasons', () => {
+    expect(parseAgentEvent({type: 'error', reason: 42})).toMatchObject({
+      reason: 'exception',
+      message: 'Unknown error',
+    });
+  });
+
+  test('ignores payloads that are not objects', () => {
+    expect(parseAgentEvent(null)).toBeNull();
+    expect(parseAgentEvent('done')).toBeNull();
+    expect(parseAgentEvent({type: 'mystery'})).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import {applyAgentEvent} from '../src/state/agentTimeline';
+import type {AgentStep, DeviceAgentEvent} from '../src/state/types';
+
+function fold(events: DeviceAgentEvent[]): AgentStep[] {
+  return events.reduce(applyAgentEvent, [] as AgentStep[]);
+}
+
+describe('applyAgentEvent', () => {
+  test('builds one entry per step from structured events', () => {
+    const steps = fold([
+      {type: 'download_progress', timestamp: 1, progress: 40},
+      {type: 'step_started', timestamp: 10, step: 1, maxSteps: 10},
+      {
+        type: 'screen_observed',
+        timestamp: 11,
+        step: 1,
+        screen: '0:Settings',
+        elementCount: 1,
+      },
+      {
+        type: 'decision_parsed',
+        timestamp: 12,
+        step: 1,
+        raw: '{"a":"tap","i":0}',
+        decision: {action: 'tap', index: 0},
+        heuristic: false,
+        tokens: 12,
+      },
+      {type: 'action_executed', timestamp: 13, step: 1, action: 'tap'},
+      {type: 'step_started', timestamp: 20, step: 2, maxSteps: 10},
+    ]);
+
+    expect(steps).toEqual([
+      {
+        step: 1,
+        startedAt: 10,
+        screen: '0:Settings',
+        elementCount: 1,
+        rawDecision: '{"a":"tap","i":0}',
+        decision: {action: 'tap', index: 0},
+        heuristic: false,
+        executedAt: 13,
+      },
+      {step: 2, startedAt: 20},
+    ]);
+  });
+
+  test('tracks the approval state of a supervised step', () => {
+    const pending = fold([
+      {type: 'step_started', timestamp: 10, step: 1, maxSteps: 10},
+      {
+        type: 'approval_requested',
+        timestamp: 11,
+        requestId: 'approval-1',
+        step: 1,
+        raw: '{"a":"type","t":"hi"}',
+        decision: {action: 'type', text: 'hi'},
+      },
+    ]);
+    expect(pending[0].approval).toBe('pending');
+
+    const resolved = applyAgentEvent(pending, {
+      type: 'approval_resolved',
+      timestamp: 12,
+      step: 1,
+      verdict: 'skip',
+    });
+    expect(resolved[0].approval).toBe('skip');
+  });
+
+  test('ignores events for steps that never started', () => {
+    const steps = fold([
+      {type: 'action_executed', timestamp: 5, step: 3, action: 'back'},
+      {
+        type: 'done',
+        timestamp: 6,
+        reason: 'goal_achieved',
+        message: 'Goal achieved',
+      },
+    ]);
+    expect(steps).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import {reportToCsv, summarizeModel} from '../src/state/benchmark';
+import type {BenchmarkReport} from '../src/state/benchmark';
+import {useBenchmark} from '../src/state/useBenchmark';
+import {resetModelSelectionCache} from '../src/state/modelSelection';
+import {createMemoryStorage, setStorageAdapter} from '../src/state/storage';
+import {act, renderHook} from '../jest/renderHook';
+import {
+  DEFAULT_MODEL_ID,
+  deferred,
+  fakeRunAnywhere,
+  runDone,
+  runError,
+  script,
+  tokens,
+} from '../jest/nativeModules';
+
+const SMALL_MODEL_ID = 'smollm2-360m-instruct-q8_0';
+
+async function setup() {
+  const hook = await renderHook(() => useBenchmark());
+  await act(() => hook.result.current.resetSuite());
+  await act(() => {
+    const {suite, removePrompt, addPrompt} = hook.result.current;
+    suite.forEach(entry => removePrompt(entry.id));
+    addPrompt('Say hi');
+    addPrompt('Count to two');
+  });
+  return hook;
+}
+
+describe('useBenchmark', () => {
+  beforeEach(() => {
+    setStorageAdapter(createMemoryStorage());
+    resetModelSelectionCache();
+  });
+
+  test('runs every prompt on every model and records a result each', async () => {
+    fakeRunAnywhere.runAgent
+      .mockImplementationOnce(script([...tokens('Hi', '!'), runDone()]))
+      .mockImplementationOnce(script([...tokens('One', ' two'), runDone()]))
+      .mockImplementationOnce(script([runError('Out of memory')]))
+      .mockImplementationOnce(script([...tokens('1 2'), runDone()]));
+    const {result, unmount} = await setup();
+
+    await act(() => result.current.run([SMALL_MODEL_ID, DEFAULT_MODEL_ID]));
+
+    expect(fakeRunAnywhere.loadModel.mock.calls).toEqual([
+      [SMALL_MODEL_ID],
+      [DEFAULT_MODEL_ID],
+    ]);
+    const report = result.current.report!;
+    expect(report.finishedAt).toEqual(expect.any(Number));
+    expect(report.results.map(r => [r.modelId, r.output, r.error])).toEqual([
+      [SMALL_MODEL_ID, 'Hi!', undefined],
+      [SMALL_MODEL_ID, 'One two', undefined],
+      [DEFAULT_MODEL_ID, '', 'Out of memory'],
+      [DEFAULT_MODEL_ID, '1 2', undefined],
+    ]);
+    // Only the first prompt of each model pays for the load.
+    expect(report.results.map(r => r.metrics.loadMs !== null)).toEqual([
+      true,
+      false,
+      true,
+      false,
+    ]);
+    expect(summarizeModel(report, DEFAULT_MODEL_ID)).toMatchObject({
+      runs: 2,
+      failures: 1,
+      totalTokens: 1,
+    });
+    expect(result.current.running).toBe(false);
+    await unmount();
+  });
+
+  test('cancel stops the native run and leaves the report unfinished', async () => {
+    const run = deferred();
+    fakeRunAnywhere.runAgent.mockImplementationOnce(() => run.promise);
+    const {result, unmount} = await setup();
+
+    let finished: Promise<void> | undefined;
+    await act(() => {
+      finished = result.current.run([DEFAULT_MODEL_ID]);
+    });
+    expect(result.current.progress).toMatchObject({phase: 'running'});
+
+    await act(() => result.current.cancel());
+    await act(() => finished);
+    expect(fakeRunAnywhere.cancelRun).toHaveBeenCalled();
+    expect(fakeRunAnywhere.runAgent).toHaveBeenCalledTimes(1);
+    expect(result.current.report?.results).toEqual([]);
+    expect(result.current.report?.finishedAt).toBeUndefined();
+    expect(result.current.running).toBe(false);
+    await unmount();
+  });
+
+  test('keeps an edited suite across mounts', async () => {
+    const first = await setup();
+    await first.unmount();
+
+    const second = await renderHook(() => useBenchmark());
+    expect(second.result.current.suite.map(entry => entry.prompt)).toEqual([
+      'Say hi',
+      'Count to two',
+    ]);
+    await second.unmount();
+  });
+});
+
+describe('reportToCsv', () => {
+  test('writes one escaped row per result', () => {
+    const report: BenchmarkReport = {
+      startedAt: 0,
+      options: {
+        temperature: 0,
+        topP: 1,
+        maxTokens: 64,
+        stopSequences: [],
+        systemPrompt: '',
+      },
+      models: ['m'],
+      suite: [{id: 'p1', prompt: 'Say "hi", please'}],
+      results: [
+        {
+          modelId: 'm',
+          promptId: 'p1',
+          output: 'Hi,\nthere',
+          metrics: {
+            downloadMs: null,
+            loadMs: 1500,
+            timeToFirstTokenMs: 210,
+            tokensPerSecond: 12.345,
+            totalTokens: 3,
+            decisionLatenciesMs: [],
+          },
+        },
+      ],
+    };
+    expect(reportToCsv(report)).toBe(
+      'model,prompt_id,prompt,ttft_ms,tokens_per_second,total_tokens,load_ms,download_ms,error,output\n' +
+        'm,p1,"Say ""hi"", please",210,12.35,3,1500,,,"Hi,\nthere"',
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  BUILT_IN_TOOLS,
+  convertUnits,
+  evaluateExpression,
+  formatNumber,
+} from '../src/state/builtInTools';
+import {createToolRegistry} from '../src/state/tools';
+
+describe('built-in tools', () => {
+  test('evaluates arithmetic with precedence and functions', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateExpression('-2 ^ 2')).toBe(4);
+    expect(evaluateExpression('17 % 5 + sqrt(16)')).toBe(6);
+    expect(evaluateExpression('12 × 3 ÷ 4')).toBe(9);
+    expect(formatNumber(evaluateExpression('0.1 + 0.2'))).toBe('0.3');
+    expect(evaluateExpression('round(pi * 100)')).toBe(314);
+  });
+
+  test('rejects anything that is not arithmetic', () => {
+    expect(() => evaluateExpression('alert(1)')).toThrow(
+      'Unknown name "alert"',
+    );
+    expect(() => evaluateExpression('2 +')).toThrow('Unexpected end');
+    expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"');
+    expect(() => evaluateExpression('1 / 0')).toThrow('no finite result');
+  });
+
+  test('converts units within a category', () => {
+    expect(convertUnits(1, 'mile', 'km')).toBeCloseTo(1.609344);
+    expect(convertUnits(2.2046226218, 'lbs', 'kg')).toBeCloseTo(1);
+    expect(convertUnits(212, 'F', 'C')).toBeCloseTo(100);
+    expect(convertUnits(0, '°C', 'K')).toBeCloseTo(273.15);
+    expect(convertUnits(36, 'km/h', 'm/s')).toBeCloseTo(10);
+    expect(() => convertUnits(1, 'kg', 'km')).toThrow(
+      'Cannot convert kg to km',
+    );
+    expect(() => convertUnits(1, 'cubit', 'm')).toThrow('Unknown unit "cubit"');
+  });
+
+  test('runs through the registry with string arguments', async () => {
+    const registry = createToolRegistry(BUILT_IN_TOOLS);
+    expect(
+      await registry.execute(
+        {name: 'convert_units', arguments: {value: '5', from: 'km', to: 'm'}},
+        1,
+      ),
+    ).toMatchObject({ok: true, output: '5 km = 5000 m'});
+    expect(
+      await registry.execute(
+        {name: 'calculator', arguments: {expression: '6 * 7'}},
+        1,
+      ),
+    ).toMatchObject({ok: true, output: '42'});
+    const date = await registry.execute(
+      {name: 'current_datetime', arguments: {timeZone: 'UTC'}},
+      1,
+    );
+    expect(date.ok).toBe(true);
+    expect(date.output).toMatch(/\d{4}, \d{1,2}:\d{2}/);
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  RunAbortedError,
+  isRunAborted,
+  watchRun,
+} from '../src/native/cancellation';
+import {runAgent} from '../src/native/runanywhere';
+import {deferred, fakeRunAnywhere} from '../jest/nativeModules';
+
+function flush(): Promise<void> {
+  return new Promise<void>(resolve => setTimeout(() => resolve(), 10));
+}
+
+describe('watchRun', () => {
+  test('stops the run once when the signal aborts', async () => {
+    const controller = new AbortController();
+    const stop = jest.fn(async () => undefined);
+    const onAbort = jest.fn();
+    watchRun({signal: controller.signal}, stop, onAbort);
+
+    controller.abort();
+    controller.abort();
+    await flush();
+
+    expect(stop).toHaveBeenCalledTimes(1);
+    expect(onAbort).toHaveBeenCalledTimes(1);
+    expect(isRunAborted(onAbort.mock.calls[0][0], 'cancelled')).toBe(true);
+  });
+
+  test('times out with the limit in the message', async () => {
+    jest.useFakeTimers();
+    try {
+      const onAbort = jest.fn();
+      watchRun({timeoutMs: 1500}, async () => undefined, onAbort);
+      jest.advanceTimersByTime(1500);
+      await Promise.resolve();
+      await Promise.resolve();
+
+      const [error] = onAbort.mock.calls[0];
+      expect(error).toBeInstanceOf(RunAbortedError);
+      expect(error).toMatchObject({reason: 'timed_out', timeoutMs: 1500});
+      expect(error.message).toBe('Timed out after 1.5s');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('passes on the error when stopping fails', async () => {
+    const controller = new AbortController();
+    const onAbort = jest.fn();
+    watchRun(
+      {signal: controller.signal},
+      () => Promise.reject(new Error('Bridge gone')),
+      onAbort,
+    );
+    controller.abort();
+    await flush();
+    expect(onAbort).toHaveBeenCalledWith(new Error('Bridge gone'));
+  });
+
+  test('does nothing once released', async () => {
+    const controller = new AbortController();
+    const stop = jest.fn(async () => undefined);
+    const release = watchRun(
+      {signal: controller.signal, timeoutMs: 5},
+      stop,
+      jest.fn(),
+    );
+    release();
+    release();
+    controller.abort();
+    await flush();
+    expect(stop).not.toHaveBeenCalled();
+  });
+});
+
+describe('runAgent', () => {
+  test('rejects an already aborted run without calling native', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      runAgent('Hi', undefined, undefined, undefined, {
+        signal: controller.signal,
+      }),
+    ).rejects.toBeInstanceOf(RunAbortedError);
+    expect(fakeRunAnywhere.runAgent).not.toHaveBeenCalled();
+  });
+
+  test('cancels the native run and ignores how it settles', async () => {
+    const run = deferred();
+    fakeRunAnywhere.runAgent.mockImplementationOnce(() => run.promise);
+    const controller = new AbortController();
+    const result = runAgent('Hi', undefined, undefined, undefined, {
+      signal: controller.signal,
+    });
+
+    controller.abort();
+    run.reject(new Error('RUN_CANCELLED'));
+
+    await expect(result).rejects.toThrow('Cancelled');
+    expect(fakeRunAnywhere.cancelRun).toHaveBeenCalledTimes(1);
+  });
+
+  test('resolves normally and leaves the signal unwatched', async () => {
+    const controller = new AbortController();
+    await runAgent('Hi', undefined, undefined, undefined, {
+      signal: controller.signal,
+    });
+    controller.abort();
+    await flush();
+    expect(fakeRunAnywhere.cancelRun).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  buildContext,
+  createTurn,
+  estimateTokens,
+  fitSections,
+  promptTokenBudget,
+  serializeHistory,
+  spareSectionTokens,
+  trimHistory,
+} from '../src/state/conversation';
+import {fitSources, formatSources} from '../src/state/retrieval';
+import type {RetrievedChunk} from '../src/state/types';
+
+describe('conversation', () => {
+  const turns = [
+    createTurn('user', 'What is pasta?'),
+    createTurn('assistant', 'Pasta is an Italian noodle.'),
+    createTurn('user', 'How long do I boil it?'),
+    createTurn('assistant', 'Around ten minutes.'),
+  ];
+
+  test('serializes turns with role labels', () => {
+    expect(serializeHistory(turns.slice(0, 2))).toBe(
+      'Conversation so far:\nUser: What is pasta?\nAssistant: Pasta is an Italian noodle.',
+    );
+    expect(serializeHistory([])).toBe('');
+  });
+
+  test('keeps everything when under budget', () => {
+    expect(trimHistory(turns, 1000)).toEqual(turns);
+  });
+
+  test('drops the oldest turns first', () => {
+    const trimmed = trimHistory(turns, 18);
+    expect(trimmed.map(t => t.text)).toEqual([
+      'How long do I boil it?',
+      'Around ten minutes.',
+    ]);
+  });
+
+  test('truncates the newest turn when it alone exceeds the budget', () => {
+    const long = createTurn('user', 'x'.repeat(400));
+    const [trimmed] = trimHistory([long], 10);
+    // 10 tokens less the newline, less "User: ".
+    expect(trimmed.text.length).toBe(30);
+    expect(estimateTokens(`User: ${trimmed.text}`) + 1).toBeLessThanOrEqual(10);
+  });
+
+  test('drops a turn whose role label alone is over budget', () => {
+    const long = createTurn('assistant', 'x'.repeat(400));
+    expect(trimHistory([long], 3)).toEqual([]);
+  });
+
+  test('derives the prompt budget from the window and answer length', () => {
+    const options = {maxTokens: 512, systemPrompt: 'x'.repeat(40)};
+    expect(promptTokenBudget(2048, options)).toBe(2048 - 512 - 10 - 128);
+    expect(promptTokenBudget(4096, {...options, maxTokens: 768})).toBe(
+      4096 - 768 - 10 - 128,
+    );
+    expect(promptTokenBudget(512, options)).toBe(0);
+  });
+
+  test('buildContext reserves budget for the task and extra sections', () => {
+    const context = buildContext(turns, 'And salt?', ['Today is Monday.'], 20);
+    expect(context).toContain('Today is Monday.');
+    expect(context).not.toContain('What is pasta?');
+    expect(estimateTokens(context)).toBeLessThanOrEqual(20);
+  });
+
+  test('fitSections cuts the first section that overruns and drops the rest', () => {
+    const long = 'x'.repeat(200);
+    expect(fitSections(['', 'abcd', 'efgh'], 10)).toEqual(['abcd', 'efgh']);
+    const [first, second, ...rest] = fitSections(['abcd', long, 'efgh'], 10);
+    expect(first).toBe('abcd');
+    expect(second).toMatch(/^x+…$/);
+    expect(rest).toEqual([]);
+    expect(estimateTokens(`abcd\n\n${second}`)).toBeLessThanOrEqual(10);
+    expect(fitSections(['abcd'], 1)).toEqual([]);
+  });
+
+  test('passages that exactly fill the spare tokens leave the date in', () => {
+    const task = 'And salt?';
+    const date = "Today's date is Monday.";
+    const budget = 300;
+    const spare = spareSectionTokens(task, ['', date], budget);
+    const passage = (id: string, score: number): RetrievedChunk => ({
+      id,
+      documentId: 'notes',
+      title: 'Notes',
+      text: 'n'.repeat(200),
+      score,
+    });
+    const header = formatSources([passage('a', 1)]).length - 200;
+    // Pad the one passage so the formatted section is exactly `spare` tokens.
+    const exact = {...passage('a', 2), text: 'n'.repeat(spare * 4 - header)};
+    const sources = fitSources([exact, passage('b', 1)], spare);
+    expect(sources).toEqual([exact]);
+    expect(estimateTokens(formatSources(sources))).toBe(spare);
+
+    const context = buildContext(
+      turns,
+      task,
+      ['', formatSources(sources), date],
+      budget,
+    );
+    expect(context).toContain(formatSources(sources));
+    expect(context.endsWith(date)).toBe(true);
+  });
+
+  test('buildContext keeps oversized sections within the budget', () => {
+    const notes = 'A long note. '.repeat(200);
+    const context = buildContext(turns, 'And salt?', [notes, 'Today.'], 100);
+    expect(context).not.toContain('Conversation so far:');
+    expect(context).not.toContain('Today.');
+    expect(estimateTokens(`And salt?\n\n${context}`)).toBeLessThanOrEqual(100);
+  });
+});
@@ -0,0 +1,40 @@
+import {
+  DEFAULT_VERIFICATION,
+  MAX_RETRIES,
+  clampVerification,
+  outcomeForDone,
+  retryDelayMs,
+  toRunOutcome,
+} from '../src/state/deviceOutcome';
+
+describe('device outcomes', () => {
+  test('maps done reasons to outcomes', () => {
+    expect(outcomeForDone('goal_achieved')).toBe('succeeded');
+    expect(outcomeForDone('shortcut')).toBe('succeeded');
+    expect(outcomeForDone('max_steps')).toBe('gave_up');
+    expect(outcomeForDone('verification_failed')).toBe('gave_up');
+    expect(outcomeForDone('max_duration')).toBe('timed_out');
+    expect(outcomeForDone('aborted')).toBe('cancelled');
+  });
+
+  test('counts anything short of success as a failed run', () => {
+    expect(toRunOutcome('succeeded')).toBe('done');
+    expect(toRunOutcome('cancelled')).toBe('stopped');
+    expect(toRunOutcome('gave_up')).toBe('error');
+    expect(toRunOutcome('timed_out')).toBe('error');
+  });
+
+  test('doubles the wait for each retry up to a minute', () => {
+    const options = {...DEFAULT_VERIFICATION, backoffMs: 2000};
+    expect([1, 2, 3].map(retry => retryDelayMs(options, retry))).toEqual([
+      2000, 4000, 8000,
+    ]);
+    expect(retryDelayMs(options, 10)).toBe(60_000);
+  });
+
+  test('clamps retry settings', () => {
+    expect(
+      clampVerification({enabled: true, maxRetries: 99, backoffMs: -5}),
+    ).toEqual({enabled: true, maxRetries: MAX_RETRIES, backoffMs: 0});
+  });
+});
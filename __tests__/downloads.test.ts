@@ -0,0 +1,248 @@
+import {
+  MAX_DOWNLOAD_ATTEMPTS,
+  cancelModelDownload,
+  formatDownload,
+  getDownloads,
+  pauseModelDownload,
+  resetDownloadsCache,
+  resumeModelDownload,
+  retryDelayMs,
+  startModelDownload,
+} from '../src/state/downloads';
+import type {ModelDownload} from '../src/state/types';
+import {
+  DEFAULT_MODEL_ID,
+  RUNANYWHERE_EVENTS,
+  deferred,
+  emitNative,
+  fakeRunAnywhere,
+} from '../jest/nativeModules';
+
+const MODEL = DEFAULT_MODEL_ID;
+
+function bridgeError(message: string, code: string) {
+  const error = new Error(message) as Error & {code?: string};
+  error.code = code;
+  return error;
+}
+
+function flush(ms = 0): Promise<void> {
+  return jest.advanceTimersByTimeAsync(ms);
+}
+
+function current(): ModelDownload {
+  return getDownloads()[MODEL];
+}
+
+function sample(download: Partial<ModelDownload>): ModelDownload {
+  return {
+    modelId: MODEL,
+    status: 'downloading',
+    progress: 0,
+    bytesDownloaded: 0,
+    bytesEstimated: false,
+    totalBytes: 0,
+    bytesPerSecond: 0,
+    etaSeconds: null,
+    attempt: 1,
+    ...download,
+  };
+}
+
+describe('download manager', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetDownloadsCache();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('tracks bytes, speed and time left', async () => {
+    const download = deferred();
+    fakeRunAnywhere.downloadModel.mockImplementationOnce(
+      () => download.promise,
+    );
+    const done = startModelDownload(MODEL, 100_000_000);
+    await flush();
+
+    const progress = (bytesDownloaded: number) =>
+      emitNative(RUNANYWHERE_EVENTS.DOWNLOAD_PROGRESS, {
+        modelId: MODEL,
+        progress: bytesDownloaded / 1_000_000,
+        bytesDownloaded,
+        totalBytes: 100_000_000,
+      });
+    progress(10_000_000);
+    jest.advanceTimersByTime(1000);
+    progress(12_000_000);
+
+    expect(current()).toMatchObject({
+      status: 'downloading',
+      progress: 12,
+      bytesDownloaded: 12_000_000,
+      bytesPerSecond: 2_000_000,
+      etaSeconds: 44,
+    });
+    expect(formatDownload(current())).toBe(
+      '12% · 12 MB of 100 MB · 2.0 MB/s · 44s left',
+    );
+
+    download.resolve(null);
+    await done;
+    expect(getDownloads()).toEqual({});
+  });
+
+  test('marks bytes derived from the percentage as estimated', async () => {
+    const download = deferred();
+    fakeRunAnywhere.downloadModel.mockImplementationOnce(
+      () => download.promise,
+    );
+    const done = startModelDownload(MODEL, 100_000_000);
+    await flush();
+
+    const progress = (percent: number) =>
+      emitNative(RUNANYWHERE_EVENTS.DOWNLOAD_PROGRESS, {
+        modelId: MODEL,
+        progress: percent,
+        totalBytes: 100_000_000,
+      });
+    progress(10);
+    jest.advanceTimersByTime(1000);
+    progress(12);
+
+    expect(current()).toMatchObject({
+      bytesDownloaded: 12_000_000,
+      bytesEstimated: true,
+    });
+    expect(formatDownload(current())).toBe(
+      '12% · ~12 MB of 100 MB · ~2.0 MB/s · 44s left',
+    );
+
+    download.resolve(null);
+    await done;
+  });
+
+  test('joins a download already in progress', async () => {
+    const download = deferred();
+    fakeRunAnywhere.downloadModel.mockImplementationOnce(
+      () => download.promise,
+    );
+    const first = startModelDownload(MODEL);
+    const second = startModelDownload(MODEL);
+    await flush();
+    download.resolve(null);
+    await Promise.all([first, second]);
+    expect(fakeRunAnywhere.downloadModel).toHaveBeenCalledTimes(1);
+  });
+
+  test('retries network failures with backoff', async () => {
+    fakeRunAnywhere.downloadModel.mockRejectedValueOnce(
+      bridgeError('Connection reset', 'DOWNLOAD_NETWORK'),
+    );
+    const done = startModelDownload(MODEL);
+    await flush();
+
+    expect(current()).toMatchObject({
+      status: 'retrying',
+      attempt: 1,
+      message: 'Connection reset',
+    });
+    expect(formatDownload(current())).toBe(
+      `Connection lost, retrying in 2s (attempt 2 of ${MAX_DOWNLOAD_ATTEMPTS})`,
+    );
+
+    await flush(retryDelayMs(1));
+    await done;
+    expect(fakeRunAnywhere.resumeDownload).toHaveBeenCalledWith(MODEL);
+    expect(getDownloads()).toEqual({});
+  });
+
+  test('gives up after the last attempt', async () => {
+    fakeRunAnywhere.downloadModel.mockRejectedValueOnce(
+      bridgeError('Timeout', 'DOWNLOAD_NETWORK'),
+    );
+    fakeRunAnywhere.resumeDownload.mockRejectedValue(
+      bridgeError('Timeout', 'DOWNLOAD_NETWORK'),
+    );
+    const done = startModelDownload(MODEL);
+    const failure = done.catch((error: Error) => error);
+    for (let attempt = 1; attempt < MAX_DOWNLOAD_ATTEMPTS; attempt++) {
+      await flush(retryDelayMs(attempt));
+    }
+    expect(await failure).toMatchObject({message: 'Timeout'});
+
+    expect(fakeRunAnywhere.resumeDownload).toHaveBeenCalledTimes(
+      MAX_DOWNLOAD_ATTEMPTS - 1,
+    );
+    expect(current()).toMatchObject({
+      status: 'failed',
+      attempt: MAX_DOWNLOAD_ATTEMPTS,
+    });
+  });
+
+  test('does not retry other failures', async () => {
+    fakeRunAnywhere.downloadModel.mockRejectedValueOnce(
+      bridgeError('Disk full', 'DOWNLOAD_ERROR'),
+    );
+    await expect(startModelDownload(MODEL)).rejects.toThrow('Disk full');
+    expect(current()).toMatchObject({status: 'failed', message: 'Disk full'});
+    expect(formatDownload(current())).toBe('Download failed: Disk full');
+  });
+
+  test('reports no network without trying', async () => {
+    fakeRunAnywhere.isNetworkAvailable.mockResolvedValueOnce(false);
+    await expect(startModelDownload(MODEL)).rejects.toMatchObject({
+      code: 'NO_NETWORK',
+    });
+    expect(fakeRunAnywhere.downloadModel).not.toHaveBeenCalled();
+    expect(formatDownload(current())).toBe('No network connection');
+  });
+
+  test('stops and restarts', async () => {
+    const download = deferred();
+    fakeRunAnywhere.downloadModel.mockImplementationOnce(
+      () => download.promise,
+    );
+    fakeRunAnywhere.pauseDownload.mockImplementationOnce(async () => {
+      download.reject(bridgeError('Download paused', 'DOWNLOAD_PAUSED'));
+      return null;
+    });
+    const done = startModelDownload(MODEL);
+    await flush();
+
+    await pauseModelDownload(MODEL);
+    await flush();
+    expect(current().status).toBe('paused');
+    expect(fakeRunAnywhere.resumeDownload).not.toHaveBeenCalled();
+
+    resumeModelDownload(MODEL);
+    await done;
+    expect(fakeRunAnywhere.resumeDownload).toHaveBeenCalledWith(MODEL);
+    expect(getDownloads()).toEqual({});
+  });
+
+  test('cancels a download waiting to retry', async () => {
+    fakeRunAnywhere.downloadModel.mockRejectedValueOnce(
+      bridgeError('Connection reset', 'DOWNLOAD_NETWORK'),
+    );
+    const done = startModelDownload(MODEL);
+    await flush();
+    expect(current().status).toBe('retrying');
+
+    await cancelModelDownload(MODEL);
+    await expect(done).rejects.toMatchObject({code: 'DOWNLOAD_CANCELLED'});
+    expect(fakeRunAnywhere.resumeDownload).not.toHaveBeenCalled();
+    expect(getDownloads()).toEqual({});
+  });
+
+  test('formats a stopped download and long waits', () => {
+    expect(formatDownload(sample({status: 'paused', progress: 42}))).toBe(
+      'Stopped at 42% · Restart starts over',
+    );
+    expect(formatDownload(sample({progress: 5, etaSeconds: 3725}))).toBe(
+      '5% · 1h 2m left',
+    );
+  });
+});
@@ -0,0 +1,21 @@
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_GENERATION_OPTIONS,
+  formatStopSequences,
+  parseStopSequences,
+} from '../src/state/generationPresets';
+
+describe('generation presets', () => {
+  test('ships Precise and Creative presets', () => {
+    const names = BUILT_IN_PRESETS.map(preset => preset.name);
+    expect(names).toEqual(expect.arrayContaining(['Precise', 'Creative']));
+  });
+
+  test('stop sequences round-trip through the escaped editor format', () => {
+    const text = formatStopSequences(DEFAULT_GENERATION_OPTIONS.stopSequences);
+    expect(text).toBe('\\n\\n\n\\nUser:\n\\nTask:\n###');
+    expect(parseStopSequences(text)).toEqual(
+      DEFAULT_GENERATION_OPTIONS.stopSequences,
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  clearFinished,
+  completeGoal,
+  createQueuedGoal,
+  describeSchedule,
+  loadQueue,
+  markRunning,
+  nextDailyRun,
+  nextDueGoal,
+  nextWakeAt,
+  parseTimeOfDay,
+  saveQueue,
+} from '../src/state/goalQueue';
+import {createMemoryStorage, setStorageAdapter} from '../src/state/storage';
+
+// 2024-03-10 07:30 local time.
+const NOW = new Date(2024, 2, 10, 7, 30).getTime();
+
+describe('goal queue', () => {
+  beforeEach(() => {
+    setStorageAdapter(createMemoryStorage());
+  });
+
+  test('runs unscheduled goals in order and waits for scheduled ones', () => {
+    const later = createQueuedGoal('open Clock', {
+      kind: 'at',
+      at: NOW + 60_000,
+    });
+    const first = createQueuedGoal('open Settings', undefined, NOW);
+    const second = createQueuedGoal('open Music', undefined, NOW);
+    let goals = [later, first, second];
+
+    expect(nextDueGoal(goals, NOW)?.goal).toBe('open Settings');
+    goals = completeGoal(markRunning(goals, first.id), first.id, 'done', NOW);
+    expect(nextDueGoal(goals, NOW)?.goal).toBe('open Music');
+    goals = completeGoal(goals, second.id, 'error', NOW);
+
+    expect(nextDueGoal(goals, NOW)).toBeUndefined();
+    expect(nextWakeAt(goals)).toBe(NOW + 60_000);
+    expect(nextDueGoal(goals, NOW + 60_000)?.goal).toBe('open Clock');
+    expect(goals.map(g => g.status)).toEqual(['pending', 'done', 'error']);
+  });
+
+  test('reschedules daily goals for the next day after each run', () => {
+    const goal = createQueuedGoal(
+      'open Music',
+      {kind: 'daily', hour: 8, minute: 0},
+      NOW,
+    );
+    expect(goal.dueAt).toBe(new Date(2024, 2, 10, 8, 0).getTime());
+    expect(describeSchedule(goal)).toBe('daily at 08:00');
+
+    const ranAt = goal.dueAt! + 5_000;
+    const [next] = completeGoal([goal], goal.id, 'done', ranAt);
+    expect(next).toMatchObject({status: 'pending', lastOutcome: 'done'});
+    expect(next.dueAt).toBe(new Date(2024, 2, 11, 8, 0).getTime());
+    expect(clearFinished([next])).toEqual([next]);
+  });
+
+  test('finds the next daily occurrence strictly after a time', () => {
+    const eight = new Date(2024, 2, 10, 8, 0).getTime();
+    expect(nextDailyRun(8, 0, eight)).toBe(
+      new Date(2024, 2, 11, 8, 0).getTime(),
+    );
+    expect(nextDailyRun(20, 30, eight)).toBe(
+      new Date(2024, 2, 10, 20, 30).getTime(),
+    );
+  });
+
+  test('parses times of day', () => {
+    expect(parseTimeOfDay('8:05')).toEqual({hour: 8, minute: 5});
+    expect(parseTimeOfDay(' 20:30 ')).toEqual({hour: 20, minute: 30});
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('8')).toBeNull();
+  });
+
+  test('retries a goal left running when the app closed', async () => {
+    const goal = createQueuedGoal('open Settings');
+    await saveQueue({
+      goals: markRunning([goal], goal.id),
+      stopOnFailure: false,
+      active: true,
+    });
+    const stored = await loadQueue();
+    expect(stored.stopOnFailure).toBe(false);
+    expect(stored.active).toBe(true);
+    expect(stored.goals[0].status).toBe('pending');
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  clearHistory,
+  deleteRun,
+  loadHistory,
+  recordRun,
+  resetHistoryCache,
+} from '../src/state/history';
+import {createMemoryStorage, setStorageAdapter} from '../src/state/storage';
+
+const baseRun = {
+  kind: 'chat' as const,
+  model: 'smollm2-360m-instruct-q8_0',
+  output: 'Boil for ten minutes.',
+  finalPhase: 'done' as const,
+  startedAt: 1_700_000_000_000,
+  durationMs: 1200,
+};
+
+describe('run history', () => {
+  beforeEach(() => {
+    setStorageAdapter(createMemoryStorage());
+    resetHistoryCache();
+  });
+
+  test('records runs newest first and persists them', async () => {
+    await recordRun({...baseRun, goal: 'How do I cook pasta?'});
+    await recordRun({...baseRun, kind: 'device', goal: 'open Settings'});
+
+    resetHistoryCache();
+    const stored = await loadHistory();
+    expect(stored.map(r => r.goal)).toEqual([
+      'open Settings',
+      'How do I cook pasta?',
+    ]);
+  });
+
+  test('deletes a single entry and clears everything', async () => {
+    const first = await recordRun({...baseRun, goal: 'first'});
+    await recordRun({...baseRun, goal: 'second'});
+
+    await deleteRun(first.id);
+    expect((await loadHistory()).map(r => r.goal)).toEqual(['second']);
+
+    await clearHistory();
+    expect(await loadHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  MAX_RECENT,
+  getInputState,
+  loadInputState,
+  recordSubmission,
+  resetInputStateCache,
+  searchRecent,
+  updateDraft,
+} from '../src/state/inputHistory';
+import {
+  createMemoryStorage,
+  setStorageAdapter,
+  writeJson,
+} from '../src/state/storage';
+
+describe('input history', () => {
+  beforeEach(() => {
+    setStorageAdapter(createMemoryStorage());
+    resetInputStateCache();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('keeps a separate draft per mode and saves it after typing stops', async () => {
+    jest.useFakeTimers();
+    updateDraft('chat', {task: 'How do I cook rice?', context: 'no cooker'});
+    updateDraft('device', {task: 'open Settings', context: ''});
+    expect(getInputState().chat.draft.task).toBe('How do I cook rice?');
+
+    jest.advanceTimersByTime(500);
+    jest.useRealTimers();
+    // The save waits for the stored state to load first.
+    await new Promise<void>(resolve => setTimeout(() => resolve(), 0));
+
+    resetInputStateCache();
+    const stored = await loadInputState();
+    expect(stored.chat.draft).toEqual({
+      task: 'How do I cook rice?',
+      context: 'no cooker',
+    });
+    expect(stored.device.draft.task).toBe('open Settings');
+  });
+
+  test('keeps stored entries when typing before the load finishes', async () => {
+    await writeJson('controls.input.v1', {
+      chat: {
+        draft: {task: 'old chat draft', context: ''},
+        recent: [{task: 'What is pasta?', submittedAt: 1}],
+      },
+      device: {
+        draft: {task: 'open Clock', context: ''},
+        recent: [{task: 'open Settings', submittedAt: 2}],
+      },
+    });
+
+    const load = loadInputState();
+    updateDraft('chat', {task: 'typed early', context: ''});
+    const submitted = recordSubmission('device', 'open Music', undefined, 3);
+    expect(getInputState().device.draft.task).toBe('');
+
+    await load;
+    await submitted;
+    const expected = {
+      chat: {
+        draft: {task: 'typed early', context: ''},
+        recent: [{task: 'What is pasta?', submittedAt: 1}],
+      },
+      device: {
+        draft: {task: 'open Clock', context: ''},
+        recent: [
+          {task: 'open Music', submittedAt: 3},
+          {task: 'open Settings', submittedAt: 2},
+        ],
+      },
+    };
+    expect(getInputState()).toEqual(expected);
+
+    resetInputStateCache();
+    expect(await loadInputState()).toEqual(expected);
+  });
+
+  test('records submissions newest first without duplicates', async () => {
+    await recordSubmission('device', 'open Settings', undefined, 1);
+    await recordSubmission('device', 'open Clock', undefined, 2);
+    await recordSubmission('device', 'open Settings', undefined, 3);
+    await recordSubmission('chat', 'open Settings', 'as a question', 4);
+
+    resetInputStateCache();
+    const stored = await loadInputState();
+    expect(stored.device.recent).toEqual([
+      {task: 'open Settings', submittedAt: 3},
+      {task: 'open Clock', submittedAt: 2},
+    ]);
+    expect(stored.chat.recent).toHaveLength(1);
+  });
+
+  test(`keeps only the last ${MAX_RECENT} submissions`, async () => {
+    for (let i = 0; i < MAX_RECENT + 5; i++) {
+      await recordSubmission('chat', `task ${i}`, undefined, i);
+    }
+    const {recent} = getInputState().chat;
+    expect(recent).toHaveLength(MAX_RECENT);
+    expect(recent[0].task).toBe(`task ${MAX_RECENT + 4}`);
+  });
+
+  test('searches task and context case-insensitively', () => {
+    const recent = [
+      {task: 'Open Settings and turn on Bluetooth', submittedAt: 2},
+      {task: 'Summarize', context: 'bluetooth release notes', submittedAt: 1},
+      {task: 'open Clock', submittedAt: 0},
+    ];
+    expect(searchRecent(recent, ' BLUETOOTH ')).toHaveLength(2);
+    expect(searchRecent(recent, '')).toBe(recent);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  buildRepairPrompt,
+  firstJsonValue,
+  parseSchema,
+  parseStructuredOutput,
+  validateJson,
+} from '../src/state/jsonSchema';
+import type {JsonSchema} from '../src/state/types';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    answer: {type: 'string', minLength: 1},
+    confidence: {type: 'number', minimum: 0, maximum: 1},
+    tags: {type: 'array', items: {type: 'string'}, maxItems: 2},
+    level: {enum: ['low', 'high']},
+  },
+  required: ['answer', 'confidence'],
+  additionalProperties: false,
+};
+
+describe('JSON schema', () => {
+  test('finds JSON wrapped in prose or code fences', () => {
+    expect(firstJsonValue('Sure!\n```json\n{"a": "}"}\n```')).toBe(
+      '{"a": "}"}',
+    );
+    expect(firstJsonValue('Items: [1, {"b": [2]}] done')).toBe(
+      '[1, {"b": [2]}]',
+    );
+    expect(firstJsonValue('{"a": [1}')).toBeNull();
+    expect(firstJsonValue('no json here')).toBeNull();
+  });
+
+  test('accepts a value that matches', () => {
+    expect(
+      validateJson(
+        {answer: 'Paris', confidence: 1, tags: ['geo'], level: 'low'},
+        schema,
+      ),
+    ).toEqual([]);
+  });
+
+  test('lists every mismatch with its path', () => {
+    expect(
+      validateJson(
+        {answer: '', confidence: 2, tags: ['a', 3, 'c'], level: 'mid', x: 1},
+        schema,
+      ),
+    ).toEqual([
+      '$.answer: must be at least 1 characters',
+      '$.confidence: must be at most 1',
+      '$.tags: allows at most 2 items',
+      '$.tags[1]: expected string, got integer',
+      '$.level: must be one of "low", "high"',
+      '$: unexpected "x"',
+    ]);
+    expect(validateJson({answer: 'a'}, schema)).toEqual([
+      '$: missing "confidence"',
+    ]);
+    expect(validateJson([], schema)).toEqual(['$: expected object, got array']);
+  });
+
+  test('parses and validates model output', () => {
+    expect(
+      parseStructuredOutput('{"answer": "Paris", "confidence": 0.9}', schema),
+    ).toEqual({ok: true, value: {answer: 'Paris', confidence: 0.9}});
+    expect(parseStructuredOutput('Paris', schema)).toEqual({
+      ok: false,
+      errors: ['No JSON value in the output'],
+    });
+  });
+
+  test('rejects schemas that are not objects or use unknown types', () => {
+    expect(parseSchema('{"type": "object"}')).toEqual({
+      schema: {type: 'object'},
+    });
+    expect(parseSchema('[]')).toEqual({
+      error: 'The schema must be a JSON object',
+    });
+    expect(parseSchema('{"type": "text"}')).toEqual({
+      error: 'Unknown type "text"',
+    });
+    expect(parseSchema('{')).toHaveProperty('error');
+  });
+
+  test('repair prompt carries the problems and the schema', () => {
+    const prompt = buildRepairPrompt(
+      'Capital of France?',
+      '{"answer": "Paris"}',
+      ['$: missing "confidence"'],
+      schema,
+    );
+    expect(prompt).toContain('- $: missing "confidence"');
+    expect(prompt).toContain('"required":["answer","confidence"]');
+    expect(prompt).toContain('Previous answer: {"answer": "Paris"}');
+  });
+});
@@ -0,0 +1,45 @@
+import {
+  MAX_DOCUMENT_CHARS,
+  addDocument,
+  loadKnowledge,
+  removeDocument,
+  resetKnowledgeCache,
+  retrieve,
+  setKnowledgeEnabled,
+} from '../src/state/knowledge';
+import {createMemoryStorage, setStorageAdapter} from '../src/state/storage';
+
+describe('knowledge base', () => {
+  beforeEach(() => {
+    setStorageAdapter(createMemoryStorage());
+    resetKnowledgeCache();
+  });
+
+  test('persists documents and retrieves from them', async () => {
+    const note = await addDocument(
+      '  ',
+      'The spare key is under the blue flower pot.',
+    );
+    expect(note.title).toBe('Untitled note');
+
+    resetKnowledgeCache();
+    expect((await loadKnowledge()).documents).toHaveLength(1);
+    expect(await retrieve('where is the spare key?')).toMatchObject([
+      {documentId: note.id},
+    ]);
+
+    await removeDocument(note.id);
+    expect(await retrieve('where is the spare key?')).toEqual([]);
+  });
+
+  test('retrieves nothing while switched off', async () => {
+    await addDocument('Keys', 'The spare key is under the blue flower pot.');
+    await setKnowledgeEnabled(false);
+    expect(await retrieve('spare key')).toEqual([]);
+  });
+
+  test('caps very long documents', async () => {
+    const note = await addDocument('Big', 'x'.repeat(MAX_DOCUMENT_CHARS + 10));
+    expect(note.text).toHaveLength(MAX_DOCUMENT_CHARS);
+  });
+});
@@ -0,0 +1,24 @@
+import {moveItem} from '../src/state/lists';
+
+const items = ['a', 'b', 'c'].map(id => ({id}));
+
+describe('moveItem', () => {
+  test('moves an item by an offset', () => {
+    expect(moveItem(items, 'c', -1).map(item => item.id)).toEqual([
+      'a',
+      'c',
+      'b',
+    ]);
+    expect(moveItem(items, 'a', 2).map(item => item.id)).toEqual([
+      'b',
+      'c',
+      'a',
+    ]);
+  });
+
+  test('returns the same list for moves out of bounds', () => {
+    expect(moveItem(items, 'a', -1)).toBe(items);
+    expect(moveItem(items, 'c', 1)).toBe(items);
+    expect(moveItem(items, 'missing', 1)).toBe(items);
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  createIncrementalParser,
+  parseInline,
+  parseMarkdown,
+  stableBoundary,
+} from '../src/state/markdown';
+
+describe('parseInline', () => {
+  test('parses bold, italics, inline code and links', () => {
+    expect(
+      parseInline('**Bold** and *it* with `x_y` see [docs](https://a.b)'),
+    ).toEqual([
+      {type: 'strong', children: [{type: 'text', text: 'Bold'}]},
+      {type: 'text', text: ' and '},
+      {type: 'em', children: [{type: 'text', text: 'it'}]},
+      {type: 'text', text: ' with '},
+      {type: 'code', text: 'x_y'},
+      {type: 'text', text: ' see '},
+      {
+        type: 'link',
+        href: 'https://a.b',
+        children: [{type: 'text', text: 'docs'}],
+      },
+    ]);
+  });
+
+  test('keeps only the label of links with other schemes', () => {
+    for (const href of [
+      'intent://scan#Intent;scheme=zxing;end',
+      'tel:+15550100',
+      'sms:+15550100',
+      'file:///sdcard/notes.txt',
+      'data:text/html,hi',
+      'myapp://open',
+      '/relative/path',
+    ]) {
+      expect(parseInline(`Tap [**here**](${href}) now`)).toEqual([
+        {type: 'text', text: 'Tap '},
+        {type: 'strong', children: [{type: 'text', text: 'here'}]},
+        {type: 'text', text: ' now'},
+      ]);
+    }
+    expect(parseInline('[mail](mailto:a@b.c)')).toEqual([
+      {
+        type: 'link',
+        href: 'mailto:a@b.c',
+        children: [{type: 'text', text: 'mail'}],
+      },
+    ]);
+    expect(parseInline('[Docs](HTTPS://a.b)')[0]).toMatchObject({
+      type: 'link',
+    });
+  });
+
+  test('leaves snake_case and lone asterisks alone', () => {
+    expect(parseInline('use snake_case_name and 2 * 3')).toEqual([
+      {type: 'text', text: 'use snake_case_name and 2 * 3'},
+    ]);
+  });
+
+  test('turns bare URLs into links', () => {
+    expect(parseInline('Visit https://example.com.')).toEqual([
+      {type: 'text', text: 'Visit '},
+      {
+        type: 'link',
+        href: 'https://example.com',
+        children: [{type: 'text', text: 'https://example.com'}],
+      },
+      {type: 'text', text: '.'},
+    ]);
+  });
+
+  test('keeps unclosed markers literal when the text is complete', () => {
+    expect(parseInline('a **b')).toEqual([{type: 'text', text: 'a **b'}]);
+  });
+
+  test('treats unclosed markers as open while streaming', () => {
+    expect(parseInline('a **bo', true)).toEqual([
+      {type: 'text', text: 'a '},
+      {type: 'strong', children: [{type: 'text', text: 'bo'}]},
+    ]);
+    expect(parseInline('run `npm i', true)).toEqual([
+      {type: 'text', text: 'run '},
+      {type: 'code', text: 'npm i'},
+    ]);
+  });
+
+  test('hides dangling markers and half-written links while streaming', () => {
+    expect(parseInline('Hello **', true)).toEqual([
+      {type: 'text', text: 'Hello '},
+    ]);
+    expect(parseInline('See [the docs](https://exa', true)).toEqual([
+      {type: 'text', text: 'See '},
+      {type: 'text', text: 'the docs'},
+    ]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  test('parses headings, paragraphs and rules', () => {
+    const blocks = parseMarkdown('# Title\nFirst line\nsecond line\n\n---');
+    expect(blocks.map(block => block.type)).toEqual([
+      'heading',
+      'paragraph',
+      'rule',
+    ]);
+    expect(blocks[0]).toMatchObject({type: 'heading', level: 1});
+    expect(blocks[1]).toMatchObject({
+      children: [{type: 'text', text: 'First line\nsecond line'}],
+    });
+  });
+
+  test('keeps ordered list numbering and nests indented items', () => {
+    const [list] = parseMarkdown(
+      '3. Three\n4. Four\n   - sub a\n   - sub b\n5. Five',
+    );
+    expect(list).toMatchObject({type: 'list', ordered: true, start: 3});
+    if (list.type !== 'list') {
+      throw new Error('expected a list');
+    }
+    expect(list.items).toHaveLength(3);
+    expect(list.items[1].children[0]).toMatchObject({
+      ordered: false,
+      items: [
+        {content: [{type: 'text', text: 'sub a'}]},
+        {content: [{type: 'text', text: 'sub b'}]},
+      ],
+    });
+  });
+
+  test('continues a list across blank lines between items', () => {
+    const blocks = parseMarkdown('- one\n\n- two\n\nAfter');
+    expect(blocks.map(block => block.type)).toEqual(['list', 'paragraph']);
+  });
+
+  test('parses fenced code blocks without touching their contents', () => {
+    const [code] = parseMarkdown('```ts\nconst a = **b**;\n```');
+    expect(code).toEqual({
+      type: 'code',
+      lang: 'ts',
+      text: 'const a = **b**;',
+      closed: true,
+    });
+  });
+
+  test('marks an unterminated fence as open', () => {
+    const [code] = parseMarkdown('```\nline 1\nline 2');
+    expect(code).toMatchObject({
+      type: 'code',
+      text: 'line 1\nline 2',
+      closed: false,
+    });
+  });
+
+  test('parses tables with alignment', () => {
+    const [table] = parseMarkdown(
+      '| Name | Size |\n|:-----|-----:|\n| a | 1 |\n| b | 2 |',
+    );
+    expect(table).toMatchObject({
+      type: 'table',
+      align: ['left', 'right'],
+      header: [[{text: 'Name'}], [{text: 'Size'}]],
+      rows: [
+        [[{text: 'a'}], [{text: '1'}]],
+        [[{text: 'b'}], [{text: '2'}]],
+      ],
+    });
+  });
+
+  test('parses block quotes recursively', () => {
+    const [quote] = parseMarkdown('> **Note**\n> - item');
+    expect(quote).toMatchObject({
+      type: 'quote',
+      children: [{type: 'paragraph'}, {type: 'list'}],
+    });
+  });
+});
+
+describe('incremental parsing', () => {
+  test('a boundary only follows a blank line outside a fence', () => {
+    expect(stableBoundary('Para one\n\nPara two\n')).toBe(10);
+    expect(stableBoundary('```\na\n\nb\n')).toBe(0);
+    // A list item after a blank line may still belong to the list above.
+    expect(stableBoundary('- a\n\n- b\n')).toBe(0);
+    // The line after the blank must be complete.
+    expect(stableBoundary('Para one\n\nPa')).toBe(0);
+  });
+
+  test('reuses stable blocks while streaming', () => {
+    const parse = createIncrementalParser();
+    const first = parse('# Plan\n\nSome **bold** text.\n\nNe', true);
+    const second = parse('# Plan\n\nSome **bold** text.\n\nNext **st', true);
+    expect(second[0]).toBe(first[0]);
+    expect(second[1]).toEqual(first[1]);
+    expect(second[2]).toEqual({
+      type: 'paragraph',
+      children: [
+        {type: 'text', text: 'Next '},
+        {type: 'strong', children: [{type: 'text', text: 'st'}]},
+      ],
+    });
+  });
+
+  test('ends up identical to a full parse', () => {
+    const text =
+      '# Plan\n\nSome **bold** text.\n\n1. First\n2. Second\n\n```js\nx();\n```\n\nDone.';
+    const parse = createIncrementalParser();
+    for (let end = 1; end < text.length; end++) {
+      parse(text.slice(0, end), true);
+    }
+    expect(parse(text, false)).toEqual(parseMarkdown(text));
+  });
+
+  test('starts over when the text is replaced', () => {
+    const parse = createIncrementalParser();
+    parse('First answer\n\nMore\n', true);
+    expect(parse('Other', false)).toEqual(parseMarkdown('Other'));
+  });
+});
@@ -0,0 +1,99 @@
+import {createMetricsRecorder, formatMetrics} from '../src/state/metrics';
+
+function clock(start = 1000) {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe('createMetricsRecorder', () => {
+  test('times download, load, first token and decode rate', () => {
+    const {now, advance} = clock();
+    const recorder = createMetricsRecorder(now);
+
+    recorder.downloadStarted();
+    advance(30_000);
+    recorder.loadStarted();
+    advance(2_000);
+    recorder.modelReady();
+    advance(400);
+    recorder.token();
+    for (let i = 0; i < 20; i++) {
+      advance(50);
+      recorder.token();
+    }
+
+    expect(recorder.snapshot()).toEqual({
+      downloadMs: 30_000,
+      loadMs: 2_000,
+      timeToFirstTokenMs: 400,
+      tokensPerSecond: 20,
+      totalTokens: 21,
+      decisionLatenciesMs: [],
+    });
+  });
+
+  test('leaves skipped phases null', () => {
+    const {now, advance} = clock();
+    const recorder = createMetricsRecorder(now);
+
+    recorder.modelReady();
+    advance(120);
+    recorder.token();
+
+    expect(recorder.snapshot()).toMatchObject({
+      downloadMs: null,
+      loadMs: null,
+      timeToFirstTokenMs: 120,
+      tokensPerSecond: null,
+      totalTokens: 1,
+    });
+  });
+
+  test('derives the rate of non-streamed decisions from their latency', () => {
+    const recorder = createMetricsRecorder();
+
+    recorder.modelLoaded(1_500);
+    recorder.decision(800, 16);
+    recorder.decision(1_200, 24);
+
+    expect(recorder.snapshot()).toEqual({
+      downloadMs: null,
+      loadMs: 1_500,
+      timeToFirstTokenMs: null,
+      tokensPerSecond: 20,
+      totalTokens: 40,
+      decisionLatenciesMs: [800, 1_200],
+    });
+  });
+});
+
+describe('formatMetrics', () => {
+  test('lists only the phases that have data', () => {
+    expect(
+      formatMetrics({
+        downloadMs: null,
+        loadMs: 2_300,
+        timeToFirstTokenMs: 420,
+        tokensPerSecond: 18.25,
+        totalTokens: 356,
+        decisionLatenciesMs: [],
+      }),
+    ).toEqual(['TTFT 420ms', '18.3 tok/s', '356 tok', 'load 2.3s']);
+
+    expect(
+      formatMetrics({
+        downloadMs: 61_000,
+        loadMs: null,
+        timeToFirstTokenMs: null,
+        tokensPerSecond: null,
+        totalTokens: 0,
+        decisionLatenciesMs: [900, 1_100],
+      }),
+    ).toEqual(['step 1.0s avg', 'download 61.0s']);
+  });
+});
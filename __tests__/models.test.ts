@@ -0,0 +1,44 @@
+import {
+  DEFAULT_CONTEXT_LENGTH,
+  formatBytes,
+  getContextLength,
+  getModelLabel,
+  rememberModels,
+} from '../src/state/models';
+import type {ModelInfo} from '../src/state/types';
+
+const model: ModelInfo = {
+  id: 'test-model-q4',
+  name: 'Test Model Q4',
+  label: 'Test Model (Small)',
+  downloadSizeBytes: 250_000_000,
+  sizeOnDiskBytes: 0,
+  memoryRequirement: 400_000_000,
+  contextLength: 4096,
+  downloaded: false,
+  downloading: false,
+  loaded: false,
+};
+
+describe('models', () => {
+  test('falls back to the id until the catalog has been listed', () => {
+    expect(getModelLabel('unknown-model')).toBe('unknown-model');
+  });
+
+  test('uses catalog labels once models are remembered', () => {
+    rememberModels([model]);
+    expect(getModelLabel('test-model-q4')).toBe('Test Model (Small)');
+  });
+
+  test('knows the context window of remembered models only', () => {
+    expect(getContextLength('unknown-model')).toBe(DEFAULT_CONTEXT_LENGTH);
+    rememberModels([model]);
+    expect(getContextLength('test-model-q4')).toBe(4096);
+  });
+
+  test('formats sizes in MB and GB', () => {
+    expect(formatBytes(0)).toBe('0 MB');
+    expect(formatBytes(386_000_000)).toBe('386 MB');
+    expect(formatBytes(1_250_000_000)).toBe('1.25 GB');
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  MAX_PLAN_STEPS,
+  buildPlanPrompt,
+  createPlan,
+  parsePlan,
+  resetPlan,
+  setStepStatus,
+  skipRemaining,
+} from '../src/state/planner';
+
+const GOAL = 'Open Settings and turn on Bluetooth';
+
+describe('planner', () => {
+  test('asks for a bounded, numbered list for the goal', () => {
+    const prompt = buildPlanPrompt(`  ${GOAL} `);
+    expect(prompt).toContain(`Task: ${GOAL}\n`);
+    expect(prompt).toContain(`at most ${MAX_PLAN_STEPS}`);
+    expect(prompt.endsWith('Steps:')).toBe(true);
+  });
+
+  test('strips list markers, trailing punctuation and repeats', () => {
+    const text = [
+      ' 1. Open Settings.',
+      '2) Tap Connected devices',
+      '',
+      '- tap connected devices',
+      'Step 3: Turn on Bluetooth;',
+      '* ',
+    ].join('\n');
+    expect(parsePlan(text, GOAL)).toEqual([
+      'Open Settings',
+      'Tap Connected devices',
+      'Turn on Bluetooth',
+    ]);
+  });
+
+  test('falls back to the whole goal and caps long plans', () => {
+    expect(parsePlan(' \n 1. \n', GOAL)).toEqual([GOAL]);
+    const long = Array.from({length: 10}, (_, i) => `${i + 1}. step ${i}`);
+    expect(parsePlan(long.join('\n'), GOAL)).toHaveLength(MAX_PLAN_STEPS);
+  });
+
+  test('skips the steps after one that did not finish', () => {
+    let plan = createPlan(GOAL, ['open Settings', 'tap Bluetooth', 'go home']);
+    const [first, second] = plan.steps;
+    plan = setStepStatus(plan, first.id, 'done');
+    plan = setStepStatus(plan, second.id, 'error');
+    expect(skipRemaining(plan).steps.map(step => step.status)).toEqual([
+      'done',
+      'error',
+      'skipped',
+    ]);
+  });
+
+  test('reset drops blank steps and marks the rest pending', () => {
+    let plan = createPlan(GOAL, ['open Settings', '  ', ' tap Bluetooth ']);
+    plan = skipRemaining(setStepStatus(plan, plan.steps[0].id, 'done'));
+    expect(resetPlan(plan).steps).toEqual([
+      expect.objectContaining({goal: 'open Settings', status: 'pending'}),
+      expect.objectContaining({goal: 'tap Bluetooth', status: 'pending'}),
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  BUILT_IN_TEMPLATES,
+  createTemplate,
+  fillTemplate,
+  groupTemplates,
+  templateVariables,
+} from '../src/state/promptTemplates';
+
+describe('prompt templates', () => {
+  test('ships the README examples for both modes', () => {
+    const tasks = BUILT_IN_TEMPLATES.map(template => template.task);
+    expect(tasks).toEqual(
+      expect.arrayContaining([
+        'open Settings',
+        'Open Settings and turn on Bluetooth',
+      ]),
+    );
+    expect(groupTemplates(BUILT_IN_TEMPLATES, 'chat').length).toBeGreaterThan(
+      0,
+    );
+  });
+
+  test('lists variables once, in order, across task and context', () => {
+    const template = createTemplate({
+      name: 'Reply',
+      mode: 'chat',
+      category: '',
+      task: 'Reply to {{ sender }} about {{topic}}',
+      context: '{{topic}}: {{notes}}',
+    });
+    expect(templateVariables(template)).toEqual(['sender', 'topic', 'notes']);
+    expect(template.category).toBe('Saved');
+  });
+
+  test('fills known variables and leaves blank ones visible', () => {
+    expect(
+      fillTemplate('open {{app}} then {{action}}', {
+        app: ' Music ',
+        action: '',
+      }),
+    ).toBe('open Music then {{action}}');
+  });
+
+  test('groups templates of one mode by category', () => {
+    const groups = groupTemplates(BUILT_IN_TEMPLATES, 'device');
+    expect(groups.map(group => group.category)).toEqual(['Apps', 'Settings']);
+    expect(
+      groups.every(group => group.templates.every(t => t.mode === 'device')),
+    ).toBe(true);
+  });
+});
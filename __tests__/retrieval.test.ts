@@ -0,0 +1,109 @@
+import {
+  buildIndex,
+  chunkDocument,
+  fitSources,
+  formatSources,
+  search,
+  tokenize,
+} from '../src/state/retrieval';
+import {estimateTokens} from '../src/state/conversation';
+import type {KnowledgeDocument, RetrievedChunk} from '../src/state/types';
+
+function doc(id: string, title: string, text: string): KnowledgeDocument {
+  return {id, title, text, addedAt: 0};
+}
+
+const router = doc(
+  'router',
+  'Home network',
+  [
+    '# Wi-Fi',
+    'The guest network is called Harbor and its password is blue-otter-42.',
+    '',
+    '# Printer',
+    'The printer sits in the hallway. Reset it by holding the power button.',
+  ].join('\n'),
+);
+
+const recipes = doc(
+  'recipes',
+  'Recipes',
+  'Pasta: boil salted water, cook for ten minutes, drain.\n\nPancakes need flour, eggs and milk.',
+);
+
+describe('retrieval', () => {
+  test('tokenizes without stop words and folds plurals', () => {
+    expect(tokenize('What are the Notes for Wi-Fi passwords?')).toEqual([
+      'note',
+      'wi',
+      'fi',
+      'password',
+    ]);
+  });
+
+  test('chunks by heading and keeps paragraphs together', () => {
+    const chunks = chunkDocument(router);
+    expect(chunks.map(chunk => [chunk.heading, chunk.text])).toEqual([
+      [
+        'Wi-Fi',
+        'The guest network is called Harbor and its password is blue-otter-42.',
+      ],
+      [
+        'Printer',
+        'The printer sits in the hallway. Reset it by holding the power button.',
+      ],
+    ]);
+    expect(chunks[1].id).toBe('router#1');
+  });
+
+  test('splits long paragraphs at sentence ends', () => {
+    const text = 'One short sentence here. '.repeat(10).trim();
+    const chunks = chunkDocument(doc('long', 'Long', text), 60);
+    expect(chunks.length).toBeGreaterThan(3);
+    expect(chunks.every(chunk => chunk.text.length <= 60)).toBe(true);
+    expect(chunks[0].text).toBe(
+      'One short sentence here. One short sentence here.',
+    );
+  });
+
+  test('ranks the matching passage first and skips unrelated ones', () => {
+    const index = buildIndex([router, recipes]);
+    const results = search(index, 'What is the guest wifi password?');
+    expect(results[0]).toMatchObject({
+      documentId: 'router',
+      heading: 'Wi-Fi',
+    });
+    expect(results.every(result => result.documentId === 'router')).toBe(true);
+
+    expect(search(index, 'how long do I cook pasta', 1)).toMatchObject([
+      {documentId: 'recipes'},
+    ]);
+    expect(search(index, 'quantum chromodynamics')).toEqual([]);
+  });
+
+  test('numbers sources for the prompt', () => {
+    const [first] = search(buildIndex([router]), 'printer reset');
+    expect(formatSources([first])).toContain(
+      '[1] Home network › Printer\nThe printer sits',
+    );
+    expect(formatSources([])).toBe('');
+  });
+
+  test('drops the lowest-scoring sources until they fit', () => {
+    const chunk = (id: string, score: number): RetrievedChunk => ({
+      id,
+      documentId: 'notes',
+      title: 'Notes',
+      text: 'y'.repeat(400),
+      score,
+    });
+    const sources = [chunk('a', 3), chunk('b', 1), chunk('c', 2)];
+    const budget = estimateTokens(formatSources(sources.slice(0, 2)));
+    expect(fitSources(sources, 1000)).toBe(sources);
+    expect(fitSources(sources, budget).map(source => source.id)).toEqual([
+      'a',
+      'c',
+    ]);
+    expect(fitSources(sources, 10)).toEqual([]);
+  });
+});
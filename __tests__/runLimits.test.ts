@@ -0,0 +1,29 @@
+import {
+  DEFAULT_RUN_LIMITS,
+  clampLimits,
+  getDefaultLimits,
+} from '../src/state/runLimits';
+
+describe('run limits', () => {
+  test('falls back to the base defaults for unknown models', () => {
+    expect(getDefaultLimits('some-new-model')).toEqual(DEFAULT_RUN_LIMITS);
+  });
+
+  test('applies per-model overrides on top of the defaults', () => {
+    const qwen = getDefaultLimits('qwen2.5-1.5b-instruct-q4_k_m');
+    expect(qwen.maxElements).toBe(12);
+    expect(qwen.maxSteps).toBe(DEFAULT_RUN_LIMITS.maxSteps);
+  });
+
+  test('clamps out-of-range and non-numeric values', () => {
+    const clamped = clampLimits({
+      ...DEFAULT_RUN_LIMITS,
+      maxSteps: 500,
+      stepDelayMs: -10,
+      decisionTemperature: NaN,
+    });
+    expect(clamped.maxSteps).toBe(50);
+    expect(clamped.stepDelayMs).toBe(0);
+    expect(clamped.decisionTemperature).toBe(0);
+  });
+});
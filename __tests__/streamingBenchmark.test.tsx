@@ -0,0 +1,112 @@
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import {ChatTranscript} from '../src/components/ChatTranscript';
+import {MarkdownBlockView} from '../src/components/Markdown';
+import {useAgentRunner} from '../src/state/useAgentRunner';
+import {resetModelSelectionCache} from '../src/state/modelSelection';
+import {act, nextFrame} from '../jest/renderHook';
+import {
+  RUNANYWHERE_EVENTS,
+  deferred,
+  emitNative,
+  fakeRunAnywhere,
+} from '../jest/nativeModules';
+
+const TOKEN_COUNT = 20_000;
+// Tokens the fake model emits between two animation frames.
+const TOKENS_PER_FRAME = 50;
+
+// Deterministic Markdown-ish stream: paragraphs, headings and list items.
+function syntheticToken(i: number): string {
+  if (i % 400 === 0) {
+    return `\n\n## Section ${i / 400}\n\n`;
+  }
+  if (i % 60 === 0) {
+    return '\n\n';
+  }
+  if (i % 150 === 10) {
+    return '\n- item';
+  }
+  return i % 7 === 0 ? ' **word**' : ' word';
+}
+
+describe('streaming a long response', () => {
+  beforeEach(() => {
+    resetModelSelectionCache();
+  });
+
+  test(`renders ${TOKEN_COUNT} tokens with frame-batched, windowed updates`, async () => {
+    const run = deferred();
+    fakeRunAnywhere.runAgent.mockImplementationOnce(() => run.promise);
+
+    let renders = 0;
+    let start: (task: string) => Promise<void> = async () => undefined;
+    function Harness() {
+      const runner = useAgentRunner();
+      renders += 1;
+      start = runner.start;
+      const {state, turns} = runner;
+      // The LLM Chat path: the answer streams into the transcript's pending
+      // bubble, then becomes a turn.
+      return (
+        <ChatTranscript
+          turns={turns}
+          pendingOutput={
+            state.phase === 'running' ? state.partialOutput : undefined
+          }
+        />
+      );
+    }
+
+    let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+    const mountedBlocks = () =>
+      renderer!.root.findAllByType(MarkdownBlockView).length;
+    await act(() => {
+      renderer = ReactTestRenderer.create(<Harness />);
+    });
+    await act(() => {
+      start('Write a long report');
+    });
+
+    const rendersBefore = renders;
+    const startedAt = Date.now();
+    let expected = '';
+    let mostMountedWhileStreaming = 0;
+    for (let i = 0; i < TOKEN_COUNT; i += TOKENS_PER_FRAME) {
+      await act(async () => {
+        for (let j = i; j < i + TOKENS_PER_FRAME; j++) {
+          const token = syntheticToken(j);
+          expected += token;
+          emitNative(RUNANYWHERE_EVENTS.TOKEN, {token});
+        }
+        await nextFrame();
+      });
+      mostMountedWhileStreaming = Math.max(
+        mostMountedWhileStreaming,
+        mountedBlocks(),
+      );
+    }
+    await act(() => emitNative(RUNANYWHERE_EVENTS.DONE));
+    const elapsedMs = Date.now() - startedAt;
+
+    const frames = TOKEN_COUNT / TOKENS_PER_FRAME;
+    // One render per frame plus the final done state, not one per token.
+    expect(renders - rendersBefore).toBeLessThanOrEqual(frames + 2);
+
+    // Thousands of blocks, but only a window of them is mounted, both in
+    // the pending bubble and once the answer is a finished turn.
+    expect(mostMountedWhileStreaming).toBeGreaterThan(0);
+    expect(mostMountedWhileStreaming).toBeLessThan(60);
+    const mounted = mountedBlocks();
+    expect(mounted).toBeGreaterThan(0);
+    expect(mounted).toBeLessThan(60);
+
+    // Generous bound so a slow CI machine passes; a per-token setState with
+    // a full re-parse takes minutes here.
+    expect(elapsedMs).toBeLessThan(30_000);
+
+    await act(() => run.resolve(null));
+    expect(expected.length).toBeGreaterThan(TOKEN_COUNT * 4);
+    await act(() => renderer!.unmount());
+  }, 60_000);
+});
@@ -0,0 +1,102 @@
+import {
+  DEFAULT_TOOL_SETTINGS,
+  clampToolSettings,
+  runToolLoop,
+} from '../src/state/toolAgent';
+import {BUILT_IN_TOOLS} from '../src/state/builtInTools';
+import {createToolRegistry} from '../src/state/tools';
+
+function replies(...outputs: string[]) {
+  const contexts: string[] = [];
+  const complete = jest.fn(async (_task: string, context: string) => {
+    contexts.push(context);
+    return outputs.shift() ?? '';
+  });
+  return {complete, contexts};
+}
+
+const registry = createToolRegistry(BUILT_IN_TOOLS);
+
+describe('tool loop', () => {
+  test('feeds tool results back until the model answers', async () => {
+    const {complete, contexts} = replies(
+      '<tool_call>{"name": "calculator", "arguments": {"expression": "19 * 23"}}',
+      'It is 437.',
+    );
+    const onInvocation = jest.fn();
+    const result = await runToolLoop({
+      task: 'What is 19 times 23?',
+      history: [],
+      registry,
+      maxTurns: 4,
+      budget: 1400,
+      complete,
+      onInvocation,
+    });
+
+    expect(result.answer).toBe('It is 437.');
+    expect(result.turns).toBe(2);
+    expect(result.invocations).toMatchObject([
+      {name: 'calculator', output: '437', ok: true, turn: 1},
+    ]);
+    expect(onInvocation).toHaveBeenCalledTimes(1);
+    expect(contexts[0]).toContain('You can use these tools:');
+    expect(contexts[1]).toContain(
+      'calculator({"expression":"19 * 23"}) -> 437',
+    );
+  });
+
+  test('drops the tools on the last turn so the run ends', async () => {
+    const call =
+      '<tool_call>{"name": "calculator", "arguments": {"expression": "1+1"}}';
+    const {complete, contexts} = replies(call, `Two.${call}`);
+    const result = await runToolLoop({
+      task: 'Add',
+      history: [],
+      registry,
+      maxTurns: 2,
+      budget: 1400,
+      complete,
+    });
+
+    expect(result).toMatchObject({answer: 'Two.', turns: 2});
+    expect(result.invocations).toHaveLength(1);
+    expect(contexts[1]).not.toContain('You can use these tools:');
+    expect(contexts[1]).toContain('Do not call any more tools.');
+  });
+
+  test('sends the passages that fit next to the tools', async () => {
+    const source = (id: string, score: number) => ({
+      id,
+      documentId: 'notes',
+      title: `Note ${id}`,
+      text: 'z'.repeat(1200),
+      score,
+    });
+    const {complete, contexts} = replies('Done.');
+    const result = await runToolLoop({
+      task: 'Sum up my notes',
+      sources: [source('a', 1), source('b', 2)],
+      history: [],
+      registry,
+      maxTurns: 4,
+      budget: 600,
+      complete,
+    });
+
+    expect(result.sources.map(kept => kept.id)).toEqual(['b']);
+    expect(contexts[0]).toContain('[1] Note b');
+    expect(contexts[0]).not.toContain('Note a');
+    expect(contexts[0]).toContain('You can use these tools:');
+  });
+
+  test('clamps settings to at least one turn', () => {
+    expect(clampToolSettings({...DEFAULT_TOOL_SETTINGS, maxTurns: 0})).toEqual({
+      ...DEFAULT_TOOL_SETTINGS,
+      maxTurns: 1,
+    });
+    expect(
+      clampToolSettings({...DEFAULT_TOOL_SETTINGS, maxTurns: 99}).maxTurns,
+    ).toBe(8);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  createToolRegistry,
+  describeTools,
+  parseToolCall,
+  validateArguments,
+  visibleText,
+} from '../src/state/tools';
+import type {ToolDefinition} from '../src/state/tools';
+
+const echo: ToolDefinition = {
+  name: 'echo',
+  description: 'Repeats text.',
+  parameters: {
+    type: 'object',
+    properties: {text: {type: 'string'}, times: {type: 'integer'}},
+    required: ['text'],
+  },
+  handler: async ({text, times}) => String(text).repeat((times as number) ?? 1),
+};
+
+const broken: ToolDefinition = {
+  name: 'broken',
+  description: 'Always fails.',
+  parameters: {type: 'object', properties: {}},
+  handler: async () => {
+    throw new Error('Out of order');
+  },
+};
+
+describe('tools', () => {
+  test('parses tagged calls, with or without the closing tag', () => {
+    expect(
+      parseToolCall(
+        'Let me check.\n<tool_call>{"name": "echo", "arguments": {"text": "}"}}</tool_call>',
+      ),
+    ).toEqual({name: 'echo', arguments: {text: '}'}});
+    expect(
+      parseToolCall(
+        '<tool_call>\n{"name": "echo", "arguments": {"text": "a"}}',
+      ),
+    ).toEqual({name: 'echo', arguments: {text: 'a'}});
+  });
+
+  test('accepts a bare call object only when it is the whole reply', () => {
+    expect(parseToolCall(' {"name": "broken", "arguments": {}} ')).toEqual({
+      name: 'broken',
+      arguments: {},
+    });
+    expect(parseToolCall('Use {"name": "x"} in your config.')).toBeNull();
+    expect(parseToolCall('The answer is 4.')).toBeNull();
+    expect(parseToolCall('<tool_call>{"name": ')).toBeNull();
+  });
+
+  test('accepts alternate field names and rejects bad shapes', () => {
+    expect(
+      parseToolCall('<tool_call>{"tool": "echo", "args": "{\\"text\\": 1}"}'),
+    ).toEqual({name: 'echo', arguments: {text: 1}});
+    expect(
+      parseToolCall('<tool_call>{"name": "echo", "parameters": {"a": 2}}'),
+    ).toEqual({name: 'echo', arguments: {a: 2}});
+    expect(parseToolCall('<tool_call>{"name": 7}')).toBeNull();
+    expect(
+      parseToolCall('<tool_call>{"name": "echo", "arguments": [1]}'),
+    ).toBeNull();
+    expect(
+      parseToolCall('<tool_call>{"name": "echo", "arguments": "nope"}'),
+    ).toBeNull();
+  });
+
+  test('validates and coerces arguments against the schema', () => {
+    expect(validateArguments(echo.parameters, {text: 'a', times: '3'})).toEqual(
+      {args: {text: 'a', times: 3}},
+    );
+    expect(validateArguments(echo.parameters, {times: 2})).toEqual({
+      error: 'Missing argument "text"',
+    });
+    expect(validateArguments(echo.parameters, {text: 'a', times: 1.5})).toEqual(
+      {error: 'Argument "times" must be an integer'},
+    );
+    expect(validateArguments(echo.parameters, {text: 'a', loud: true})).toEqual(
+      {error: 'Unknown argument "loud"'},
+    );
+  });
+
+  test('reports unknown tools, bad arguments and handler errors as output', async () => {
+    const registry = createToolRegistry([echo, broken]);
+    const ok = await registry.execute(
+      {name: 'echo', arguments: {text: 'ab', times: 2}},
+      1,
+    );
+    expect(ok).toMatchObject({ok: true, output: 'abab', turn: 1});
+
+    const unknown = await registry.execute({name: 'search', arguments: {}}, 2);
+    expect(unknown).toMatchObject({ok: false});
+    expect(unknown.output).toContain('Available: echo, broken');
+
+    expect(
+      await registry.execute({name: 'echo', arguments: {}}, 2),
+    ).toMatchObject({ok: false, output: 'Missing argument "text"'});
+    expect(
+      await registry.execute({name: 'broken', arguments: {}}, 3),
+    ).toMatchObject({ok: false, output: 'Out of order'});
+  });
+
+  test('describes tools and hides calls from streamed text', () => {
+    const prompt = describeTools([echo]);
+    expect(prompt).toContain('- echo: Repeats text.');
+    expect(prompt).toContain('<tool_call>');
+    expect(visibleText('Checking...<tool_call>{"name"')).toBe('Checking...');
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  TRANSCRIPT_FORMAT,
+  TRANSCRIPT_VERSION,
+  buildChatExport,
+  buildDeviceExport,
+  renderTranscript,
+} from '../src/state/transcript';
+
+const NOW = Date.UTC(2025, 0, 20, 9, 30);
+const MODEL = 'qwen2.5-1.5b-instruct-q4_k_m';
+
+const chat = buildChatExport(
+  {
+    model: MODEL,
+    metrics: null,
+    turns: [
+      {id: 't1', role: 'user', text: 'What is RAM?', createdAt: 1},
+      {id: 't2', role: 'assistant', text: 'Working **memory**.', createdAt: 2},
+    ],
+  },
+  NOW,
+);
+
+const device = buildDeviceExport(
+  {
+    goal: 'Turn on Wi-Fi',
+    model: MODEL,
+    metrics: null,
+    status: 'done',
+    statusMessage: 'Goal achieved',
+    steps: [
+      {
+        step: 1,
+        startedAt: 10,
+        elementCount: 1,
+        rawDecision: '{"a":"tap","i":0}',
+        decision: {action: 'tap', index: 0},
+        heuristic: false,
+        approval: 'approve',
+        executedAt: 12,
+      },
+    ],
+    log: ['Step 1', 'Action: tap'],
+  },
+  NOW,
+);
+
+describe('transcript export', () => {
+  test('JSON carries the format marker and version', () => {
+    const parsed = JSON.parse(renderTranscript(chat, 'json'));
+    expect(parsed).toEqual({
+      format: TRANSCRIPT_FORMAT,
+      version: TRANSCRIPT_VERSION,
+      exportedAt: '2025-01-20T09:30:00.000Z',
+      model: MODEL,
+      metrics: null,
+      kind: 'chat',
+      turns: [
+        {role: 'user', text: 'What is RAM?', createdAt: 1},
+        {role: 'assistant', text: 'Working **memory**.', createdAt: 2},
+      ],
+    });
+  });
+
+  test('renders a chat as Markdown and plain text', () => {
+    expect(renderTranscript(chat, 'markdown')).toContain(
+      '## User\n\nWhat is RAM?\n\n## Assistant\n\nWorking **memory**.\n',
+    );
+    expect(renderTranscript(chat, 'text')).toContain(
+      'User:\nWhat is RAM?\n\nAssistant:\nWorking **memory**.\n',
+    );
+  });
+
+  test('renders a device run with its goal, steps and status', () => {
+    const markdown = renderTranscript(device, 'markdown');
+    expect(markdown).toContain('- Goal: Turn on Wi-Fi');
+    expect(markdown).toContain('- Status: done (Goal achieved)');
+    expect(markdown).toContain(
+      '### Step 1\n\n- Screen: 1 elements\n- Decision: tap #0\n- Approval: approve\n- Executed',
+    );
+    expect(renderTranscript(device, 'text')).toContain(
+      'Step 1\n  Screen: 1 elements\n  Decision: tap #0',
+    );
+    expect(JSON.parse(renderTranscript(device, 'json')).steps).toEqual(
+      device.steps,
+    );
+  });
+
+  test('keeps a timed-out run apart from a finished one', () => {
+    const timedOut = buildDeviceExport(
+      {
+        goal: 'Turn on Wi-Fi',
+        model: MODEL,
+        metrics: null,
+        status: 'timed_out',
+        outcome: 'timed_out',
+        statusMessage: 'Time limit reached',
+        steps: [],
+        log: [],
+      },
+      NOW,
+    );
+    expect(JSON.parse(renderTranscript(timedOut, 'json'))).toMatchObject({
+      status: 'timed_out',
+      outcome: 'timed_out',
+    });
+    expect(renderTranscript(timedOut, 'markdown')).toContain(
+      '- Status: Timed out (Time limit reached)',
+    );
+  });
+});
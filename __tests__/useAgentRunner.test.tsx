@@ -0,0 +1,415 @@
+import {useAgentRunner} from '../src/state/useAgentRunner';
+import {resetModelSelectionCache} from '../src/state/modelSelection';
+import {loadHistory, resetHistoryCache} from '../src/state/history';
+import {addDocument, resetKnowledgeCache} from '../src/state/knowledge';
+import {resetDownloadsCache} from '../src/state/downloads';
+import {createMemoryStorage, setStorageAdapter} from '../src/state/storage';
+import {act, nextFrame, renderHook} from '../jest/renderHook';
+import {
+  DEFAULT_MODEL_ID,
+  RUNANYWHERE_EVENTS,
+  deferred,
+  emitNative,
+  fakeModel,
+  fakeRunAnywhere,
+  runDone,
+  runError,
+  script,
+  tokens,
+} from '../jest/nativeModules';
+
+async function setup() {
+  const hook = await renderHook(() => useAgentRunner());
+  return {...hook, state: () => hook.result.current.state};
+}
+
+describe('useAgentRunner', () => {
+  beforeEach(() => {
+    setStorageAdapter(createMemoryStorage());
+    resetModelSelectionCache();
+    resetHistoryCache();
+    resetKnowledgeCache();
+    resetDownloadsCache();
+  });
+
+  test('starts idle', async () => {
+    const {state, unmount} = await setup();
+    expect(state()).toEqual({phase: 'idle'});
+    await unmount();
+  });
+
+  test('walks downloading → loading → running → done', async () => {
+    const download = deferred();
+    const run = deferred();
+    fakeRunAnywhere.downloadModel.mockImplementationOnce(() => download.promise);
+    fakeRunAnywhere.runAgent.mockImplementationOnce(() => run.promise);
+    const {result, state, unmount} = await setup();
+
+    await act(() => {
+      result.current.start('What is RAM?');
+    });
+    expect(state()).toMatchObject({
+      phase: 'downloading',
+      progress: 0,
+      download: {status: 'downloading', totalBytes: 500_000_000},
+    });
+
+    await act(() =>
+      emitNative(RUNANYWHERE_EVENTS.DOWNLOAD_PROGRESS, {
+        progress: 40,
+        modelId: DEFAULT_MODEL_ID,
+        bytesDownloaded: 200_000_000,
+        totalBytes: 500_000_000,
+      }),
+    );
+    expect(state()).toMatchObject({
+      phase: 'downloading',
+      progress: 40,
+      download: {bytesDownloaded: 200_000_000},
+    });
+
+    await act(() => download.resolve(null));
+    expect(state()).toEqual({phase: 'loading'});
+    expect(fakeRunAnywhere.loadModel).toHaveBeenCalledWith(DEFAULT_MODEL_ID);
+
+    await act(() => emitNative(RUNANYWHERE_EVENTS.TOKEN, {token: 'Memory'}));
+    await act(nextFrame);
+    expect(state()).toEqual({phase: 'running', partialOutput: 'Memory'});
+
+    await act(() => emitNative(RUNANYWHERE_EVENTS.TOKEN, {token: ' chips.'}));
+    await act(() => emitNative(RUNANYWHERE_EVENTS.DONE));
+    expect(state()).toEqual({phase: 'done', finalOutput: 'Memory chips.'});
+    expect(result.current.turns.map(turn => turn.role)).toEqual([
+      'user',
+      'assistant',
+    ]);
+
+    await act(() => run.resolve(null));
+    await unmount();
+  });
+
+  test('skips the download when the model is already on disk', async () => {
+    fakeRunAnywhere.listModels.mockResolvedValueOnce([
+      fakeModel(DEFAULT_MODEL_ID, {downloaded: true}),
+    ]);
+    fakeRunAnywhere.runAgent.mockImplementationOnce(
+      script([...tokens('Hi'), {emit: RUNANYWHERE_EVENTS.DONE}]),
+    );
+    const {result, state, unmount} = await setup();
+
+    await act(() => result.current.start('Hello'));
+    expect(fakeRunAnywhere.downloadModel).not.toHaveBeenCalled();
+    expect(state()).toEqual({phase: 'done', finalOutput: 'Hi'});
+    await unmount();
+  });
+
+  test('records timings with the run', async () => {
+    fakeRunAnywhere.runAgent.mockImplementationOnce(
+      script([...tokens('One', ' two', ' three'), runDone()]),
+    );
+    const {result, unmount} = await setup();
+
+    await act(() => result.current.start('Count'));
+    const {metrics} = result.current;
+    expect(metrics).toMatchObject({totalTokens: 3, decisionLatenciesMs: []});
+    // The fake downloads and loads instantly, but both phases happened.
+    expect(metrics?.downloadMs).toEqual(expect.any(Number));
+    expect(metrics?.loadMs).toEqual(expect.any(Number));
+    expect(metrics?.timeToFirstTokenMs).toEqual(expect.any(Number));
+
+    const [record] = await loadHistory();
+    expect(record.metrics).toEqual(metrics);
+    await unmount();
+  });
+
+  test('leaves download and load unset when the model is in memory', async () => {
+    fakeRunAnywhere.getLoadedModel.mockResolvedValue(DEFAULT_MODEL_ID);
+    const {result, unmount} = await setup();
+
+    await act(() => result.current.start('Hello'));
+    expect(result.current.metrics).toMatchObject({
+      downloadMs: null,
+      loadMs: null,
+      totalTokens: 0,
+    });
+    await unmount();
+  });
+
+  test('ignores download progress for other models', async () => {
+    const download = deferred();
+    fakeRunAnywhere.downloadModel.mockImplementationOnce(() => download.promise);
+    const {result, state, unmount} = await setup();
+
+    await act(() => {
+      result.current.start('Hello');
+    });
+    await act(() =>
+      emitNative(RUNANYWHERE_EVENTS.DOWNLOAD_PROGRESS, {
+        progress: 80,
+        modelId: 'smollm2-360m-instruct-q8_0',
+      }),
+    );
+    expect(state()).toMatchObject({phase: 'downloading', progress: 0});
+
+    await act(() => download.resolve(null));
+    await unmount();
+  });
+
+  test('reports no network instead of a download error', async () => {
+    fakeRunAnywhere.isNetworkAvailable.mockResolvedValueOnce(false);
+    const {result, state, unmount} = await setup();
+
+    await act(() => result.current.start('Hello'));
+    expect(state()).toEqual({phase: 'offline'});
+    expect(fakeRunAnywhere.downloadModel).not.toHaveBeenCalled();
+    expect(fakeRunAnywhere.runAgent).not.toHaveBeenCalled();
+    await unmount();
+  });
+
+  test('moves to error on an error event and keeps the partial answer', async () => {
+    fakeRunAnywhere.runAgent.mockImplementationOnce(
+      script([...tokens('Half an'), runError('Out of memory')]),
+    );
+    const {result, state, unmount} = await setup();
+
+    await act(() => result.current.start('Explain'));
+    expect(state()).toEqual({phase: 'error', message: 'Out of memory'});
+    expect(result.current.turns[1]).toMatchObject({
+      role: 'assistant',
+      text: 'Half an',
+    });
+    await unmount();
+  });
+
+  test('moves to error when a bridge call rejects', async () => {
+    fakeRunAnywhere.downloadModel.mockImplementationOnce(
+      script([{reject: 'No network', code: 'DOWNLOAD_ERROR'}]),
+    );
+    const {result, state, unmount} = await setup();
+
+    await act(() => result.current.start('Hello'));
+    expect(state()).toEqual({phase: 'error', message: 'No network'});
+    expect(fakeRunAnywhere.runAgent).not.toHaveBeenCalled();
+    await unmount();
+  });
+
+  test('stop cancels the run and keeps what streamed', async () => {
+    const run = deferred();
+    fakeRunAnywhere.runAgent.mockImplementationOnce(() => run.promise);
+    const {result, state, unmount} = await setup();
+
+    await act(() => {
+      result.current.start('Count to ten');
+    });
+    await act(() => emitNative(RUNANYWHERE_EVENTS.TOKEN, {token: 'One'}));
+    await act(() => result.current.stop());
+
+    expect(state()).toEqual({phase: 'cancelled'});
+    expect(fakeRunAnywhere.cancelRun).toHaveBeenCalledTimes(1);
+    expect(result.current.turns[1]).toMatchObject({text: 'One'});
+
+    // Events after stopping no longer reach the hook.
+    await act(() => emitNative(RUNANYWHERE_EVENTS.TOKEN, {token: ' two'}));
+    expect(state()).toEqual({phase: 'cancelled'});
+
+    // The native call settling late changes nothing either.
+    await act(() => run.reject(new Error('Cancelled')));
+    expect(state()).toEqual({phase: 'cancelled'});
+    await unmount();
+  });
+
+  test('stop reports a failed cancelRun instead of dropping it', async () => {
+    const run = deferred();
+    fakeRunAnywhere.runAgent.mockImplementationOnce(() => run.promise);
+    fakeRunAnywhere.cancelRun.mockRejectedValueOnce(new Error('Bridge gone'));
+    const {result, state, unmount} = await setup();
+
+    await act(() => {
+      result.current.start('Count to ten');
+    });
+    await act(() => result.current.stop());
+
+    expect(state()).toEqual({phase: 'error', message: 'Bridge gone'});
+    await act(() => run.resolve(null));
+    await unmount();
+  });
+
+  test('cancels a run that outlives the timeout', async () => {
+    jest.useFakeTimers();
+    try {
+      const run = deferred();
+      fakeRunAnywhere.runAgent.mockImplementationOnce(() => run.promise);
+      const {result, state, unmount} = await setup();
+
+      await act(() => {
+        result.current.start('Write an essay');
+      });
+      await act(() => emitNative(RUNANYWHERE_EVENTS.TOKEN, {token: 'Once'}));
+      await act(() => {
+        jest.advanceTimersByTime(120_000);
+      });
+
+      expect(state()).toEqual({phase: 'timed_out', timeoutMs: 120_000});
+      expect(fakeRunAnywhere.cancelRun).toHaveBeenCalledTimes(1);
+      expect(result.current.turns[1]).toMatchObject({text: 'Once'});
+      const [record] = await loadHistory();
+      expect(record).toMatchObject({finalPhase: 'error', output: 'Once'});
+      await unmount();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('publishes a burst of tokens once per frame', async () => {
+    const run = deferred();
+    fakeRunAnywhere.runAgent.mockImplementationOnce(() => run.promise);
+    const states: string[] = [];
+    const {result, unmount} = await renderHook(() => {
+      const runner = useAgentRunner();
+      if (runner.state.phase === 'running') {
+        states.push(runner.state.partialOutput);
+      }
+      return runner;
+    });
+
+    await act(() => {
+      result.current.start('Count');
+    });
+    await act(() => {
+      ['one', ' two', ' three'].forEach(token =>
+        emitNative(RUNANYWHERE_EVENTS.TOKEN, {token}),
+      );
+    });
+    await act(nextFrame);
+    expect(states).toEqual(['one two three']);
+
+    // Done supersedes a flush that is still pending.
+    await act(() => {
+      emitNative(RUNANYWHERE_EVENTS.TOKEN, {token: ' four'});
+      emitNative(RUNANYWHERE_EVENTS.DONE);
+    });
+    await act(nextFrame);
+    expect(result.current.state).toEqual({
+      phase: 'done',
+      finalOutput: 'one two three four',
+    });
+
+    await act(() => run.resolve(null));
+    await unmount();
+  });
+
+  test('adds matching notes to the context and cites them', async () => {
+    await addDocument(
+      'Home network',
+      '# Wi-Fi\nThe guest network password is blue-otter-42.',
+    );
+    fakeRunAnywhere.runAgent.mockImplementationOnce(
+      script([...tokens('It is blue-otter-42.'), runDone()]),
+    );
+    const {result, unmount} = await setup();
+
+    await act(() => result.current.start('What is the guest wifi password?'));
+
+    expect(fakeRunAnywhere.runAgent).toHaveBeenLastCalledWith(
+      'What is the guest wifi password?',
+      expect.stringContaining(
+        '[1] Home network › Wi-Fi\nThe guest network password is blue-otter-42.',
+      ),
+      null,
+      null,
+    );
+    const answer = result.current.turns[1];
+    expect(answer.sources).toMatchObject([{heading: 'Wi-Fi'}]);
+    await unmount();
+  });
+
+  test('structured mode returns the validated value', async () => {
+    fakeRunAnywhere.runAgent.mockImplementationOnce(
+      script([
+        ...tokens('{"answer": "Paris",', ' "confidence": 0.9}'),
+        runDone(),
+      ]),
+    );
+    const {result, state, unmount} = await setup();
+    await act(() =>
+      result.current.setStructured({
+        enabled: true,
+        schema: '{"type": "object", "required": ["answer"]}',
+      }),
+    );
+
+    await act(() => result.current.start('Capital of France?'));
+
+    expect(fakeRunAnywhere.runAgent).toHaveBeenLastCalledWith(
+      'Capital of France?',
+      expect.any(String),
+      expect.objectContaining({stopSequences: []}),
+      '{"type":"object","required":["answer"]}',
+    );
+    expect(state().phase).toBe('done');
+    expect(result.current.turns[1].structured).toEqual({
+      answer: 'Paris',
+      confidence: 0.9,
+    });
+    const [record] = await loadHistory();
+    expect(record.structured).toEqual({answer: 'Paris', confidence: 0.9});
+    await unmount();
+  });
+
+  test('structured mode repairs invalid output once, then fails', async () => {
+    fakeRunAnywhere.runAgent
+      .mockImplementationOnce(script([...tokens('Paris'), runDone()]))
+      .mockImplementationOnce(
+        script([...tokens('{"city": "Paris"}'), runDone()]),
+      );
+    const {result, state, unmount} = await setup();
+    await act(() =>
+      result.current.setStructured({
+        enabled: true,
+        schema: '{"type": "object", "required": ["answer"]}',
+      }),
+    );
+
+    await act(() => result.current.start('Capital of France?'));
+    await act(
+      () => new Promise<void>(resolve => setTimeout(() => resolve(), 10)),
+    );
+
+    expect(fakeRunAnywhere.runAgent).toHaveBeenCalledTimes(2);
+    expect(fakeRunAnywhere.runAgent).toHaveBeenLastCalledWith(
+      expect.stringContaining('- No JSON value in the output'),
+      expect.any(String),
+      expect.any(Object),
+      expect.any(String),
+    );
+    expect(state()).toEqual({
+      phase: 'error',
+      message: 'Output doesn\'t match the schema: $: missing "answer"',
+    });
+    expect(result.current.turns[1].text).toBe('{"city": "Paris"}');
+    await unmount();
+  });
+
+  test('structured mode rejects an invalid schema before running', async () => {
+    const {result, state, unmount} = await setup();
+    await act(() => result.current.setStructured({enabled: true, schema: '{'}));
+
+    await act(() => result.current.start('Capital of France?'));
+
+    expect(state().phase).toBe('error');
+    expect(fakeRunAnywhere.runAgent).not.toHaveBeenCalled();
+    await unmount();
+  });
+
+  test('clearConversation drops turns and resets to idle', async () => {
+    const {result, state, unmount} = await setup();
+
+    await act(() => result.current.start('Hello'));
+    expect(state().phase).toBe('done');
+
+    await act(() => result.current.clearConversation());
+    expect(state()).toEqual({phase: 'idle'});
+    expect(result.current.turns).toEqual([]);
+    await unmount();
+  });
+});
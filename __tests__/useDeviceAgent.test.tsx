@@ -0,0 +1,500 @@
+import {
+  STOP_GRACE_MS,
+  stateOutcome,
+  useDeviceAgent,
+} from '../src/state/useDeviceAgent';
+import {buildDeviceExport, renderTranscript} from '../src/state/transcript';
+import {resetModelSelectionCache} from '../src/state/modelSelection';
+import {loadHistory, resetHistoryCache} from '../src/state/history';
+import {createMemoryStorage, setStorageAdapter} from '../src/state/storage';
+import {act, renderHook} from '../jest/renderHook';
+import {
+  agentDone,
+  agentError,
+  agentEvent,
+  agentLog,
+  deferred,
+  emitNative,
+  fakeAgentKernel,
+  script,
+  AGENT_EVENTS,
+} from '../jest/nativeModules';
+
+async function runWith(steps: Parameters<typeof script>[0]) {
+  fakeAgentKernel.startAgent.mockImplementationOnce(script(steps));
+  const hook = await renderHook(() => useDeviceAgent());
+  await act(() => hook.result.current.start('Open settings'));
+  return hook;
+}
+
+function outputLines(state: ReturnType<typeof useDeviceAgent>['state']) {
+  return 'output' in state ? state.output.trim().split('\n') : [];
+}
+
+describe('useDeviceAgent', () => {
+  beforeEach(() => {
+    setStorageAdapter(createMemoryStorage());
+    resetModelSelectionCache();
+    resetHistoryCache();
+  });
+
+  test('appends log lines while running', async () => {
+    const {result, unmount} = await runWith([
+      agentLog('Using model: qwen'),
+      agentLog('Step 1'),
+    ]);
+    expect(result.current.state.phase).toBe('running');
+    expect(outputLines(result.current.state)).toEqual([
+      'Using model: qwen',
+      'Step 1',
+    ]);
+    await unmount();
+  });
+
+  test('collapses download progress into a single line', async () => {
+    const {result, unmount} = await runWith([
+      agentLog('Downloading model...'),
+      agentEvent('download_progress', {progress: 5}),
+      agentEvent('download_progress', {progress: 10}),
+      agentEvent('download_progress', {progress: 15}),
+      agentLog('Model loaded'),
+    ]);
+    expect(outputLines(result.current.state)).toEqual([
+      'Downloading model...',
+      'Downloading... 15%',
+      'Model loaded',
+    ]);
+    await unmount();
+  });
+
+  test('collapses progress sent both typed and as legacy lines', async () => {
+    const {result, unmount} = await runWith([
+      agentEvent('download_progress', {progress: 5}),
+      agentLog('Downloading... 5%'),
+      agentEvent('download_progress', {progress: 10}),
+      agentLog('Downloading... 10%'),
+      agentLog('Model loaded'),
+    ]);
+    expect(outputLines(result.current.state)).toEqual([
+      'Downloading... 10%',
+      'Model loaded',
+    ]);
+    await unmount();
+  });
+
+  test('does not collapse ordinary lines that look like progress', async () => {
+    const {result, unmount} = await runWith([
+      agentEvent('download_progress', {progress: 50}),
+      agentLog('Downloading... 60%'),
+      agentEvent('download_progress', {progress: 70}),
+    ]);
+    expect(outputLines(result.current.state)).toEqual([
+      'Downloading... 50%',
+      'Downloading... 60%',
+      'Downloading... 70%',
+    ]);
+    await unmount();
+  });
+
+  test('skips consecutive duplicate and blank lines', async () => {
+    const {result, unmount} = await runWith([
+      agentLog('Waiting for screen'),
+      agentLog('Waiting for screen'),
+      agentLog('   '),
+      agentLog('Tapped 3'),
+    ]);
+    expect(outputLines(result.current.state)).toEqual([
+      'Waiting for screen',
+      'Tapped 3',
+    ]);
+    await unmount();
+  });
+
+  test('keeps only the last 200 lines on screen', async () => {
+    const steps = Array.from({length: 210}, (_, i) => agentLog(`Line ${i}`));
+    const {result, unmount} = await runWith(steps);
+    const lines = outputLines(result.current.state);
+    expect(lines).toHaveLength(200);
+    expect(lines[0]).toBe('Line 10');
+    await unmount();
+  });
+
+  test('finishes with the done message appended', async () => {
+    const {result, unmount} = await runWith([
+      agentLog('Step 1'),
+      agentDone('Goal achieved'),
+    ]);
+    expect(result.current.state.phase).toBe('done');
+    expect(outputLines(result.current.state)).toEqual([
+      'Step 1',
+      'Goal achieved',
+    ]);
+    await unmount();
+  });
+
+  test('moves to error on AGENT_ERROR', async () => {
+    const {result, unmount} = await runWith([
+      agentLog('Step 1'),
+      agentError('App not found'),
+    ]);
+    expect(result.current.state).toEqual({
+      phase: 'error',
+      message: 'App not found',
+    });
+    await unmount();
+  });
+
+  test('records load time and per-step decision latency', async () => {
+    const {result, unmount} = await runWith([
+      agentEvent('model_loaded', {modelId: 'qwen', loadMs: 1800}),
+      agentEvent('screen_observed', {step: 1, timestamp: 1000}),
+      agentEvent('decision_parsed', {
+        step: 1,
+        timestamp: 1900,
+        action: 'tap',
+        tokens: 18,
+      }),
+      agentEvent('screen_observed', {step: 2, timestamp: 3000}),
+      agentEvent('decision_parsed', {
+        step: 2,
+        timestamp: 4100,
+        action: 'done',
+        tokens: 15,
+      }),
+      agentDone('Goal achieved'),
+    ]);
+    const expected = {
+      downloadMs: null,
+      loadMs: 1800,
+      timeToFirstTokenMs: null,
+      tokensPerSecond: 16.5,
+      totalTokens: 33,
+      decisionLatenciesMs: [900, 1100],
+    };
+    expect(result.current.metrics).toEqual(expected);
+    const [record] = await loadHistory();
+    expect(record.metrics).toEqual(expected);
+    await unmount();
+  });
+
+  test('refuses to start without the accessibility service', async () => {
+    fakeAgentKernel.isServiceEnabled.mockResolvedValueOnce(false);
+    const {result, unmount} = await renderHook(() => useDeviceAgent());
+    await act(() => result.current.start('Open settings'));
+    expect(result.current.state.phase).toBe('error');
+    expect(fakeAgentKernel.startAgent).not.toHaveBeenCalled();
+    await unmount();
+  });
+
+  test('reports a failed service check instead of rejecting', async () => {
+    fakeAgentKernel.isServiceEnabled.mockRejectedValueOnce(
+      new Error('Bridge gone'),
+    );
+    const {result, unmount} = await renderHook(() => useDeviceAgent());
+    await act(() => result.current.start('Open settings'));
+    expect(result.current.state).toEqual({
+      phase: 'error',
+      message: 'Bridge gone',
+    });
+    fakeAgentKernel.isServiceEnabled.mockRejectedValueOnce(
+      new Error('Bridge gone'),
+    );
+    let outcome: string | undefined;
+    await act(async () => {
+      outcome = await result.current.runGoal('Open settings');
+    });
+    expect(outcome).toBe('error');
+    expect(fakeAgentKernel.startAgent).not.toHaveBeenCalled();
+    await unmount();
+  });
+
+  test('never launches a run stopped during the service check', async () => {
+    const check = deferred<boolean>();
+    fakeAgentKernel.isServiceEnabled.mockImplementationOnce(
+      () => check.promise,
+    );
+    const {result, unmount} = await renderHook(() => useDeviceAgent());
+    let queued: Promise<string> | undefined;
+    await act(() => {
+      queued = result.current.runGoal('Open settings');
+    });
+    await act(() => result.current.stop());
+    await act(() => check.resolve(true));
+
+    await expect(queued).resolves.toBe('stopped');
+    expect(fakeAgentKernel.startAgent).not.toHaveBeenCalled();
+    expect(result.current.state).toEqual({phase: 'idle'});
+    await unmount();
+  });
+
+  test('runGoal resolves with the outcome of the run', async () => {
+    fakeAgentKernel.startAgent
+      .mockImplementationOnce(script([agentDone('Goal achieved')]))
+      .mockImplementationOnce(script([agentError('App not found')]));
+    const {result, unmount} = await renderHook(() => useDeviceAgent());
+    const outcomes: string[] = [];
+    await act(async () => {
+      outcomes.push(await result.current.runGoal('open Settings'));
+      outcomes.push(await result.current.runGoal('open Nowhere'));
+    });
+    expect(outcomes).toEqual(['done', 'error']);
+    fakeAgentKernel.isServiceEnabled.mockResolvedValueOnce(false);
+    await act(async () => {
+      outcomes.push(await result.current.runGoal('open Settings'));
+    });
+    expect(outcomes[2]).toBe('error');
+    await unmount();
+  });
+
+  test('runGoal reports a run replaced by a manual start as stopped', async () => {
+    fakeAgentKernel.startAgent
+      .mockImplementationOnce(script([agentLog('Step 1')]))
+      .mockImplementationOnce(script([agentDone('Goal achieved')]));
+    const {result, unmount} = await renderHook(() => useDeviceAgent());
+    let queued: Promise<string> | undefined;
+    await act(() => {
+      queued = result.current.runGoal('open Settings');
+    });
+    await act(() => result.current.start('open Music'));
+    await expect(queued).resolves.toBe('stopped');
+    expect(result.current.state.phase).toBe('done');
+    const records = await loadHistory();
+    expect(records.map(record => [record.goal, record.outcome])).toEqual([
+      ['open Music', 'succeeded'],
+      ['open Settings', 'cancelled'],
+    ]);
+    await unmount();
+  });
+
+  test('reports a run that hits its step limit as gave up', async () => {
+    const {result, unmount} = await runWith([
+      agentEvent('done', {reason: 'max_steps', message: 'Max steps reached'}),
+      agentDone('Max steps reached'),
+    ]);
+    expect(result.current.state).toMatchObject({
+      phase: 'done',
+      outcome: 'gave_up',
+    });
+    const [record] = await loadHistory();
+    expect(record).toMatchObject({finalPhase: 'error', outcome: 'gave_up'});
+    await unmount();
+  });
+
+  test('exports how the shown run ended', async () => {
+    const {result, unmount} = await runWith([
+      agentEvent('done', {reason: 'max_steps', message: 'Max steps reached'}),
+      agentDone('Max steps reached'),
+    ]);
+    const doc = buildDeviceExport({
+      goal: 'Open settings',
+      model: 'm',
+      metrics: null,
+      status: 'done',
+      outcome: stateOutcome(result.current.state),
+      statusMessage: null,
+      steps: [],
+      log: [],
+    });
+    expect(JSON.parse(renderTranscript(doc, 'json'))).toMatchObject({
+      status: 'done',
+      outcome: 'gave_up',
+    });
+    expect(renderTranscript(doc, 'text')).toContain('Status: Gave up');
+
+    expect(stateOutcome({phase: 'idle'})).toBeNull();
+    expect(stateOutcome({phase: 'running', output: ''})).toBeNull();
+    expect(stateOutcome({phase: 'timed_out', output: ''})).toBe('timed_out');
+    expect(stateOutcome({phase: 'cancelled', output: ''})).toBe('cancelled');
+    expect(stateOutcome({phase: 'error', message: 'x'})).toBe('error');
+    await unmount();
+  });
+
+  test('retries when verification fails and records the attempts', async () => {
+    fakeAgentKernel.startAgent
+      .mockImplementationOnce(
+        script([
+          agentEvent('verification', {passed: false, raw: '{"ok":false}'}),
+          agentEvent('done', {reason: 'verification_failed', message: 'x'}),
+          agentDone('Verification failed: Goal achieved'),
+        ]),
+      )
+      .mockImplementationOnce(
+        script([
+          agentEvent('verification', {passed: true, raw: '{"ok":true}'}),
+          agentEvent('done', {reason: 'goal_achieved', message: 'x'}),
+          agentDone('Goal achieved'),
+        ]),
+      );
+    const {result, unmount} = await renderHook(() => useDeviceAgent());
+    await act(() =>
+      result.current.setVerification({
+        enabled: true,
+        maxRetries: 2,
+        backoffMs: 0,
+      }),
+    );
+    await act(async () => {
+      await result.current.start('Open settings');
+      await new Promise<void>(resolve => setTimeout(() => resolve(), 10));
+    });
+
+    expect(fakeAgentKernel.startAgent).toHaveBeenCalledTimes(2);
+    expect(fakeAgentKernel.startAgent).toHaveBeenLastCalledWith(
+      'Open settings',
+      expect.objectContaining({verify: true}),
+    );
+    expect(result.current.state).toMatchObject({
+      phase: 'done',
+      outcome: 'succeeded',
+    });
+    expect(outputLines(result.current.state)).toContain(
+      'Retrying in 0ms (attempt 2 of 3)',
+    );
+    const [record] = await loadHistory();
+    expect(record).toMatchObject({outcome: 'succeeded', attempts: 2});
+    await unmount();
+  });
+
+  test('keeps the log of a stopped run, marked cancelled', async () => {
+    const {result, unmount} = await runWith([agentLog('Step 1')]);
+    await act(() => result.current.stop());
+    expect(result.current.state).toMatchObject({phase: 'cancelled'});
+    expect(fakeAgentKernel.stopAgent).toHaveBeenCalledTimes(1);
+    expect(outputLines(result.current.state)).toEqual(['Step 1']);
+    const [record] = await loadHistory();
+    expect(record).toMatchObject({finalPhase: 'stopped', outcome: 'cancelled'});
+    await unmount();
+  });
+
+  test('reports a failed stopAgent instead of dropping it', async () => {
+    const {result, unmount} = await runWith([agentLog('Step 1')]);
+    fakeAgentKernel.stopAgent.mockRejectedValueOnce(new Error('Bridge gone'));
+    await act(() => result.current.stop());
+    expect(result.current.state).toEqual({
+      phase: 'error',
+      message: "Couldn't stop the agent: Bridge gone",
+    });
+    await unmount();
+  });
+
+  test('ends in error and stops listening when startAgent rejects', async () => {
+    const {result, unmount} = await runWith([
+      agentLog('Agent started'),
+      {reject: 'Model missing'},
+    ]);
+    expect(result.current.state).toEqual({
+      phase: 'error',
+      message: 'Model missing',
+    });
+    await act(() => emitNative(AGENT_EVENTS.LOG, {message: 'Step 1'}));
+    expect(result.current.state.phase).toBe('error');
+    await unmount();
+  });
+
+  describe('approvals', () => {
+    const requested = (requestId: string, step: number) =>
+      agentEvent('approval_requested', {
+        requestId,
+        step,
+        raw: '{"a":"tap","i":2}',
+        action: 'tap',
+        index: 2,
+      });
+
+    async function supervisedRun() {
+      fakeAgentKernel.startAgent.mockImplementationOnce(
+        script([
+          agentEvent('step_started', {step: 1, maxSteps: 10}),
+          requested('approval-1', 1),
+        ]),
+      );
+      const hook = await renderHook(() => useDeviceAgent());
+      await act(() =>
+        hook.result.current.setSupervision({enabled: true, autoApprove: []}),
+      );
+      await act(() => hook.result.current.start('Open settings'));
+      return hook;
+    }
+
+    test('holds the decision until it is approved', async () => {
+      const {result, unmount} = await supervisedRun();
+      expect(fakeAgentKernel.startAgent).toHaveBeenCalledWith(
+        'Open settings',
+        expect.objectContaining({
+          supervision: {enabled: true, autoApprove: []},
+        }),
+      );
+      expect(result.current.pendingApproval).toEqual({
+        requestId: 'approval-1',
+        step: 1,
+        raw: '{"a":"tap","i":2}',
+        decision: {action: 'tap', index: 2},
+      });
+
+      await act(() => result.current.respondToApproval('approve'));
+      expect(fakeAgentKernel.resolveApproval).toHaveBeenCalledWith(
+        'approval-1',
+        'approve',
+        null,
+      );
+      expect(result.current.pendingApproval).toBeNull();
+      await unmount();
+    });
+
+    test('sends an edited decision', async () => {
+      const {result, unmount} = await supervisedRun();
+      await act(() =>
+        result.current.respondToApproval('edit', {action: 'back'}),
+      );
+      expect(fakeAgentKernel.resolveApproval).toHaveBeenCalledWith(
+        'approval-1',
+        'edit',
+        {action: 'back'},
+      );
+      expect(result.current.pendingApproval).toBeNull();
+      await unmount();
+    });
+
+    test('skips a rejected decision and clears it once resolved', async () => {
+      const {result, unmount} = await supervisedRun();
+      await act(() => result.current.respondToApproval('skip'));
+      expect(fakeAgentKernel.resolveApproval).toHaveBeenCalledWith(
+        'approval-1',
+        'skip',
+        null,
+      );
+      await act(() => {
+        emitNative(AGENT_EVENTS.STRUCTURED, {
+          type: 'approval_resolved',
+          step: 1,
+          verdict: 'skip',
+        });
+      });
+      expect(result.current.pendingApproval).toBeNull();
+      expect(result.current.steps[0]).toMatchObject({approval: 'skip'});
+
+      // Nothing is pending now, so a second answer goes nowhere.
+      await act(() => result.current.respondToApproval('approve'));
+      expect(fakeAgentKernel.resolveApproval).toHaveBeenCalledTimes(1);
+      await unmount();
+    });
+  });
+
+  test('stops an unsupervised run that outlives its duration limit', async () => {
+    jest.useFakeTimers();
+    try {
+      const {result, unmount} = await runWith([agentLog('Step 1')]);
+      const {maxDurationMs} = result.current.limits;
+      await act(() => {
+        jest.advanceTimersByTime(maxDurationMs + STOP_GRACE_MS);
+      });
+      expect(fakeAgentKernel.stopAgent).toHaveBeenCalledTimes(1);
+      expect(result.current.state).toMatchObject({phase: 'timed_out'});
+      const [record] = await loadHistory();
+      expect(record).toMatchObject({finalPhase: 'error', outcome: 'timed_out'});
+      await unmount();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,141 @@
+import {useDevicePlanner} from '../src/state/useDevicePlanner';
+import {resetModelSelectionCache} from '../src/state/modelSelection';
+import {createMemoryStorage, setStorageAdapter} from '../src/state/storage';
+import type {RunOutcome} from '../src/state/types';
+import {act, renderHook} from '../jest/renderHook';
+import {
+  deferred,
+  fakeRunAnywhere,
+  runDone,
+  runError,
+  script,
+  tokens,
+} from '../jest/nativeModules';
+
+async function setup(outcomes: Record<string, RunOutcome> = {}) {
+  const ran: string[] = [];
+  const runGoal = jest.fn(async (goal: string) => {
+    ran.push(goal);
+    return outcomes[goal] ?? 'done';
+  });
+  const stopGoal = jest.fn(async () => undefined);
+  const hook = await renderHook(() => useDevicePlanner({runGoal, stopGoal}));
+  return {...hook, ran};
+}
+
+describe('useDevicePlanner', () => {
+  beforeEach(() => {
+    setStorageAdapter(createMemoryStorage());
+    resetModelSelectionCache();
+  });
+
+  test('plans a goal into editable steps', async () => {
+    fakeRunAnywhere.runAgent.mockImplementationOnce(
+      script([...tokens('1. open Settings\n', '2. tap Bluetooth'), runDone()]),
+    );
+    const {result, unmount} = await setup();
+    await act(() => result.current.makePlan('Turn on Bluetooth'));
+
+    expect(result.current.phase).toBe('ready');
+    expect(result.current.plan?.steps.map(step => step.goal)).toEqual([
+      'open Settings',
+      'tap Bluetooth',
+    ]);
+    expect(fakeRunAnywhere.loadModel).toHaveBeenCalled();
+
+    const [first] = result.current.plan!.steps;
+    await act(() => {
+      result.current.updateStep(first.id, 'open the Settings app');
+      result.current.addStep();
+    });
+    expect(result.current.plan?.steps.map(step => step.goal)).toEqual([
+      'open the Settings app',
+      'tap Bluetooth',
+      '',
+    ]);
+    await unmount();
+  });
+
+  test('runs steps in order and skips the rest after a failure', async () => {
+    fakeRunAnywhere.runAgent.mockImplementationOnce(
+      script([
+        ...tokens('1. open Settings\n2. tap Bluetooth\n3. go home'),
+        runDone(),
+      ]),
+    );
+    const {result, ran, unmount} = await setup({'tap Bluetooth': 'error'});
+    await act(() => result.current.makePlan('Turn on Bluetooth'));
+    await act(() => result.current.runPlan());
+
+    expect(ran).toEqual(['open Settings', 'tap Bluetooth']);
+    expect(result.current.phase).toBe('finished');
+    expect(result.current.plan?.steps.map(step => step.status)).toEqual([
+      'done',
+      'error',
+      'skipped',
+    ]);
+    await unmount();
+  });
+
+  test('reports a planning failure and stays idle', async () => {
+    fakeRunAnywhere.runAgent.mockImplementationOnce(
+      script([runError('Model crashed')]),
+    );
+    const {result, unmount} = await setup();
+    await act(() => result.current.makePlan('Turn on Bluetooth'));
+
+    expect(result.current.phase).toBe('idle');
+    expect(result.current.plan).toBeNull();
+    expect(result.current.error).toBe('Model crashed');
+    await unmount();
+  });
+
+  test('reports a planning timeout as a planning failure', async () => {
+    jest.useFakeTimers();
+    try {
+      const run = deferred();
+      fakeRunAnywhere.runAgent.mockImplementationOnce(() => run.promise);
+      const {result, unmount} = await setup();
+      let planning: Promise<void> | undefined;
+      await act(() => {
+        planning = result.current.makePlan('Turn on Bluetooth');
+      });
+      await act(async () => {
+        jest.advanceTimersByTime(120_000);
+        await planning;
+      });
+
+      expect(fakeRunAnywhere.cancelRun).toHaveBeenCalledTimes(1);
+      expect(result.current.phase).toBe('idle');
+      expect(result.current.plan).toBeNull();
+      expect(result.current.error).toBe('Timed out after 120s');
+      await act(() => run.resolve(null));
+      await unmount();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('returns to idle when stopped while the model loads', async () => {
+    const load = deferred();
+    fakeRunAnywhere.loadModel.mockImplementationOnce(() => load.promise);
+    const {result, unmount} = await setup();
+    let planning: Promise<void> | undefined;
+    await act(() => {
+      planning = result.current.makePlan('Turn on Bluetooth');
+    });
+    expect(result.current.phase).toBe('planning');
+
+    await act(() => result.current.stop());
+    await act(async () => {
+      load.resolve(null);
+      await planning;
+    });
+
+    expect(fakeRunAnywhere.runAgent).not.toHaveBeenCalled();
+    expect(result.current.phase).toBe('idle');
+    expect(result.current.plan).toBeNull();
+    expect(result.current.error).toBeNull();
+    await unmount();
+  });
+});
@@ -0,0 +1,125 @@
+import {useGoalQueue} from '../src/state/useGoalQueue';
+import {createMemoryStorage, setStorageAdapter} from '../src/state/storage';
+import {createQueuedGoal, loadQueue, saveQueue} from '../src/state/goalQueue';
+import {deferred} from '../jest/nativeModules';
+import type {RunOutcome} from '../src/state/types';
+import {act, renderHook} from '../jest/renderHook';
+
+async function renderQueue(outcomes: Record<string, RunOutcome>) {
+  const ran: string[] = [];
+  const runGoal = jest.fn(async (goal: string) => {
+    ran.push(goal);
+    return outcomes[goal] ?? 'done';
+  });
+  const stopGoal = jest.fn(async () => undefined);
+  const hook = await renderHook(() =>
+    useGoalQueue({runGoal, stopGoal, busy: false}),
+  );
+  return {...hook, ran};
+}
+
+describe('useGoalQueue', () => {
+  beforeEach(() => {
+    setStorageAdapter(createMemoryStorage());
+  });
+
+  test('runs queued goals one after another', async () => {
+    const {result, ran, unmount} = await renderQueue({});
+    await act(() => {
+      result.current.enqueue('open Settings');
+      result.current.enqueue('open Music');
+    });
+    await act(() => result.current.startQueue());
+
+    expect(ran).toEqual(['open Settings', 'open Music']);
+    expect(result.current.goals.map(g => g.status)).toEqual(['done', 'done']);
+    expect(result.current.active).toBe(false);
+    await unmount();
+  });
+
+  test('halts on an error when stop-on-failure is set', async () => {
+    const {result, ran, unmount} = await renderQueue({'open Nowhere': 'error'});
+    await act(() => {
+      result.current.enqueue('open Nowhere');
+      result.current.enqueue('open Music');
+    });
+    await act(() => result.current.startQueue());
+
+    expect(ran).toEqual(['open Nowhere']);
+    expect(result.current.active).toBe(false);
+
+    await act(() => result.current.setStopOnFailure(false));
+    await act(() => result.current.startQueue());
+    expect(ran).toEqual(['open Nowhere', 'open Music']);
+    await unmount();
+  });
+
+  test('waits for a scheduled goal without running it early', async () => {
+    const {result, ran, unmount} = await renderQueue({});
+    await act(() =>
+      result.current.enqueue('open Clock', {
+        kind: 'at',
+        at: Date.now() + 3_600_000,
+      }),
+    );
+    await act(() => result.current.startQueue());
+
+    expect(ran).toEqual([]);
+    expect(result.current.active).toBe(true);
+    await act(() => result.current.stopQueue());
+    expect(result.current.active).toBe(false);
+    await unmount();
+  });
+
+  test('keeps goals added before the stored queue loads', async () => {
+    const memory = createMemoryStorage();
+    setStorageAdapter(memory);
+    await saveQueue({
+      goals: [createQueuedGoal('open Clock')],
+      stopOnFailure: true,
+      active: false,
+    });
+    const gate = deferred();
+    setStorageAdapter({
+      ...memory,
+      getItem: async key => {
+        await gate.promise;
+        return memory.getItem(key);
+      },
+    });
+
+    const {result, unmount} = await renderQueue({});
+    await act(() => result.current.enqueue('open Music'));
+    await act(() => gate.resolve(null));
+
+    const goals = ['open Clock', 'open Music'];
+    expect(result.current.goals.map(goal => goal.goal)).toEqual(goals);
+    setStorageAdapter(memory);
+    expect((await loadQueue()).goals.map(goal => goal.goal)).toEqual(goals);
+    await unmount();
+  });
+
+  test('resumes a started queue after a restart', async () => {
+    const first = await renderQueue({});
+    await act(() =>
+      first.result.current.enqueue('open Clock', {
+        kind: 'at',
+        at: Date.now() + 3_600_000,
+      }),
+    );
+    await act(() => first.result.current.startQueue());
+    await first.unmount();
+
+    const second = await renderQueue({});
+    await act(() => undefined);
+    expect(second.result.current.active).toBe(true);
+    expect(second.result.current.goals).toHaveLength(1);
+    await act(() => second.result.current.stopQueue());
+    await second.unmount();
+
+    const third = await renderQueue({});
+    await act(() => undefined);
+    expect(third.result.current.active).toBe(false);
+    await third.unmount();
+  });
+});
@@ -0,0 +1,160 @@
+import {useToolAgent} from '../src/state/useToolAgent';
+import {useAgentRunner} from '../src/state/useAgentRunner';
+import {useChatTurns} from '../src/state/useChatTurns';
+import {resetModelSelectionCache} from '../src/state/modelSelection';
+import {loadHistory, resetHistoryCache} from '../src/state/history';
+import {createMemoryStorage, setStorageAdapter} from '../src/state/storage';
+import {act, renderHook} from '../jest/renderHook';
+import {
+  deferred,
+  fakeRunAnywhere,
+  runDone,
+  script,
+  tokens,
+} from '../jest/nativeModules';
+
+describe('useToolAgent', () => {
+  beforeEach(() => {
+    setStorageAdapter(createMemoryStorage());
+    resetModelSelectionCache();
+    resetHistoryCache();
+  });
+
+  test('answers after running a tool and records the trace', async () => {
+    fakeRunAnywhere.runAgent
+      .mockImplementationOnce(
+        script([
+          ...tokens(
+            '<tool_call>{"name": "convert_units", ',
+            '"arguments": {"value": 10, "from": "mi", "to": "km"}}',
+          ),
+          runDone(),
+        ]),
+      )
+      .mockImplementationOnce(script([...tokens('About 16.1 km.'), runDone()]));
+    const {result, unmount} = await renderHook(() => useToolAgent());
+
+    await act(() => result.current.start('How far is 10 miles in km?'));
+
+    expect(result.current.state).toEqual({
+      phase: 'done',
+      finalOutput: 'About 16.1 km.',
+    });
+    expect(result.current.invocations).toMatchObject([
+      {name: 'convert_units', ok: true, output: '10 mi = 16.09344 km'},
+    ]);
+    expect(result.current.turns.map(turn => turn.text)).toEqual([
+      'How far is 10 miles in km?',
+      'About 16.1 km.',
+    ]);
+    expect(fakeRunAnywhere.runAgent).toHaveBeenLastCalledWith(
+      'How far is 10 miles in km?',
+      expect.stringContaining('-> 10 mi = 16.09344 km'),
+      expect.objectContaining({
+        stopSequences: expect.arrayContaining(['</tool_call>']),
+      }),
+      null,
+    );
+
+    const [record] = await loadHistory();
+    expect(record.finalPhase).toBe('done');
+    expect(record.output).toBe(
+      'convert_units({"value":10,"from":"mi","to":"km"}) -> 10 mi = 16.09344 km\n\nAbout 16.1 km.',
+    );
+    await unmount();
+  });
+
+  test('stop cancels the model turn and keeps the partial answer', async () => {
+    const run = deferred();
+    fakeRunAnywhere.runAgent.mockImplementationOnce(() => run.promise);
+    const {result, unmount} = await renderHook(() => useToolAgent());
+
+    await act(() => {
+      result.current.start('Tell me a story');
+    });
+    await act(() => result.current.stop());
+
+    expect(result.current.state).toEqual({phase: 'cancelled'});
+    expect(fakeRunAnywhere.cancelRun).toHaveBeenCalled();
+    const [record] = await loadHistory();
+    expect(record.finalPhase).toBe('stopped');
+    await act(() => run.resolve(null));
+    await unmount();
+  });
+
+  test('starting again cancels the model turn still in flight', async () => {
+    const first = deferred();
+    fakeRunAnywhere.runAgent
+      .mockImplementationOnce(() => first.promise)
+      .mockImplementationOnce(script([...tokens('Hello again.'), runDone()]));
+    const {result, unmount} = await renderHook(() => useToolAgent());
+
+    await act(() => {
+      result.current.start('Tell me a story');
+    });
+    await act(() => result.current.start('Say hello'));
+
+    expect(fakeRunAnywhere.cancelRun).toHaveBeenCalledTimes(1);
+    expect(result.current.state).toEqual({
+      phase: 'done',
+      finalOutput: 'Hello again.',
+    });
+    expect(result.current.turns.map(turn => turn.text)).toEqual([
+      'Tell me a story',
+      'Say hello',
+      'Hello again.',
+    ]);
+    await act(() => first.resolve(null));
+    await unmount();
+  });
+
+  test('persists tool settings', async () => {
+    const {result, unmount} = await renderHook(() => useToolAgent());
+    await act(() =>
+      result.current.setSettings({
+        enabled: true,
+        maxTurns: 20,
+        disabledTools: ['calculator'],
+      }),
+    );
+    await unmount();
+
+    const again = await renderHook(() => useToolAgent());
+    expect(again.result.current.settings).toEqual({
+      enabled: true,
+      maxTurns: 8,
+      disabledTools: ['calculator'],
+    });
+    await again.unmount();
+  });
+
+  test('continues the plain chat conversation when shared', async () => {
+    fakeRunAnywhere.runAgent
+      .mockImplementationOnce(script([...tokens('RAM is memory.'), runDone()]))
+      .mockImplementationOnce(script([...tokens('ROM is not.'), runDone()]));
+    const {result, unmount} = await renderHook(() => {
+      const conversation = useChatTurns();
+      return {
+        runner: useAgentRunner(conversation),
+        tools: useToolAgent(conversation),
+      };
+    });
+
+    await act(() => result.current.runner.start('What is RAM?'));
+    await act(() => result.current.tools.start('And ROM?'));
+
+    const texts = ['What is RAM?', 'RAM is memory.', 'And ROM?', 'ROM is not.'];
+    expect(result.current.tools.turns.map(turn => turn.text)).toEqual(texts);
+    expect(result.current.runner.turns.map(turn => turn.text)).toEqual(texts);
+    expect(fakeRunAnywhere.runAgent).toHaveBeenLastCalledWith(
+      'And ROM?',
+      expect.stringContaining('RAM is memory.'),
+      expect.anything(),
+      null,
+    );
+
+    await act(() => result.current.tools.clearConversation());
+    expect(result.current.runner.turns).toEqual([]);
+    await unmount();
+  });
+});
@@ -9,6 +9,8 @@ import com.facebook.react.bridge.Promise
 import com.facebook.react.bridge.ReactApplicationContext
 import com.facebook.react.bridge.ReactContextBaseJavaModule
 import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.bridge.ReadableMap
+import com.facebook.react.bridge.WritableMap
 import com.facebook.react.modules.core.DeviceEventManagerModule
 import com.runanywhere.sdk.public.RunAnywhere
 import com.runanywhere.sdk.public.extensions.LLM.LLMGenerationOptions
@@ -16,7 +18,9 @@ import com.runanywhere.sdk.public.extensions.LLM.StructuredOutputConfig
 import com.runanywhere.sdk.public.extensions.downloadModel
 import com.runanywhere.sdk.public.extensions.generate
 import com.runanywhere.sdk.public.extensions.loadLLMModel
+import com.runanywhere.sdk.public.extensions.unloadLLMModel
 import kotlinx.coroutines.CancellationException
+import kotlinx.coroutines.CompletableDeferred
 import kotlinx.coroutines.CoroutineScope
 import kotlinx.coroutines.Dispatchers
 import kotlinx.coroutines.Job
@@ -35,24 +39,42 @@ class AgentKernelModule(private val reactContext: ReactApplicationContext) :
     const val NAME = "AgentKernel"
     private const val TAG = "AgentKernel"
 
-    // Available models (must match IDs registered in MainApplication)
-    val AVAILABLE_MODELS = listOf(
-      "smollm2-360m-instruct-q8_0",      // 360M - fastest, least capable
-      "qwen2.5-1.5b-instruct-q4_k_m",    // 1.5B - best quality
-      "lfm2.5-1.2b-instruct-q4_k_m"      // 1.2B - fast, edge-optimized
-    )
-    private const val DEFAULT_MODEL = "qwen2.5-1.5b-instruct-q4_k_m"
+    // Available models (registered in MainApplication from ModelCatalog)
+    val AVAILABLE_MODELS = ModelCatalog.ids
 
     const val EVENT_LOG = "AGENT_LOG"
     const val EVENT_DONE = "AGENT_DONE"
     const val EVENT_ERROR = "AGENT_ERROR"
+    // Structured counterpart of the string events above (see docs/agent-events.md)
+    const val EVENT_AGENT = "AGENT_EVENT"
+  }
+
+  private data class Supervision(val enabled: Boolean, val autoApprove: Set<String>) {
+    fun requiresApproval(action: String) = enabled && action !in autoApprove
   }
 
+  // Defaults match the values the loop used before limits became configurable.
+  private data class RunLimits(
+    val maxSteps: Int = 10,
+    val maxDurationMs: Long = 45_000L,
+    val stepDelayMs: Long = 1000L,
+    val maxElements: Int = 8,
+    val maxTextLength: Int = 16,
+    val decisionMaxTokens: Int = 24,
+    val decisionTemperature: Float = 0.0f
+  )
+
+  private data class ApprovalResponse(val verdict: String, val edited: JSONObject?)
+
+  // Raw model reply for one step plus the tokens it took to produce.
+  private data class DecisionReply(val raw: String, val tokens: Int)
+
   private val scope = CoroutineScope(SupervisorJob() + Dispatchers.IO)
   private var runJob: Job? = null
+  @Volatile private var pendingApproval: Pair<String, CompletableDeferred<ApprovalResponse>>? = null
+  private var approvalCounter = 0
   private var lastAppExamples: String? = null
   private var currentElementMap: Map<Int, Pair<Int, Int>> = emptyMap()
-  private var activeModelId: String = DEFAULT_MODEL
 
   override fun getName(): String = NAME
 
@@ -66,6 +88,33 @@ class AgentKernelModule(private val reactContext: ReactApplicationContext) :
       .emit(eventName, params)
   }
 
+  private fun sendAgentEvent(type: String, fill: WritableMap.() -> Unit = {}) {
+    val params = Arguments.createMap().apply {
+      putString("type", type)
+      putDouble("timestamp", System.currentTimeMillis().toDouble())
+      fill()
+    }
+    reactContext
+      .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+      .emit(EVENT_AGENT, params)
+  }
+
+  private fun sendDone(reason: String, message: String) {
+    sendAgentEvent("done") {
+      putString("reason", reason)
+      putString("message", message)
+    }
+    sendEvent(EVENT_DONE, message)
+  }
+
+  private fun sendError(reason: String, message: String) {
+    sendAgentEvent("error") {
+      putString("reason", reason)
+      putString("message", message)
+    }
+    sendEvent(EVENT_ERROR, message)
+  }
+
   @ReactMethod
   fun isServiceEnabled(promise: Promise) {
     promise.resolve(AgentAccessibilityService.isEnabled(reactContext))
@@ -80,13 +129,13 @@ class AgentKernelModule(private val reactContext: ReactApplicationContext) :
 
   @ReactMethod
   fun getActiveModel(promise: Promise) {
-    promise.resolve(activeModelId)
+    promise.resolve(ModelCatalog.activeModelId)
   }
 
   @ReactMethod
   fun setActiveModel(modelId: String, promise: Promise) {
     if (modelId in AVAILABLE_MODELS) {
-      activeModelId = modelId
+      ModelCatalog.activeModelId = modelId
       Log.i(TAG, "Active model set to: $modelId")
       promise.resolve(true)
     } else {
@@ -95,11 +144,22 @@ class AgentKernelModule(private val reactContext: ReactApplicationContext) :
   }
 
   @ReactMethod
-  fun startAgent(goal: String, promise: Promise) {
+  fun startAgent(goal: String, options: ReadableMap?, promise: Promise) {
     if (!AgentAccessibilityService.isEnabled(reactContext)) {
       promise.reject("SERVICE_DISABLED", "Accessibility service is not enabled.")
       return
     }
+    val supervision = parseSupervision(options)
+    val limits = parseLimits(options)
+    val verify = options?.takeIf { it.hasKey("verify") }?.getBoolean("verify") ?: false
+    // Success is only reported once the final screen passes verification (when enabled).
+    suspend fun succeed(reason: String, message: String) {
+      if (verify && !verifyGoal(goal, limits)) {
+        sendDone("verification_failed", "Verification failed: $message")
+      } else {
+        sendDone(reason, message)
+      }
+    }
 
     runJob?.cancel()
     runJob = scope.launch {
@@ -107,86 +167,132 @@ class AgentKernelModule(private val reactContext: ReactApplicationContext) :
         sendEvent(EVENT_LOG, "Agent started")
         ensureModelReady()
 
-        val packageName = extractPackageName(goal)
-        if (packageName != null) {
-          val opened = openAppByPackage(packageName)
-          if (opened) {
-            sendEvent(EVENT_DONE, "Opened package: $packageName")
+        // Shortcuts open apps and flip settings without a step decision to
+        // approve, so supervised runs go through the step loop instead.
+        if (supervision.enabled) {
+          sendEvent(EVENT_LOG, "Supervised run: shortcuts off")
+        } else {
+          val packageName = extractPackageName(goal)
+          if (packageName != null) {
+            val opened = openAppByPackage(packageName)
+            if (opened) {
+              succeed("shortcut", "Opened package: $packageName")
+              return@launch
+            }
+            sendError("package_not_found", "Package not found: $packageName")
             return@launch
           }
-          sendEvent(EVENT_ERROR, "Package not found: $packageName")
-          return@launch
-        }
 
-        val appName = extractAppName(goal)
-        if (appName != null) {
-          val opened = openAppByName(appName)
-          if (opened) {
-            sendEvent(EVENT_DONE, "Opened app: $appName")
+          val appName = extractAppName(goal)
+          if (appName != null) {
+            val opened = openAppByName(appName)
+            if (opened) {
+              succeed("shortcut", "Opened app: $appName")
+              return@launch
+            }
+            val examples = lastAppExamples
+            val message = if (!examples.isNullOrBlank()) {
+              "App not found: $appName. Try: $examples"
+            } else {
+              "App not found: $appName"
+            }
+            sendError("app_not_found", message)
             return@launch
           }
-          val examples = lastAppExamples
-          val message = if (!examples.isNullOrBlank()) {
-            "App not found: $appName. Try: $examples"
-          } else {
-            "App not found: $appName"
-          }
-          sendEvent(EVENT_ERROR, message)
-          return@launch
-        }
 
-        if (shouldOpenSettings(goal)) {
-          val opened = openRelevantSettings(goal)
-          if (opened) {
-            delay(1000)
-            val toggled = tryToggleSetting(goal)
-            sendEvent(
-              EVENT_DONE,
-              if (toggled) "Toggled setting" else "Opened settings"
-            )
-            return@launch
+          if (shouldOpenSettings(goal)) {
+            val opened = openRelevantSettings(goal)
+            if (opened) {
+              delay(1000)
+              val toggled = tryToggleSetting(goal)
+              succeed(
+                "shortcut",
+                if (toggled) "Toggled setting" else "Opened settings"
+              )
+              return@launch
+            }
           }
         }
 
-        val maxSteps = 10
-        val maxDurationMs = 45_000L
+        val maxSteps = limits.maxSteps
+        val maxDurationMs = limits.maxDurationMs
         val startTime = System.currentTimeMillis()
+        // Time spent waiting on the user doesn't count towards maxDurationMs.
+        var pausedMs = 0L
         var step = 0
         while (step < maxSteps) {
           step += 1
+          sendAgentEvent("step_started") {
+            putInt("step", step)
+            putInt("maxSteps", maxSteps)
+          }
           sendEvent(EVENT_LOG, "Step $step")
           val service = AgentAccessibilityService.instance
             ?: throw IllegalStateException("Accessibility service not connected")
 
           // Get compact screen state with element index map
           val (screenState, elementMap) = service.getCompactScreenState(
-            maxElements = 8,
-            maxTextLength = 16
+            maxElements = limits.maxElements,
+            maxTextLength = limits.maxTextLength
           )
           currentElementMap = elementMap
+          sendAgentEvent("screen_observed") {
+            putInt("step", step)
+            putString("screen", screenState)
+            putInt("elementCount", elementMap.size)
+          }
 
-          val decisionJson = decideNextAction(goal, screenState)
-          val decision = parseDecision(decisionJson, currentElementMap)
-
-          sendEvent(EVENT_LOG, "Action: ${decision.optString("action", "unknown")}")
-          executeDecision(service, decision)
+          val reply = decideNextAction(goal, screenState, limits)
+          val decisionJson = reply.raw
+          var decision = parseDecision(decisionJson, currentElementMap)
+          sendDecisionEvent(step, decisionJson, decision, reply.tokens)
+
+          var action = decision.optString("action", "unknown")
+          var skipped = false
+          if (supervision.requiresApproval(action)) {
+            val waitStart = System.currentTimeMillis()
+            val response = awaitApproval(step, decisionJson, decision)
+            pausedMs += System.currentTimeMillis() - waitStart
+            when (response.verdict) {
+              "abort" -> {
+                sendDone("aborted", "Aborted by user")
+                return@launch
+              }
+              "skip" -> skipped = true
+              "edit" -> {
+                decision = expandCompactDecision(response.edited ?: JSONObject(), currentElementMap)
+                action = decision.optString("action", "unknown")
+              }
+            }
+          }
 
-          if (decision.optString("action") == "done") {
-            sendEvent(EVENT_DONE, "Goal achieved")
-            return@launch
+          if (skipped) {
+            sendEvent(EVENT_LOG, "Skipped: $action")
+          } else {
+            sendEvent(EVENT_LOG, "Action: $action")
+            executeDecision(service, decision)
+            sendAgentEvent("action_executed") {
+              putInt("step", step)
+              putString("action", action)
+            }
+
+            if (action == "done") {
+              succeed("goal_achieved", "Goal achieved")
+              return@launch
+            }
           }
-          delay(1000)
-          if (System.currentTimeMillis() - startTime > maxDurationMs) {
-            sendEvent(EVENT_DONE, "Max duration reached")
+          delay(limits.stepDelayMs)
+          if (System.currentTimeMillis() - startTime - pausedMs > maxDurationMs) {
+            sendDone("max_duration", "Max duration reached")
             return@launch
           }
         }
-        sendEvent(EVENT_DONE, "Max steps reached")
+        sendDone("max_steps", "Max steps reached")
       } catch (e: CancellationException) {
         sendEvent(EVENT_LOG, "Agent cancelled")
       } catch (e: Exception) {
         Log.e(TAG, "Agent failed: ${e.message}", e)
-        sendEvent(EVENT_ERROR, e.message ?: "Agent error")
+        sendError("exception", e.message ?: "Agent error")
       }
     }
     promise.resolve(null)
@@ -196,30 +302,146 @@ class AgentKernelModule(private val reactContext: ReactApplicationContext) :
   fun stopAgent(promise: Promise) {
     runJob?.cancel()
     runJob = null
+    pendingApproval = null
+    promise.resolve(null)
+  }
+
+  @ReactMethod
+  fun resolveApproval(requestId: String, verdict: String, decision: ReadableMap?, promise: Promise) {
+    val pending = pendingApproval
+    if (pending == null || pending.first != requestId) {
+      promise.reject("NO_PENDING_APPROVAL", "No pending approval with id $requestId")
+      return
+    }
+    if (verdict !in listOf("approve", "edit", "skip", "abort")) {
+      promise.reject("INVALID_VERDICT", "Unknown verdict: $verdict")
+      return
+    }
+    // Edited decisions arrive in the JS shape; map them to the compact model format.
+    val edited = decision?.let { map ->
+      JSONObject().apply {
+        if (map.hasKey("action")) put("a", map.getString("action"))
+        if (map.hasKey("index")) put("i", map.getInt("index"))
+        if (map.hasKey("text")) put("t", map.getString("text"))
+        if (map.hasKey("direction")) put("d", map.getString("direction"))
+      }
+    }
+    pendingApproval = null
+    pending.second.complete(ApprovalResponse(verdict, edited))
     promise.resolve(null)
   }
 
+  private fun parseSupervision(options: ReadableMap?): Supervision {
+    val map = options?.takeIf { it.hasKey("supervision") }?.getMap("supervision")
+      ?: return Supervision(false, emptySet())
+    val enabled = map.hasKey("enabled") && map.getBoolean("enabled")
+    val autoApprove = mutableSetOf<String>()
+    val actions = if (map.hasKey("autoApprove")) map.getArray("autoApprove") else null
+    if (actions != null) {
+      for (i in 0 until actions.size()) {
+        actions.getString(i)?.let { autoApprove.add(it) }
+      }
+    }
+    return Supervision(enabled, autoApprove)
+  }
+
+  private fun parseLimits(options: ReadableMap?): RunLimits {
+    val defaults = RunLimits()
+    val map = options?.takeIf { it.hasKey("limits") }?.getMap("limits") ?: return defaults
+    fun number(key: String): Double? =
+      if (map.hasKey(key) && !map.isNull(key)) map.getDouble(key) else null
+
+    return RunLimits(
+      maxSteps = number("maxSteps")?.toInt()?.coerceIn(1, 50) ?: defaults.maxSteps,
+      maxDurationMs = number("maxDurationMs")?.toLong()?.coerceIn(5_000L, 600_000L)
+        ?: defaults.maxDurationMs,
+      stepDelayMs = number("stepDelayMs")?.toLong()?.coerceIn(0L, 10_000L) ?: defaults.stepDelayMs,
+      maxElements = number("maxElements")?.toInt()?.coerceIn(1, 40) ?: defaults.maxElements,
+      maxTextLength = number("maxTextLength")?.toInt()?.coerceIn(4, 80) ?: defaults.maxTextLength,
+      decisionMaxTokens = number("decisionMaxTokens")?.toInt()?.coerceIn(8, 256)
+        ?: defaults.decisionMaxTokens,
+      decisionTemperature = number("decisionTemperature")?.toFloat()?.coerceIn(0f, 2f)
+        ?: defaults.decisionTemperature
+    )
+  }
+
+  private suspend fun awaitApproval(step: Int, raw: String, decision: JSONObject): ApprovalResponse {
+    approvalCounter += 1
+    val requestId = "approval-$approvalCounter"
+    val deferred = CompletableDeferred<ApprovalResponse>()
+    pendingApproval = requestId to deferred
+
+    sendAgentEvent("approval_requested") {
+      putString("requestId", requestId)
+      putInt("step", step)
+      putString("raw", raw)
+      putDecision(decision)
+    }
+    sendEvent(EVENT_LOG, "Awaiting approval: ${decision.optString("action", "unknown")}")
+
+    try {
+      val response = deferred.await()
+      sendAgentEvent("approval_resolved") {
+        putInt("step", step)
+        putString("verdict", response.verdict)
+      }
+      return response
+    } finally {
+      if (pendingApproval?.first == requestId) {
+        pendingApproval = null
+      }
+    }
+  }
+
   private suspend fun ensureModelReady() {
-    sendEvent(EVENT_LOG, "Using model: $activeModelId")
+    val modelId = ModelCatalog.activeModelId
+    sendEvent(EVENT_LOG, "Using model: $modelId")
+    if (ModelCatalog.loadedModelId == modelId) {
+      sendEvent(EVENT_LOG, "Model already loaded")
+      return
+    }
+    // Free the previous model (e.g. one loaded by LLM Chat) before loading another.
+    if (ModelCatalog.loadedModelId != null) {
+      RunAnywhere.unloadLLMModel()
+      ModelCatalog.loadedModelId = null
+    }
     try {
-      RunAnywhere.loadLLMModel(activeModelId)
+      val loadStart = System.currentTimeMillis()
+      RunAnywhere.loadLLMModel(modelId)
+      ModelCatalog.loadedModelId = modelId
+      sendModelLoaded(modelId, System.currentTimeMillis() - loadStart, null)
       sendEvent(EVENT_LOG, "Model loaded")
     } catch (e: Exception) {
       sendEvent(EVENT_LOG, "Downloading model...")
+      val downloadStart = System.currentTimeMillis()
       var lastPercent = -1
-      RunAnywhere.downloadModel(activeModelId).collect { progress ->
+      RunAnywhere.downloadModel(modelId).collect { progress ->
         val percent = (progress.progress * 100).toInt()
         if (percent != lastPercent && percent % 5 == 0) {
           lastPercent = percent
+          // JS renders the progress line from the typed event, collapsing
+          // updates; the legacy line follows it for string-only consumers.
+          sendAgentEvent("download_progress") { putInt("progress", percent) }
           sendEvent(EVENT_LOG, "Downloading... $percent%")
         }
       }
-      RunAnywhere.loadLLMModel(activeModelId)
+      val loadStart = System.currentTimeMillis()
+      RunAnywhere.loadLLMModel(modelId)
+      ModelCatalog.loadedModelId = modelId
+      sendModelLoaded(modelId, System.currentTimeMillis() - loadStart, loadStart - downloadStart)
       sendEvent(EVENT_LOG, "Model loaded")
     }
   }
 
-  private suspend fun decideNextAction(goal: String, screenState: String): String {
+  private fun sendModelLoaded(modelId: String, loadMs: Long, downloadMs: Long?) {
+    sendAgentEvent("model_loaded") {
+      putString("modelId", modelId)
+      putDouble("loadMs", loadMs.toDouble())
+      if (downloadMs != null) putDouble("downloadMs", downloadMs.toDouble())
+    }
+  }
+
+  private suspend fun decideNextAction(goal: String, screenState: String, limits: RunLimits): DecisionReply {
     // Compact prompt optimized for small LLMs (~80 tokens)
     val userPrompt = """
 GOAL:$goal
@@ -244,8 +466,8 @@ OUT:{"a":"ACTION","i":INDEX,"t":"text","d":"u/d/l/r"}
     """.trimIndent()
 
     val options = LLMGenerationOptions(
-      maxTokens = 24,
-      temperature = 0.0f,
+      maxTokens = limits.decisionMaxTokens,
+      temperature = limits.decisionTemperature,
       topP = 0.95f,
       streamingEnabled = false,
       systemPrompt = null,
@@ -260,10 +482,99 @@ OUT:{"a":"ACTION","i":INDEX,"t":"text","d":"u/d/l/r"}
       val result = withContext(Dispatchers.Default) {
         RunAnywhere.generate(userPrompt, options)
       }
-      result.text
+      DecisionReply(result.text, result.tokensUsed)
     } catch (e: Exception) {
       Log.e(TAG, "Decision generation failed: ${e.message}", e)
-      "{\"a\":\"done\"}"
+      DecisionReply("{\"a\":\"done\"}", 0)
+    }
+  }
+
+  // Asks the model whether the current screen shows the goal as done.
+  private suspend fun verifyGoal(goal: String, limits: RunLimits): Boolean {
+    // Let the last action's transition settle before looking at the screen.
+    delay(limits.stepDelayMs)
+    val service = AgentAccessibilityService.instance
+      ?: throw IllegalStateException("Accessibility service not connected")
+    val (screenState, _) = service.getCompactScreenState(
+      maxElements = limits.maxElements,
+      maxTextLength = limits.maxTextLength
+    )
+    sendEvent(EVENT_LOG, "Verifying goal")
+
+    val userPrompt = """
+GOAL:$goal
+SCREEN:
+$screenState
+Is the goal complete on this screen?
+OUT:{"ok":true|false}
+    """.trimIndent()
+
+    val schema = """
+{
+  "type":"object",
+  "properties":{
+    "ok":{"type":"boolean"}
+  },
+  "required":["ok"]
+}
+    """.trimIndent()
+
+    val options = LLMGenerationOptions(
+      maxTokens = 16,
+      temperature = 0.0f,
+      topP = 0.95f,
+      streamingEnabled = false,
+      systemPrompt = null,
+      structuredOutput = StructuredOutputConfig(
+        typeName = "Check",
+        includeSchemaInPrompt = true,
+        jsonSchema = schema
+      )
+    )
+
+    val raw = try {
+      withContext(Dispatchers.Default) {
+        RunAnywhere.generate(userPrompt, options)
+      }.text
+    } catch (e: Exception) {
+      // An unanswered check counts as a failure, so the retry policy applies.
+      Log.e(TAG, "Verification generation failed: ${e.message}", e)
+      ""
+    }
+    val passed = parseVerification(raw)
+    sendAgentEvent("verification") {
+      putBoolean("passed", passed)
+      putString("raw", raw)
+    }
+    return passed
+  }
+
+  private fun parseVerification(text: String): Boolean {
+    val cleaned = text
+      .replace("```json", "")
+      .replace("```", "")
+      .trim()
+    try {
+      return JSONObject(cleaned).optBoolean("ok", false)
+    } catch (_: JSONException) {}
+    val lower = cleaned.lowercase()
+    return lower.contains("true") || lower.startsWith("yes")
+  }
+
+  private fun WritableMap.putDecision(decision: JSONObject) {
+    putString("action", decision.optString("action", "unknown"))
+    if (decision.has("index")) putInt("index", decision.optInt("index"))
+    if (decision.has("text")) putString("text", decision.optString("text"))
+    if (decision.has("direction")) putString("direction", decision.optString("direction"))
+  }
+
+  private fun sendDecisionEvent(step: Int, raw: String, decision: JSONObject, tokens: Int) {
+    sendAgentEvent("decision_parsed") {
+      putInt("step", step)
+      putString("raw", raw)
+      putDecision(decision)
+      putBoolean("heuristic", decision.optBoolean("heuristic", false))
+      putInt("tokens", tokens)
     }
   }
 
@@ -289,7 +600,7 @@ OUT:{"a":"ACTION","i":INDEX,"t":"text","d":"u/d/l/r"}
 
     // Fallback to heuristic parsing
     sendEvent(EVENT_LOG, "Heuristic: ${cleaned.take(60)}")
-    return heuristicDecision(cleaned, elementMap)
+    return heuristicDecision(cleaned, elementMap).put("heuristic", true)
   }
 
   private fun expandCompactDecision(obj: JSONObject, elementMap: Map<Int, Pair<Int, Int>>): JSONObject {
@@ -303,6 +614,7 @@ OUT:{"a":"ACTION","i":INDEX,"t":"text","d":"u/d/l/r"}
         val coords = elementMap[idx]
         if (coords != null) {
           result.put("action", "tap")
+          result.put("index", idx)
           result.put("coordinates", org.json.JSONArray().put(coords.first).put(coords.second))
         } else {
           // Fallback: check for legacy coordinates
@@ -350,6 +662,7 @@ OUT:{"a":"ACTION","i":INDEX,"t":"text","d":"u/d/l/r"}
         val coords = elementMap[idx]!!
         return JSONObject().apply {
           put("action", "tap")
+          put("index", idx)
           put("coordinates", org.json.JSONArray().put(coords.first).put(coords.second))
         }
       }
@@ -386,6 +699,7 @@ OUT:{"a":"ACTION","i":INDEX,"t":"text","d":"u/d/l/r"}
           val coords = elementMap[anyIdx]!!
           JSONObject().apply {
             put("action", "tap")
+            put("index", anyIdx)
             put("coordinates", org.json.JSONArray().put(coords.first).put(coords.second))
           }
         } else {
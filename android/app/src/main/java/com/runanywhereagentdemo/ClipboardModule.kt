@@ -0,0 +1,38 @@
+package com.runanywhereagentdemo
+
+import android.content.ClipData
+import android.content.ClipboardManager
+import android.content.Context
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+
+/**
+ * Plain-text clipboard access, used by the Markdown code block "Copy" button.
+ * Core RN's Clipboard is deprecated, so the app ships its own.
+ */
+class ClipboardModule(private val reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        const val NAME = "AppClipboard"
+        private const val LABEL = "RunAnywhere Agent"
+    }
+
+    override fun getName(): String = NAME
+
+    @ReactMethod
+    fun setString(text: String, promise: Promise) {
+        val clipboard = reactContext.getSystemService(Context.CLIPBOARD_SERVICE) as ClipboardManager
+        // ClipboardManager must be used from a thread with a Looper.
+        reactContext.runOnUiQueueThread {
+            try {
+                clipboard.setPrimaryClip(ClipData.newPlainText(LABEL, text))
+                promise.resolve(null)
+            } catch (e: Exception) {
+                promise.reject("CLIPBOARD_ERROR", e.message, e)
+            }
+        }
+    }
+}
@@ -0,0 +1,113 @@
+package com.runanywhereagentdemo
+
+import android.app.Activity
+import android.content.Intent
+import android.net.Uri
+import android.provider.OpenableColumns
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.BaseActivityEventListener
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+
+/**
+ * Opens the system file picker for a text or Markdown note and returns its
+ * contents, for the LLM Chat knowledge base.
+ */
+class DocumentsModule(private val reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        const val NAME = "AppDocuments"
+        private const val PICK_REQUEST = 4217
+        // Matches MAX_DOCUMENT_CHARS on the JS side, with room for multi-byte text.
+        private const val MAX_BYTES = 400_000
+        private val MIME_TYPES = arrayOf("text/plain", "text/markdown", "text/x-markdown")
+    }
+
+    private var pending: Promise? = null
+
+    private val listener = object : BaseActivityEventListener() {
+        override fun onActivityResult(activity: Activity, requestCode: Int, resultCode: Int, data: Intent?) {
+            if (requestCode != PICK_REQUEST) return
+            val promise = pending ?: return
+            pending = null
+            val uri = data?.data
+            if (resultCode != Activity.RESULT_OK || uri == null) {
+                promise.resolve(null)
+                return
+            }
+            try {
+                val result = Arguments.createMap()
+                result.putString("name", displayName(uri))
+                result.putString("text", readText(uri))
+                promise.resolve(result)
+            } catch (e: Exception) {
+                promise.reject("DOCUMENT_ERROR", e.message ?: "Could not read the file", e)
+            }
+        }
+    }
+
+    init {
+        reactContext.addActivityEventListener(listener)
+    }
+
+    override fun getName(): String = NAME
+
+    @ReactMethod
+    fun pickTextDocument(promise: Promise) {
+        val activity = reactContext.currentActivity
+        if (activity == null) {
+            promise.reject("DOCUMENT_ERROR", "No activity to show the file picker")
+            return
+        }
+        if (pending != null) {
+            promise.reject("DOCUMENT_BUSY", "The file picker is already open")
+            return
+        }
+        pending = promise
+        val intent = Intent(Intent.ACTION_OPEN_DOCUMENT).apply {
+            addCategory(Intent.CATEGORY_OPENABLE)
+            type = "text/*"
+            putExtra(Intent.EXTRA_MIME_TYPES, MIME_TYPES)
+        }
+        try {
+            activity.startActivityForResult(intent, PICK_REQUEST)
+        } catch (e: Exception) {
+            pending = null
+            promise.reject("DOCUMENT_ERROR", e.message ?: "Could not open the file picker", e)
+        }
+    }
+
+    private fun displayName(uri: Uri): String {
+        reactContext.contentResolver.query(uri, arrayOf(OpenableColumns.DISPLAY_NAME), null, null, null)?.use { cursor ->
+            if (cursor.moveToFirst()) {
+                val name = cursor.getString(0)
+                if (!name.isNullOrBlank()) return name
+            }
+        }
+        return uri.lastPathSegment ?: "Untitled note"
+    }
+
+    private fun readText(uri: Uri): String {
+        val stream = reactContext.contentResolver.openInputStream(uri)
+            ?: throw IllegalStateException("Could not open the file")
+        return stream.use { input ->
+            val bytes = input.readNBytesCompat(MAX_BYTES)
+            String(bytes, Charsets.UTF_8)
+        }
+    }
+
+    // InputStream.readNBytes needs API 33; read up to `limit` bytes by hand.
+    private fun java.io.InputStream.readNBytesCompat(limit: Int): ByteArray {
+        val out = java.io.ByteArrayOutputStream()
+        val buffer = ByteArray(8192)
+        while (out.size() < limit) {
+            val read = read(buffer, 0, minOf(buffer.size, limit - out.size()))
+            if (read < 0) break
+            out.write(buffer, 0, read)
+        }
+        return out.toByteArray()
+    }
+}
@@ -0,0 +1,43 @@
+package com.runanywhereagentdemo
+
+import android.content.Context
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+
+/**
+ * Minimal string key/value store backed by SharedPreferences.
+ * JS serializes its own data; this module only persists strings.
+ */
+class KeyValueStoreModule(private val reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        const val NAME = "KeyValueStore"
+        private const val PREFS_NAME = "runanywhere_agent_demo"
+    }
+
+    private val prefs by lazy {
+        reactContext.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+    }
+
+    override fun getName(): String = NAME
+
+    @ReactMethod
+    fun getItem(key: String, promise: Promise) {
+        promise.resolve(prefs.getString(key, null))
+    }
+
+    @ReactMethod
+    fun setItem(key: String, value: String, promise: Promise) {
+        prefs.edit().putString(key, value).apply()
+        promise.resolve(null)
+    }
+
+    @ReactMethod
+    fun removeItem(key: String, promise: Promise) {
+        prefs.edit().remove(key).apply()
+        promise.resolve(null)
+    }
+}
@@ -0,0 +1,62 @@
+package com.runanywhereagentdemo
+
+/**
+ * Models shipped with the demo. MainApplication registers these with the SDK,
+ * and both bridge modules use the same list so JS sees one source of truth.
+ */
+object ModelCatalog {
+
+  const val DEFAULT_ID = "qwen2.5-1.5b-instruct-q4_k_m"
+
+  data class Entry(
+    val id: String,
+    val name: String,
+    val label: String,
+    val url: String,
+    val memoryRequirement: Long,
+    // Token window the app plans prompts for (prompt plus answer).
+    val contextLength: Int
+  )
+
+  val entries = listOf(
+    // SmolLM2 360M - Smallest, fastest, least capable
+    Entry(
+      id = "smollm2-360m-instruct-q8_0",
+      name = "SmolLM2 360M Instruct Q8_0",
+      label = "SmolLM2 360M (Fast)",
+      url = "https://huggingface.co/HuggingFaceTB/SmolLM2-360M-Instruct-GGUF/resolve/main/smollm2-360m-instruct-q8_0.gguf",
+      memoryRequirement = 400_000_000,
+      contextLength = 2048
+    ),
+    // Qwen2.5 1.5B - High quality, good reasoning
+    Entry(
+      id = "qwen2.5-1.5b-instruct-q4_k_m",
+      name = "Qwen2.5 1.5B Instruct Q4_K_M",
+      label = "Qwen2.5 1.5B (Best)",
+      url = "https://huggingface.co/Qwen/Qwen2.5-1.5B-Instruct-GGUF/resolve/main/qwen2.5-1.5b-instruct-q4_k_m.gguf",
+      memoryRequirement = 1_200_000_000,
+      contextLength = 4096
+    ),
+    // LFM2.5 1.2B - Optimized for edge/mobile, fast inference
+    Entry(
+      id = "lfm2.5-1.2b-instruct-q4_k_m",
+      name = "LFM2.5 1.2B Instruct Q4_K_M",
+      label = "LFM2.5 1.2B (Edge)",
+      url = "https://huggingface.co/LiquidAI/LFM2.5-1.2B-Instruct-GGUF/resolve/main/LFM2.5-1.2B-Instruct-Q4_K_M.gguf",
+      memoryRequirement = 800_000_000,
+      contextLength = 4096
+    )
+  )
+
+  val ids: List<String> get() = entries.map { it.id }
+
+  // Selected by the user and shared by LLM Chat and the Device Agent.
+  @Volatile
+  var activeModelId: String = DEFAULT_ID
+
+  // The SDK holds a single LLM at a time; whichever module loads one records it here.
+  @Volatile
+  var loadedModelId: String? = null
+
+  fun find(id: String): Entry? = entries.firstOrNull { it.id == id }
+}
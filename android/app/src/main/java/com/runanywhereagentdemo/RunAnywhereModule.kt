@@ -1,24 +1,36 @@
 package com.runanywhereagentdemo
 
+import android.content.Context
+import android.net.ConnectivityManager
+import android.net.NetworkCapabilities
 import android.util.Log
 import com.facebook.react.bridge.Arguments
 import com.facebook.react.bridge.Promise
 import com.facebook.react.bridge.ReactApplicationContext
 import com.facebook.react.bridge.ReactContextBaseJavaModule
 import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.bridge.ReadableMap
 import com.facebook.react.modules.core.DeviceEventManagerModule
 import com.runanywhere.sdk.public.RunAnywhere
+import com.runanywhere.sdk.public.extensions.availableModels
 import com.runanywhere.sdk.public.extensions.cancelGeneration
+import com.runanywhere.sdk.public.extensions.deleteModel
 import com.runanywhere.sdk.public.extensions.downloadModel
 import com.runanywhere.sdk.public.extensions.generateStream
 import com.runanywhere.sdk.public.extensions.loadLLMModel
+import com.runanywhere.sdk.public.extensions.unloadLLMModel
 import com.runanywhere.sdk.public.extensions.LLM.LLMGenerationOptions
+import com.runanywhere.sdk.public.extensions.LLM.StructuredOutputConfig
 import kotlinx.coroutines.CoroutineScope
+import kotlinx.coroutines.CoroutineStart
 import kotlinx.coroutines.Dispatchers
 import kotlinx.coroutines.Job
 import kotlinx.coroutines.SupervisorJob
 import kotlinx.coroutines.cancel
 import kotlinx.coroutines.launch
+import java.io.File
+import java.io.IOException
+import java.util.concurrent.ConcurrentHashMap
 
 class RunAnywhereModule(private val reactContext: ReactApplicationContext) :
     ReactContextBaseJavaModule(reactContext) {
@@ -31,10 +43,21 @@ class RunAnywhereModule(private val reactContext: ReactApplicationContext) :
         const val EVENT_TOKEN = "RUNANYWHERE_TOKEN"
         const val EVENT_DONE = "RUNANYWHERE_DONE"
         const val EVENT_ERROR = "RUNANYWHERE_ERROR"
+
+        // Used for any field the JS side leaves out of the options map.
+        private const val DEFAULT_MAX_TOKENS = 512
+        private const val DEFAULT_TEMPERATURE = 0.2f
+        private const val DEFAULT_TOP_P = 0.9f
+        private val DEFAULT_STOP_SEQUENCES = listOf("\n\n", "\nUser:", "\nTask:", "###")
+        private const val DEFAULT_SYSTEM_PROMPT =
+            "You are a concise assistant. Answer the user's question in one sentence."
     }
 
     private val scope = CoroutineScope(SupervisorJob() + Dispatchers.IO)
     private var runJob: Job? = null
+    private val downloadJobs = ConcurrentHashMap<String, Job>()
+    // Models whose download job was cancelled by pauseDownload, not cancelDownload.
+    private val pausedDownloads = ConcurrentHashMap.newKeySet<String>()
 
     override fun getName(): String = NAME
 
@@ -58,28 +81,147 @@ class RunAnywhereModule(private val reactContext: ReactApplicationContext) :
         promise.resolve(null)
     }
 
+    private fun isOnline(): Boolean {
+        val manager = reactContext.getSystemService(Context.CONNECTIVITY_SERVICE) as? ConnectivityManager
+            ?: return true
+        val capabilities = manager.getNetworkCapabilities(manager.activeNetwork) ?: return false
+        return capabilities.hasCapability(NetworkCapabilities.NET_CAPABILITY_INTERNET)
+    }
+
+    @ReactMethod
+    fun isNetworkAvailable(promise: Promise) {
+        promise.resolve(isOnline())
+    }
+
+    // Download failures reject with a code the JS download manager acts on:
+    // NO_NETWORK and DOWNLOAD_NETWORK are retried or reported as offline,
+    // DOWNLOAD_PAUSED / DOWNLOAD_CANCELLED end the call on request.
     @ReactMethod
     fun downloadModel(modelId: String, promise: Promise) {
         Log.d(TAG, "downloadModel(modelId=$modelId)")
-        scope.launch {
+        pausedDownloads.remove(modelId)
+        downloadJobs[modelId]?.cancel()
+        // Started lazily so the job is tracked before it can finish.
+        val job = scope.launch(start = CoroutineStart.LAZY) {
             try {
+                val totalBytes = RunAnywhere.availableModels().find { it.id == modelId }?.downloadSize ?: 0L
                 RunAnywhere.downloadModel(modelId).collect { progress ->
                     val progressPercent = (progress.progress * 100).toInt()
+                    // The SDK reports a fraction only, so no bytesDownloaded:
+                    // JS derives it from progress and marks it estimated.
                     val params = Arguments.createMap().apply {
+                        putString("modelId", modelId)
                         putInt("progress", progressPercent)
+                        putDouble("totalBytes", totalBytes.toDouble())
                     }
                     sendEvent(EVENT_DOWNLOAD_PROGRESS, params)
                 }
                 promise.resolve(null)
+            } catch (e: kotlinx.coroutines.CancellationException) {
+                if (pausedDownloads.remove(modelId)) {
+                    Log.d(TAG, "Download paused: $modelId")
+                    promise.reject("DOWNLOAD_PAUSED", "Download paused: $modelId")
+                } else {
+                    Log.d(TAG, "Download cancelled: $modelId")
+                    promise.reject("DOWNLOAD_CANCELLED", "Download cancelled: $modelId")
+                }
             } catch (e: Exception) {
                 Log.e(TAG, "Download failed: ${e.message}", e)
-                val params = Arguments.createMap().apply {
-                    putString("message", e.message ?: "Download failed")
+                // Reported through the promise only: a RUNANYWHERE_ERROR event
+                // would end a chat run that is about to retry the download.
+                val code = when {
+                    !isOnline() -> "NO_NETWORK"
+                    e is IOException -> "DOWNLOAD_NETWORK"
+                    else -> "DOWNLOAD_ERROR"
                 }
-                sendEvent(EVENT_ERROR, params)
-                promise.reject("DOWNLOAD_ERROR", e.message, e)
+                promise.reject(code, e.message ?: "Download failed", e)
+            } finally {
+                // Only untrack ourselves; a newer download may have replaced this job.
+                coroutineContext[Job]?.let { downloadJobs.remove(modelId, it) }
             }
         }
+        downloadJobs[modelId] = job
+        job.start()
+    }
+
+    @ReactMethod
+    fun pauseDownload(modelId: String, promise: Promise) {
+        Log.d(TAG, "pauseDownload(modelId=$modelId)")
+        val job = downloadJobs.remove(modelId)
+        if (job != null) {
+            pausedDownloads.add(modelId)
+            job.cancel()
+        }
+        promise.resolve(null)
+    }
+
+    // Starts a stopped or failed download over. The SDK's downloader has no
+    // byte-range resume, so this is a restart from zero, not a resume.
+    @ReactMethod
+    fun resumeDownload(modelId: String, promise: Promise) {
+        downloadModel(modelId, promise)
+    }
+
+    @ReactMethod
+    fun cancelDownload(modelId: String, promise: Promise) {
+        Log.d(TAG, "cancelDownload(modelId=$modelId)")
+        pausedDownloads.remove(modelId)
+        downloadJobs.remove(modelId)?.cancel()
+        promise.resolve(null)
+    }
+
+    @ReactMethod
+    fun listModels(promise: Promise) {
+        scope.launch {
+            try {
+                val sdkModels = RunAnywhere.availableModels().associateBy { it.id }
+                val result = Arguments.createArray()
+                ModelCatalog.entries.forEach { entry ->
+                    val info = sdkModels[entry.id]
+                    val sizeOnDisk = info?.localPath?.let { sizeOnDisk(File(it)) } ?: 0L
+                    result.pushMap(Arguments.createMap().apply {
+                        putString("id", entry.id)
+                        putString("name", entry.name)
+                        putString("label", entry.label)
+                        putDouble("downloadSizeBytes", (info?.downloadSize ?: 0L).toDouble())
+                        putDouble("sizeOnDiskBytes", sizeOnDisk.toDouble())
+                        putDouble("memoryRequirement", entry.memoryRequirement.toDouble())
+                        putInt("contextLength", entry.contextLength)
+                        putBoolean("downloaded", info?.isDownloaded == true)
+                        putBoolean("downloading", downloadJobs.containsKey(entry.id))
+                        putBoolean("loaded", ModelCatalog.loadedModelId == entry.id)
+                    })
+                }
+                promise.resolve(result)
+            } catch (e: Exception) {
+                Log.e(TAG, "List models failed: ${e.message}", e)
+                promise.reject("LIST_ERROR", e.message, e)
+            }
+        }
+    }
+
+    @ReactMethod
+    fun deleteModel(modelId: String, promise: Promise) {
+        Log.d(TAG, "deleteModel(modelId=$modelId)")
+        scope.launch {
+            try {
+                downloadJobs.remove(modelId)?.cancel()
+                if (ModelCatalog.loadedModelId == modelId) {
+                    RunAnywhere.unloadLLMModel()
+                    ModelCatalog.loadedModelId = null
+                }
+                RunAnywhere.deleteModel(modelId)
+                promise.resolve(null)
+            } catch (e: Exception) {
+                Log.e(TAG, "Delete failed: ${e.message}", e)
+                promise.reject("DELETE_ERROR", e.message, e)
+            }
+        }
+    }
+
+    private fun sizeOnDisk(file: File): Long {
+        if (!file.exists()) return 0L
+        return if (file.isDirectory) file.walkTopDown().filter { it.isFile }.sumOf { it.length() } else file.length()
     }
 
     @ReactMethod
@@ -88,6 +230,7 @@ class RunAnywhereModule(private val reactContext: ReactApplicationContext) :
         scope.launch {
             try {
                 RunAnywhere.loadLLMModel(modelId)
+                ModelCatalog.loadedModelId = modelId
                 Log.i(TAG, "Model loaded: $modelId")
                 promise.resolve(null)
             } catch (e: Exception) {
@@ -102,8 +245,30 @@ class RunAnywhereModule(private val reactContext: ReactApplicationContext) :
     }
 
     @ReactMethod
-    fun runAgent(task: String, context: String?, promise: Promise) {
-        Log.i(TAG, "runAgent(task=$task)")
+    fun unloadModel(promise: Promise) {
+        Log.d(TAG, "unloadModel(loaded=${ModelCatalog.loadedModelId})")
+        scope.launch {
+            try {
+                if (ModelCatalog.loadedModelId != null) {
+                    RunAnywhere.unloadLLMModel()
+                    ModelCatalog.loadedModelId = null
+                }
+                promise.resolve(null)
+            } catch (e: Exception) {
+                Log.e(TAG, "Unload failed: ${e.message}", e)
+                promise.reject("UNLOAD_ERROR", e.message, e)
+            }
+        }
+    }
+
+    @ReactMethod
+    fun getLoadedModel(promise: Promise) {
+        promise.resolve(ModelCatalog.loadedModelId)
+    }
+
+    @ReactMethod
+    fun runAgent(task: String, context: String?, generation: ReadableMap?, jsonSchema: String?, promise: Promise) {
+        Log.i(TAG, "runAgent(task=$task, structured=${jsonSchema != null})")
         runJob?.cancel()
 
         val prompt = if (context.isNullOrBlank()) {
@@ -112,14 +277,7 @@ class RunAnywhereModule(private val reactContext: ReactApplicationContext) :
             "$task\n\nContext: $context"
         }
 
-        val options = LLMGenerationOptions(
-            maxTokens = 512,
-            temperature = 0.2f,
-            topP = 0.9f,
-            stopSequences = listOf("\n\n", "\nUser:", "\nTask:", "###"),
-            streamingEnabled = true,
-            systemPrompt = "You are a concise assistant. Answer the user's question in one sentence.",
-        )
+        val options = parseGenerationOptions(generation, jsonSchema)
 
         runJob = scope.launch {
             try {
@@ -133,7 +291,9 @@ class RunAnywhereModule(private val reactContext: ReactApplicationContext) :
                 promise.resolve(null)
             } catch (e: kotlinx.coroutines.CancellationException) {
                 Log.d(TAG, "Generation cancelled")
-                // Don't reject — cancellation is expected via cancelRun
+                // Settle the call so JS never waits on a cancelled run; the
+                // JS wrapper ignores this when it cancelled the run itself.
+                promise.reject("RUN_CANCELLED", "Cancelled")
             } catch (e: Exception) {
                 Log.e(TAG, "Generation failed: ${e.message}", e)
                 val params = Arguments.createMap().apply {
@@ -145,6 +305,40 @@ class RunAnywhereModule(private val reactContext: ReactApplicationContext) :
         }
     }
 
+    private fun parseGenerationOptions(map: ReadableMap?, jsonSchema: String? = null): LLMGenerationOptions {
+        fun number(key: String): Double? =
+            if (map != null && map.hasKey(key) && !map.isNull(key)) map.getDouble(key) else null
+
+        val stopSequences = if (map != null && map.hasKey("stopSequences") && !map.isNull("stopSequences")) {
+            val array = map.getArray("stopSequences")
+            (0 until (array?.size() ?: 0)).mapNotNull { array?.getString(it) }.filter { it.isNotEmpty() }
+        } else {
+            DEFAULT_STOP_SEQUENCES
+        }
+        // An explicitly blank system prompt means "no system prompt".
+        val systemPrompt = if (map != null && map.hasKey("systemPrompt")) {
+            map.getString("systemPrompt")?.takeIf { it.isNotBlank() }
+        } else {
+            DEFAULT_SYSTEM_PROMPT
+        }
+
+        return LLMGenerationOptions(
+            maxTokens = number("maxTokens")?.toInt()?.coerceIn(16, 4096) ?: DEFAULT_MAX_TOKENS,
+            temperature = number("temperature")?.toFloat()?.coerceIn(0f, 2f) ?: DEFAULT_TEMPERATURE,
+            topP = number("topP")?.toFloat()?.coerceIn(0f, 1f) ?: DEFAULT_TOP_P,
+            stopSequences = stopSequences,
+            streamingEnabled = true,
+            systemPrompt = systemPrompt,
+            structuredOutput = jsonSchema?.let {
+                StructuredOutputConfig(
+                    typeName = "Response",
+                    includeSchemaInPrompt = true,
+                    jsonSchema = it
+                )
+            },
+        )
+    }
+
     @ReactMethod
     fun cancelRun(promise: Promise) {
         Log.d(TAG, "cancelRun()")
@@ -10,7 +10,10 @@ class RunAnywherePackage : ReactPackage {
     override fun createNativeModules(reactContext: ReactApplicationContext): List<NativeModule> {
         return listOf(
             RunAnywhereModule(reactContext),
-            AgentKernelModule(reactContext)
+            AgentKernelModule(reactContext),
+            KeyValueStoreModule(reactContext),
+            ClipboardModule(reactContext),
+            DocumentsModule(reactContext)
         )
     }
 
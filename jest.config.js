@@ -1,3 +1,4 @@
 module.exports = {
   preset: 'react-native',
+  setupFilesAfterEnv: ['<rootDir>/jest/setup.ts'],
 };
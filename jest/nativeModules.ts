@@ -0,0 +1,191 @@
+/**
+ * Scriptable fakes for the RunAnywhere and AgentKernel native modules.
+ *
+ * Installed into NativeModules by jest/setup.ts and reset before every test.
+ * Every bridge method is a jest.fn with a sensible default; tests override
+ * behaviour per call with `mockImplementationOnce(script([...]))` or the usual
+ * `mockRejectedValueOnce`, and push events with the emit helpers below.
+ */
+import {DeviceEventEmitter} from 'react-native';
+import type {ModelInfo} from '../src/state/types';
+
+export type ScriptStep =
+  | {emit: string; payload?: object}
+  | {delay: number}
+  | {reject: string; code?: string};
+
+export const RUNANYWHERE_EVENTS = {
+  DOWNLOAD_PROGRESS: 'RUNANYWHERE_DOWNLOAD_PROGRESS',
+  TOKEN: 'RUNANYWHERE_TOKEN',
+  DONE: 'RUNANYWHERE_DONE',
+  ERROR: 'RUNANYWHERE_ERROR',
+} as const;
+
+export const AGENT_EVENTS = {
+  LOG: 'AGENT_LOG',
+  DONE: 'AGENT_DONE',
+  ERROR: 'AGENT_ERROR',
+  STRUCTURED: 'AGENT_EVENT',
+} as const;
+
+export const DEFAULT_MODEL_ID = 'qwen2.5-1.5b-instruct-q4_k_m';
+
+const MODEL_IDS = [
+  'smollm2-360m-instruct-q8_0',
+  DEFAULT_MODEL_ID,
+  'lfm2.5-1.2b-instruct-q4_k_m',
+];
+
+export function fakeModel(id: string, patch: Partial<ModelInfo> = {}): ModelInfo {
+  return {
+    id,
+    name: id,
+    label: id,
+    downloadSizeBytes: 500_000_000,
+    sizeOnDiskBytes: 0,
+    memoryRequirement: 800_000_000,
+    contextLength: 2048,
+    downloaded: false,
+    downloading: false,
+    loaded: false,
+    ...patch,
+  };
+}
+
+export function emitNative(eventName: string, payload: object = {}) {
+  DeviceEventEmitter.emit(eventName, payload);
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Builds a bridge method implementation that plays `steps` in order and then
+ * resolves with `result`, unless a `reject` step ends it early. Delays use
+ * setTimeout, so they work with both real and fake timers.
+ */
+export function script<T = null>(steps: ScriptStep[], result?: T) {
+  return async (): Promise<T | null> => {
+    for (const step of steps) {
+      if ('emit' in step) {
+        emitNative(step.emit, step.payload);
+      } else if ('delay' in step) {
+        await wait(step.delay);
+      } else {
+        const error = new Error(step.reject) as Error & {code?: string};
+        error.code = step.code;
+        throw error;
+      }
+    }
+    return result ?? null;
+  };
+}
+
+// A promise the test settles by hand, for holding a bridge call open while
+// asserting on intermediate state.
+export function deferred<T = null>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return {promise, resolve, reject};
+}
+
+export function downloadProgress(
+  progress: number,
+  modelId = DEFAULT_MODEL_ID,
+): ScriptStep {
+  return {emit: RUNANYWHERE_EVENTS.DOWNLOAD_PROGRESS, payload: {progress, modelId}};
+}
+
+export function tokens(...texts: string[]): ScriptStep[] {
+  return texts.map(token => ({emit: RUNANYWHERE_EVENTS.TOKEN, payload: {token}}));
+}
+
+export function runDone(): ScriptStep {
+  return {emit: RUNANYWHERE_EVENTS.DONE};
+}
+
+export function runError(message: string): ScriptStep {
+  return {emit: RUNANYWHERE_EVENTS.ERROR, payload: {message}};
+}
+
+export function agentLog(message: string): ScriptStep {
+  return {emit: AGENT_EVENTS.LOG, payload: {message}};
+}
+
+export function agentDone(message?: string): ScriptStep {
+  return {emit: AGENT_EVENTS.DONE, payload: message ? {message} : {}};
+}
+
+export function agentError(message: string): ScriptStep {
+  return {emit: AGENT_EVENTS.ERROR, payload: {message}};
+}
+
+export function agentEvent(type: string, fields: object = {}): ScriptStep {
+  return {
+    emit: AGENT_EVENTS.STRUCTURED,
+    payload: {type, timestamp: Date.now(), ...fields},
+  };
+}
+
+function createRunAnywhere() {
+  let loaded: string | null = null;
+  return {
+    initialize: jest.fn(async () => null),
+    downloadModel: jest.fn(async () => null),
+    pauseDownload: jest.fn(async () => null),
+    resumeDownload: jest.fn(async () => null),
+    cancelDownload: jest.fn(async () => null),
+    isNetworkAvailable: jest.fn(async () => true),
+    listModels: jest.fn(async () =>
+      MODEL_IDS.map(id => fakeModel(id, {loaded: id === loaded})),
+    ),
+    deleteModel: jest.fn(async () => null),
+    loadModel: jest.fn(async (modelId: string) => {
+      loaded = modelId;
+      return null;
+    }),
+    unloadModel: jest.fn(async () => {
+      loaded = null;
+      return null;
+    }),
+    getLoadedModel: jest.fn(async () => loaded),
+    runAgent: jest.fn(script([runDone()])),
+    cancelRun: jest.fn(async () => null),
+    addListener: jest.fn(),
+    removeListeners: jest.fn(),
+  };
+}
+
+function createAgentKernel() {
+  let active = DEFAULT_MODEL_ID;
+  return {
+    isServiceEnabled: jest.fn(async () => true),
+    startAgent: jest.fn(script([agentDone('Goal achieved')])),
+    stopAgent: jest.fn(async () => null),
+    resolveApproval: jest.fn(async () => null),
+    getAvailableModels: jest.fn(async () => MODEL_IDS),
+    getActiveModel: jest.fn(async () => active),
+    setActiveModel: jest.fn(async (modelId: string) => {
+      active = modelId;
+      return true;
+    }),
+    addListener: jest.fn(),
+    removeListeners: jest.fn(),
+  };
+}
+
+export const fakeRunAnywhere = createRunAnywhere();
+export const fakeAgentKernel = createAgentKernel();
+
+// Restores the default implementations and clears recorded calls, keeping
+// the same objects so modules that destructured NativeModules still see them.
+export function resetNativeFakes() {
+  Object.assign(fakeRunAnywhere, createRunAnywhere());
+  Object.assign(fakeAgentKernel, createAgentKernel());
+  DeviceEventEmitter.removeAllListeners();
+}
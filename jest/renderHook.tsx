@@ -0,0 +1,36 @@
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+
+// Minimal renderHook on top of react-test-renderer: `result.current` always
+// holds the latest return value of the hook.
+export async function renderHook<T>(hook: () => T) {
+  const result = {} as {current: T};
+  function Probe() {
+    result.current = hook();
+    return null;
+  }
+  let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(<Probe />);
+  });
+  return {
+    result,
+    unmount: () =>
+      ReactTestRenderer.act(() => {
+        renderer?.unmount();
+      }),
+  };
+}
+
+// Runs `fn` inside act() and lets pending promises and state updates settle.
+export async function act(fn: () => unknown = () => undefined) {
+  await ReactTestRenderer.act(async () => {
+    await fn();
+  });
+}
+
+// Resolves after the next animation frame (a zero timeout under Jest), so
+// frame-batched updates have been published.
+export function nextFrame(): Promise<void> {
+  return new Promise(resolve => requestAnimationFrame(() => resolve()));
+}
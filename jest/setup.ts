@@ -0,0 +1,15 @@
+import {NativeModules} from 'react-native';
+import {
+  fakeAgentKernel,
+  fakeRunAnywhere,
+  resetNativeFakes,
+} from './nativeModules';
+
+// Installed before any test file imports src/native/*, which read
+// NativeModules once at module load.
+NativeModules.RunAnywhere = fakeRunAnywhere;
+NativeModules.AgentKernel = fakeAgentKernel;
+
+beforeEach(() => {
+  resetNativeFakes();
+});
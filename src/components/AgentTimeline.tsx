@@ -0,0 +1,205 @@
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {describeDecision} from '../state/agentTimeline';
+import type {AgentStep} from '../state/types';
+
+interface Props {
+  steps: AgentStep[];
+  // Latest non-step line (download progress, done/error message).
+  status?: string;
+}
+
+function formatElapsed(step: AgentStep): string {
+  if (step.executedAt === undefined) {
+    return 'running…';
+  }
+  return `${((step.executedAt - step.startedAt) / 1000).toFixed(1)}s`;
+}
+
+function StepCard({
+  step,
+  expanded,
+  onToggle,
+}: {
+  step: AgentStep;
+  expanded: boolean;
+  onToggle: () => void;
+}): React.JSX.Element {
+  return (
+    <View style={styles.card}>
+      <TouchableOpacity style={styles.cardHeader} onPress={onToggle}>
+        <Text style={styles.stepLabel}>
+          {expanded ? '▾' : '▸'} Step {step.step}
+        </Text>
+        <Text style={styles.action} numberOfLines={1}>
+          {step.decision ? describeDecision(step.decision) : 'deciding…'}
+        </Text>
+        {step.heuristic && (
+          <View style={styles.heuristicBadge}>
+            <Text style={styles.heuristicText}>HEURISTIC</Text>
+          </View>
+        )}
+        {step.approval && (
+          <Text style={styles.approval}>
+            {step.approval === 'pending' ? 'awaiting approval' : step.approval}
+          </Text>
+        )}
+        <Text style={styles.elapsed}>{formatElapsed(step)}</Text>
+      </TouchableOpacity>
+      {expanded && (
+        <View style={styles.details}>
+          <Text style={styles.sectionLabel}>
+            {step.elementCount !== undefined
+              ? `Screen (${step.elementCount} elements)`
+              : 'Screen'}
+          </Text>
+          <Text style={styles.mono}>{step.screen || '—'}</Text>
+          <Text style={styles.sectionLabel}>Model reply</Text>
+          <Text style={styles.mono}>{step.rawDecision || '—'}</Text>
+          {step.decision && (
+            <>
+              <Text style={styles.sectionLabel}>Parsed decision</Text>
+              <Text style={styles.mono}>
+                action: {step.decision.action}
+                {step.decision.index !== undefined &&
+                  `\nindex: ${step.decision.index}`}
+                {step.decision.text !== undefined &&
+                  `\ntext: ${step.decision.text}`}
+                {step.decision.direction !== undefined &&
+                  `\ndirection: ${step.decision.direction}`}
+              </Text>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+export function AgentTimeline({steps, status}: Props): React.JSX.Element {
+  const scrollRef = useRef<ScrollView>(null);
+  const [expanded, setExpanded] = useState<Record<number, boolean>>({});
+  const latestStep = steps.length > 0 ? steps[steps.length - 1].step : -1;
+
+  useEffect(() => {
+    scrollRef.current?.scrollToEnd({animated: true});
+  }, [steps, status]);
+
+  // Step numbers restart with each run.
+  useEffect(() => {
+    if (steps.length === 0) {
+      setExpanded({});
+    }
+  }, [steps.length]);
+
+  // Only the latest step is open by default; a tap overrides either way.
+  const isExpanded = (step: number) => expanded[step] ?? step === latestStep;
+  const toggle = (step: number) =>
+    setExpanded(prev => ({...prev, [step]: !isExpanded(step)}));
+
+  return (
+    <ScrollView
+      ref={scrollRef}
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      nestedScrollEnabled
+      showsVerticalScrollIndicator
+      persistentScrollbar>
+      {steps.map(step => (
+        <StepCard
+          key={step.step}
+          step={step}
+          expanded={isExpanded(step.step)}
+          onToggle={() => toggle(step.step)}
+        />
+      ))}
+      {!!status && <Text style={styles.status}>{status}</Text>}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    minHeight: 220,
+    maxHeight: 360,
+  },
+  content: {
+    padding: 12,
+    gap: 8,
+  },
+  card: {
+    borderRadius: 10,
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.2)',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  stepLabel: {
+    color: '#a8b6de',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  action: {
+    flex: 1,
+    color: '#f4f7ff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  heuristicBadge: {
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+    borderRadius: 4,
+    backgroundColor: '#f39c12',
+  },
+  heuristicText: {
+    color: '#fff',
+    fontSize: 9,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+  approval: {
+    color: '#f39c12',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  elapsed: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  details: {
+    paddingHorizontal: 10,
+    paddingBottom: 10,
+    gap: 4,
+  },
+  sectionLabel: {
+    color: '#7e8bb3',
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 0.3,
+    marginTop: 4,
+  },
+  mono: {
+    color: '#dbe7ff',
+    fontFamily: 'monospace',
+    fontSize: 12,
+    lineHeight: 18,
+  },
+  status: {
+    color: '#9fb0d6',
+    fontFamily: 'monospace',
+    fontSize: 12,
+    paddingHorizontal: 4,
+  },
+});
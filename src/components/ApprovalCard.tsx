@@ -0,0 +1,226 @@
+import React, {useEffect, useState} from 'react';
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type {
+  AgentDecision,
+  ApprovalVerdict,
+  DeviceAction,
+  PendingApproval,
+  SwipeDirection,
+} from '../state/types';
+
+interface Props {
+  pending: PendingApproval;
+  onRespond: (verdict: ApprovalVerdict, decision?: AgentDecision) => void;
+}
+
+const EDITABLE_ACTIONS: DeviceAction[] = [
+  'tap',
+  'type',
+  'swipe',
+  'back',
+  'home',
+  'done',
+];
+const DIRECTIONS: SwipeDirection[] = ['up', 'down', 'left', 'right'];
+
+function describe(decision: AgentDecision): string {
+  switch (decision.action) {
+    case 'tap':
+      return `Tap element #${decision.index ?? '?'}`;
+    case 'type':
+      return `Type "${decision.text ?? ''}"`;
+    case 'swipe':
+      return `Swipe ${decision.direction ?? 'up'}`;
+    default:
+      return decision.action;
+  }
+}
+
+export function ApprovalCard({pending, onRespond}: Props): React.JSX.Element {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<AgentDecision>(pending.decision);
+
+  useEffect(() => {
+    setEditing(false);
+    setDraft(pending.decision);
+  }, [pending]);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Step {pending.step} needs approval</Text>
+      <Text style={styles.proposal}>{describe(pending.decision)}</Text>
+      {!!pending.raw && (
+        <Text style={styles.raw} numberOfLines={2}>
+          {pending.raw}
+        </Text>
+      )}
+      {editing && (
+        <View style={styles.editor}>
+          <View style={styles.chips}>
+            {EDITABLE_ACTIONS.map(action => (
+              <TouchableOpacity
+                key={action}
+                style={[styles.chip, draft.action === action && styles.chipActive]}
+                onPress={() => setDraft({...draft, action})}>
+                <Text style={styles.chipText}>{action}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {draft.action === 'tap' && (
+            <TextInput
+              style={styles.input}
+              placeholder="Element index"
+              placeholderTextColor="#7e8bb3"
+              keyboardType="number-pad"
+              value={draft.index !== undefined ? String(draft.index) : ''}
+              onChangeText={value => {
+                const index = parseInt(value, 10);
+                setDraft({...draft, index: isNaN(index) ? undefined : index});
+              }}
+            />
+          )}
+          {draft.action === 'type' && (
+            <TextInput
+              style={styles.input}
+              placeholder="Text to type"
+              placeholderTextColor="#7e8bb3"
+              value={draft.text ?? ''}
+              onChangeText={text => setDraft({...draft, text})}
+            />
+          )}
+          {draft.action === 'swipe' && (
+            <View style={styles.chips}>
+              {DIRECTIONS.map(direction => (
+                <TouchableOpacity
+                  key={direction}
+                  style={[
+                    styles.chip,
+                    draft.direction === direction && styles.chipActive,
+                  ]}
+                  onPress={() => setDraft({...draft, direction})}>
+                  <Text style={styles.chipText}>{direction}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+      )}
+      <View style={styles.buttons}>
+        {editing ? (
+          <TouchableOpacity
+            style={[styles.button, styles.approve]}
+            onPress={() => onRespond('edit', draft)}>
+            <Text style={styles.buttonText}>Run edited</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.button, styles.approve]}
+            onPress={() => onRespond('approve')}>
+            <Text style={styles.buttonText}>Approve</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => setEditing(!editing)}>
+          <Text style={styles.buttonText}>{editing ? 'Cancel edit' : 'Edit'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => onRespond('skip')}>
+          <Text style={styles.buttonText}>Skip</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.abort]}
+          onPress={() => onRespond('abort')}>
+          <Text style={styles.buttonText}>Abort</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 14,
+    gap: 8,
+  },
+  label: {
+    color: '#f39c12',
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 0.3,
+  },
+  proposal: {
+    color: '#f4f7ff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  raw: {
+    color: '#7e8bb3',
+    fontFamily: 'monospace',
+    fontSize: 11,
+  },
+  editor: {
+    gap: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    backgroundColor: 'rgba(18, 24, 50, 0.8)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  chipActive: {
+    backgroundColor: '#1f6feb',
+    borderColor: '#1f6feb',
+  },
+  chipText: {
+    color: '#e0e0e0',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  input: {
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    color: '#f4f7ff',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    fontSize: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  buttons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  button: {
+    backgroundColor: '#0f3460',
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 10,
+  },
+  approve: {
+    backgroundColor: '#1f6feb',
+  },
+  abort: {
+    backgroundColor: '#d14b63',
+  },
+  buttonText: {
+    color: '#e0e0e0',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+});
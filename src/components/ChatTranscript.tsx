@@ -0,0 +1,237 @@
+import React, {useMemo, useRef} from 'react';
+import {StyleSheet, Text, View} from 'react-native';
+import type {ChatTurn, RetrievedChunk} from '../state/types';
+import {parseMarkdown} from '../state/markdown';
+import type {Block} from '../state/markdown';
+import {MarkdownBlock, useMarkdownBlocks} from './Markdown';
+import {JsonTree} from './JsonTree';
+import {SourceList} from './SourceList';
+import {VirtualBlockList} from './VirtualBlockList';
+
+interface Props {
+  turns: ChatTurn[];
+  // Assistant text still streaming in, shown as a trailing bubble.
+  pendingOutput?: string;
+  // Download / loading / error line shown under the last turn.
+  status?: string;
+}
+
+// One windowed row. Markdown answers are split into a head (the meta line),
+// one row per block and a tail, so a long answer is windowed block by block
+// like OutputPanel instead of mounting whole.
+type Row =
+  | {kind: 'user'; turn: ChatTurn}
+  | {kind: 'structured'; turn: ChatTurn}
+  | {kind: 'head'; label: string}
+  | {kind: 'block'; block: Block}
+  | {kind: 'tail'; sources?: RetrievedChunk[]}
+  | {kind: 'status'; text: string};
+
+const PENDING_HEAD: Row = {kind: 'head', label: 'Assistant · typing…'};
+const PENDING_TAIL: Row = {kind: 'tail'};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function metaLabel(turn: ChatTurn): string {
+  return `${turn.role === 'user' ? 'You' : 'Assistant'} · ${formatTime(
+    turn.createdAt,
+  )}`;
+}
+
+function turnRows(turn: ChatTurn): Row[] {
+  if (turn.role === 'user') {
+    return [{kind: 'user', turn}];
+  }
+  if (turn.structured !== undefined) {
+    return [{kind: 'structured', turn}];
+  }
+  return [
+    {kind: 'head', label: metaLabel(turn)},
+    ...parseMarkdown(turn.text).map(block => ({kind: 'block' as const, block})),
+    {kind: 'tail', sources: turn.sources},
+  ];
+}
+
+function renderRow(row: Row, index: number): React.ReactNode {
+  const spaced = index > 0 && styles.spaced;
+  switch (row.kind) {
+    case 'user':
+      return (
+        <View style={[styles.bubble, styles.userBubble, spaced]}>
+          <Text style={styles.meta}>{metaLabel(row.turn)}</Text>
+          <Text style={styles.userText}>{row.turn.text}</Text>
+        </View>
+      );
+    case 'structured':
+      return (
+        <View
+          style={[
+            styles.bubble,
+            styles.assistantSegment,
+            styles.assistantHead,
+            styles.assistantTail,
+            spaced,
+          ]}>
+          <Text style={styles.meta}>{metaLabel(row.turn)}</Text>
+          <JsonTree value={row.turn.structured} />
+          {!!row.turn.sources && <SourceList sources={row.turn.sources} />}
+        </View>
+      );
+    case 'head':
+      return (
+        <View style={[styles.assistantSegment, styles.assistantHead, spaced]}>
+          <Text style={styles.meta}>{row.label}</Text>
+        </View>
+      );
+    case 'block':
+      return (
+        <View style={[styles.assistantSegment, styles.blockSegment]}>
+          <MarkdownBlock block={row.block} />
+        </View>
+      );
+    case 'tail':
+      return (
+        <View
+          style={[
+            styles.assistantSegment,
+            styles.assistantTail,
+            !!row.sources && styles.sourcesTail,
+          ]}>
+          {!!row.sources && <SourceList sources={row.sources} />}
+        </View>
+      );
+    case 'status':
+      return <Text style={[styles.status, spaced]}>{row.text}</Text>;
+  }
+}
+
+export function ChatTranscript({
+  turns,
+  pendingOutput,
+  status,
+}: Props): React.JSX.Element {
+  // Rows of finished turns, parsed once per turn.
+  const rowsCacheRef = useRef(new Map<string, Row[]>());
+  const pendingBlocks = useMarkdownBlocks(pendingOutput ?? '', true);
+
+  const turnRowList = useMemo(() => {
+    const previous = rowsCacheRef.current;
+    const next = new Map<string, Row[]>();
+    const rows: Row[] = [];
+    turns.forEach(turn => {
+      const cached = previous.get(turn.id) ?? turnRows(turn);
+      next.set(turn.id, cached);
+      rows.push(...cached);
+    });
+    rowsCacheRef.current = next;
+    return rows;
+  }, [turns]);
+
+  const rows: Row[] = [...turnRowList];
+  if (pendingOutput) {
+    rows.push(
+      PENDING_HEAD,
+      ...pendingBlocks.map(block => ({kind: 'block' as const, block})),
+      PENDING_TAIL,
+    );
+  }
+  if (status) {
+    rows.push({kind: 'status', text: status});
+  }
+
+  return (
+    <VirtualBlockList
+      items={rows}
+      renderItem={renderRow}
+      gap={0}
+      estimatedItemHeight={24}
+      followOutput
+      emptyComponent={
+        <Text style={styles.placeholder}>
+          Ask a question to start the conversation.
+        </Text>
+      }
+      style={styles.container}
+      contentContainerStyle={styles.content}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    minHeight: 220,
+    maxHeight: 360,
+  },
+  content: {
+    padding: 12,
+  },
+  spaced: {
+    marginTop: 8,
+  },
+  placeholder: {
+    color: '#dbe7ff',
+    fontFamily: 'monospace',
+    fontSize: 13,
+    padding: 4,
+  },
+  bubble: {
+    borderRadius: 10,
+    paddingVertical: 8,
+  },
+  userBubble: {
+    alignSelf: 'flex-end',
+    maxWidth: '92%',
+    paddingHorizontal: 12,
+    backgroundColor: 'rgba(31, 111, 235, 0.35)',
+  },
+  // Rows of one assistant bubble share a fixed width so their backgrounds
+  // line up into a single bubble.
+  assistantSegment: {
+    alignSelf: 'flex-start',
+    width: '92%',
+    paddingHorizontal: 12,
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    borderLeftWidth: 1,
+    borderRightWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.2)',
+  },
+  assistantHead: {
+    borderTopWidth: 1,
+    borderTopLeftRadius: 10,
+    borderTopRightRadius: 10,
+    paddingTop: 8,
+  },
+  assistantTail: {
+    borderBottomWidth: 1,
+    borderBottomLeftRadius: 10,
+    borderBottomRightRadius: 10,
+  },
+  // Blocks already leave 8 below themselves.
+  sourcesTail: {
+    paddingBottom: 8,
+  },
+  blockSegment: {
+    paddingBottom: 8,
+  },
+  meta: {
+    color: '#7e8bb3',
+    fontSize: 10,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  userText: {
+    color: '#f4f7ff',
+    fontSize: 14,
+  },
+  status: {
+    color: '#9fb0d6',
+    fontFamily: 'monospace',
+    fontSize: 12,
+    paddingHorizontal: 4,
+  },
+});
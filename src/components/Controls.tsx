@@ -1,4 +1,4 @@
-import React, {useState} from 'react';
+import React, {useEffect, useRef, useState} from 'react';
 import {
   StyleSheet,
   Text,
@@ -6,12 +6,23 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
+import {PromptLibrary} from './PromptLibrary';
+import {usePromptLibrary} from '../state/usePromptLibrary';
+import {useInputHistory} from '../state/useInputHistory';
+import {searchRecent} from '../state/inputHistory';
+import type {InputDraft} from '../state/inputHistory';
+import type {RunKind} from '../state/types';
+
+// Recent-list matches shown at once; the search narrows the rest.
+const VISIBLE_RECENT = 8;
 
 interface Props {
   onRun: (task: string, context?: string) => void;
   onStop: () => void;
   isRunning: boolean;
   modeLabel?: string;
+  // Which templates, draft and recent tasks are offered.
+  mode?: RunKind;
 }
 
 export function Controls({
@@ -19,22 +30,169 @@ export function Controls({
   onStop,
   isRunning,
   modeLabel,
+  mode = 'chat',
 }: Props): React.JSX.Element {
-  const [task, setTask] = useState('');
-  const [context, setContext] = useState('');
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showRecent, setShowRecent] = useState(false);
+  const [query, setQuery] = useState('');
+  // Position in the recent list while stepping with the arrows; -1 is the draft.
+  const [recallIndex, setRecallIndex] = useState(-1);
+  // What was typed before recall started, restored when stepping back down.
+  const stashRef = useRef<InputDraft | null>(null);
+  const library = usePromptLibrary();
+  const {draft, recent, setDraft, record} = useInputHistory(mode);
+  const {task, context} = draft;
+
+  useEffect(() => {
+    setRecallIndex(-1);
+    stashRef.current = null;
+  }, [mode]);
+
+  const edit = (next: InputDraft) => {
+    setRecallIndex(-1);
+    stashRef.current = null;
+    setDraft(next);
+  };
+
+  const recall = (index: number) => {
+    if (index < -1 || index >= recent.length) {
+      return;
+    }
+    if (recallIndex === -1) {
+      stashRef.current = draft;
+    }
+    setRecallIndex(index);
+    if (index === -1) {
+      setDraft(stashRef.current ?? {task: '', context: ''});
+      stashRef.current = null;
+    } else {
+      const entry = recent[index];
+      setDraft({task: entry.task, context: entry.context ?? ''});
+    }
+  };
 
+  const run = () => {
+    const trimmedContext = context.trim() || undefined;
+    record(task.trim(), trimmedContext);
+    setRecallIndex(-1);
+    stashRef.current = null;
+    onRun(task.trim(), trimmedContext);
+  };
+
+  const matches = searchRecent(recent, query).slice(0, VISIBLE_RECENT);
   const canRun = !isRunning && task.trim().length > 0;
   const buttonLabel = modeLabel ? `Run ${modeLabel}` : 'Run Agent';
 
   return (
     <View style={styles.container}>
-      <Text style={styles.label}>Task</Text>
+      <View style={styles.labelRow}>
+        <Text style={styles.label}>Task</Text>
+        <View style={styles.links}>
+          <TouchableOpacity
+            onPress={() => recall(recallIndex + 1)}
+            disabled={isRunning || recallIndex >= recent.length - 1}
+            accessibilityLabel="Previous task">
+            <Text
+              style={[
+                styles.link,
+                (isRunning || recallIndex >= recent.length - 1) &&
+                  styles.buttonDisabled,
+              ]}>
+              ▲
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => recall(recallIndex - 1)}
+            disabled={isRunning || recallIndex < 0}
+            accessibilityLabel="Next task">
+            <Text
+              style={[
+                styles.link,
+                (isRunning || recallIndex < 0) && styles.buttonDisabled,
+              ]}>
+              ▼
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => {
+              setShowRecent(open => !open);
+              setShowLibrary(false);
+            }}
+            disabled={isRunning || recent.length === 0}>
+            <Text
+              style={[
+                styles.link,
+                (isRunning || recent.length === 0) && styles.buttonDisabled,
+              ]}>
+              {showRecent ? 'Hide recent' : 'Recent'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => {
+              setShowLibrary(open => !open);
+              setShowRecent(false);
+            }}
+            disabled={isRunning}>
+            <Text style={[styles.link, isRunning && styles.buttonDisabled]}>
+              {showLibrary ? 'Hide templates' : 'Templates'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+      {showRecent && !isRunning && (
+        <View style={styles.recent}>
+          <TextInput
+            style={styles.search}
+            placeholder="Search recent tasks..."
+            placeholderTextColor="#7e8bb3"
+            value={query}
+            onChangeText={setQuery}
+          />
+          {matches.length === 0 ? (
+            <Text style={styles.hint}>No matching tasks.</Text>
+          ) : (
+            matches.map(entry => (
+              <TouchableOpacity
+                key={`${entry.submittedAt}-${entry.task}`}
+                style={styles.recentItem}
+                onPress={() => {
+                  edit({task: entry.task, context: entry.context ?? ''});
+                  setShowRecent(false);
+                  setQuery('');
+                }}>
+                <Text style={styles.recentTask} numberOfLines={1}>
+                  {entry.task}
+                </Text>
+                {entry.context ? (
+                  <Text style={styles.hint} numberOfLines={1}>
+                    {entry.context}
+                  </Text>
+                ) : null}
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      )}
+      {showLibrary && !isRunning && (
+        <PromptLibrary
+          mode={mode}
+          templates={library.templates}
+          task={task}
+          context={context}
+          onInsert={(nextTask, nextContext) => {
+            edit({task: nextTask, context: nextContext ?? ''});
+            setShowLibrary(false);
+          }}
+          onSave={library.saveTemplate}
+          onDelete={library.deleteTemplate}
+        />
+      )}
       <TextInput
         style={styles.input}
         placeholder="Describe the task..."
         placeholderTextColor="#7e8bb3"
         value={task}
-        onChangeText={setTask}
+        onChangeText={text => edit({task: text, context})}
         editable={!isRunning}
       />
       <Text style={styles.label}>Context (optional)</Text>
@@ -43,14 +201,14 @@ export function Controls({
         placeholder="Optional context..."
         placeholderTextColor="#7e8bb3"
         value={context}
-        onChangeText={setContext}
+        onChangeText={text => edit({task, context: text})}
         multiline
         editable={!isRunning}
       />
       <View style={styles.buttons}>
         <TouchableOpacity
           style={[styles.button, styles.primary, !canRun && styles.buttonDisabled]}
-          onPress={() => onRun(task.trim(), context.trim() || undefined)}
+          onPress={run}
           disabled={!canRun}>
           <Text style={styles.buttonText}>{buttonLabel}</Text>
         </TouchableOpacity>
@@ -71,6 +229,48 @@ const styles = StyleSheet.create({
     padding: 14,
     gap: 10,
   },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  links: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+  },
+  link: {
+    color: '#58a6ff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  recent: {
+    gap: 6,
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: 'rgba(14, 18, 36, 0.7)',
+  },
+  search: {
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    color: '#f4f7ff',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 13,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  recentItem: {
+    paddingVertical: 4,
+  },
+  recentTask: {
+    color: '#e0e0e0',
+    fontSize: 13,
+  },
+  hint: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
   label: {
     color: '#a8b6de',
     fontSize: 12,
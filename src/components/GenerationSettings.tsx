@@ -0,0 +1,274 @@
+import React, {useEffect, useState} from 'react';
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type {GenerationOptions, GenerationPreset} from '../state/types';
+import {
+  formatStopSequences,
+  parseStopSequences,
+} from '../state/generationPresets';
+
+interface Props {
+  options: GenerationOptions;
+  presetId: string | null;
+  presets: GenerationPreset[];
+  onSelectPreset: (id: string) => void;
+  onChange: (patch: Partial<GenerationOptions>) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+  disabled?: boolean;
+}
+
+type NumericKey = 'temperature' | 'topP' | 'maxTokens';
+
+const NUMERIC_FIELDS: {key: NumericKey; label: string}[] = [
+  {key: 'temperature', label: 'Temperature'},
+  {key: 'topP', label: 'Top P'},
+  {key: 'maxTokens', label: 'Max tokens'},
+];
+
+export function GenerationSettings({
+  options,
+  presetId,
+  presets,
+  onSelectPreset,
+  onChange,
+  onSavePreset,
+  onDeletePreset,
+  disabled,
+}: Props): React.JSX.Element {
+  const [open, setOpen] = useState(false);
+  const [numbers, setNumbers] = useState<Record<NumericKey, string>>({
+    temperature: '',
+    topP: '',
+    maxTokens: '',
+  });
+  const [stops, setStops] = useState('');
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    setNumbers({
+      temperature: String(options.temperature),
+      topP: String(options.topP),
+      maxTokens: String(options.maxTokens),
+    });
+    setStops(formatStopSequences(options.stopSequences));
+    setSystemPrompt(options.systemPrompt);
+  }, [options]);
+
+  const activeName =
+    presets.find(preset => preset.id === presetId)?.name ?? 'Custom';
+
+  const commitNumber = (key: NumericKey) => {
+    const parsed = parseFloat(numbers[key]);
+    if (isNaN(parsed)) {
+      setNumbers({...numbers, [key]: String(options[key])});
+      return;
+    }
+    onChange({[key]: key === 'maxTokens' ? Math.round(parsed) : parsed});
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.header} onPress={() => setOpen(!open)}>
+        <Text style={styles.title}>
+          {open ? '▾' : '▸'} Generation · {activeName}
+        </Text>
+        <Text style={styles.summary}>
+          T {options.temperature} · {options.maxTokens} tok
+        </Text>
+      </TouchableOpacity>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chips}>
+        {presets.map(preset => (
+          <TouchableOpacity
+            key={preset.id}
+            style={[styles.chip, preset.id === presetId && styles.chipActive]}
+            onPress={() => onSelectPreset(preset.id)}
+            onLongPress={() => !preset.builtIn && onDeletePreset(preset.id)}
+            disabled={disabled}>
+            <Text
+              style={[
+                styles.chipText,
+                preset.id === presetId && styles.chipTextActive,
+              ]}>
+              {preset.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+      {open && (
+        <>
+          {NUMERIC_FIELDS.map(({key, label}) => (
+            <View key={key} style={styles.row}>
+              <Text style={styles.label}>{label}</Text>
+              <TextInput
+                style={styles.numberInput}
+                keyboardType="decimal-pad"
+                value={numbers[key]}
+                onChangeText={text => setNumbers({...numbers, [key]: text})}
+                onEndEditing={() => commitNumber(key)}
+                editable={!disabled}
+              />
+            </View>
+          ))}
+          <Text style={styles.label}>Stop sequences (one per line, \n = newline)</Text>
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            value={stops}
+            onChangeText={setStops}
+            onEndEditing={() =>
+              onChange({stopSequences: parseStopSequences(stops)})
+            }
+            multiline
+            editable={!disabled}
+          />
+          <Text style={styles.label}>System prompt</Text>
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            value={systemPrompt}
+            onChangeText={setSystemPrompt}
+            onEndEditing={() => onChange({systemPrompt})}
+            placeholder="No system prompt"
+            placeholderTextColor="#7e8bb3"
+            multiline
+            editable={!disabled}
+          />
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.presetInput]}
+              value={presetName}
+              onChangeText={setPresetName}
+              placeholder="Preset name"
+              placeholderTextColor="#7e8bb3"
+              editable={!disabled}
+            />
+            <TouchableOpacity
+              style={[
+                styles.saveButton,
+                !presetName.trim() && styles.buttonDisabled,
+              ]}
+              onPress={() => {
+                onSavePreset(presetName);
+                setPresetName('');
+              }}
+              disabled={disabled || !presetName.trim()}>
+              <Text style={styles.saveText}>Save preset</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.hint}>Long-press a saved preset to delete it.</Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  summary: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  chips: {
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    backgroundColor: 'rgba(18, 24, 50, 0.8)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  chipActive: {
+    backgroundColor: '#1f6feb',
+    borderColor: '#1f6feb',
+  },
+  chipText: {
+    color: '#9fb0d6',
+    fontSize: 11,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  label: {
+    color: '#a8b6de',
+    fontSize: 12,
+  },
+  numberInput: {
+    minWidth: 90,
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    color: '#f4f7ff',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    fontSize: 13,
+    textAlign: 'right',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  input: {
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    color: '#f4f7ff',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 13,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  multiline: {
+    minHeight: 50,
+    textAlignVertical: 'top',
+  },
+  presetInput: {
+    flex: 1,
+  },
+  saveButton: {
+    backgroundColor: '#1f6feb',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  saveText: {
+    color: '#e0e0e0',
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  hint: {
+    color: '#7e8bb3',
+    fontSize: 10,
+  },
+});
@@ -0,0 +1,320 @@
+import React, {useState} from 'react';
+import {
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {describeSchedule, parseTimeOfDay} from '../state/goalQueue';
+import type {useGoalQueue} from '../state/useGoalQueue';
+import type {GoalSchedule, QueuedGoalStatus} from '../state/types';
+
+type ScheduleKind = 'now' | 'delay' | 'daily';
+
+interface Props {
+  queue: ReturnType<typeof useGoalQueue>;
+  // Another run is in progress; the queue can't be started.
+  busy: boolean;
+}
+
+const SCHEDULE_LABELS: Record<ScheduleKind, string> = {
+  now: 'In order',
+  delay: 'After delay',
+  daily: 'Daily',
+};
+
+const STATUS_COLORS: Record<QueuedGoalStatus, string> = {
+  pending: '#7e8bb3',
+  running: '#2ecc71',
+  done: '#58a6ff',
+  error: '#e74c3c',
+  stopped: '#f39c12',
+};
+
+// Returns null while the delay or time field doesn't parse.
+function buildSchedule(
+  kind: ScheduleKind,
+  value: string,
+): GoalSchedule | undefined | null {
+  if (kind === 'now') {
+    return undefined;
+  }
+  if (kind === 'daily') {
+    const time = parseTimeOfDay(value);
+    return time ? {kind: 'daily', ...time} : null;
+  }
+  const minutes = Number(value);
+  return value.trim() && Number.isFinite(minutes) && minutes >= 0
+    ? {kind: 'at', at: Date.now() + minutes * 60_000}
+    : null;
+}
+
+export function GoalQueue({queue, busy}: Props): React.JSX.Element {
+  const [goal, setGoal] = useState('');
+  const [kind, setKind] = useState<ScheduleKind>('now');
+  const [value, setValue] = useState('');
+
+  const schedule = buildSchedule(kind, value);
+  const canAdd = goal.trim().length > 0 && schedule !== null;
+  const hasPending = queue.goals.some(g => g.status === 'pending');
+  const hasFinished = queue.goals.some(
+    g => g.status !== 'pending' && g.status !== 'running',
+  );
+
+  const add = () => {
+    if (schedule === null) {
+      return;
+    }
+    queue.enqueue(goal, schedule);
+    setGoal('');
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.title}>Goal queue</Text>
+        {queue.active ? (
+          <TouchableOpacity
+            style={[styles.button, styles.stopButton]}
+            onPress={queue.stopQueue}>
+            <Text style={styles.buttonText}>Stop queue</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.primary,
+              (busy || !hasPending) && styles.disabled,
+            ]}
+            onPress={queue.startQueue}
+            disabled={busy || !hasPending}>
+            <Text style={styles.buttonText}>Start queue</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {queue.goals.length === 0 ? (
+        <Text style={styles.hint}>
+          Queued goals run one after another on the Device Agent.
+        </Text>
+      ) : (
+        queue.goals.map((item, index) => (
+          <View key={item.id} style={styles.item}>
+            <View style={styles.itemText}>
+              <Text style={styles.goal} numberOfLines={2}>
+                {item.goal}
+              </Text>
+              <Text style={styles.hint}>
+                <Text style={{color: STATUS_COLORS[item.status]}}>
+                  {item.status}
+                </Text>
+                {` · ${describeSchedule(item)}`}
+                {item.lastOutcome && item.schedule?.kind === 'daily'
+                  ? ` · last ${item.lastOutcome}`
+                  : ''}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => queue.move(item.id, -1)}
+              disabled={index === 0}
+              accessibilityLabel="Move up">
+              <Text style={[styles.link, index === 0 && styles.disabled]}>
+                ▲
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => queue.move(item.id, 1)}
+              disabled={index === queue.goals.length - 1}
+              accessibilityLabel="Move down">
+              <Text
+                style={[
+                  styles.link,
+                  index === queue.goals.length - 1 && styles.disabled,
+                ]}>
+                ▼
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => queue.remove(item.id)}
+              disabled={item.status === 'running'}
+              accessibilityLabel="Remove goal">
+              <Text
+                style={[
+                  styles.link,
+                  styles.remove,
+                  item.status === 'running' && styles.disabled,
+                ]}>
+                ✕
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      <TextInput
+        style={styles.input}
+        placeholder="Add a goal, e.g. open Music"
+        placeholderTextColor="#7e8bb3"
+        value={goal}
+        onChangeText={setGoal}
+      />
+      <View style={styles.chips}>
+        {(Object.keys(SCHEDULE_LABELS) as ScheduleKind[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, kind === option && styles.chipActive]}
+            onPress={() => {
+              setKind(option);
+              setValue('');
+            }}>
+            <Text style={styles.chipText}>{SCHEDULE_LABELS[option]}</Text>
+          </TouchableOpacity>
+        ))}
+        {kind !== 'now' && (
+          <TextInput
+            style={[styles.input, styles.scheduleInput]}
+            placeholder={kind === 'daily' ? 'HH:MM' : 'minutes'}
+            placeholderTextColor="#7e8bb3"
+            value={value}
+            onChangeText={setValue}
+            keyboardType={
+              kind === 'daily' ? 'numbers-and-punctuation' : 'numeric'
+            }
+          />
+        )}
+        <TouchableOpacity
+          style={[styles.button, styles.primary, !canAdd && styles.disabled]}
+          onPress={add}
+          disabled={!canAdd}>
+          <Text style={styles.buttonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Stop on failure</Text>
+        <Switch
+          value={queue.stopOnFailure}
+          onValueChange={queue.setStopOnFailure}
+        />
+      </View>
+      {hasFinished && (
+        <TouchableOpacity onPress={queue.clearFinished}>
+          <Text style={styles.link}>Clear finished</Text>
+        </TouchableOpacity>
+      )}
+      <Text style={styles.hint}>
+        Scheduled goals only start while the app is open in the foreground;
+        nothing runs in the background. A started queue picks up again when
+        you reopen the app.
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 14,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    color: '#a8b6de',
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.3,
+  },
+  label: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  itemText: {
+    flex: 1,
+    gap: 2,
+  },
+  goal: {
+    color: '#e0e0e0',
+    fontSize: 13,
+  },
+  link: {
+    color: '#58a6ff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  remove: {
+    color: '#d14b63',
+  },
+  input: {
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    color: '#f4f7ff',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 13,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  scheduleInput: {
+    width: 80,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  chipActive: {
+    backgroundColor: '#1f6feb',
+    borderColor: '#1f6feb',
+  },
+  chipText: {
+    color: '#e0e0e0',
+    fontSize: 12,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#0f3460',
+  },
+  primary: {
+    backgroundColor: '#1f6feb',
+  },
+  stopButton: {
+    backgroundColor: '#d14b63',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: '#e0e0e0',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
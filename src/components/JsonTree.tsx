@@ -0,0 +1,115 @@
+import React, {useState} from 'react';
+import {StyleSheet, Text, TouchableOpacity, View} from 'react-native';
+
+interface Props {
+  value: unknown;
+  // Nesting levels shown expanded at first.
+  openDepth?: number;
+}
+
+interface NodeProps {
+  label?: string;
+  value: unknown;
+  depth: number;
+  openDepth: number;
+}
+
+function formatLeaf(value: unknown): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function JsonNode({label, value, depth, openDepth}: NodeProps) {
+  const [open, setOpen] = useState(depth < openDepth);
+  const key =
+    label === undefined ? null : <Text style={styles.key}>{label}: </Text>;
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <Text style={styles.line}>
+        {key}
+        <Text style={leafStyle(value)}>{formatLeaf(value)}</Text>
+      </Text>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray
+    ? value.map((item, i) => [String(i), item] as const)
+    : Object.entries(value as Record<string, unknown>);
+  const summary = isArray ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <View>
+      <TouchableOpacity
+        onPress={() => setOpen(current => !current)}
+        disabled={entries.length === 0}>
+        <Text style={styles.line}>
+          <Text style={styles.toggle}>{open ? '▾ ' : '▸ '}</Text>
+          {key}
+          <Text style={styles.summary}>{summary}</Text>
+        </Text>
+      </TouchableOpacity>
+      {open && (
+        <View style={styles.children}>
+          {entries.map(([childKey, child]) => (
+            <JsonNode
+              key={childKey}
+              label={childKey}
+              value={child}
+              depth={depth + 1}
+              openDepth={openDepth}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+function leafStyle(value: unknown) {
+  switch (typeof value) {
+    case 'string':
+      return styles.string;
+    case 'number':
+      return styles.number;
+    default:
+      return styles.literal;
+  }
+}
+
+// Collapsible view of a JSON value; tap an object or array to fold it.
+export function JsonTree({value, openDepth = 2}: Props): React.JSX.Element {
+  return <JsonNode value={value} depth={0} openDepth={openDepth} />;
+}
+
+const styles = StyleSheet.create({
+  line: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#dbe7ff',
+    paddingVertical: 1,
+  },
+  children: {
+    paddingLeft: 14,
+    borderLeftWidth: 1,
+    borderLeftColor: 'rgba(120, 145, 200, 0.2)',
+  },
+  toggle: {
+    color: '#7e8bb3',
+  },
+  key: {
+    color: '#9fb0d6',
+  },
+  summary: {
+    color: '#7e8bb3',
+  },
+  string: {
+    color: '#7ee787',
+  },
+  number: {
+    color: '#79c0ff',
+  },
+  literal: {
+    color: '#d2a8ff',
+  },
+});
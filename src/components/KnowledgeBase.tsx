@@ -0,0 +1,197 @@
+import React, {useState} from 'react';
+import {
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type {useKnowledgeBase} from '../state/useKnowledgeBase';
+
+interface Props {
+  knowledge: ReturnType<typeof useKnowledgeBase>;
+  disabled?: boolean;
+}
+
+export function KnowledgeBase({knowledge, disabled}: Props): React.JSX.Element {
+  const [adding, setAdding] = useState(false);
+  const [title, setTitle] = useState('');
+  const [text, setText] = useState('');
+
+  const save = async () => {
+    await knowledge.add(title, text);
+    setAdding(false);
+    setTitle('');
+    setText('');
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.title}>Notes ({knowledge.documents.length})</Text>
+        <Switch
+          value={knowledge.enabled}
+          onValueChange={knowledge.setEnabled}
+          disabled={disabled}
+        />
+      </View>
+      <Text style={styles.hint}>
+        {knowledge.enabled
+          ? 'Passages matching each question are added to the context and listed under the answer.'
+          : 'Notes are not used while this is off.'}
+      </Text>
+      {knowledge.documents.map(doc => (
+        <View key={doc.id} style={styles.row}>
+          <Text style={styles.docTitle} numberOfLines={1}>
+            {doc.title}
+          </Text>
+          <Text style={styles.hint}>
+            {Math.ceil(doc.text.length / 1000)}k chars
+          </Text>
+          <TouchableOpacity
+            onPress={() => knowledge.remove(doc.id)}
+            disabled={disabled}
+            accessibilityLabel={`Remove ${doc.title}`}>
+            <Text style={[styles.remove, disabled && styles.disabled]}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      {!!knowledge.error && <Text style={styles.error}>{knowledge.error}</Text>}
+      {adding ? (
+        <View style={styles.form}>
+          <TextInput
+            style={styles.input}
+            placeholder="Title"
+            placeholderTextColor="#7e8bb3"
+            value={title}
+            onChangeText={setTitle}
+          />
+          <TextInput
+            style={[styles.input, styles.textInput]}
+            placeholder="Paste text or Markdown..."
+            placeholderTextColor="#7e8bb3"
+            value={text}
+            onChangeText={setText}
+            multiline
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.primary,
+                !text.trim() && styles.disabled,
+              ]}
+              onPress={save}
+              disabled={!text.trim()}>
+              <Text style={styles.buttonText}>Add note</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() => setAdding(false)}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={() => setAdding(true)} disabled={disabled}>
+            <Text style={[styles.link, disabled && styles.disabled]}>
+              Paste a note
+            </Text>
+          </TouchableOpacity>
+          {knowledge.canImportFiles && (
+            <TouchableOpacity
+              onPress={knowledge.importFile}
+              disabled={disabled}>
+              <Text style={[styles.link, disabled && styles.disabled]}>
+                Import .txt / .md
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  title: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  docTitle: {
+    flex: 1,
+    color: '#e0e0e0',
+    fontSize: 13,
+  },
+  remove: {
+    color: '#d14b63',
+    fontSize: 14,
+    paddingHorizontal: 4,
+  },
+  error: {
+    color: '#e74c3c',
+    fontSize: 12,
+  },
+  form: {
+    gap: 6,
+  },
+  input: {
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    color: '#f4f7ff',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 13,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  textInput: {
+    minHeight: 100,
+    maxHeight: 200,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 14,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#0f3460',
+  },
+  primary: {
+    backgroundColor: '#1f6feb',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: '#e0e0e0',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  link: {
+    color: '#58a6ff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,368 @@
+import React, {memo, useEffect, useMemo, useRef, useState} from 'react';
+import {
+  Linking,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type {TextStyle} from 'react-native';
+import {
+  createIncrementalParser,
+  type Block,
+  type Inline,
+  type ListBlock,
+  type TableAlign,
+} from '../state/markdown';
+import {copyText, isClipboardAvailable} from '../native/clipboard';
+
+interface Props {
+  text: string;
+  // Set while tokens are still arriving; enables lenient parsing of the tail.
+  streaming?: boolean;
+  placeholder?: string;
+}
+
+const HEADING_SIZES: Record<number, number> = {1: 19, 2: 17, 3: 15};
+
+function renderInline(nodes: Inline[]): React.ReactNode[] {
+  return nodes.map((node, idx) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'strong':
+        return (
+          <Text key={idx} style={styles.bold}>
+            {renderInline(node.children)}
+          </Text>
+        );
+      case 'em':
+        return (
+          <Text key={idx} style={styles.italic}>
+            {renderInline(node.children)}
+          </Text>
+        );
+      case 'code':
+        return (
+          <Text key={idx} style={styles.inlineCode}>
+            {node.text}
+          </Text>
+        );
+      case 'link':
+        return (
+          <Text
+            key={idx}
+            style={styles.link}
+            onPress={() => Linking.openURL(node.href).catch(() => null)}>
+            {renderInline(node.children)}
+          </Text>
+        );
+    }
+  });
+}
+
+function CodeBlock({
+  block,
+}: {
+  block: Extract<Block, {type: 'code'}>;
+}): React.JSX.Element {
+  const [copied, setCopied] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(
+    () => () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+      }
+    },
+    [],
+  );
+
+  const copy = () => {
+    copyText(block.text)
+      .then(() => {
+        setCopied(true);
+        if (timerRef.current) {
+          clearTimeout(timerRef.current);
+        }
+        timerRef.current = setTimeout(() => setCopied(false), 1500);
+      })
+      .catch(e => console.warn('Copy failed:', e));
+  };
+
+  return (
+    <View style={styles.codeBlock}>
+      <View style={styles.codeHeader}>
+        <Text style={styles.codeLang}>{block.lang || 'code'}</Text>
+        {block.closed && isClipboardAvailable() && (
+          <TouchableOpacity onPress={copy}>
+            <Text style={styles.copyText}>{copied ? 'Copied' : 'Copy'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <ScrollView horizontal nestedScrollEnabled>
+        <Text style={styles.codeText} selectable>
+          {block.text}
+        </Text>
+      </ScrollView>
+    </View>
+  );
+}
+
+function ListView({list}: {list: ListBlock}): React.JSX.Element {
+  return (
+    <View style={styles.list}>
+      {list.items.map((item, idx) => (
+        <View key={idx}>
+          <View style={styles.listRow}>
+            <Text style={[styles.text, styles.listMarker]}>
+              {list.ordered ? `${list.start + idx}.` : '•'}
+            </Text>
+            <Text style={[styles.text, styles.listText]}>
+              {renderInline(item.content)}
+            </Text>
+          </View>
+          {item.children.map((child, cidx) => (
+            <View key={cidx} style={styles.nested}>
+              <ListView list={child} />
+            </View>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function alignStyle(align: TableAlign): TextStyle | undefined {
+  return align ? {textAlign: align} : undefined;
+}
+
+function TableView({
+  block,
+}: {
+  block: Extract<Block, {type: 'table'}>;
+}): React.JSX.Element {
+  return (
+    <ScrollView horizontal nestedScrollEnabled style={styles.tableScroll}>
+      <View style={styles.table}>
+        <View style={[styles.tableRow, styles.tableHeader]}>
+          {block.header.map((cell, idx) => (
+            <Text
+              key={idx}
+              style={[
+                styles.text,
+                styles.bold,
+                styles.tableCell,
+                alignStyle(block.align[idx]),
+              ]}>
+              {renderInline(cell)}
+            </Text>
+          ))}
+        </View>
+        {block.rows.map((row, ridx) => (
+          <View key={ridx} style={styles.tableRow}>
+            {block.header.map((_cell, idx) => (
+              <Text
+                key={idx}
+                style={[
+                  styles.text,
+                  styles.tableCell,
+                  alignStyle(block.align[idx]),
+                ]}>
+                {renderInline(row[idx] ?? [])}
+              </Text>
+            ))}
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+// One rendered block. Render MarkdownBlock instead; a renderer reports each
+// mounted MarkdownBlock as this component.
+export function MarkdownBlockView({block}: {block: Block}): React.JSX.Element {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <Text
+          style={[
+            styles.text,
+            styles.heading,
+            {fontSize: HEADING_SIZES[block.level] ?? 14},
+          ]}>
+          {renderInline(block.children)}
+        </Text>
+      );
+    case 'paragraph':
+      return <Text style={styles.text}>{renderInline(block.children)}</Text>;
+    case 'list':
+      return <ListView list={block} />;
+    case 'code':
+      return <CodeBlock block={block} />;
+    case 'table':
+      return <TableView block={block} />;
+    case 'quote':
+      return (
+        <View style={styles.quote}>
+          {block.children.map((child, idx) => (
+            <MarkdownBlock key={idx} block={child} />
+          ))}
+        </View>
+      );
+    case 'rule':
+      return <View style={styles.rule} />;
+  }
+}
+
+// Memoized on the block object: blocks from the stable prefix of a stream
+// are reused by the parser, so only the last block re-renders per token.
+export const MarkdownBlock = memo(MarkdownBlockView);
+
+// Parses `text` incrementally across renders; see createIncrementalParser.
+export function useMarkdownBlocks(text: string, streaming = false): Block[] {
+  const parserRef = useRef(createIncrementalParser());
+  return useMemo(
+    () => parserRef.current(text, streaming),
+    [text, streaming],
+  );
+}
+
+export function MarkdownPlaceholder({text}: {text: string}) {
+  return <Text style={[styles.text, styles.placeholder]}>{text}</Text>;
+}
+
+export function Markdown({
+  text,
+  streaming = false,
+  placeholder,
+}: Props): React.JSX.Element | null {
+  const blocks = useMarkdownBlocks(text, streaming);
+
+  if (blocks.length === 0) {
+    return placeholder ? <MarkdownPlaceholder text={placeholder} /> : null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {blocks.map((block, idx) => (
+        <MarkdownBlock key={idx} block={block} />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  text: {
+    color: '#dbe7ff',
+    fontSize: 13,
+    lineHeight: 20,
+  },
+  placeholder: {
+    color: '#7e8bb3',
+  },
+  bold: {
+    fontWeight: '700',
+    color: '#f4f7ff',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  link: {
+    color: '#6ea8fe',
+    textDecorationLine: 'underline',
+  },
+  inlineCode: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#ffd580',
+    backgroundColor: 'rgba(10, 14, 32, 0.8)',
+  },
+  heading: {
+    fontWeight: '700',
+    color: '#f4f7ff',
+    lineHeight: 24,
+  },
+  codeBlock: {
+    borderRadius: 8,
+    backgroundColor: 'rgba(10, 14, 32, 0.9)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.2)',
+    overflow: 'hidden',
+  },
+  codeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    backgroundColor: 'rgba(120, 145, 200, 0.12)',
+  },
+  codeLang: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  copyText: {
+    color: '#9fb0d6',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  codeText: {
+    color: '#dbe7ff',
+    fontFamily: 'monospace',
+    fontSize: 12,
+    lineHeight: 18,
+    padding: 10,
+  },
+  list: {
+    gap: 2,
+  },
+  listRow: {
+    flexDirection: 'row',
+  },
+  listMarker: {
+    minWidth: 22,
+    color: '#9fb0d6',
+  },
+  listText: {
+    flex: 1,
+  },
+  nested: {
+    paddingLeft: 16,
+  },
+  tableScroll: {
+    flexGrow: 0,
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+    borderRadius: 6,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.15)',
+  },
+  tableHeader: {
+    borderTopWidth: 0,
+    backgroundColor: 'rgba(120, 145, 200, 0.12)',
+  },
+  tableCell: {
+    width: 120,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: 'rgba(120, 145, 200, 0.4)',
+    paddingLeft: 10,
+    gap: 6,
+  },
+  rule: {
+    height: 1,
+    backgroundColor: 'rgba(120, 145, 200, 0.25)',
+  },
+});
@@ -0,0 +1,211 @@
+import React from 'react';
+import {
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type {useDevicePlanner} from '../state/useDevicePlanner';
+import type {PlanStep} from '../state/types';
+
+interface Props {
+  planner: ReturnType<typeof useDevicePlanner>;
+  // Another run is in progress; the plan can't be started.
+  busy: boolean;
+}
+
+const STATUS_COLORS: Record<PlanStep['status'], string> = {
+  pending: '#7e8bb3',
+  running: '#2ecc71',
+  done: '#58a6ff',
+  error: '#e74c3c',
+  stopped: '#f39c12',
+  skipped: '#7e8bb3',
+};
+
+export function PlanEditor({planner, busy}: Props): React.JSX.Element {
+  const {plan, phase} = planner;
+  const editable = phase === 'ready' || phase === 'finished';
+  const canRun =
+    editable && !busy && !!plan?.steps.some(step => step.goal.trim());
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.label}>Plan before running</Text>
+        <Switch
+          value={planner.enabled}
+          onValueChange={planner.setEnabled}
+          disabled={planner.busy}
+        />
+      </View>
+      {planner.enabled && !plan && phase === 'idle' && (
+        <Text style={styles.hint}>
+          Run asks the model to split the goal into steps you can edit before
+          they run.
+        </Text>
+      )}
+      {phase === 'planning' && <Text style={styles.hint}>Planning...</Text>}
+      {!!planner.error && (
+        <Text style={styles.error}>Planning failed: {planner.error}</Text>
+      )}
+
+      {plan && (
+        <>
+          <Text style={styles.goal} numberOfLines={2}>
+            {plan.goal}
+          </Text>
+          {plan.steps.map((step, index) => (
+            <View key={step.id} style={styles.step}>
+              <Text style={styles.index}>{index + 1}.</Text>
+              <TextInput
+                style={styles.input}
+                value={step.goal}
+                onChangeText={text => planner.updateStep(step.id, text)}
+                placeholder="Describe this step"
+                placeholderTextColor="#7e8bb3"
+                editable={editable}
+              />
+              {editable ? (
+                <>
+                  <TouchableOpacity
+                    onPress={() => planner.moveStep(step.id, -1)}
+                    disabled={index === 0}
+                    accessibilityLabel="Move step up">
+                    <Text style={[styles.link, index === 0 && styles.disabled]}>
+                      ▲
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => planner.removeStep(step.id)}
+                    accessibilityLabel="Remove step">
+                    <Text style={[styles.link, styles.remove]}>✕</Text>
+                  </TouchableOpacity>
+                </>
+              ) : null}
+              {step.status !== 'pending' && (
+                <Text
+                  style={[styles.status, {color: STATUS_COLORS[step.status]}]}>
+                  {step.status}
+                </Text>
+              )}
+            </View>
+          ))}
+          {editable && (
+            <View style={styles.actions}>
+              <TouchableOpacity onPress={planner.addStep}>
+                <Text style={styles.link}>Add step</Text>
+              </TouchableOpacity>
+              <View style={styles.spacer} />
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  styles.primary,
+                  !canRun && styles.disabled,
+                ]}
+                onPress={planner.runPlan}
+                disabled={!canRun}>
+                <Text style={styles.buttonText}>
+                  {phase === 'finished' ? 'Run again' : 'Run plan'}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.button} onPress={planner.discard}>
+                <Text style={styles.buttonText}>Discard</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 14,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  error: {
+    color: '#e74c3c',
+    fontSize: 12,
+  },
+  goal: {
+    color: '#a8b6de',
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
+  step: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  index: {
+    color: '#7e8bb3',
+    fontSize: 12,
+    width: 18,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    color: '#f4f7ff',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 13,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  status: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  link: {
+    color: '#58a6ff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  remove: {
+    color: '#d14b63',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  spacer: {
+    flex: 1,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#0f3460',
+  },
+  primary: {
+    backgroundColor: '#1f6feb',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: '#e0e0e0',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,260 @@
+import React, {useState} from 'react';
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {
+  fillTemplate,
+  groupTemplates,
+  templateVariables,
+} from '../state/promptTemplates';
+import type {PromptTemplate, RunKind} from '../state/types';
+
+interface Props {
+  mode: RunKind;
+  templates: PromptTemplate[];
+  // Current field contents, offered for saving as a new template.
+  task: string;
+  context: string;
+  onInsert: (task: string, context?: string) => void;
+  onSave: (fields: Omit<PromptTemplate, 'id' | 'builtIn'>) => void;
+  onDelete: (id: string) => void;
+}
+
+export function PromptLibrary({
+  mode,
+  templates,
+  task,
+  context,
+  onInsert,
+  onSave,
+  onDelete,
+}: Props): React.JSX.Element {
+  // Template whose {{variables}} are being filled in.
+  const [filling, setFilling] = useState<PromptTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState('');
+
+  const insert = (template: PromptTemplate, filled: Record<string, string>) => {
+    onInsert(
+      fillTemplate(template.task, filled),
+      template.context ? fillTemplate(template.context, filled) : undefined,
+    );
+    setFilling(null);
+  };
+
+  const pick = (template: PromptTemplate) => {
+    if (templateVariables(template).length === 0) {
+      insert(template, {});
+    } else {
+      setValues({});
+      setFilling(template);
+    }
+  };
+
+  const save = () => {
+    onSave({name, category, mode, task, context});
+    setSaving(false);
+    setName('');
+    setCategory('');
+  };
+
+  return (
+    <View style={styles.container}>
+      {groupTemplates(templates, mode).map(group => (
+        <View key={group.category} style={styles.group}>
+          <Text style={styles.category}>{group.category}</Text>
+          <View style={styles.chips}>
+            {group.templates.map(template => (
+              <TouchableOpacity
+                key={template.id}
+                style={[
+                  styles.chip,
+                  !template.builtIn && styles.userChip,
+                  filling?.id === template.id && styles.chipActive,
+                ]}
+                onPress={() => pick(template)}
+                onLongPress={
+                  template.builtIn ? undefined : () => onDelete(template.id)
+                }>
+                <Text style={styles.chipText}>{template.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      ))}
+      <Text style={styles.hint}>Long-press a saved template to delete it.</Text>
+
+      {filling && (
+        <View style={styles.form}>
+          <Text style={styles.preview}>{filling.task}</Text>
+          {templateVariables(filling).map(variable => (
+            <TextInput
+              key={variable}
+              style={styles.input}
+              placeholder={variable}
+              placeholderTextColor="#7e8bb3"
+              value={values[variable] ?? ''}
+              onChangeText={text =>
+                setValues(current => ({...current, [variable]: text}))
+              }
+            />
+          ))}
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.button, styles.primary]}
+              onPress={() => insert(filling, values)}>
+              <Text style={styles.buttonText}>Insert</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() => setFilling(null)}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {saving ? (
+        <View style={styles.form}>
+          <TextInput
+            style={styles.input}
+            placeholder="Template name"
+            placeholderTextColor="#7e8bb3"
+            value={name}
+            onChangeText={setName}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Category (Saved)"
+            placeholderTextColor="#7e8bb3"
+            value={category}
+            onChangeText={setCategory}
+          />
+          <Text style={styles.hint}>
+            Use {'{{name}}'} in the task or context for values to fill in later.
+          </Text>
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.primary,
+                (!name.trim() || !task.trim()) && styles.disabled,
+              ]}
+              onPress={save}
+              disabled={!name.trim() || !task.trim()}>
+              <Text style={styles.buttonText}>Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() => setSaving(false)}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity
+          onPress={() => setSaving(true)}
+          disabled={!task.trim()}>
+          <Text style={[styles.link, !task.trim() && styles.disabled]}>
+            Save current task as template
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: 'rgba(14, 18, 36, 0.7)',
+  },
+  group: {
+    gap: 4,
+  },
+  category: {
+    color: '#7e8bb3',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  userChip: {
+    borderStyle: 'dashed',
+  },
+  chipActive: {
+    backgroundColor: '#1f6feb',
+    borderColor: '#1f6feb',
+  },
+  chipText: {
+    color: '#e0e0e0',
+    fontSize: 12,
+  },
+  hint: {
+    color: '#7e8bb3',
+    fontSize: 10,
+  },
+  form: {
+    gap: 6,
+  },
+  preview: {
+    color: '#a8b6de',
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
+  input: {
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    color: '#f4f7ff',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 13,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#0f3460',
+  },
+  primary: {
+    backgroundColor: '#1f6feb',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: '#e0e0e0',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  link: {
+    color: '#58a6ff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
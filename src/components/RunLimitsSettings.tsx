@@ -0,0 +1,152 @@
+import React, {useEffect, useState} from 'react';
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type {AgentRunLimits} from '../state/types';
+
+interface Props {
+  value: AgentRunLimits;
+  onChange: (next: AgentRunLimits) => void;
+  onReset: () => void;
+  modelLabel: string;
+  disabled?: boolean;
+}
+
+const FIELDS: {key: keyof AgentRunLimits; label: string}[] = [
+  {key: 'maxSteps', label: 'Max steps'},
+  {key: 'maxDurationMs', label: 'Max duration (ms)'},
+  {key: 'stepDelayMs', label: 'Step delay (ms)'},
+  {key: 'maxElements', label: 'Screen elements'},
+  {key: 'maxTextLength', label: 'Element text length'},
+  {key: 'decisionMaxTokens', label: 'Decision max tokens'},
+  {key: 'decisionTemperature', label: 'Decision temperature'},
+];
+
+function toDrafts(value: AgentRunLimits): Record<string, string> {
+  const drafts: Record<string, string> = {};
+  FIELDS.forEach(({key}) => {
+    drafts[key] = String(value[key]);
+  });
+  return drafts;
+}
+
+export function RunLimitsSettings({
+  value,
+  onChange,
+  onReset,
+  modelLabel,
+  disabled,
+}: Props): React.JSX.Element {
+  const [open, setOpen] = useState(false);
+  const [drafts, setDrafts] = useState(() => toDrafts(value));
+
+  useEffect(() => {
+    setDrafts(toDrafts(value));
+  }, [value]);
+
+  const commit = (key: keyof AgentRunLimits) => {
+    const parsed = parseFloat(drafts[key]);
+    if (isNaN(parsed)) {
+      setDrafts(toDrafts(value));
+      return;
+    }
+    onChange({...value, [key]: parsed});
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.header} onPress={() => setOpen(!open)}>
+        <Text style={styles.title}>
+          {open ? '▾' : '▸'} Run limits · {modelLabel}
+        </Text>
+        <Text style={styles.summary}>
+          {value.maxSteps} steps · {Math.round(value.maxDurationMs / 1000)}s
+        </Text>
+      </TouchableOpacity>
+      {open && (
+        <>
+          {FIELDS.map(({key, label}) => (
+            <View key={key} style={styles.row}>
+              <Text style={styles.label}>{label}</Text>
+              <TextInput
+                style={styles.input}
+                keyboardType="decimal-pad"
+                value={drafts[key]}
+                onChangeText={text => setDrafts({...drafts, [key]: text})}
+                onEndEditing={() => commit(key)}
+                editable={!disabled}
+              />
+            </View>
+          ))}
+          <TouchableOpacity
+            style={styles.resetButton}
+            onPress={onReset}
+            disabled={disabled}>
+            <Text style={styles.resetText}>Reset to model defaults</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  summary: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    color: '#a8b6de',
+    fontSize: 12,
+  },
+  input: {
+    minWidth: 90,
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    color: '#f4f7ff',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    fontSize: 13,
+    textAlign: 'right',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  resetButton: {
+    alignSelf: 'flex-end',
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    backgroundColor: 'rgba(18, 24, 50, 0.8)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  resetText: {
+    color: '#9fb0d6',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,42 @@
+import React from 'react';
+import {StyleSheet, Text, View} from 'react-native';
+import {formatMetrics} from '../state/metrics';
+import type {RunMetrics} from '../state/types';
+
+interface Props {
+  metrics: RunMetrics | null;
+}
+
+export function RunStats({metrics}: Props): React.JSX.Element | null {
+  const parts = metrics ? formatMetrics(metrics) : [];
+  if (parts.length === 0) {
+    return null;
+  }
+  return (
+    <View style={styles.strip}>
+      {parts.map(part => (
+        <Text key={part} style={styles.item}>
+          {part}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  strip: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 4,
+  },
+  item: {
+    color: '#a8b6de',
+    fontSize: 10,
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+    borderRadius: 4,
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    overflow: 'hidden',
+  },
+});
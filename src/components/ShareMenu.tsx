@@ -0,0 +1,73 @@
+import React from 'react';
+import {Share, StyleSheet, Text, TouchableOpacity, View} from 'react-native';
+import {renderTranscript} from '../state/transcript';
+import type {ExportFormat, TranscriptExport} from '../state/transcript';
+
+interface Props {
+  // Built on press so the export reflects the latest state.
+  getTranscript: () => TranscriptExport;
+  disabled?: boolean;
+}
+
+const FORMATS: {format: ExportFormat; label: string}[] = [
+  {format: 'markdown', label: 'Markdown'},
+  {format: 'text', label: 'Text'},
+  {format: 'json', label: 'JSON'},
+];
+
+export function ShareMenu({getTranscript, disabled}: Props): React.JSX.Element {
+  const share = (format: ExportFormat) => {
+    const transcript = getTranscript();
+    Share.share({
+      title:
+        transcript.kind === 'chat' ? 'LLM Chat transcript' : 'Device Agent run',
+      message: renderTranscript(transcript, format),
+    }).catch(e => console.warn('Failed to share transcript:', e));
+  };
+
+  return (
+    <View style={styles.row}>
+      <Text style={styles.label}>Share as</Text>
+      {FORMATS.map(({format, label}) => (
+        <TouchableOpacity
+          key={format}
+          style={[styles.button, disabled && styles.disabled]}
+          onPress={() => share(format)}
+          disabled={disabled}>
+          <Text style={styles.buttonText}>{label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 6,
+    marginHorizontal: 14,
+    marginTop: 8,
+  },
+  label: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  button: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    backgroundColor: 'rgba(18, 24, 50, 0.8)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: '#9fb0d6',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
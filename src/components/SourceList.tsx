@@ -0,0 +1,58 @@
+import React, {useState} from 'react';
+import {StyleSheet, Text, TouchableOpacity, View} from 'react-native';
+import {sourceLabel} from '../state/retrieval';
+import type {RetrievedChunk} from '../state/types';
+
+interface Props {
+  sources: RetrievedChunk[];
+}
+
+// Knowledge base passages under an answer; tap one to read it.
+export function SourceList({sources}: Props): React.JSX.Element {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Sources</Text>
+      {sources.map((source, i) => (
+        <TouchableOpacity
+          key={source.id}
+          onPress={() =>
+            setOpenId(id => (id === source.id ? null : source.id))
+          }>
+          <Text style={styles.label} numberOfLines={1}>
+            [{i + 1}] {sourceLabel(source)}
+          </Text>
+          {openId === source.id && (
+            <Text style={styles.text}>{source.text}</Text>
+          )}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 6,
+    paddingTop: 6,
+    gap: 3,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(120, 145, 200, 0.2)',
+  },
+  title: {
+    color: '#7e8bb3',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  label: {
+    color: '#58a6ff',
+    fontSize: 12,
+  },
+  text: {
+    color: '#a8b6de',
+    fontSize: 12,
+    marginTop: 2,
+    marginBottom: 4,
+  },
+});
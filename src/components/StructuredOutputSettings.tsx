@@ -0,0 +1,101 @@
+import React, {useEffect, useState} from 'react';
+import {StyleSheet, Switch, Text, TextInput, View} from 'react-native';
+import {parseSchema} from '../state/jsonSchema';
+import type {StructuredOutputSettings as Settings} from '../state/types';
+
+interface Props {
+  value: Settings;
+  onChange: (next: Settings) => void;
+  disabled?: boolean;
+  // Why the setting has no effect right now, e.g. tool mode is on.
+  inactiveReason?: string;
+}
+
+export function StructuredOutputSettings({
+  value,
+  onChange,
+  disabled,
+  inactiveReason,
+}: Props): React.JSX.Element {
+  const [schema, setSchema] = useState(value.schema);
+
+  useEffect(() => {
+    setSchema(value.schema);
+  }, [value.schema]);
+
+  const parsed = parseSchema(schema);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.title}>Structured output</Text>
+        <Switch
+          value={value.enabled}
+          onValueChange={enabled => onChange({...value, enabled})}
+          disabled={disabled}
+        />
+      </View>
+      {value.enabled && (
+        <>
+          <Text style={styles.hint}>
+            {inactiveReason ??
+              'Answers are generated as JSON matching this schema and checked; invalid output gets one repair attempt.'}
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={schema}
+            onChangeText={setSchema}
+            onEndEditing={() => onChange({...value, schema})}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!disabled}
+          />
+          {'error' in parsed && (
+            <Text style={styles.error}>Invalid schema: {parsed.error}</Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  input: {
+    minHeight: 120,
+    maxHeight: 240,
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    color: '#f4f7ff',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    textAlignVertical: 'top',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  error: {
+    color: '#e74c3c',
+    fontSize: 11,
+  },
+});
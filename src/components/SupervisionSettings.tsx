@@ -0,0 +1,105 @@
+import React from 'react';
+import {StyleSheet, Switch, Text, TouchableOpacity, View} from 'react-native';
+import type {DeviceAction, SupervisionOptions} from '../state/types';
+
+interface Props {
+  value: SupervisionOptions;
+  onChange: (next: SupervisionOptions) => void;
+  disabled?: boolean;
+}
+
+const ACTIONS: DeviceAction[] = ['tap', 'type', 'swipe', 'back', 'home', 'done'];
+
+export function SupervisionSettings({
+  value,
+  onChange,
+  disabled,
+}: Props): React.JSX.Element {
+  const toggleAction = (action: DeviceAction) => {
+    const autoApprove = value.autoApprove.includes(action)
+      ? value.autoApprove.filter(a => a !== action)
+      : [...value.autoApprove, action];
+    onChange({...value, autoApprove});
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.label}>Supervised mode</Text>
+        <Switch
+          value={value.enabled}
+          onValueChange={enabled => onChange({...value, enabled})}
+          disabled={disabled}
+        />
+      </View>
+      {value.enabled && (
+        <>
+          <Text style={styles.hint}>Auto-approve:</Text>
+          <View style={styles.chips}>
+            {ACTIONS.map(action => {
+              const auto = value.autoApprove.includes(action);
+              return (
+                <TouchableOpacity
+                  key={action}
+                  style={[styles.chip, auto && styles.chipActive]}
+                  onPress={() => toggleAction(action)}
+                  disabled={disabled}>
+                  <Text style={[styles.chipText, auto && styles.chipTextActive]}>
+                    {action}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    backgroundColor: 'rgba(18, 24, 50, 0.8)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  chipActive: {
+    backgroundColor: '#1f6feb',
+    borderColor: '#1f6feb',
+  },
+  chipText: {
+    color: '#9fb0d6',
+    fontSize: 11,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+});
@@ -0,0 +1,67 @@
+import React from 'react';
+import {StyleSheet, Text, View} from 'react-native';
+import type {ToolInvocation} from '../state/types';
+
+interface Props {
+  invocations: ToolInvocation[];
+}
+
+// Tool calls behind the latest answer, in the order the model made them.
+export function ToolCallList({invocations}: Props): React.JSX.Element {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Tool calls</Text>
+      {invocations.map(invocation => (
+        <View key={invocation.id} style={styles.call}>
+          <Text style={styles.name}>
+            {invocation.turn}. {invocation.name}
+            <Text style={styles.args}>
+              {' '}
+              {JSON.stringify(invocation.arguments)}
+            </Text>
+          </Text>
+          <Text
+            style={[styles.output, !invocation.ok && styles.error]}
+            numberOfLines={3}>
+            {invocation.ok ? '→ ' : '✕ '}
+            {invocation.output}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  title: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  call: {
+    gap: 2,
+  },
+  name: {
+    color: '#e0e0e0',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  args: {
+    color: '#7e8bb3',
+    fontWeight: '400',
+    fontFamily: 'monospace',
+  },
+  output: {
+    color: '#a8b6de',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  error: {
+    color: '#e74c3c',
+  },
+});
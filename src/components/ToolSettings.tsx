@@ -0,0 +1,152 @@
+import React, {useEffect, useState} from 'react';
+import {
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type {ToolSettings as ToolSettingsValue} from '../state/types';
+import type {ToolDefinition} from '../state/tools';
+
+interface Props {
+  value: ToolSettingsValue;
+  tools: ToolDefinition[];
+  onChange: (next: ToolSettingsValue) => void;
+  disabled?: boolean;
+}
+
+export function ToolSettings({
+  value,
+  tools,
+  onChange,
+  disabled,
+}: Props): React.JSX.Element {
+  const [maxTurns, setMaxTurns] = useState(String(value.maxTurns));
+
+  useEffect(() => {
+    setMaxTurns(String(value.maxTurns));
+  }, [value.maxTurns]);
+
+  const commitMaxTurns = () => {
+    const parsed = parseInt(maxTurns, 10);
+    if (isNaN(parsed)) {
+      setMaxTurns(String(value.maxTurns));
+      return;
+    }
+    onChange({...value, maxTurns: parsed});
+  };
+
+  const toggleTool = (name: string) => {
+    const disabledTools = value.disabledTools.includes(name)
+      ? value.disabledTools.filter(tool => tool !== name)
+      : [...value.disabledTools, name];
+    onChange({...value, disabledTools});
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.title}>Tools</Text>
+        <Switch
+          value={value.enabled}
+          onValueChange={enabled => onChange({...value, enabled})}
+          disabled={disabled}
+        />
+      </View>
+      {value.enabled && (
+        <>
+          <Text style={styles.hint}>
+            The model may call these tools before answering. Tap one to leave it
+            out. Switching Tools on or off keeps the conversation.
+          </Text>
+          <View style={styles.chips}>
+            {tools.map(tool => {
+              const on = !value.disabledTools.includes(tool.name);
+              return (
+                <TouchableOpacity
+                  key={tool.name}
+                  style={[styles.chip, on && styles.chipActive]}
+                  onPress={() => toggleTool(tool.name)}
+                  disabled={disabled}>
+                  <Text style={styles.chipText}>{tool.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Max model turns</Text>
+            <TextInput
+              style={styles.input}
+              keyboardType="number-pad"
+              value={maxTurns}
+              onChangeText={setMaxTurns}
+              onEndEditing={commitMaxTurns}
+              editable={!disabled}
+            />
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  chipActive: {
+    backgroundColor: '#1f6feb',
+    borderColor: '#1f6feb',
+  },
+  chipText: {
+    color: '#e0e0e0',
+    fontSize: 12,
+  },
+  label: {
+    color: '#a8b6de',
+    fontSize: 12,
+  },
+  input: {
+    minWidth: 90,
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    color: '#f4f7ff',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    fontSize: 13,
+    textAlign: 'right',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+});
@@ -0,0 +1,114 @@
+import React, {useEffect, useState} from 'react';
+import {StyleSheet, Switch, Text, TextInput, View} from 'react-native';
+import type {VerificationOptions} from '../state/types';
+
+interface Props {
+  value: VerificationOptions;
+  onChange: (next: VerificationOptions) => void;
+  disabled?: boolean;
+}
+
+const FIELDS: {key: 'maxRetries' | 'backoffMs'; label: string}[] = [
+  {key: 'maxRetries', label: 'Retries'},
+  {key: 'backoffMs', label: 'First retry after (ms)'},
+];
+
+function toDrafts(value: VerificationOptions): Record<string, string> {
+  return {
+    maxRetries: String(value.maxRetries),
+    backoffMs: String(value.backoffMs),
+  };
+}
+
+export function VerificationSettings({
+  value,
+  onChange,
+  disabled,
+}: Props): React.JSX.Element {
+  const [drafts, setDrafts] = useState(() => toDrafts(value));
+
+  useEffect(() => {
+    setDrafts(toDrafts(value));
+  }, [value]);
+
+  const commit = (key: 'maxRetries' | 'backoffMs') => {
+    const parsed = parseFloat(drafts[key]);
+    if (isNaN(parsed)) {
+      setDrafts(toDrafts(value));
+      return;
+    }
+    onChange({...value, [key]: parsed});
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.title}>Verify goal</Text>
+        <Switch
+          value={value.enabled}
+          onValueChange={enabled => onChange({...value, enabled})}
+          disabled={disabled}
+        />
+      </View>
+      {value.enabled && (
+        <>
+          <Text style={styles.hint}>
+            Checks the final screen against the goal and retries when it doesn't
+            match, waiting twice as long before each further retry.
+          </Text>
+          {FIELDS.map(({key, label}) => (
+            <View key={key} style={styles.row}>
+              <Text style={styles.label}>{label}</Text>
+              <TextInput
+                style={styles.input}
+                keyboardType="number-pad"
+                value={drafts[key]}
+                onChangeText={text => setDrafts({...drafts, [key]: text})}
+                onEndEditing={() => commit(key)}
+                editable={!disabled}
+              />
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  label: {
+    color: '#a8b6de',
+    fontSize: 12,
+  },
+  input: {
+    minWidth: 90,
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+    color: '#f4f7ff',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    fontSize: 13,
+    textAlign: 'right',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+});
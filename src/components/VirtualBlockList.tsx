@@ -0,0 +1,164 @@
+import React, {useCallback, useRef, useState} from 'react';
+import {ScrollView, View} from 'react-native';
+import type {
+  LayoutChangeEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+
+interface Props<T> {
+  items: T[];
+  renderItem: (item: T, index: number) => React.ReactNode;
+  // Used for items that have not been laid out yet.
+  estimatedItemHeight?: number;
+  // Vertical space below each item.
+  gap?: number;
+  // Keep the newest item in view while the user is scrolled to the bottom.
+  followOutput?: boolean;
+  emptyComponent?: React.ReactNode;
+  style?: StyleProp<ViewStyle>;
+  contentContainerStyle?: StyleProp<ViewStyle>;
+}
+
+// How far past the viewport (in viewport heights) items stay mounted.
+const OVERSCAN = 1;
+// Height assumed for the viewport before the first layout pass.
+const INITIAL_VIEWPORT = 360;
+// Distance from the bottom that still counts as "at the bottom".
+const FOLLOW_SLOP = 24;
+
+/**
+ * Windowed vertical list for long outputs. Unlike FlatList it is a plain
+ * ScrollView, so it can sit inside the screen's ScrollView without the
+ * nested-VirtualizedList warning. Only items near the viewport are mounted;
+ * the rest are replaced by spacers sized from measured (or estimated) heights.
+ */
+export function VirtualBlockList<T>({
+  items,
+  renderItem,
+  estimatedItemHeight = 28,
+  gap = 8,
+  followOutput = false,
+  emptyComponent = null,
+  style,
+  contentContainerStyle,
+}: Props<T>): React.JSX.Element {
+  const scrollRef = useRef<ScrollView>(null);
+  const heightsRef = useRef<number[]>([]);
+  const firstItemRef = useRef<T | undefined>(undefined);
+  const atBottomRef = useRef(true);
+  const [viewport, setViewport] = useState({
+    offset: 0,
+    height: INITIAL_VIEWPORT,
+  });
+  const [, setMeasureVersion] = useState(0);
+
+  // A different first item means new content, not an appended stream.
+  if (items[0] !== firstItemRef.current) {
+    firstItemRef.current = items[0];
+    heightsRef.current = [];
+  }
+
+  const heightOf = (index: number) =>
+    (heightsRef.current[index] ?? estimatedItemHeight) + gap;
+
+  const overscan = viewport.height * OVERSCAN;
+  let first = 0;
+  let last = items.length;
+  let before = 0;
+  let after = 0;
+
+  if (followOutput && atBottomRef.current) {
+    // Anchor the window to the end so the newest items are always mounted.
+    let filled = 0;
+    first = items.length;
+    while (first > 0 && filled < viewport.height + overscan) {
+      first -= 1;
+      filled += heightOf(first);
+    }
+    for (let i = 0; i < first; i++) {
+      before += heightOf(i);
+    }
+  } else {
+    const start = viewport.offset - overscan;
+    const end = viewport.offset + viewport.height + overscan;
+    while (first < items.length && before + heightOf(first) < start) {
+      before += heightOf(first);
+      first += 1;
+    }
+    last = first;
+    let bottom = before;
+    while (last < items.length && bottom < end) {
+      bottom += heightOf(last);
+      last += 1;
+    }
+    for (let i = last; i < items.length; i++) {
+      after += heightOf(i);
+    }
+  }
+
+  const onScroll = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      const {contentOffset, layoutMeasurement, contentSize} = event.nativeEvent;
+      atBottomRef.current =
+        contentOffset.y + layoutMeasurement.height >=
+        contentSize.height - FOLLOW_SLOP;
+      setViewport({
+        offset: contentOffset.y,
+        height: layoutMeasurement.height,
+      });
+    },
+    [],
+  );
+
+  const onLayout = useCallback((event: LayoutChangeEvent) => {
+    const {height} = event.nativeEvent.layout;
+    setViewport(current => ({...current, height}));
+  }, []);
+
+  const onContentSizeChange = useCallback(() => {
+    if (followOutput && atBottomRef.current) {
+      scrollRef.current?.scrollToEnd({animated: false});
+    }
+  }, [followOutput]);
+
+  const measure = (index: number, height: number) => {
+    if (heightsRef.current[index] !== height) {
+      heightsRef.current[index] = height;
+      setMeasureVersion(version => version + 1);
+    }
+  };
+
+  return (
+    <ScrollView
+      ref={scrollRef}
+      style={style}
+      contentContainerStyle={contentContainerStyle}
+      onScroll={onScroll}
+      onLayout={onLayout}
+      onContentSizeChange={onContentSizeChange}
+      scrollEventThrottle={16}
+      nestedScrollEnabled
+      showsVerticalScrollIndicator
+      persistentScrollbar>
+      {items.length === 0 && emptyComponent}
+      {before > 0 && <View style={{height: before}} />}
+      {items.slice(first, last).map((item, offset) => {
+        const index = first + offset;
+        return (
+          <View
+            key={index}
+            style={{paddingBottom: gap}}
+            onLayout={event =>
+              measure(index, event.nativeEvent.layout.height - gap)
+            }>
+            {renderItem(item, index)}
+          </View>
+        );
+      })}
+      {after > 0 && <View style={{height: after}} />}
+    </ScrollView>
+  );
+}
@@ -1,4 +1,16 @@
 import {NativeEventEmitter, NativeModules} from 'react-native';
+import type {
+  AgentDecision,
+  AgentDoneReason,
+  AgentErrorReason,
+  AgentStartOptions,
+  ApprovalVerdict,
+  DeviceAction,
+  DeviceAgentEvent,
+  SwipeDirection,
+} from '../state/types';
+import {RunAbortedError, watchRun} from './cancellation';
+import type {RunControl} from './cancellation';
 
 const {AgentKernel} = NativeModules;
 
@@ -8,14 +20,63 @@ export function isServiceEnabled(): Promise<boolean> {
   return AgentKernel.isServiceEnabled();
 }
 
-export function startAgent(goal: string): Promise<void> {
-  return AgentKernel.startAgent(goal);
+export interface AgentRunControl extends RunControl {
+  // Called at most once when the signal or timeout stopped the run, after
+  // stopAgent: with a RunAbortedError, or stopAgent's error if it failed.
+  onAbort?: (error: Error) => void;
+}
+
+/**
+ * Resolves once the agent has started; the run itself ends with AGENT_DONE
+ * or AGENT_ERROR. The signal and timeout stay armed until then, so each
+ * attempt of a retried goal gets its own timeout.
+ */
+export function startAgent(
+  goal: string,
+  options?: AgentStartOptions,
+  {onAbort, ...control}: AgentRunControl = {},
+): Promise<void> {
+  if (control.signal?.aborted) {
+    return Promise.reject(new RunAbortedError('cancelled'));
+  }
+  let ended = false;
+  const subs = [
+    emitter.addListener('AGENT_DONE', () => end()),
+    emitter.addListener('AGENT_ERROR', () => end()),
+  ];
+  const release = watchRun(control, stopAgent, error => {
+    end();
+    onAbort?.(error);
+  });
+  function end() {
+    if (ended) {
+      return;
+    }
+    ended = true;
+    release();
+    subs.forEach(s => s.remove());
+  }
+
+  return AgentKernel.startAgent(goal, options ?? null).catch(
+    (error: unknown) => {
+      end();
+      throw error;
+    },
+  );
 }
 
 export function stopAgent(): Promise<void> {
   return AgentKernel.stopAgent();
 }
 
+export function resolveApproval(
+  requestId: string,
+  verdict: ApprovalVerdict,
+  decision?: AgentDecision,
+): Promise<void> {
+  return AgentKernel.resolveApproval(requestId, verdict, decision ?? null);
+}
+
 export function getAvailableModels(): Promise<string[]> {
   return AgentKernel.getAvailableModels();
 }
@@ -49,3 +110,202 @@ export function subscribeAgentEvents(
     errorSub.remove();
   };
 }
+
+const ACTIONS: DeviceAction[] = [
+  'tap',
+  'type',
+  'swipe',
+  'back',
+  'home',
+  'done',
+  'wait',
+];
+const DIRECTIONS: SwipeDirection[] = ['up', 'down', 'left', 'right'];
+const VERDICTS: ApprovalVerdict[] = ['approve', 'edit', 'skip', 'abort'];
+const DONE_REASONS: AgentDoneReason[] = [
+  'shortcut',
+  'goal_achieved',
+  'max_steps',
+  'max_duration',
+  'aborted',
+  'verification_failed',
+];
+const ERROR_REASONS: AgentErrorReason[] = [
+  'package_not_found',
+  'app_not_found',
+  'exception',
+];
+
+// An AGENT_EVENT payload as it arrives from the bridge, before narrowing.
+type RawEvent = Record<string, unknown>;
+
+function oneOf<T extends string>(
+  values: readonly T[],
+  value: unknown,
+): T | undefined {
+  return values.find(candidate => candidate === value);
+}
+
+function text(value: unknown, fallback = ''): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function count(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function toAction(value: unknown): DeviceAction {
+  return oneOf(ACTIONS, value) ?? 'unknown';
+}
+
+function toDecision(data: RawEvent): AgentDecision {
+  const decision: AgentDecision = {action: toAction(data.action)};
+  const index = count(data.index);
+  if (index !== undefined) {
+    decision.index = index;
+  }
+  if (typeof data.text === 'string') {
+    decision.text = data.text;
+  }
+  const direction = oneOf(DIRECTIONS, data.direction);
+  if (direction) {
+    decision.direction = direction;
+  }
+  return decision;
+}
+
+function parseStepEvent(
+  data: RawEvent,
+  timestamp: number,
+  step: number,
+): DeviceAgentEvent | null {
+  switch (data.type) {
+    case 'step_started':
+      return {
+        type: 'step_started',
+        timestamp,
+        step,
+        maxSteps: count(data.maxSteps) ?? step,
+      };
+    case 'screen_observed':
+      return {
+        type: 'screen_observed',
+        timestamp,
+        step,
+        screen: text(data.screen),
+        elementCount: count(data.elementCount) ?? 0,
+      };
+    case 'decision_parsed':
+      return {
+        type: 'decision_parsed',
+        timestamp,
+        step,
+        raw: text(data.raw),
+        decision: toDecision(data),
+        heuristic: !!data.heuristic,
+        tokens: count(data.tokens) ?? 0,
+      };
+    case 'action_executed':
+      return {
+        type: 'action_executed',
+        timestamp,
+        step,
+        action: toAction(data.action),
+      };
+    case 'approval_requested':
+      return typeof data.requestId === 'string'
+        ? {
+            type: 'approval_requested',
+            timestamp,
+            requestId: data.requestId,
+            step,
+            raw: text(data.raw),
+            decision: toDecision(data),
+          }
+        : null;
+    case 'approval_resolved': {
+      const verdict = oneOf(VERDICTS, data.verdict);
+      return verdict
+        ? {type: 'approval_resolved', timestamp, step, verdict}
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Narrows a raw AGENT_EVENT payload. Unknown types are dropped, and so are
+ * events missing their step or carrying a verdict or done reason outside
+ * the known set.
+ */
+export function parseAgentEvent(payload: unknown): DeviceAgentEvent | null {
+  if (typeof payload !== 'object' || payload === null) {
+    return null;
+  }
+  const data = payload as RawEvent;
+  const timestamp = count(data.timestamp) ?? Date.now();
+  switch (data.type) {
+    case 'step_started':
+    case 'screen_observed':
+    case 'decision_parsed':
+    case 'action_executed':
+    case 'approval_requested':
+    case 'approval_resolved': {
+      const step = count(data.step);
+      return step === undefined ? null : parseStepEvent(data, timestamp, step);
+    }
+    case 'download_progress':
+      return {
+        type: 'download_progress',
+        timestamp,
+        progress: count(data.progress) ?? 0,
+      };
+    case 'model_loaded': {
+      const downloadMs = count(data.downloadMs);
+      return {
+        type: 'model_loaded',
+        timestamp,
+        modelId: text(data.modelId),
+        loadMs: count(data.loadMs) ?? 0,
+        ...(downloadMs !== undefined ? {downloadMs} : {}),
+      };
+    }
+    case 'verification':
+      return {
+        type: 'verification',
+        timestamp,
+        passed: !!data.passed,
+        raw: text(data.raw),
+      };
+    case 'done': {
+      const reason = oneOf(DONE_REASONS, data.reason);
+      return reason
+        ? {type: 'done', timestamp, reason, message: text(data.message)}
+        : null;
+    }
+    case 'error':
+      return {
+        type: 'error',
+        timestamp,
+        reason: oneOf(ERROR_REASONS, data.reason) ?? 'exception',
+        message: text(data.message, 'Unknown error'),
+      };
+    default:
+      return null;
+  }
+}
+
+export function subscribeStructuredEvents(
+  callback: (event: DeviceAgentEvent) => void,
+) {
+  const sub = emitter.addListener('AGENT_EVENT', data => {
+    const event = parseAgentEvent(data);
+    if (event) {
+      callback(event);
+    }
+  });
+  return () => sub.remove();
+}
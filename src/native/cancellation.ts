@@ -0,0 +1,99 @@
+export type AbortReason = 'cancelled' | 'timed_out';
+
+export interface RunControl {
+  // Aborting it stops the native run.
+  signal?: AbortSignal;
+  // Stops the native run if it hasn't ended after this long.
+  timeoutMs?: number;
+}
+
+function formatSeconds(ms: number): string {
+  const seconds = Math.round(ms / 100) / 10;
+  return `${seconds}s`;
+}
+
+// Rejection from a bridge run that its signal or timeout stopped.
+export class RunAbortedError extends Error {
+  readonly reason: AbortReason;
+  readonly timeoutMs?: number;
+
+  constructor(reason: AbortReason, timeoutMs?: number) {
+    super(
+      reason === 'timed_out' && timeoutMs !== undefined
+        ? `Timed out after ${formatSeconds(timeoutMs)}`
+        : 'Cancelled',
+    );
+    this.name = 'RunAbortedError';
+    this.reason = reason;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export function isRunAborted(
+  error: unknown,
+  reason?: AbortReason,
+): error is RunAbortedError {
+  return (
+    error instanceof RunAbortedError &&
+    (reason === undefined || error.reason === reason)
+  );
+}
+
+/**
+ * Watches one native run for its signal or timeout. The first to fire calls
+ * `stop` (the bridge's cancel) and then `onAbort` with a RunAbortedError, or
+ * with stop's own error if the native side couldn't be stopped. The returned
+ * release ends the watch; it is safe to call any number of times, and
+ * neither callback runs after it.
+ */
+export function watchRun(
+  {signal, timeoutMs}: RunControl,
+  stop: () => Promise<void>,
+  onAbort: (error: Error) => void,
+): () => void {
+  let released = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const release = () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    signal?.removeEventListener('abort', handleAbort);
+  };
+
+  const abort = (error: RunAbortedError) => {
+    if (released) {
+      return;
+    }
+    release();
+    stop().then(
+      () => onAbort(error),
+      stopError =>
+        onAbort(
+          stopError instanceof Error ? stopError : new Error(String(stopError)),
+        ),
+    );
+  };
+
+  function handleAbort() {
+    abort(new RunAbortedError('cancelled'));
+  }
+
+  if (signal?.aborted) {
+    handleAbort();
+    return release;
+  }
+  signal?.addEventListener('abort', handleAbort);
+  if (timeoutMs !== undefined && timeoutMs > 0) {
+    timer = setTimeout(
+      () => abort(new RunAbortedError('timed_out', timeoutMs)),
+      timeoutMs,
+    );
+  }
+  return release;
+}
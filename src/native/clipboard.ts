@@ -0,0 +1,14 @@
+import {NativeModules} from 'react-native';
+
+const {AppClipboard} = NativeModules;
+
+export function isClipboardAvailable(): boolean {
+  return AppClipboard != null;
+}
+
+export function copyText(text: string): Promise<void> {
+  if (!AppClipboard) {
+    return Promise.reject(new Error('Clipboard is not available'));
+  }
+  return AppClipboard.setString(text);
+}
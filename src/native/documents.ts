@@ -0,0 +1,20 @@
+import {NativeModules} from 'react-native';
+
+const {AppDocuments} = NativeModules;
+
+export interface PickedDocument {
+  name: string;
+  text: string;
+}
+
+export function isDocumentPickerAvailable(): boolean {
+  return AppDocuments != null;
+}
+
+// Resolves null when the user backs out of the picker.
+export function pickTextDocument(): Promise<PickedDocument | null> {
+  if (!AppDocuments) {
+    return Promise.reject(new Error('File import is not available'));
+  }
+  return AppDocuments.pickTextDocument();
+}
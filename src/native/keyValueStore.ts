@@ -0,0 +1,20 @@
+import {NativeModules} from 'react-native';
+import type {StorageAdapter} from '../state/storage';
+
+const {KeyValueStore} = NativeModules;
+
+export function isKeyValueStoreAvailable(): boolean {
+  return KeyValueStore != null;
+}
+
+export const nativeStorage: StorageAdapter = {
+  getItem(key: string): Promise<string | null> {
+    return KeyValueStore.getItem(key);
+  },
+  setItem(key: string, value: string): Promise<void> {
+    return KeyValueStore.setItem(key, value);
+  },
+  removeItem(key: string): Promise<void> {
+    return KeyValueStore.removeItem(key);
+  },
+};
@@ -1,5 +1,12 @@
 import {NativeModules, NativeEventEmitter} from 'react-native';
-import type {AgentEvent} from '../state/types';
+import type {
+  AgentEvent,
+  GenerationOptions,
+  JsonSchema,
+  ModelInfo,
+} from '../state/types';
+import {RunAbortedError, watchRun} from './cancellation';
+import type {RunControl} from './cancellation';
 
 const {RunAnywhere} = NativeModules;
 const emitter = new NativeEventEmitter(RunAnywhere);
@@ -19,12 +26,93 @@ export function downloadModel(modelName: string): Promise<void> {
   return RunAnywhere.downloadModel(modelName);
 }
 
+// Rejects the pending downloadModel call with code DOWNLOAD_PAUSED.
+export function pauseDownload(modelName: string): Promise<void> {
+  return RunAnywhere.pauseDownload(modelName);
+}
+
+// Restarts the download from zero and settles like downloadModel.
+export function resumeDownload(modelName: string): Promise<void> {
+  return RunAnywhere.resumeDownload(modelName);
+}
+
+export function cancelDownload(modelName: string): Promise<void> {
+  return RunAnywhere.cancelDownload(modelName);
+}
+
+export function isNetworkAvailable(): Promise<boolean> {
+  return RunAnywhere.isNetworkAvailable();
+}
+
+export function listModels(): Promise<ModelInfo[]> {
+  return RunAnywhere.listModels();
+}
+
+export function deleteModel(modelName: string): Promise<void> {
+  return RunAnywhere.deleteModel(modelName);
+}
+
 export function loadModel(modelName: string): Promise<void> {
   return RunAnywhere.loadModel(modelName);
 }
 
-export function runAgent(task: string, context?: string): Promise<void> {
-  return RunAnywhere.runAgent(task, context ?? null);
+export function unloadModel(): Promise<void> {
+  return RunAnywhere.unloadModel();
+}
+
+export function getLoadedModel(): Promise<string | null> {
+  return RunAnywhere.getLoadedModel();
+}
+
+/**
+ * Settles when generation ends. With a schema, the SDK constrains generation
+ * to JSON matching it. Aborting `control.signal` or passing its timeout
+ * cancels the native run and rejects with RunAbortedError, or with
+ * cancelRun's error if the run couldn't be cancelled.
+ */
+export function runAgent(
+  task: string,
+  context?: string,
+  options?: GenerationOptions,
+  schema?: JsonSchema,
+  control: RunControl = {},
+): Promise<void> {
+  if (control.signal?.aborted) {
+    return Promise.reject(new RunAbortedError('cancelled'));
+  }
+  return new Promise<void>((resolve, reject) => {
+    let aborting = false;
+    const release = watchRun(
+      control,
+      () => {
+        aborting = true;
+        return cancelRun();
+      },
+      reject,
+    );
+    const native: Promise<void> = RunAnywhere.runAgent(
+      task,
+      context ?? null,
+      options ?? null,
+      schema ? JSON.stringify(schema) : null,
+    );
+    // Once aborting, the native outcome (usually its own cancellation) is
+    // superseded by the abort.
+    native.then(
+      () => {
+        release();
+        if (!aborting) {
+          resolve();
+        }
+      },
+      error => {
+        release();
+        if (!aborting) {
+          reject(error);
+        }
+      },
+    );
+  });
 }
 
 export function cancelRun(): Promise<void> {
@@ -35,9 +123,23 @@ export type EventCleanup = () => void;
 
 export function subscribe(callback: (event: AgentEvent) => void): EventCleanup {
   const subs = [
-    emitter.addListener(Events.DOWNLOAD_PROGRESS, (data: {progress: number}) => {
-      callback({type: 'download_progress', progress: data.progress});
-    }),
+    emitter.addListener(
+      Events.DOWNLOAD_PROGRESS,
+      (data: {
+        progress: number;
+        modelId?: string;
+        bytesDownloaded?: number;
+        totalBytes?: number;
+      }) => {
+        callback({
+          type: 'download_progress',
+          progress: data.progress,
+          modelId: data.modelId,
+          bytesDownloaded: data.bytesDownloaded,
+          totalBytes: data.totalBytes,
+        });
+      },
+    ),
     emitter.addListener(Events.TOKEN, (data: {token: string}) => {
       callback({type: 'token', text: data.token});
     }),
@@ -0,0 +1,452 @@
+import React, {useState} from 'react';
+import {
+  SafeAreaView,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type {useBenchmark} from '../state/useBenchmark';
+import {
+  findResult,
+  reportToCsv,
+  reportToJson,
+  summarizeModel,
+} from '../state/benchmark';
+import type {BenchmarkReport, ModelSummary} from '../state/benchmark';
+import {formatDuration} from '../state/metrics';
+import {getModelLabel} from '../state/models';
+
+interface Props {
+  benchmark: ReturnType<typeof useBenchmark>;
+  availableModels: string[];
+  activeModelId: string;
+  onBack: () => void;
+  // Another run is using the model; benchmarking would fight over it.
+  busy: boolean;
+}
+
+function formatMs(ms: number | null): string {
+  return ms === null ? '–' : formatDuration(ms);
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '–' : `${rate.toFixed(1)} tok/s`;
+}
+
+// Per-model rows above the per-prompt cells.
+const SUMMARY_ROWS: {
+  label: string;
+  format: (summary: ModelSummary) => string;
+}[] = [
+  {label: 'Load', format: summary => formatMs(summary.loadMs)},
+  {
+    label: 'Avg TTFT',
+    format: summary => formatMs(summary.avgTimeToFirstTokenMs),
+  },
+  {
+    label: 'Avg speed',
+    format: summary => formatRate(summary.avgTokensPerSecond),
+  },
+  {label: 'Tokens', format: summary => String(summary.totalTokens)},
+  {label: 'Failures', format: summary => String(summary.failures)},
+];
+
+function exportReport(report: BenchmarkReport, format: 'json' | 'csv') {
+  const message =
+    format === 'json' ? reportToJson(report) : reportToCsv(report);
+  Share.share({
+    title: `Benchmark results (${format.toUpperCase()})`,
+    message,
+  }).catch(e => console.warn('Failed to share results:', e));
+}
+
+export function BenchmarkScreen({
+  benchmark,
+  availableModels,
+  activeModelId,
+  onBack,
+  busy,
+}: Props): React.JSX.Element {
+  const {suite, report, progress, running} = benchmark;
+  const [selected, setSelected] = useState<string[]>(
+    activeModelId ? [activeModelId] : [],
+  );
+  const [draft, setDraft] = useState('');
+  const [openCell, setOpenCell] = useState<{
+    modelId: string;
+    promptId: string;
+  } | null>(null);
+
+  const toggleModel = (modelId: string) =>
+    setSelected(current =>
+      current.includes(modelId)
+        ? current.filter(id => id !== modelId)
+        : [...current, modelId],
+    );
+
+  // Keep the catalog order rather than the order models were ticked in.
+  const modelsToRun = availableModels.filter(id => selected.includes(id));
+  const canRun =
+    !running && !busy && modelsToRun.length > 0 && suite.length > 0;
+  const openResult =
+    report && openCell
+      ? findResult(report, openCell.modelId, openCell.promptId)
+      : undefined;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={onBack}>
+          <Text style={styles.headerButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Benchmark</Text>
+        {running ? (
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={benchmark.cancel}>
+            <Text style={styles.headerButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.headerButton, !canRun && styles.disabled]}
+            onPress={() => benchmark.run(modelsToRun)}
+            disabled={!canRun}>
+            <Text style={styles.headerButtonText}>Run</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <ScrollView contentContainerStyle={styles.list}>
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Models</Text>
+          <View style={styles.chips}>
+            {availableModels.map(modelId => {
+              const isSelected = selected.includes(modelId);
+              return (
+                <TouchableOpacity
+                  key={modelId}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => toggleModel(modelId)}
+                  disabled={running}>
+                  <Text style={styles.chipText}>{getModelLabel(modelId)}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.sectionTitle}>Prompt suite</Text>
+            <TouchableOpacity onPress={benchmark.resetSuite} disabled={running}>
+              <Text style={styles.link}>Reset</Text>
+            </TouchableOpacity>
+          </View>
+          {suite.map(entry => (
+            <View key={entry.id} style={styles.promptRow}>
+              <Text style={styles.prompt} numberOfLines={2}>
+                {entry.prompt}
+              </Text>
+              <TouchableOpacity
+                onPress={() => benchmark.removePrompt(entry.id)}
+                disabled={running}>
+                <Text style={styles.link}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+          <View style={styles.promptRow}>
+            <TextInput
+              style={styles.input}
+              value={draft}
+              onChangeText={setDraft}
+              placeholder="Add a prompt"
+              placeholderTextColor="#6b7aa6"
+              editable={!running}
+            />
+            <TouchableOpacity
+              onPress={() => {
+                benchmark.addPrompt(draft);
+                setDraft('');
+              }}
+              disabled={running || !draft.trim()}>
+              <Text style={styles.link}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {!!progress && (
+          <Text style={styles.progress}>
+            {progress.phase === 'loading' ? 'Loading' : 'Running'}{' '}
+            {getModelLabel(progress.modelId)} · {progress.completed}/
+            {progress.total}
+          </Text>
+        )}
+
+        {!!report && report.results.length > 0 && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.sectionTitle}>Results</Text>
+              <View style={styles.exportRow}>
+                <TouchableOpacity onPress={() => exportReport(report, 'json')}>
+                  <Text style={styles.link}>JSON</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => exportReport(report, 'csv')}>
+                  <Text style={styles.link}>CSV</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+            <ScrollView horizontal>
+              <View>
+                <View style={styles.row}>
+                  <Text style={[styles.cell, styles.rowLabel]} />
+                  {report.models.map(modelId => (
+                    <Text
+                      key={modelId}
+                      style={[styles.cell, styles.headCell]}
+                      numberOfLines={2}>
+                      {getModelLabel(modelId)}
+                    </Text>
+                  ))}
+                </View>
+                {SUMMARY_ROWS.map(({label, format}) => (
+                  <View key={label} style={styles.row}>
+                    <Text style={[styles.cell, styles.rowLabel]}>{label}</Text>
+                    {report.models.map(modelId => (
+                      <Text key={modelId} style={styles.cell}>
+                        {format(summarizeModel(report, modelId))}
+                      </Text>
+                    ))}
+                  </View>
+                ))}
+                {report.suite.map(entry => (
+                  <View key={entry.id} style={styles.row}>
+                    <Text
+                      style={[styles.cell, styles.rowLabel]}
+                      numberOfLines={2}>
+                      {entry.prompt}
+                    </Text>
+                    {report.models.map(modelId => {
+                      const result = findResult(report, modelId, entry.id);
+                      const isOpen =
+                        openCell?.modelId === modelId &&
+                        openCell.promptId === entry.id;
+                      return (
+                        <TouchableOpacity
+                          key={modelId}
+                          style={[styles.cellBox, isOpen && styles.cellOpen]}
+                          disabled={!result}
+                          onPress={() =>
+                            setOpenCell(
+                              isOpen ? null : {modelId, promptId: entry.id},
+                            )
+                          }>
+                          <Text
+                            style={[
+                              styles.cellText,
+                              !!result?.error && styles.errorText,
+                            ]}>
+                            {!result
+                              ? '…'
+                              : result.error
+                              ? 'Failed'
+                              : `${formatMs(
+                                  result.metrics.timeToFirstTokenMs,
+                                )}\n${formatRate(
+                                  result.metrics.tokensPerSecond,
+                                )}`}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                ))}
+              </View>
+            </ScrollView>
+            {!!openResult && (
+              <View style={styles.output}>
+                <Text style={styles.outputTitle}>
+                  {getModelLabel(openResult.modelId)}
+                </Text>
+                <Text
+                  style={[
+                    styles.outputText,
+                    !!openResult.error && styles.errorText,
+                  ]}>
+                  {openResult.error ?? openResult.output}
+                </Text>
+              </View>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0e1224',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 14,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  headerButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    backgroundColor: 'rgba(18, 24, 50, 0.8)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  headerButtonText: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#f4f7ff',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  list: {
+    paddingHorizontal: 14,
+    paddingBottom: 24,
+    gap: 10,
+  },
+  card: {
+    borderRadius: 14,
+    padding: 12,
+    gap: 8,
+    backgroundColor: 'rgba(22, 28, 56, 0.9)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.2)',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    color: '#a8b6de',
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 0.3,
+  },
+  link: {
+    color: '#58a6ff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+    backgroundColor: 'rgba(18, 24, 50, 0.9)',
+  },
+  chipSelected: {
+    backgroundColor: '#1f6feb',
+    borderColor: '#1f6feb',
+  },
+  chipText: {
+    color: '#e0e0e0',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  promptRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  prompt: {
+    flex: 1,
+    color: '#f4f7ff',
+    fontSize: 12,
+  },
+  input: {
+    flex: 1,
+    color: '#f4f7ff',
+    fontSize: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(14, 18, 36, 0.9)',
+  },
+  progress: {
+    color: '#f39c12',
+    fontSize: 12,
+    textAlign: 'center',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 14,
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(120, 145, 200, 0.2)',
+  },
+  cell: {
+    width: 96,
+    paddingVertical: 6,
+    paddingHorizontal: 4,
+    color: '#f4f7ff',
+    fontSize: 11,
+  },
+  cellBox: {
+    width: 96,
+    paddingVertical: 6,
+    paddingHorizontal: 4,
+  },
+  cellOpen: {
+    backgroundColor: 'rgba(31, 111, 235, 0.25)',
+  },
+  cellText: {
+    color: '#f4f7ff',
+    fontSize: 11,
+  },
+  headCell: {
+    color: '#a8b6de',
+    fontWeight: '700',
+  },
+  rowLabel: {
+    width: 120,
+    color: '#9fb0d6',
+  },
+  errorText: {
+    color: '#e74c3c',
+  },
+  output: {
+    gap: 4,
+    padding: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(14, 18, 36, 0.9)',
+  },
+  outputTitle: {
+    color: '#a8b6de',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  outputText: {
+    color: '#f4f7ff',
+    fontSize: 12,
+  },
+});
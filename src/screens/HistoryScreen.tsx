@@ -0,0 +1,254 @@
+import React, {useState} from 'react';
+import {
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {OutputPanel} from '../components/OutputPanel';
+import {useRunHistory} from '../state/useRunHistory';
+import {getModelLabel} from '../state/models';
+import {formatDuration, formatMetrics} from '../state/metrics';
+import {OUTCOME_LABELS} from '../state/deviceOutcome';
+import type {RunOutcome, RunRecord} from '../state/types';
+
+interface Props {
+  onBack: () => void;
+  onRerun: (record: RunRecord) => void;
+  canRerun: boolean;
+}
+
+const OUTCOME_COLORS: Record<RunOutcome, string> = {
+  done: '#3498db',
+  error: '#e74c3c',
+  stopped: '#888',
+};
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function HistoryScreen({
+  onBack,
+  onRerun,
+  canRerun,
+}: Props): React.JSX.Element {
+  const {entries, remove, clear} = useRunHistory();
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={onBack}>
+          <Text style={styles.headerButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>History</Text>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={clear}
+          disabled={entries.length === 0}>
+          <Text style={styles.headerButtonText}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+      <ScrollView contentContainerStyle={styles.list}>
+        {entries.length === 0 && (
+          <Text style={styles.empty}>No runs yet.</Text>
+        )}
+        {entries.map(record => {
+          const isOpen = openId === record.id;
+          return (
+            <View key={record.id} style={styles.card}>
+              <TouchableOpacity
+                onPress={() => setOpenId(isOpen ? null : record.id)}>
+                <View style={styles.cardHeader}>
+                  <Text style={styles.kind}>
+                    {record.kind === 'chat' ? 'LLM Chat' : 'Device Agent'}
+                  </Text>
+                  <View
+                    style={[
+                      styles.badge,
+                      {backgroundColor: OUTCOME_COLORS[record.finalPhase]},
+                    ]}>
+                    <Text style={styles.badgeText}>
+                      {(record.outcome
+                        ? OUTCOME_LABELS[record.outcome]
+                        : record.finalPhase
+                      ).toUpperCase()}
+                    </Text>
+                  </View>
+                </View>
+                <Text style={styles.goal} numberOfLines={isOpen ? undefined : 2}>
+                  {record.goal}
+                </Text>
+                <Text style={styles.meta}>
+                  {getModelLabel(record.model)} · {formatDate(record.startedAt)}{' '}
+                  · {formatDuration(record.durationMs)}
+                  {(record.attempts ?? 1) > 1
+                    ? ` · ${record.attempts} attempts`
+                    : ''}
+                </Text>
+                {!!record.metrics && (
+                  <Text style={styles.meta}>
+                    {formatMetrics(record.metrics).join(' · ')}
+                  </Text>
+                )}
+              </TouchableOpacity>
+              {isOpen && (
+                <>
+                  {!!record.context && (
+                    <Text style={styles.context}>Context: {record.context}</Text>
+                  )}
+                  <View style={styles.output}>
+                    <OutputPanel
+                      output={record.output}
+                      structured={record.structured}
+                    />
+                  </View>
+                  <View style={styles.actions}>
+                    <TouchableOpacity
+                      style={[
+                        styles.actionButton,
+                        styles.primary,
+                        !canRerun && styles.disabled,
+                      ]}
+                      onPress={() => onRerun(record)}
+                      disabled={!canRerun}>
+                      <Text style={styles.actionText}>Re-run</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.actionButton, styles.danger]}
+                      onPress={() => remove(record.id)}>
+                      <Text style={styles.actionText}>Delete</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0e1224',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 14,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  headerButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    backgroundColor: 'rgba(18, 24, 50, 0.8)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  headerButtonText: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#f4f7ff',
+  },
+  list: {
+    paddingHorizontal: 14,
+    paddingBottom: 24,
+    gap: 10,
+  },
+  empty: {
+    color: '#9fb0d6',
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    borderRadius: 14,
+    padding: 12,
+    gap: 6,
+    backgroundColor: 'rgba(22, 28, 56, 0.9)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.2)',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  kind: {
+    color: '#a8b6de',
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 0.3,
+  },
+  badge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+  goal: {
+    color: '#f4f7ff',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  meta: {
+    color: '#7e8bb3',
+    fontSize: 11,
+    marginTop: 2,
+  },
+  context: {
+    color: '#9fb0d6',
+    fontSize: 12,
+  },
+  output: {
+    borderRadius: 10,
+    backgroundColor: 'rgba(14, 18, 36, 0.9)',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  actionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  primary: {
+    backgroundColor: '#1f6feb',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  danger: {
+    backgroundColor: '#d14b63',
+  },
+  actionText: {
+    color: '#e0e0e0',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+});
@@ -1,4 +1,4 @@
-﻿import React, {useMemo, useState} from 'react';
+﻿import React, {useCallback, useMemo, useState} from 'react';
 import {
   SafeAreaView,
   ScrollView,
@@ -8,20 +8,57 @@ import {
   View,
 } from 'react-native';
 import {OutputPanel} from '../components/OutputPanel';
+import {ChatTranscript} from '../components/ChatTranscript';
+import {AgentTimeline} from '../components/AgentTimeline';
+import {ApprovalCard} from '../components/ApprovalCard';
+import {SupervisionSettings} from '../components/SupervisionSettings';
+import {RunLimitsSettings} from '../components/RunLimitsSettings';
+import {VerificationSettings} from '../components/VerificationSettings';
+import {GenerationSettings} from '../components/GenerationSettings';
+import {ToolSettings} from '../components/ToolSettings';
+import {ToolCallList} from '../components/ToolCallList';
+import {KnowledgeBase} from '../components/KnowledgeBase';
+import {StructuredOutputSettings} from '../components/StructuredOutputSettings';
+import {useGenerationSettings} from '../state/useGenerationSettings';
 import {Controls} from '../components/Controls';
+import {GoalQueue} from '../components/GoalQueue';
+import {PlanEditor} from '../components/PlanEditor';
+import {RunStats} from '../components/RunStats';
+import {ShareMenu} from '../components/ShareMenu';
 import {useAgentRunner} from '../state/useAgentRunner';
-import {useDeviceAgent, getModelLabel} from '../state/useDeviceAgent';
+import {useToolAgent} from '../state/useToolAgent';
+import {useChatTurns} from '../state/useChatTurns';
+import {useKnowledgeBase} from '../state/useKnowledgeBase';
+import {stateOutcome, useDeviceAgent} from '../state/useDeviceAgent';
+import {useGoalQueue} from '../state/useGoalQueue';
+import {useDevicePlanner} from '../state/useDevicePlanner';
+import {useModelManager} from '../state/useModelManager';
+import {useModelSelection} from '../state/useModelSelection';
+import {useBenchmark} from '../state/useBenchmark';
+import {getModelLabel} from '../state/models';
+import {OUTCOME_LABELS} from '../state/deviceOutcome';
+import {formatDownload} from '../state/downloads';
+import {buildChatExport, buildDeviceExport} from '../state/transcript';
+import type {DeviceRunStatus} from '../state/transcript';
+import {HistoryScreen} from './HistoryScreen';
+import {ModelManagerScreen} from './ModelManagerScreen';
+import {BenchmarkScreen} from './BenchmarkScreen';
+import type {RunRecord} from '../state/types';
 
-function getOutput(state: ReturnType<typeof useAgentRunner>['state']): string {
+function getChatStatus(
+  state: ReturnType<typeof useAgentRunner>['state'],
+): string {
   switch (state.phase) {
     case 'downloading':
-      return `Downloading model... ${state.progress}%`;
+      return state.download
+        ? `Downloading model... ${formatDownload(state.download)}`
+        : `Downloading model... ${state.progress}%`;
+    case 'offline':
+      return 'No network connection to download the model. Connect and retry.';
     case 'loading':
       return 'Loading model...';
-    case 'running':
-      return state.partialOutput;
-    case 'done':
-      return state.finalOutput;
+    case 'timed_out':
+      return `Timed out after ${Math.round(state.timeoutMs / 1000)}s`;
     case 'error':
       return `Error: ${state.message}`;
     default:
@@ -35,10 +72,16 @@ function phaseLabel(phase: string): {text: string; color: string} {
       return {text: 'DOWNLOADING', color: '#f39c12'};
     case 'loading':
       return {text: 'LOADING', color: '#f39c12'};
+    case 'offline':
+      return {text: 'OFFLINE', color: '#e74c3c'};
     case 'running':
       return {text: 'RUNNING', color: '#2ecc71'};
     case 'done':
       return {text: 'DONE', color: '#3498db'};
+    case 'cancelled':
+      return {text: 'CANCELLED', color: '#888'};
+    case 'timed_out':
+      return {text: 'TIMED OUT', color: '#f39c12'};
     case 'error':
       return {text: 'ERROR', color: '#e74c3c'};
     default:
@@ -47,33 +90,75 @@ function phaseLabel(phase: string): {text: string; color: string} {
 }
 
 export function HomeScreen(): React.JSX.Element {
-  const {state, start, stop} = useAgentRunner();
+  // One conversation for both modes; the Tools switch picks who answers next.
+  const chatTurns = useChatTurns();
+  const runner = useAgentRunner(chatTurns);
+  const toolAgent = useToolAgent(chatTurns);
+  const knowledge = useKnowledgeBase();
+  const {state, turns, metrics, start, stop, clearConversation} =
+    toolAgent.settings.enabled ? toolAgent : runner;
   const deviceAgent = useDeviceAgent();
+  const generation = useGenerationSettings();
+  const modelManager = useModelManager();
+  const models = useModelSelection();
+  const benchmark = useBenchmark();
   const [mode, setMode] = useState<'llm' | 'device'>('llm');
+  const [view, setView] = useState<
+    'home' | 'history' | 'models' | 'benchmark'
+  >('home');
 
-  const output = useMemo(() => {
-    if (mode === 'device') {
-      switch (deviceAgent.state.phase) {
-        case 'running':
-          return deviceAgent.state.output;
-        case 'done':
-          return deviceAgent.state.output;
-        case 'error':
-          return `Error: ${deviceAgent.state.message}`;
-        default:
-          return '';
+  const deviceOutput = useMemo(() => {
+    switch (deviceAgent.state.phase) {
+      case 'running':
+      case 'done':
+      case 'cancelled':
+      case 'timed_out':
+        return deviceAgent.state.output;
+      case 'error':
+        return `Error: ${deviceAgent.state.message}`;
+      default:
+        return '';
+    }
+  }, [deviceAgent.state]);
+
+  // Final line under the step timeline once the run has ended.
+  const deviceStatus = useMemo(() => {
+    switch (deviceAgent.state.phase) {
+      case 'done':
+      case 'cancelled':
+      case 'timed_out': {
+        const lines = deviceAgent.state.output.trim().split('\n');
+        return lines[lines.length - 1];
       }
+      case 'error':
+        return `Error: ${deviceAgent.state.message}`;
+      default:
+        return undefined;
     }
-    return getOutput(state);
-  }, [mode, deviceAgent.state, state]);
+  }, [deviceAgent.state]);
 
   const label = useMemo(() => {
     if (mode === 'device') {
       switch (deviceAgent.state.phase) {
         case 'running':
-          return {text: 'AGENT', color: '#2ecc71'};
-        case 'done':
-          return {text: 'DONE', color: '#3498db'};
+          return {
+            text:
+              deviceAgent.steps.length > 0
+                ? `STEP ${deviceAgent.steps.length}`
+                : 'AGENT',
+            color: '#2ecc71',
+          };
+        case 'done': {
+          const {outcome} = deviceAgent.state;
+          return {
+            text: OUTCOME_LABELS[outcome].toUpperCase(),
+            color: outcome === 'succeeded' ? '#3498db' : '#f39c12',
+          };
+        }
+        case 'cancelled':
+          return {text: 'CANCELLED', color: '#888'};
+        case 'timed_out':
+          return {text: 'TIMED OUT', color: '#f39c12'};
         case 'error':
           return {text: 'ERROR', color: '#e74c3c'};
         default:
@@ -81,14 +166,103 @@ export function HomeScreen(): React.JSX.Element {
       }
     }
     return phaseLabel(state.phase);
-  }, [mode, deviceAgent.state, state.phase]);
+  }, [mode, deviceAgent.state, deviceAgent.steps, state.phase]);
+
+  const chatRunning =
+    state.phase === 'downloading' ||
+    state.phase === 'loading' ||
+    state.phase === 'running';
+  const planner = useDevicePlanner({
+    runGoal: deviceAgent.runGoal,
+    stopGoal: deviceAgent.stop,
+  });
+  const deviceRunning =
+    planner.busy || deviceAgent.state.phase === 'running';
+  // Any run in either mode, which queued goals must wait for.
+  const anyRunning = benchmark.running || chatRunning || deviceRunning;
+  const goalQueue = useGoalQueue({
+    runGoal: deviceAgent.runGoal,
+    stopGoal: deviceAgent.stop,
+    busy: anyRunning,
+  });
 
   const isRunning =
-    mode === 'device'
-      ? deviceAgent.state.phase === 'running'
-      : state.phase === 'downloading' ||
-        state.phase === 'loading' ||
-        state.phase === 'running';
+    benchmark.running ||
+    (mode === 'device'
+      ? deviceRunning
+      : chatRunning);
+
+  const getTranscript = useCallback(() => {
+    if (mode === 'llm') {
+      return buildChatExport({turns, model: models.activeModel, metrics});
+    }
+    const {state: deviceState} = deviceAgent;
+    const status: DeviceRunStatus =
+      deviceState.phase === 'idle' || deviceState.phase === 'cancelled'
+        ? 'stopped'
+        : deviceState.phase;
+    return buildDeviceExport({
+      goal: deviceAgent.lastGoal ?? '',
+      model: models.activeModel,
+      metrics: deviceAgent.metrics,
+      status,
+      outcome: stateOutcome(deviceState),
+      statusMessage: deviceStatus ?? null,
+      steps: deviceAgent.steps,
+      log: deviceAgent.getLog(),
+    });
+  }, [mode, turns, models.activeModel, metrics, deviceAgent, deviceStatus]);
+
+  const canShare =
+    mode === 'llm' ? turns.length > 0 : deviceAgent.lastGoal !== null;
+
+  const rerun = useCallback(
+    (record: RunRecord) => {
+      setView('home');
+      if (record.kind === 'device') {
+        setMode('device');
+        deviceAgent.start(record.goal);
+      } else {
+        setMode('llm');
+        start(record.goal, record.context, generation.options);
+      }
+    },
+    [deviceAgent, generation.options, start],
+  );
+
+  if (view === 'history') {
+    return (
+      <HistoryScreen
+        onBack={() => setView('home')}
+        onRerun={rerun}
+        canRerun={!isRunning}
+      />
+    );
+  }
+
+  if (view === 'models') {
+    return (
+      <ModelManagerScreen
+        manager={modelManager}
+        activeModelId={models.activeModel}
+        onSelect={models.selectModel}
+        onBack={() => setView('home')}
+        busy={isRunning}
+      />
+    );
+  }
+
+  if (view === 'benchmark') {
+    return (
+      <BenchmarkScreen
+        benchmark={benchmark}
+        availableModels={models.availableModels}
+        activeModelId={models.activeModel}
+        onBack={() => setView('home')}
+        busy={isRunning && !benchmark.running}
+      />
+    );
+  }
 
   return (
     <SafeAreaView style={styles.container}>
@@ -112,53 +286,185 @@ export function HomeScreen(): React.JSX.Element {
                 onPress={() => setMode('device')}>
                 <Text style={styles.modeButtonText}>Device Agent</Text>
               </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modeButton}
+                onPress={() => setView('history')}>
+                <Text style={styles.modeButtonText}>History</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modeButton}
+                onPress={() => setView('models')}>
+                <Text style={styles.modeButtonText}>Models</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modeButton}
+                onPress={() => setView('benchmark')}>
+                <Text style={styles.modeButtonText}>Bench</Text>
+              </TouchableOpacity>
             </View>
           </View>
-          <View style={[styles.badge, {backgroundColor: label.color}]}
-          >
-            <Text style={styles.badgeText}>{label.text}</Text>
+          <View style={styles.badgeColumn}>
+            <View style={[styles.badge, {backgroundColor: label.color}]}
+            >
+              <Text style={styles.badgeText}>{label.text}</Text>
+            </View>
+            <RunStats
+              metrics={mode === 'device' ? deviceAgent.metrics : metrics}
+            />
+            <Text style={styles.loadedModel} numberOfLines={1}>
+              {models.loadedModel
+                ? getModelLabel(models.loadedModel)
+                : 'No model loaded'}
+            </Text>
           </View>
         </View>
         <View style={styles.card}>
-          <OutputPanel output={output} />
+          {mode === 'device' ? (
+            deviceAgent.steps.length > 0 ? (
+              <AgentTimeline steps={deviceAgent.steps} status={deviceStatus} />
+            ) : (
+              <OutputPanel
+                output={deviceOutput}
+                streaming={deviceAgent.state.phase === 'running'}
+              />
+            )
+          ) : (
+            <ChatTranscript
+              turns={turns}
+              pendingOutput={
+                state.phase === 'running' ? state.partialOutput : undefined
+              }
+              status={getChatStatus(state)}
+            />
+          )}
         </View>
-        {mode === 'device' && deviceAgent.availableModels.length > 0 && (
-          <View style={styles.modelCard}>
-            <Text style={styles.modelLabel}>Model:</Text>
-            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.modelScroll}>
-              {deviceAgent.availableModels.map(modelId => (
-                <TouchableOpacity
-                  key={modelId}
-                  style={[
-                    styles.modelButton,
-                    deviceAgent.activeModel === modelId && styles.modelButtonActive,
-                  ]}
-                  onPress={() => deviceAgent.selectModel(modelId)}
-                  disabled={isRunning}>
-                  <Text
-                    style={[
-                      styles.modelButtonText,
-                      deviceAgent.activeModel === modelId && styles.modelButtonTextActive,
-                    ]}>
-                    {getModelLabel(modelId)}
-                  </Text>
-                </TouchableOpacity>
-              ))}
-            </ScrollView>
+        {mode === 'llm' &&
+          toolAgent.settings.enabled &&
+          toolAgent.invocations.length > 0 && (
+            <View style={styles.card}>
+              <ToolCallList invocations={toolAgent.invocations} />
+            </View>
+          )}
+        {mode === 'device' && deviceAgent.pendingApproval && (
+          <View style={[styles.card, styles.approvalCard]}>
+            <ApprovalCard
+              pending={deviceAgent.pendingApproval}
+              onRespond={deviceAgent.respondToApproval}
+            />
+          </View>
+        )}
+        {canShare && (
+          <ShareMenu getTranscript={getTranscript} disabled={isRunning} />
+        )}
+        {mode === 'llm' && turns.length > 0 && !isRunning && (
+          <TouchableOpacity
+            style={styles.clearButton}
+            onPress={clearConversation}>
+            <Text style={styles.clearButtonText}>New conversation</Text>
+          </TouchableOpacity>
+        )}
+        <View style={styles.modelCard}>
+          <Text style={styles.modelLabel}>Model:</Text>
+          <Text style={styles.modelName} numberOfLines={1}>
+            {getModelLabel(models.activeModel)}
+          </Text>
+          {!!models.loadedModel && !isRunning && (
+            <TouchableOpacity style={styles.modelButton} onPress={models.unload}>
+              <Text style={styles.modelButtonText}>Unload</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.modelButton}
+            onPress={() => setView('models')}>
+            <Text style={styles.modelButtonText}>Manage</Text>
+          </TouchableOpacity>
+        </View>
+        {mode === 'llm' && (
+          <View style={styles.settingsCard}>
+            <GenerationSettings
+              options={generation.options}
+              presetId={generation.presetId}
+              presets={generation.presets}
+              onSelectPreset={generation.selectPreset}
+              onChange={generation.updateOptions}
+              onSavePreset={generation.savePreset}
+              onDeletePreset={generation.deletePreset}
+              disabled={isRunning}
+            />
+            <ToolSettings
+              value={toolAgent.settings}
+              tools={toolAgent.tools}
+              onChange={toolAgent.setSettings}
+              disabled={isRunning}
+            />
+            <StructuredOutputSettings
+              value={runner.structured}
+              onChange={runner.setStructured}
+              disabled={isRunning}
+              inactiveReason={
+                toolAgent.settings.enabled
+                  ? 'Not used while Tools is on.'
+                  : undefined
+              }
+            />
+            <KnowledgeBase knowledge={knowledge} disabled={isRunning} />
+          </View>
+        )}
+        {mode === 'device' && (
+          <View style={styles.settingsCard}>
+            <SupervisionSettings
+              value={deviceAgent.supervision}
+              onChange={deviceAgent.setSupervision}
+              disabled={isRunning}
+            />
+            <RunLimitsSettings
+              value={deviceAgent.limits}
+              onChange={deviceAgent.setLimits}
+              onReset={deviceAgent.resetLimits}
+              modelLabel={getModelLabel(models.activeModel)}
+              disabled={isRunning}
+            />
+            <VerificationSettings
+              value={deviceAgent.verification}
+              onChange={deviceAgent.setVerification}
+              disabled={isRunning}
+            />
           </View>
         )}
         <View style={styles.card}>
           {mode === 'device' ? (
             <Controls
-              onRun={(task) => deviceAgent.start(task)}
-              onStop={deviceAgent.stop}
+              onRun={task =>
+                planner.enabled ? planner.makePlan(task) : deviceAgent.start(task)
+              }
+              onStop={planner.busy ? planner.stop : deviceAgent.stop}
               isRunning={isRunning}
               modeLabel="Device Agent"
+              mode="device"
             />
           ) : (
-            <Controls onRun={start} onStop={stop} isRunning={isRunning} />
+            <Controls
+              onRun={(task, context) =>
+                start(task, context, generation.options)
+              }
+              onStop={stop}
+              isRunning={isRunning}
+            />
           )}
         </View>
+        {mode === 'device' && (
+          <View style={styles.card}>
+            <PlanEditor planner={planner} busy={anyRunning} />
+          </View>
+        )}
+        {mode === 'device' && (
+          <View style={styles.card}>
+            <GoalQueue
+              queue={goalQueue}
+              busy={anyRunning}
+            />
+          </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -215,6 +521,7 @@ const styles = StyleSheet.create({
   },
   modeRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 8,
     marginTop: 10,
   },
@@ -235,6 +542,15 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '600',
   },
+  badgeColumn: {
+    alignItems: 'flex-end',
+    maxWidth: 140,
+    gap: 4,
+  },
+  loadedModel: {
+    color: '#9fb0d6',
+    fontSize: 10,
+  },
   badge: {
     paddingHorizontal: 8,
     paddingVertical: 3,
@@ -259,6 +575,33 @@ const styles = StyleSheet.create({
     shadowOffset: {width: 0, height: 4},
     elevation: 3,
   },
+  approvalCard: {
+    borderColor: '#f39c12',
+  },
+  clearButton: {
+    alignSelf: 'flex-end',
+    marginHorizontal: 14,
+    marginTop: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    backgroundColor: 'rgba(18, 24, 50, 0.8)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  clearButtonText: {
+    color: '#9fb0d6',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  settingsCard: {
+    marginHorizontal: 14,
+    marginTop: 10,
+    borderRadius: 10,
+    backgroundColor: 'rgba(22, 28, 56, 0.7)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.15)',
+  },
   modelCard: {
     marginHorizontal: 14,
     marginTop: 10,
@@ -277,28 +620,24 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginRight: 8,
   },
-  modelScroll: {
-    flexGrow: 0,
+  modelName: {
+    flex: 1,
+    color: '#f4f7ff',
+    fontSize: 12,
+    fontWeight: '500',
   },
   modelButton: {
+    marginLeft: 6,
     paddingHorizontal: 10,
     paddingVertical: 5,
     borderRadius: 6,
     backgroundColor: 'rgba(18, 24, 50, 0.8)',
     borderWidth: 1,
     borderColor: 'rgba(120, 145, 200, 0.25)',
-    marginRight: 6,
-  },
-  modelButtonActive: {
-    backgroundColor: '#1f6feb',
-    borderColor: '#1f6feb',
   },
   modelButtonText: {
     color: '#9fb0d6',
     fontSize: 11,
     fontWeight: '500',
   },
-  modelButtonTextActive: {
-    color: '#fff',
-  },
 });
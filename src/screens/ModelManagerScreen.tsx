@@ -0,0 +1,291 @@
+import React from 'react';
+import {
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type {useModelManager} from '../state/useModelManager';
+import {formatBytes} from '../state/models';
+import {formatDownload} from '../state/downloads';
+
+interface Props {
+  manager: ReturnType<typeof useModelManager>;
+  activeModelId: string;
+  onSelect: (modelId: string) => void;
+  onBack: () => void;
+  // Disables select/delete while an agent run is using the model.
+  busy: boolean;
+}
+
+export function ModelManagerScreen({
+  manager,
+  activeModelId,
+  onSelect,
+  onBack,
+  busy,
+}: Props): React.JSX.Element {
+  const {models, downloads, error, totalBytes} = manager;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={onBack}>
+          <Text style={styles.headerButtonText}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Models</Text>
+        <TouchableOpacity style={styles.headerButton} onPress={manager.refresh}>
+          <Text style={styles.headerButtonText}>Refresh</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.usage}>Storage used: {formatBytes(totalBytes)}</Text>
+      {!!error && <Text style={styles.error}>Error: {error}</Text>}
+      <ScrollView contentContainerStyle={styles.list}>
+        {models.map(model => {
+          const isActive = model.id === activeModelId;
+          const download = downloads[model.id];
+          // Offline and failed downloads stay listed until retried or dismissed.
+          const isStuck =
+            download?.status === 'offline' || download?.status === 'failed';
+          const isDownloading = download ? !isStuck : model.downloading;
+          return (
+            <View
+              key={model.id}
+              style={[styles.card, isActive && styles.cardActive]}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.label}>{model.label}</Text>
+                <View style={styles.badges}>
+                  {isActive && <Text style={styles.badge}>ACTIVE</Text>}
+                  {model.loaded && <Text style={styles.badge}>LOADED</Text>}
+                </View>
+              </View>
+              <Text style={styles.meta}>{model.name}</Text>
+              <Text style={styles.meta}>
+                {model.downloaded
+                  ? `On disk: ${formatBytes(model.sizeOnDiskBytes)}`
+                  : `Download: ${formatBytes(model.downloadSizeBytes)}`}{' '}
+                · RAM ~{formatBytes(model.memoryRequirement)}
+              </Text>
+              {isDownloading && (
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      download?.status === 'paused' && styles.progressPaused,
+                      {width: `${download?.progress ?? 0}%`},
+                    ]}
+                  />
+                </View>
+              )}
+              {download && (
+                <Text style={[styles.meta, isStuck && styles.downloadError]}>
+                  {formatDownload(download)}
+                </Text>
+              )}
+              <View style={styles.actions}>
+                {!isActive && (
+                  <TouchableOpacity
+                    style={[
+                      styles.actionButton,
+                      styles.primary,
+                      busy && styles.disabled,
+                    ]}
+                    onPress={() => onSelect(model.id)}
+                    disabled={busy}>
+                    <Text style={styles.actionText}>Use</Text>
+                  </TouchableOpacity>
+                )}
+                {isDownloading ? (
+                  <>
+                    {download?.status === 'paused' ? (
+                      <TouchableOpacity
+                        style={styles.actionButton}
+                        onPress={() => manager.resume(model.id)}>
+                        <Text style={styles.actionText}>Restart</Text>
+                      </TouchableOpacity>
+                    ) : download ? (
+                      <TouchableOpacity
+                        style={styles.actionButton}
+                        onPress={() => manager.pause(model.id)}>
+                        <Text style={styles.actionText}>Stop</Text>
+                      </TouchableOpacity>
+                    ) : null}
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => manager.cancel(model.id)}>
+                      <Text style={styles.actionText}>Cancel</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : isStuck ? (
+                  <>
+                    <TouchableOpacity
+                      style={[styles.actionButton, styles.primary]}
+                      onPress={() => manager.download(model.id)}>
+                      <Text style={styles.actionText}>Retry</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => manager.cancel(model.id)}>
+                      <Text style={styles.actionText}>Dismiss</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : model.downloaded ? (
+                  <TouchableOpacity
+                    style={[
+                      styles.actionButton,
+                      styles.danger,
+                      busy && isActive && styles.disabled,
+                    ]}
+                    onPress={() => manager.remove(model.id)}
+                    disabled={busy && isActive}>
+                    <Text style={styles.actionText}>Delete</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => manager.download(model.id)}>
+                    <Text style={styles.actionText}>Download</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0e1224',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 14,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  headerButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 6,
+    backgroundColor: 'rgba(18, 24, 50, 0.8)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.25)',
+  },
+  headerButtonText: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#f4f7ff',
+  },
+  usage: {
+    color: '#9fb0d6',
+    fontSize: 12,
+    paddingHorizontal: 18,
+    paddingBottom: 8,
+  },
+  error: {
+    color: '#e74c3c',
+    fontSize: 12,
+    paddingHorizontal: 18,
+    paddingBottom: 8,
+  },
+  list: {
+    paddingHorizontal: 14,
+    paddingBottom: 24,
+    gap: 10,
+  },
+  card: {
+    borderRadius: 14,
+    padding: 12,
+    gap: 4,
+    backgroundColor: 'rgba(22, 28, 56, 0.9)',
+    borderWidth: 1,
+    borderColor: 'rgba(120, 145, 200, 0.2)',
+  },
+  cardActive: {
+    borderColor: '#1f6feb',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    color: '#f4f7ff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  badges: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  badge: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+    backgroundColor: '#1f6feb',
+  },
+  meta: {
+    color: '#7e8bb3',
+    fontSize: 11,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    marginTop: 6,
+    backgroundColor: 'rgba(120, 145, 200, 0.2)',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: '#f39c12',
+  },
+  progressPaused: {
+    backgroundColor: '#888',
+  },
+  downloadError: {
+    color: '#e74c3c',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 6,
+  },
+  actionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 8,
+    backgroundColor: '#0f3460',
+  },
+  primary: {
+    backgroundColor: '#1f6feb',
+  },
+  danger: {
+    backgroundColor: '#d14b63',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  actionText: {
+    color: '#e0e0e0',
+    fontWeight: '600',
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,63 @@
+import type {AgentDecision, AgentStep, DeviceAgentEvent} from './types';
+
+function updateStep(
+  steps: AgentStep[],
+  step: number,
+  patch: Partial<AgentStep>,
+): AgentStep[] {
+  const idx = steps.findIndex(s => s.step === step);
+  if (idx === -1) {
+    return steps;
+  }
+  const next = steps.slice();
+  next[idx] = {...next[idx], ...patch};
+  return next;
+}
+
+/**
+ * Folds a structured agent event into the step timeline. Events that don't
+ * describe a step (download, done, error) leave it untouched.
+ */
+export function applyAgentEvent(
+  steps: AgentStep[],
+  event: DeviceAgentEvent,
+): AgentStep[] {
+  switch (event.type) {
+    case 'step_started':
+      return [...steps, {step: event.step, startedAt: event.timestamp}];
+    case 'screen_observed':
+      return updateStep(steps, event.step, {
+        screen: event.screen,
+        elementCount: event.elementCount,
+      });
+    case 'decision_parsed':
+      return updateStep(steps, event.step, {
+        rawDecision: event.raw,
+        decision: event.decision,
+        heuristic: event.heuristic,
+      });
+    case 'approval_requested':
+      return updateStep(steps, event.step, {approval: 'pending'});
+    case 'approval_resolved':
+      return updateStep(steps, event.step, {approval: event.verdict});
+    case 'action_executed':
+      return updateStep(steps, event.step, {executedAt: event.timestamp});
+    default:
+      return steps;
+  }
+}
+
+// One-line summary of a decision, e.g. `tap #3` or `type "hello"`.
+export function describeDecision(decision: AgentDecision): string {
+  const parts: string[] = [decision.action];
+  if (decision.index !== undefined) {
+    parts.push(`#${decision.index}`);
+  }
+  if (decision.text) {
+    parts.push(`"${decision.text}"`);
+  }
+  if (decision.direction) {
+    parts.push(decision.direction);
+  }
+  return parts.join(' ');
+}
@@ -0,0 +1,176 @@
+import type {GenerationOptions, RunMetrics} from './types';
+import {averageOf} from './metrics';
+import {DEFAULT_GENERATION_OPTIONS} from './generationPresets';
+import {createId} from './id';
+import {readJson, writeJson} from './storage';
+
+const SUITE_KEY = 'benchmark.suite.v1';
+
+export interface BenchmarkPrompt {
+  id: string;
+  prompt: string;
+}
+
+export interface BenchmarkResult {
+  modelId: string;
+  promptId: string;
+  output: string;
+  // The first prompt of each model also carries its download/load timings.
+  metrics: RunMetrics;
+  error?: string;
+}
+
+export interface BenchmarkReport {
+  startedAt: number;
+  // Unset while running, or when the run was cancelled.
+  finishedAt?: number;
+  options: GenerationOptions;
+  models: string[];
+  suite: BenchmarkPrompt[];
+  results: BenchmarkResult[];
+}
+
+export interface ModelSummary {
+  modelId: string;
+  runs: number;
+  failures: number;
+  avgTimeToFirstTokenMs: number | null;
+  avgTokensPerSecond: number | null;
+  totalTokens: number;
+  loadMs: number | null;
+}
+
+// Greedy decoding and no stop sequences, so models are compared on the same
+// terms whatever the chat settings are.
+export const BENCHMARK_OPTIONS: GenerationOptions = {
+  ...DEFAULT_GENERATION_OPTIONS,
+  temperature: 0,
+  maxTokens: 256,
+  stopSequences: [],
+  systemPrompt: 'You are a helpful assistant.',
+};
+
+export const DEFAULT_SUITE: BenchmarkPrompt[] = [
+  {id: 'fact', prompt: 'What is the capital of Australia?'},
+  {
+    id: 'reasoning',
+    prompt:
+      'A shop sells pens at 3 for $2. How much do 12 pens cost? Explain briefly.',
+  },
+  {
+    id: 'summary',
+    prompt:
+      'Summarize in two sentences: On-device language models run without a network connection, keep data private and respond with low latency, but are limited by the memory and compute of the phone.',
+  },
+  {
+    id: 'json',
+    prompt:
+      'Return only JSON with keys "city" and "country" for the Eiffel Tower.',
+  },
+  {id: 'creative', prompt: 'Write a four-line poem about a battery.'},
+];
+
+export function loadSuite(): Promise<BenchmarkPrompt[]> {
+  return readJson<BenchmarkPrompt[]>(SUITE_KEY, DEFAULT_SUITE);
+}
+
+export function saveSuite(suite: BenchmarkPrompt[]): Promise<void> {
+  return writeJson(SUITE_KEY, suite);
+}
+
+export function createPrompt(prompt: string): BenchmarkPrompt {
+  return {id: createId('prompt'), prompt: prompt.trim()};
+}
+
+export function summarizeModel(
+  report: BenchmarkReport,
+  modelId: string,
+): ModelSummary {
+  const results = report.results.filter(result => result.modelId === modelId);
+  const ok = results.filter(result => !result.error);
+  const present = (values: (number | null)[]) =>
+    values.filter((value): value is number => value !== null);
+  return {
+    modelId,
+    runs: results.length,
+    failures: results.length - ok.length,
+    avgTimeToFirstTokenMs: averageOf(
+      present(ok.map(result => result.metrics.timeToFirstTokenMs)),
+    ),
+    avgTokensPerSecond: averageOf(
+      present(ok.map(result => result.metrics.tokensPerSecond)),
+    ),
+    totalTokens: ok.reduce(
+      (sum, result) => sum + result.metrics.totalTokens,
+      0,
+    ),
+    loadMs:
+      results.find(result => result.metrics.loadMs !== null)?.metrics.loadMs ??
+      null,
+  };
+}
+
+export function findResult(
+  report: BenchmarkReport,
+  modelId: string,
+  promptId: string,
+): BenchmarkResult | undefined {
+  return report.results.find(
+    result => result.modelId === modelId && result.promptId === promptId,
+  );
+}
+
+export function reportToJson(report: BenchmarkReport): string {
+  return JSON.stringify(
+    {
+      ...report,
+      summary: report.models.map(modelId => summarizeModel(report, modelId)),
+    },
+    null,
+    2,
+  );
+}
+
+const CSV_COLUMNS = [
+  'model',
+  'prompt_id',
+  'prompt',
+  'ttft_ms',
+  'tokens_per_second',
+  'total_tokens',
+  'load_ms',
+  'download_ms',
+  'error',
+  'output',
+];
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text =
+    typeof value === 'number' ? String(Math.round(value * 100) / 100) : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per model × prompt, in run order.
+export function reportToCsv(report: BenchmarkReport): string {
+  const prompts = new Map(report.suite.map(entry => [entry.id, entry.prompt]));
+  const rows = report.results.map(result =>
+    [
+      result.modelId,
+      result.promptId,
+      prompts.get(result.promptId) ?? '',
+      result.metrics.timeToFirstTokenMs,
+      result.metrics.tokensPerSecond,
+      result.metrics.totalTokens,
+      result.metrics.loadMs,
+      result.metrics.downloadMs,
+      result.error,
+      result.output,
+    ]
+      .map(csvCell)
+      .join(','),
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
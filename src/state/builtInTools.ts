@@ -0,0 +1,376 @@
+import type {ToolDefinition} from './tools';
+
+// --- calculator -----------------------------------------------------------
+
+const CONSTANTS: Record<string, number> = {pi: Math.PI, e: Math.E};
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  ln: Math.log,
+  log: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+};
+
+/**
+ * Evaluates an arithmetic expression: + - * / % ^, parentheses, unary minus,
+ * the constants pi and e and the functions in FUNCTIONS. A small
+ * recursive-descent parser, so model output never reaches eval().
+ */
+export function evaluateExpression(expression: string): number {
+  const source = expression.replace(/×/g, '*').replace(/÷/g, '/');
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${pos + 1} in "${expression}"`);
+  };
+  const skipSpace = () => {
+    while (source[pos] === ' ') {
+      pos++;
+    }
+  };
+  const peek = () => {
+    skipSpace();
+    return source[pos];
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      const op = source[pos++];
+      const right = parseTerm();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term := power (('*' | '/' | '%') power)*
+  const parseTerm = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = source[pos++];
+      const right = parsePower();
+      if (op === '*') {
+        value *= right;
+      } else if (op === '/') {
+        value /= right;
+      } else {
+        value %= right;
+      }
+    }
+    return value;
+  };
+
+  // power := unary ('^' power)?  (right-associative)
+  const parsePower = (): number => {
+    const base = parseUnary();
+    if (peek() === '^') {
+      pos++;
+      return Math.pow(base, parsePower());
+    }
+    return base;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      pos++;
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      pos++;
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): number => {
+    const char = peek();
+    if (char === '(') {
+      pos++;
+      const value = parseExpression();
+      if (peek() !== ')') {
+        fail('Expected ")"');
+      }
+      pos++;
+      return value;
+    }
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(pos));
+    if (number) {
+      pos += number[0].length;
+      return Number(number[0]);
+    }
+    const word = /^[a-z]+/i.exec(source.slice(pos));
+    if (word) {
+      const name = word[0].toLowerCase();
+      pos += word[0].length;
+      if (name in CONSTANTS) {
+        return CONSTANTS[name];
+      }
+      const fn = FUNCTIONS[name];
+      if (fn) {
+        if (peek() !== '(') {
+          fail(`Expected "(" after ${name}`);
+        }
+        return fn(parsePrimary());
+      }
+      pos -= word[0].length;
+      fail(`Unknown name "${word[0]}"`);
+    }
+    return char === undefined
+      ? fail('Unexpected end')
+      : fail(`Unexpected "${char}"`);
+  };
+
+  const value = parseExpression();
+  if (peek() !== undefined) {
+    fail(`Unexpected "${source[pos]}"`);
+  }
+  if (!isFinite(value)) {
+    throw new Error(`"${expression}" has no finite result`);
+  }
+  return value;
+}
+
+// Trims floating-point noise such as 0.1 + 0.2 = 0.30000000000000004.
+export function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(12)));
+}
+
+// --- date and time --------------------------------------------------------
+
+export function formatDate(date = new Date(), timeZone?: string): string {
+  return date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone,
+  });
+}
+
+export function formatDateTime(date = new Date(), timeZone?: string): string {
+  const time = date.toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short',
+  });
+  return `${formatDate(date, timeZone)}, ${time}`;
+}
+
+// --- unit conversion ------------------------------------------------------
+
+// Factors to each category's base unit (metre, kilogram, litre, m/s).
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  length: {
+    mm: 0.001,
+    cm: 0.01,
+    m: 1,
+    km: 1000,
+    in: 0.0254,
+    ft: 0.3048,
+    yd: 0.9144,
+    mi: 1609.344,
+  },
+  mass: {
+    mg: 0.000001,
+    g: 0.001,
+    kg: 1,
+    t: 1000,
+    oz: 0.028349523125,
+    lb: 0.45359237,
+  },
+  volume: {
+    ml: 0.001,
+    l: 1,
+    tsp: 0.00492892159375,
+    tbsp: 0.01478676478125,
+    cup: 0.2365882365,
+    pt: 0.473176473,
+    qt: 0.946352946,
+    gal: 3.785411784,
+  },
+  speed: {
+    'm/s': 1,
+    'km/h': 1 / 3.6,
+    mph: 0.44704,
+    kn: 0.514444444,
+  },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  meter: 'm',
+  meters: 'm',
+  metre: 'm',
+  metres: 'm',
+  kilometer: 'km',
+  kilometers: 'km',
+  centimeter: 'cm',
+  centimeters: 'cm',
+  millimeter: 'mm',
+  millimeters: 'mm',
+  inch: 'in',
+  inches: 'in',
+  foot: 'ft',
+  feet: 'ft',
+  yard: 'yd',
+  yards: 'yd',
+  mile: 'mi',
+  miles: 'mi',
+  gram: 'g',
+  grams: 'g',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  kgs: 'kg',
+  tonne: 't',
+  tonnes: 't',
+  ounce: 'oz',
+  ounces: 'oz',
+  pound: 'lb',
+  pounds: 'lb',
+  lbs: 'lb',
+  liter: 'l',
+  liters: 'l',
+  litre: 'l',
+  litres: 'l',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  cups: 'cup',
+  pint: 'pt',
+  pints: 'pt',
+  quart: 'qt',
+  quarts: 'qt',
+  gallon: 'gal',
+  gallons: 'gal',
+  kph: 'km/h',
+  kmh: 'km/h',
+  knots: 'kn',
+  celsius: 'c',
+  '°c': 'c',
+  fahrenheit: 'f',
+  '°f': 'f',
+  kelvin: 'k',
+};
+
+const TEMPERATURE_UNITS = ['c', 'f', 'k'];
+
+function normalizeUnit(unit: string): string {
+  const lower = unit.trim().toLowerCase();
+  return UNIT_ALIASES[lower] ?? lower;
+}
+
+function toCelsius(value: number, unit: string): number {
+  return unit === 'f'
+    ? ((value - 32) * 5) / 9
+    : unit === 'k'
+    ? value - 273.15
+    : value;
+}
+
+function fromCelsius(value: number, unit: string): number {
+  return unit === 'f'
+    ? (value * 9) / 5 + 32
+    : unit === 'k'
+    ? value + 273.15
+    : value;
+}
+
+/**
+ * Converts between units of the same kind (length, mass, volume, speed or
+ * temperature). Throws if either unit is unknown or the kinds differ.
+ */
+export function convertUnits(value: number, from: string, to: string): number {
+  const source = normalizeUnit(from);
+  const target = normalizeUnit(to);
+  if (
+    TEMPERATURE_UNITS.includes(source) ||
+    TEMPERATURE_UNITS.includes(target)
+  ) {
+    if (
+      !TEMPERATURE_UNITS.includes(source) ||
+      !TEMPERATURE_UNITS.includes(target)
+    ) {
+      throw new Error(`Cannot convert ${from} to ${to}`);
+    }
+    return fromCelsius(toCelsius(value, source), target);
+  }
+  const category = Object.values(UNIT_FACTORS).find(
+    factors => source in factors,
+  );
+  if (!category) {
+    throw new Error(`Unknown unit "${from}"`);
+  }
+  if (!(target in category)) {
+    throw new Error(
+      Object.values(UNIT_FACTORS).some(factors => target in factors)
+        ? `Cannot convert ${from} to ${to}`
+        : `Unknown unit "${to}"`,
+    );
+  }
+  return (value * category[source]) / category[target];
+}
+
+// --- definitions ----------------------------------------------------------
+
+export const BUILT_IN_TOOLS: ToolDefinition[] = [
+  {
+    name: 'calculator',
+    description: 'Evaluates an arithmetic expression exactly.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: {
+          type: 'string',
+          description: 'e.g. "(12.5 * 4) / 3" or "sqrt(2) ^ 2"',
+        },
+      },
+      required: ['expression'],
+    },
+    handler: async ({expression}) =>
+      formatNumber(evaluateExpression(expression as string)),
+  },
+  {
+    name: 'current_datetime',
+    description: 'Returns the current date and time.',
+    parameters: {
+      type: 'object',
+      properties: {
+        timeZone: {
+          type: 'string',
+          description: 'IANA time zone such as "Europe/Paris"; default local',
+        },
+      },
+    },
+    handler: async ({timeZone}) => {
+      try {
+        return formatDateTime(new Date(), timeZone as string | undefined);
+      } catch {
+        throw new Error(`Unknown time zone "${timeZone}"`);
+      }
+    },
+  },
+  {
+    name: 'convert_units',
+    description:
+      'Converts a value between units of length, mass, volume, speed or temperature.',
+    parameters: {
+      type: 'object',
+      properties: {
+        value: {type: 'number'},
+        from: {type: 'string', description: 'e.g. "mi", "lb", "F"'},
+        to: {type: 'string', description: 'e.g. "km", "kg", "C"'},
+      },
+      required: ['value', 'from', 'to'],
+    },
+    handler: async ({value, from, to}) =>
+      `${formatNumber(value as number)} ${from} = ${formatNumber(
+        convertUnits(value as number, from as string, to as string),
+      )} ${to}`,
+  },
+];
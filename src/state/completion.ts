@@ -0,0 +1,76 @@
+import type {GenerationOptions} from './types';
+import type {MetricsRecorder} from './metrics';
+import {runAgent, subscribe} from '../native/runanywhere';
+
+export interface PromptRunOptions {
+  // Passed to runAgent alongside the prompt, e.g. conversation history.
+  context?: string;
+  recorder?: MetricsRecorder;
+  // Called with each token and the output so far.
+  onToken?: (output: string) => void;
+  // Cancels the run if it hasn't finished after this long.
+  timeoutMs?: number;
+}
+
+export interface PromptRun {
+  result: Promise<string>;
+  cancel(): void;
+}
+
+/**
+ * Streams one completion from the loaded model, feeding tokens to `recorder`
+ * if given. Resolves with the full output on done; cancel() or the timeout
+ * stop the native run and reject with a RunAbortedError.
+ */
+export function runPrompt(
+  prompt: string,
+  options: GenerationOptions,
+  {context, recorder, onToken, timeoutMs}: PromptRunOptions = {},
+): PromptRun {
+  let output = '';
+  let settle: ((error?: Error) => void) | null = null;
+  const controller = new AbortController();
+
+  const result = new Promise<string>((resolve, reject) => {
+    const unsubscribe = subscribe(event => {
+      // Stragglers between cancel() and the run settling are dropped.
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (event.type === 'token') {
+        output += event.text;
+        recorder?.token();
+        onToken?.(output);
+      } else if (event.type === 'done') {
+        settle?.();
+      } else if (event.type === 'error') {
+        settle?.(new Error(event.message));
+      }
+    });
+    settle = error => {
+      settle = null;
+      unsubscribe();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(output);
+      }
+    };
+    // Whichever of the DONE event and the resolved call comes first wins.
+    runAgent(prompt, context, options, undefined, {
+      signal: controller.signal,
+      timeoutMs,
+    }).then(
+      () => settle?.(),
+      error =>
+        settle?.(error instanceof Error ? error : new Error(String(error))),
+    );
+  });
+
+  return {
+    result,
+    cancel() {
+      controller.abort();
+    },
+  };
+}
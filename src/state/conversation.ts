@@ -0,0 +1,177 @@
+import type {
+  ChatRole,
+  ChatTurn,
+  GenerationOptions,
+  RetrievedChunk,
+} from './types';
+import {createId} from './id';
+
+// Left for the chat template's markup and the estimate's slack.
+const TEMPLATE_TOKENS = 128;
+const HISTORY_HEADER = 'Conversation so far:';
+
+const ROLE_LABELS: Record<ChatRole, string> = {
+  user: 'User',
+  assistant: 'Assistant',
+};
+
+export function createTurn(
+  role: ChatRole,
+  text: string,
+  sources: RetrievedChunk[] = [],
+): ChatTurn {
+  const turn = {id: createId('turn'), role, text, createdAt: Date.now()};
+  return sources.length > 0 ? {...turn, sources} : turn;
+}
+
+// Rough estimate (~4 chars per token) — good enough for budgeting without a tokenizer.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function formatTurn(turn: ChatTurn): string {
+  return `${ROLE_LABELS[turn.role]}: ${turn.text.trim()}`;
+}
+
+/**
+ * Tokens left for the context string sent with a prompt: the model's window
+ * less the answer (`maxTokens`), the system prompt and the chat template.
+ */
+export function promptTokenBudget(
+  contextLength: number,
+  {
+    maxTokens,
+    systemPrompt,
+  }: Pick<GenerationOptions, 'maxTokens' | 'systemPrompt'>,
+): number {
+  return Math.max(
+    0,
+    contextLength - maxTokens - estimateTokens(systemPrompt) - TEMPLATE_TOKENS,
+  );
+}
+
+/**
+ * Keeps the most recent turns that fit in `budget` tokens. Older turns are
+ * dropped whole; if even the newest turn is too long, its head is cut off.
+ */
+export function trimHistory(turns: ChatTurn[], budget: number): ChatTurn[] {
+  if (budget <= 0) {
+    return [];
+  }
+
+  const kept: ChatTurn[] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    // +1 for the newline that joins it to the next turn.
+    const cost = estimateTokens(formatTurn(turns[i])) + 1;
+    if (used + cost > budget) {
+      // The cut turn must fit with its role label and newline too.
+      const label = `${ROLE_LABELS[turns[i].role]}: `;
+      const maxChars = (budget - 1) * 4 - label.length;
+      if (kept.length === 0 && maxChars > 0) {
+        kept.unshift({
+          ...turns[i],
+          text: turns[i].text.trim().slice(-maxChars),
+        });
+      }
+      break;
+    }
+    kept.unshift(turns[i]);
+    used += cost;
+  }
+
+  // Don't open the transcript with a dangling assistant reply.
+  while (kept.length > 0 && kept[0].role === 'assistant') {
+    kept.shift();
+  }
+
+  return kept;
+}
+
+export function serializeHistory(turns: ChatTurn[]): string {
+  if (turns.length === 0) {
+    return '';
+  }
+  return `${HISTORY_HEADER}\n${turns.map(formatTurn).join('\n')}`;
+}
+
+// Tokens the task and the non-empty `sections` take once joined into a prompt.
+function fixedTokens(task: string, sections: string[]): number {
+  return estimateTokens(
+    [task, ...sections.filter(section => section.length > 0)].join('\n\n'),
+  );
+}
+
+// +1 for the blank line that joins a section to the previous one.
+function sectionCost(section: string): number {
+  return estimateTokens(section) + 1;
+}
+
+// What buildContext leaves for its sections: the task and the history
+// header are paid for first.
+function sectionsBudget(task: string, budget: number): number {
+  return (
+    budget - estimateTokens(task) - estimateTokens(`${HISTORY_HEADER}\n\n`)
+  );
+}
+
+/**
+ * Tokens one more section can take next to `sections` without buildContext
+ * cutting anything, e.g. to fit retrieved passages before adding them.
+ */
+export function spareSectionTokens(
+  task: string,
+  sections: string[],
+  budget: number,
+): number {
+  const used = sections
+    .filter(section => section.length > 0)
+    .reduce((sum, section) => sum + sectionCost(section), 0);
+  return sectionsBudget(task, budget) - used - 1;
+}
+
+/**
+ * Keeps the non-empty `sections` within `budget` tokens, in order. The first
+ * one that doesn't fit is cut short and the ones after it are dropped.
+ */
+export function fitSections(sections: string[], budget: number): string[] {
+  const kept: string[] = [];
+  let used = 0;
+  for (const section of sections.filter(s => s.length > 0)) {
+    const cost = sectionCost(section);
+    if (used + cost > budget) {
+      const maxChars = (budget - used - 1) * 4 - 1;
+      if (maxChars > 0) {
+        kept.push(`${section.slice(0, maxChars).trimEnd()}…`);
+      }
+      break;
+    }
+    kept.push(section);
+    used += cost;
+  }
+  return kept;
+}
+
+/**
+ * Builds the `context` string sent to runAgent: trimmed history first, then
+ * any user-supplied context and extra lines, all within `budget` tokens (see
+ * promptTokenBudget). Sections that alone overrun the budget are cut with
+ * fitSections; history gets what is left.
+ */
+export function buildContext(
+  history: ChatTurn[],
+  task: string,
+  sections: string[],
+  budget: number,
+): string {
+  const headerCost = estimateTokens(`${HISTORY_HEADER}\n\n`);
+  const fixed = fitSections(sections, sectionsBudget(task, budget));
+  const fixedCost = fixedTokens(task, fixed);
+  const trimmed = trimHistory(history, budget - fixedCost - headerCost);
+  const historyBlock = serializeHistory(trimmed);
+
+  return [historyBlock, ...fixed]
+    .filter(section => section.length > 0)
+    .join('\n\n');
+}
@@ -0,0 +1,75 @@
+import type {
+  AgentDoneReason,
+  DeviceRunOutcome,
+  RunOutcome,
+  VerificationOptions,
+} from './types';
+
+export const DEFAULT_VERIFICATION: VerificationOptions = {
+  enabled: false,
+  maxRetries: 1,
+  backoffMs: 2000,
+};
+
+export const MAX_RETRIES = 5;
+// Retries never wait longer than this, however many there have been.
+const MAX_BACKOFF_MS = 60_000;
+
+export const OUTCOME_LABELS: Record<DeviceRunOutcome, string> = {
+  succeeded: 'Succeeded',
+  gave_up: 'Gave up',
+  timed_out: 'Timed out',
+  cancelled: 'Cancelled',
+  error: 'Error',
+};
+
+export function outcomeForDone(
+  reason: AgentDoneReason,
+): Exclude<DeviceRunOutcome, 'error'> {
+  switch (reason) {
+    case 'shortcut':
+    case 'goal_achieved':
+      return 'succeeded';
+    case 'max_duration':
+      return 'timed_out';
+    case 'aborted':
+      return 'cancelled';
+    default:
+      // max_steps, and verification_failed once retries run out.
+      return 'gave_up';
+  }
+}
+
+// Collapses the outcome for history, the goal queue and plans, where
+// anything short of success counts as a failure.
+export function toRunOutcome(outcome: DeviceRunOutcome): RunOutcome {
+  switch (outcome) {
+    case 'succeeded':
+      return 'done';
+    case 'cancelled':
+      return 'stopped';
+    default:
+      return 'error';
+  }
+}
+
+// Wait before retry number `retry` (1-based): backoffMs, then doubling.
+export function retryDelayMs(options: VerificationOptions, retry: number) {
+  return Math.min(options.backoffMs * 2 ** (retry - 1), MAX_BACKOFF_MS);
+}
+
+export function clampVerification(
+  options: VerificationOptions,
+): VerificationOptions {
+  return {
+    enabled: options.enabled,
+    maxRetries: Math.min(
+      Math.max(Math.round(options.maxRetries), 0),
+      MAX_RETRIES,
+    ),
+    backoffMs: Math.min(
+      Math.max(Math.round(options.backoffMs), 0),
+      MAX_BACKOFF_MS,
+    ),
+  };
+}
@@ -0,0 +1,357 @@
+import type {AgentEvent, ModelDownload} from './types';
+import {formatBytes} from './models';
+import {
+  cancelDownload,
+  downloadModel,
+  isNetworkAvailable,
+  pauseDownload,
+  resumeDownload,
+  subscribe,
+} from '../native/runanywhere';
+
+// Attempts per download, counting the first; only network failures retry.
+export const MAX_DOWNLOAD_ATTEMPTS = 4;
+const RETRY_BASE_MS = 2000;
+const MAX_RETRY_MS = 30_000;
+// Weight of the newest sample in the smoothed speed.
+const SPEED_SMOOTHING = 0.3;
+
+type Downloads = Record<string, ModelDownload>;
+type Listener = (downloads: Downloads) => void;
+
+interface Job {
+  promise: Promise<void>;
+  paused: boolean;
+  cancelled: boolean;
+  // Ends a pause or a retry wait early.
+  wake: (() => void) | null;
+  // Last progress sample, for the speed.
+  sample: {at: number; bytes: number} | null;
+}
+
+let downloads: Downloads = {};
+const jobs = new Map<string, Job>();
+const listeners = new Set<Listener>();
+let unsubscribeNative: (() => void) | null = null;
+
+function codeOf(error: unknown): string | undefined {
+  return (error as {code?: string})?.code;
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : 'Download failed';
+}
+
+function downloadError(message: string, code: string): Error {
+  const error = new Error(message) as Error & {code?: string};
+  error.code = code;
+  return error;
+}
+
+export function isDownloadCancelled(error: unknown): boolean {
+  return codeOf(error) === 'DOWNLOAD_CANCELLED';
+}
+
+export function isNoNetwork(error: unknown): boolean {
+  return codeOf(error) === 'NO_NETWORK';
+}
+
+// Wait after failed attempt number `attempt`: doubling, capped.
+export function retryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), MAX_RETRY_MS);
+}
+
+function emit() {
+  const snapshot = downloads;
+  listeners.forEach(listener => listener(snapshot));
+}
+
+function patch(modelId: string, fields: Partial<ModelDownload>) {
+  const current = downloads[modelId];
+  if (current) {
+    downloads = {...downloads, [modelId]: {...current, ...fields}};
+    emit();
+  }
+}
+
+function drop(modelId: string) {
+  const rest = {...downloads};
+  delete rest[modelId];
+  downloads = rest;
+  emit();
+}
+
+function handleEvent(event: AgentEvent) {
+  if (event.type !== 'download_progress' || !event.modelId) {
+    return;
+  }
+  const job = jobs.get(event.modelId);
+  const current = downloads[event.modelId];
+  if (!job || current?.status !== 'downloading') {
+    return;
+  }
+  const now = Date.now();
+  const totalBytes = event.totalBytes || current.totalBytes;
+  const measured = event.bytesDownloaded !== undefined;
+  const bytes = event.bytesDownloaded ?? (totalBytes * event.progress) / 100;
+  let speed = current.bytesPerSecond;
+  if (job.sample && now > job.sample.at && bytes >= job.sample.bytes) {
+    const latest = ((bytes - job.sample.bytes) * 1000) / (now - job.sample.at);
+    speed = speed > 0 ? speed + SPEED_SMOOTHING * (latest - speed) : latest;
+  }
+  job.sample = {at: now, bytes};
+  patch(event.modelId, {
+    progress: event.progress,
+    bytesDownloaded: bytes,
+    bytesEstimated: !measured,
+    totalBytes,
+    bytesPerSecond: speed,
+    etaSeconds:
+      speed > 0 && totalBytes > bytes ? (totalBytes - bytes) / speed : null,
+  });
+}
+
+// Resolves after `ms`, or sooner when the job is paused or cancelled.
+function wait(job: Job, ms?: number): Promise<void> {
+  return new Promise<void>(resolve => {
+    const timer = ms === undefined ? null : setTimeout(() => job.wake?.(), ms);
+    job.wake = () => {
+      job.wake = null;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      resolve();
+    };
+  });
+}
+
+async function run(modelId: string, job: Job): Promise<void> {
+  let started = false;
+  for (;;) {
+    if (job.cancelled) {
+      drop(modelId);
+      throw downloadError('Download cancelled', 'DOWNLOAD_CANCELLED');
+    }
+    if (job.paused) {
+      patch(modelId, {status: 'paused', bytesPerSecond: 0, etaSeconds: null});
+      await wait(job);
+      continue;
+    }
+    // If the check itself fails, let the download find out.
+    const online = await isNetworkAvailable().catch(() => true);
+    if (job.paused || job.cancelled) {
+      continue;
+    }
+    if (!online) {
+      patch(modelId, {status: 'offline', bytesPerSecond: 0, etaSeconds: null});
+      throw downloadError('No network connection', 'NO_NETWORK');
+    }
+    job.sample = null;
+    patch(modelId, {status: 'downloading', retryAt: undefined});
+    try {
+      await (started ? resumeDownload(modelId) : downloadModel(modelId));
+      drop(modelId);
+      return;
+    } catch (error) {
+      started = true;
+      const code = codeOf(error);
+      if (code === 'DOWNLOAD_CANCELLED') {
+        job.cancelled = true;
+      }
+      if (job.cancelled || job.paused || code === 'DOWNLOAD_PAUSED') {
+        // The top of the loop ends a cancelled job and parks a paused one,
+        // including one paused natively.
+        job.paused = !job.cancelled;
+        continue;
+      }
+      if (code === 'NO_NETWORK') {
+        patch(modelId, {
+          status: 'offline',
+          bytesPerSecond: 0,
+          etaSeconds: null,
+        });
+        throw downloadError('No network connection', 'NO_NETWORK');
+      }
+      const attempt = downloads[modelId]?.attempt ?? MAX_DOWNLOAD_ATTEMPTS;
+      if (code !== 'DOWNLOAD_NETWORK' || attempt >= MAX_DOWNLOAD_ATTEMPTS) {
+        patch(modelId, {status: 'failed', message: messageOf(error)});
+        throw error;
+      }
+      const delayMs = retryDelayMs(attempt);
+      patch(modelId, {
+        status: 'retrying',
+        retryAt: Date.now() + delayMs,
+        message: messageOf(error),
+        bytesPerSecond: 0,
+        etaSeconds: null,
+      });
+      await wait(job, delayMs);
+      patch(modelId, {attempt: attempt + 1, message: undefined});
+    }
+  }
+}
+
+export function getDownloads(): Downloads {
+  return downloads;
+}
+
+/**
+ * Downloads `modelId`, resolving once it is on disk. Network failures are
+ * retried with backoff; with no connection at all it rejects with code
+ * NO_NETWORK. Asking for a model that is already downloading joins that
+ * download. `totalBytes` seeds the size until native reports it.
+ */
+export function startModelDownload(
+  modelId: string,
+  totalBytes = 0,
+): Promise<void> {
+  const existing = jobs.get(modelId);
+  if (existing) {
+    return existing.promise;
+  }
+  const job: Job = {
+    promise: Promise.resolve(),
+    paused: false,
+    cancelled: false,
+    wake: null,
+    sample: null,
+  };
+  jobs.set(modelId, job);
+  if (!unsubscribeNative) {
+    unsubscribeNative = subscribe(handleEvent);
+  }
+  downloads = {
+    ...downloads,
+    [modelId]: {
+      modelId,
+      status: 'downloading',
+      progress: 0,
+      bytesDownloaded: 0,
+      bytesEstimated: false,
+      totalBytes,
+      bytesPerSecond: 0,
+      etaSeconds: null,
+      attempt: 1,
+    },
+  };
+  emit();
+  job.promise = run(modelId, job).finally(() => {
+    jobs.delete(modelId);
+    if (jobs.size === 0 && unsubscribeNative) {
+      unsubscribeNative();
+      unsubscribeNative = null;
+    }
+  });
+  return job.promise;
+}
+
+// Stops the transfer but keeps the entry so it can be restarted. Nothing
+// fetched so far is kept: native has no byte-range resume.
+export async function pauseModelDownload(modelId: string): Promise<void> {
+  const job = jobs.get(modelId);
+  if (!job || job.paused || job.cancelled) {
+    return;
+  }
+  job.paused = true;
+  if (job.wake) {
+    // Waiting to retry: pause instead.
+    job.wake();
+  } else {
+    await pauseDownload(modelId);
+  }
+}
+
+// Starts a stopped download again, from zero.
+export function resumeModelDownload(modelId: string) {
+  const job = jobs.get(modelId);
+  if (job?.paused) {
+    job.paused = false;
+    job.wake?.();
+  }
+}
+
+export async function cancelModelDownload(modelId: string): Promise<void> {
+  const job = jobs.get(modelId);
+  if (!job) {
+    // Nothing running here; clear a failed or offline entry.
+    if (downloads[modelId]) {
+      drop(modelId);
+    }
+    return;
+  }
+  job.cancelled = true;
+  if (job.wake) {
+    job.wake();
+  } else {
+    await cancelDownload(modelId);
+  }
+}
+
+function formatEta(seconds: number): string {
+  const rounded = Math.ceil(seconds);
+  if (rounded < 60) {
+    return `${rounded}s`;
+  }
+  const minutes = Math.floor(rounded / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${rounded % 60}s`;
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// One line for the chat status and the Models screen.
+export function formatDownload(download: ModelDownload, now = Date.now()) {
+  switch (download.status) {
+    case 'paused':
+      return `Stopped at ${download.progress}% · Restart starts over`;
+    case 'retrying': {
+      const seconds = Math.max(
+        0,
+        Math.ceil(((download.retryAt ?? now) - now) / 1000),
+      );
+      return `Connection lost, retrying in ${seconds}s (attempt ${
+        download.attempt + 1
+      } of ${MAX_DOWNLOAD_ATTEMPTS})`;
+    }
+    case 'offline':
+      return 'No network connection';
+    case 'failed':
+      return `Download failed: ${download.message ?? 'Unknown error'}`;
+    default: {
+      const parts = [`${download.progress}%`];
+      // "~" marks byte counts worked out from the percentage.
+      const about = download.bytesEstimated ? '~' : '';
+      if (download.totalBytes > 0) {
+        parts.push(
+          `${about}${formatBytes(download.bytesDownloaded)} of ${formatBytes(
+            download.totalBytes,
+          )}`,
+        );
+      }
+      if (download.bytesPerSecond > 0) {
+        parts.push(
+          `${about}${(download.bytesPerSecond / 1_000_000).toFixed(1)} MB/s`,
+        );
+      }
+      if (download.etaSeconds !== null) {
+        parts.push(`${formatEta(download.etaSeconds)} left`);
+      }
+      return parts.join(' · ');
+    }
+  }
+}
+
+export function subscribeDownloads(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Test hook: forget tracked downloads without touching native ones.
+export function resetDownloadsCache() {
+  downloads = {};
+  jobs.clear();
+  unsubscribeNative?.();
+  unsubscribeNative = null;
+}
@@ -0,0 +1,41 @@
+export interface FrameBatcher {
+  // Requests a flush on the next animation frame; repeated calls coalesce.
+  schedule(): void;
+  // Flushes now if a flush is pending.
+  flush(): void;
+  // Drops a pending flush without running it.
+  cancel(): void;
+}
+
+/**
+ * Coalesces bursts of work (e.g. streamed tokens) into at most one `onFlush`
+ * per frame, so React state is updated at display rate rather than per event.
+ */
+export function createFrameBatcher(onFlush: () => void): FrameBatcher {
+  let frame: number | null = null;
+
+  const run = () => {
+    frame = null;
+    onFlush();
+  };
+
+  return {
+    schedule() {
+      if (frame === null) {
+        frame = requestAnimationFrame(run);
+      }
+    },
+    flush() {
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+        run();
+      }
+    },
+    cancel() {
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+        frame = null;
+      }
+    },
+  };
+}
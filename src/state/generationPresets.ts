@@ -0,0 +1,76 @@
+import type {GenerationOptions, GenerationPreset} from './types';
+import {createId} from './id';
+import {readJson, writeJson} from './storage';
+
+const USER_PRESETS_KEY = 'chat.generationPresets.v1';
+
+// Mirrors the defaults in RunAnywhereModule.parseGenerationOptions.
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  temperature: 0.2,
+  topP: 0.9,
+  maxTokens: 512,
+  stopSequences: ['\n\n', '\nUser:', '\nTask:', '###'],
+  systemPrompt:
+    "You are a concise assistant. Answer the user's question in one sentence.",
+};
+
+export const BUILT_IN_PRESETS: GenerationPreset[] = [
+  {
+    id: 'precise',
+    name: 'Precise',
+    builtIn: true,
+    options: DEFAULT_GENERATION_OPTIONS,
+  },
+  {
+    id: 'balanced',
+    name: 'Balanced',
+    builtIn: true,
+    options: {
+      temperature: 0.6,
+      topP: 0.9,
+      maxTokens: 512,
+      stopSequences: ['\nUser:', '\nTask:'],
+      systemPrompt: 'You are a helpful assistant. Answer clearly and briefly.',
+    },
+  },
+  {
+    id: 'creative',
+    name: 'Creative',
+    builtIn: true,
+    options: {
+      temperature: 0.9,
+      topP: 0.95,
+      maxTokens: 768,
+      stopSequences: ['\nUser:'],
+      systemPrompt:
+        'You are a creative assistant. Give imaginative, detailed answers.',
+    },
+  },
+];
+
+export function loadUserPresets(): Promise<GenerationPreset[]> {
+  return readJson<GenerationPreset[]>(USER_PRESETS_KEY, []);
+}
+
+export function saveUserPresets(presets: GenerationPreset[]): Promise<void> {
+  return writeJson(USER_PRESETS_KEY, presets);
+}
+
+export function createPreset(
+  name: string,
+  options: GenerationOptions,
+): GenerationPreset {
+  return {id: createId('preset'), name: name.trim(), options};
+}
+
+// Stop sequences are edited as one escaped string per line ("\n" shown as \n).
+export function formatStopSequences(stops: string[]): string {
+  return stops.map(stop => stop.replace(/\n/g, '\\n')).join('\n');
+}
+
+export function parseStopSequences(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\\n/g, '\n'))
+    .filter(line => line.length > 0);
+}
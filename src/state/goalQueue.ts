@@ -0,0 +1,174 @@
+import type {GoalSchedule, QueuedGoal, RunOutcome} from './types';
+import {createId} from './id';
+import {readJson, writeJson} from './storage';
+
+const QUEUE_KEY = 'deviceAgent.queue.v1';
+
+export interface GoalQueueState {
+  goals: QueuedGoal[];
+  // Halt the queue when a goal ends in an error instead of moving on.
+  stopOnFailure: boolean;
+  // Whether the queue is started; kept so it resumes when the app reopens.
+  active: boolean;
+}
+
+export const DEFAULT_QUEUE: GoalQueueState = {
+  goals: [],
+  stopOnFailure: true,
+  active: false,
+};
+
+export async function loadQueue(): Promise<GoalQueueState> {
+  const stored = await readJson<GoalQueueState>(QUEUE_KEY, DEFAULT_QUEUE);
+  // A goal still marked running was cut off by the app closing; retry it.
+  return {
+    ...DEFAULT_QUEUE,
+    ...stored,
+    goals: stored.goals.map(goal =>
+      goal.status === 'running' ? {...goal, status: 'pending'} : goal,
+    ),
+  };
+}
+
+// The stored queue with goals added before it loaded appended, so neither
+// is lost.
+export function mergeQueues(
+  stored: GoalQueueState,
+  early: GoalQueueState,
+): GoalQueueState {
+  const ids = new Set(stored.goals.map(goal => goal.id));
+  return {
+    ...stored,
+    goals: [...stored.goals, ...early.goals.filter(goal => !ids.has(goal.id))],
+    active: stored.active || early.active,
+  };
+}
+
+export function saveQueue(queue: GoalQueueState): Promise<void> {
+  return writeJson(QUEUE_KEY, queue);
+}
+
+// Next local-time occurrence of hour:minute strictly after `after`.
+export function nextDailyRun(
+  hour: number,
+  minute: number,
+  after: number,
+): number {
+  const next = new Date(after);
+  next.setHours(hour, minute, 0, 0);
+  if (next.getTime() <= after) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime();
+}
+
+function firstDueAt(
+  schedule: GoalSchedule | undefined,
+  now: number,
+): number | undefined {
+  if (!schedule) {
+    return undefined;
+  }
+  return schedule.kind === 'at'
+    ? schedule.at
+    : nextDailyRun(schedule.hour, schedule.minute, now);
+}
+
+export function createQueuedGoal(
+  goal: string,
+  schedule?: GoalSchedule,
+  now = Date.now(),
+): QueuedGoal {
+  const dueAt = firstDueAt(schedule, now);
+  return {
+    id: createId('goal'),
+    goal: goal.trim(),
+    status: 'pending',
+    ...(schedule ? {schedule} : {}),
+    ...(dueAt !== undefined ? {dueAt} : {}),
+  };
+}
+
+// First pending goal, in queue order, whose start time has come.
+export function nextDueGoal(
+  goals: QueuedGoal[],
+  now: number,
+): QueuedGoal | undefined {
+  return goals.find(
+    goal => goal.status === 'pending' && (goal.dueAt ?? 0) <= now,
+  );
+}
+
+// Earliest start time among pending goals, or undefined if none are left.
+export function nextWakeAt(goals: QueuedGoal[]): number | undefined {
+  const pending = goals.filter(goal => goal.status === 'pending');
+  if (pending.length === 0) {
+    return undefined;
+  }
+  return Math.min(...pending.map(goal => goal.dueAt ?? 0));
+}
+
+export function markRunning(goals: QueuedGoal[], id: string): QueuedGoal[] {
+  return goals.map(goal =>
+    goal.id === id ? {...goal, status: 'running'} : goal,
+  );
+}
+
+export function completeGoal(
+  goals: QueuedGoal[],
+  id: string,
+  outcome: RunOutcome,
+  now = Date.now(),
+): QueuedGoal[] {
+  return goals.map(goal => {
+    if (goal.id !== id) {
+      return goal;
+    }
+    const finished = {...goal, lastOutcome: outcome, lastRunAt: now};
+    const {schedule} = goal;
+    if (schedule?.kind === 'daily') {
+      return {
+        ...finished,
+        status: 'pending',
+        dueAt: nextDailyRun(schedule.hour, schedule.minute, now),
+      };
+    }
+    return {...finished, status: outcome};
+  });
+}
+
+// Drops one-off goals that have run; daily goals stay until removed.
+export function clearFinished(goals: QueuedGoal[]): QueuedGoal[] {
+  return goals.filter(
+    goal => goal.status === 'pending' || goal.status === 'running',
+  );
+}
+
+// Accepts "8:00", "08:00" or "20:30".
+export function parseTimeOfDay(
+  text: string,
+): {hour: number; minute: number} | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  return hour < 24 && minute < 60 ? {hour, minute} : null;
+}
+
+function clock(hour: number, minute: number): string {
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+export function describeSchedule(goal: QueuedGoal): string {
+  const {schedule} = goal;
+  if (!schedule) {
+    return 'next in queue';
+  }
+  if (schedule.kind === 'daily') {
+    return `daily at ${clock(schedule.hour, schedule.minute)}`;
+  }
+  const at = new Date(schedule.at);
+  return `at ${clock(at.getHours(), at.getMinutes())}`;
+}
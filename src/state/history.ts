@@ -0,0 +1,76 @@
+import type {RunRecord} from './types';
+import {createId} from './id';
+import {readJson, writeJson} from './storage';
+
+const HISTORY_KEY = 'history.runs.v1';
+// Oldest runs are dropped past this so the stored blob stays small.
+const MAX_ENTRIES = 100;
+
+type Listener = (records: RunRecord[]) => void;
+
+let records: RunRecord[] | null = null;
+let loading: Promise<RunRecord[]> | null = null;
+const listeners = new Set<Listener>();
+
+function emit() {
+  const snapshot = records ?? [];
+  listeners.forEach(listener => listener(snapshot));
+}
+
+export function loadHistory(): Promise<RunRecord[]> {
+  if (records) {
+    return Promise.resolve(records);
+  }
+  if (!loading) {
+    loading = readJson<RunRecord[]>(HISTORY_KEY, []).then(stored => {
+      records = stored;
+      loading = null;
+      return stored;
+    });
+  }
+  return loading;
+}
+
+async function update(change: (current: RunRecord[]) => RunRecord[]) {
+  const loaded = await loadHistory();
+  // Updates queued behind the same first load each build on the last one.
+  records = change(records ?? loaded).slice(0, MAX_ENTRIES);
+  emit();
+  try {
+    await writeJson(HISTORY_KEY, records);
+  } catch (e) {
+    console.warn('Failed to save history:', e);
+  }
+}
+
+export async function recordRun(run: Omit<RunRecord, 'id'>): Promise<RunRecord> {
+  const record: RunRecord = {id: createId('run'), ...run};
+  await update(current => [record, ...current]);
+  return record;
+}
+
+export function deleteRun(id: string): Promise<void> {
+  return update(current => current.filter(record => record.id !== id));
+}
+
+export function clearHistory(): Promise<void> {
+  return update(() => []);
+}
+
+export function subscribeHistory(listener: Listener): () => void {
+  listeners.add(listener);
+  loadHistory().then(current => {
+    if (listeners.has(listener)) {
+      listener(current);
+    }
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Test hook: forget the cached copy so the next load re-reads storage.
+export function resetHistoryCache() {
+  records = null;
+  loading = null;
+}
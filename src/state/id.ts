@@ -0,0 +1,6 @@
+let counter = 0;
+
+export function createId(prefix = 'id'): string {
+  counter = (counter + 1) % 1_000_000;
+  return `${prefix}-${Date.now().toString(36)}-${counter.toString(36)}`;
+}
@@ -0,0 +1,182 @@
+import type {RunKind} from './types';
+import {readJson, writeJson} from './storage';
+
+const INPUT_KEY = 'controls.input.v1';
+// Most recent submissions kept per mode.
+export const MAX_RECENT = 50;
+// Drafts are saved this long after the last keystroke.
+const DRAFT_SAVE_DELAY_MS = 500;
+
+export interface InputDraft {
+  task: string;
+  context: string;
+}
+
+export interface SubmittedInput {
+  task: string;
+  context?: string;
+  submittedAt: number;
+}
+
+export interface ModeInput {
+  draft: InputDraft;
+  // Newest first, without duplicates.
+  recent: SubmittedInput[];
+}
+
+export type InputState = Record<RunKind, ModeInput>;
+
+type Listener = (state: InputState) => void;
+
+const EMPTY_MODE: ModeInput = {draft: {task: '', context: ''}, recent: []};
+
+function emptyState(): InputState {
+  return {chat: EMPTY_MODE, device: EMPTY_MODE};
+}
+
+let state: InputState | null = null;
+let loaded = false;
+let loading: Promise<InputState> | null = null;
+// Modes whose draft was edited before the stored state finished loading.
+const draftsTouched = new Set<RunKind>();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<Listener>();
+
+function sameInput(a: SubmittedInput, b: SubmittedInput): boolean {
+  return a.task === b.task && a.context === b.context;
+}
+
+// `newer` first, then whatever of `older` it doesn't repeat, capped.
+function mergeRecent(
+  newer: SubmittedInput[],
+  older: SubmittedInput[],
+): SubmittedInput[] {
+  return [
+    ...newer,
+    ...older.filter(item => !newer.some(entry => sameInput(entry, item))),
+  ].slice(0, MAX_RECENT);
+}
+
+// Folds what was typed or submitted during the load into the stored state:
+// touched drafts win, early submissions go on top of the stored ones.
+function mergeStored(
+  stored: Partial<InputState>,
+  early: InputState | null,
+): InputState {
+  const merged = emptyState();
+  (Object.keys(merged) as RunKind[]).forEach(mode => {
+    const saved = {...EMPTY_MODE, ...stored[mode]};
+    const mine = early?.[mode] ?? EMPTY_MODE;
+    merged[mode] = {
+      draft: draftsTouched.has(mode) ? mine.draft : saved.draft,
+      recent: mergeRecent(mine.recent, saved.recent),
+    };
+  });
+  return merged;
+}
+
+// Waits for the load so an early edit never overwrites what was stored.
+async function persist(): Promise<void> {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  await loadInputState();
+  return writeJson(INPUT_KEY, state).catch(e =>
+    console.warn('Failed to save input history:', e),
+  );
+}
+
+function update(mode: RunKind, patch: Partial<ModeInput>) {
+  const current = state ?? emptyState();
+  state = {...current, [mode]: {...current[mode], ...patch}};
+  const snapshot = state;
+  listeners.forEach(listener => listener(snapshot));
+}
+
+export function getInputState(): InputState {
+  return state ?? emptyState();
+}
+
+export function loadInputState(): Promise<InputState> {
+  if (loaded && state) {
+    return Promise.resolve(state);
+  }
+  if (!loading) {
+    loading = readJson<Partial<InputState>>(INPUT_KEY, {}).then(stored => {
+      state = mergeStored(stored, state);
+      loaded = true;
+      draftsTouched.clear();
+      loading = null;
+      return state;
+    });
+  }
+  return loading;
+}
+
+export function updateDraft(mode: RunKind, draft: InputDraft) {
+  if (!loaded) {
+    draftsTouched.add(mode);
+  }
+  update(mode, {draft});
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+  }
+  saveTimer = setTimeout(() => {
+    persist();
+  }, DRAFT_SAVE_DELAY_MS);
+}
+
+export function recordSubmission(
+  mode: RunKind,
+  task: string,
+  context?: string,
+  now = Date.now(),
+): Promise<void> {
+  const entry: SubmittedInput = {task, submittedAt: now};
+  if (context) {
+    entry.context = context;
+  }
+  update(mode, {recent: mergeRecent([entry], getInputState()[mode].recent)});
+  return persist();
+}
+
+// Case-insensitive match on task or context; an empty query matches all.
+export function searchRecent(
+  recent: SubmittedInput[],
+  query: string,
+): SubmittedInput[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return recent;
+  }
+  return recent.filter(
+    item =>
+      item.task.toLowerCase().includes(needle) ||
+      !!item.context?.toLowerCase().includes(needle),
+  );
+}
+
+export function subscribeInputState(listener: Listener): () => void {
+  listeners.add(listener);
+  loadInputState().then(current => {
+    if (listeners.has(listener)) {
+      listener(current);
+    }
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Test hook: forget the cached copy so the next load re-reads storage.
+export function resetInputStateCache() {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  state = null;
+  loaded = false;
+  loading = null;
+  draftsTouched.clear();
+}
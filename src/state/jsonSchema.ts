@@ -0,0 +1,233 @@
+import type {
+  JsonSchema,
+  JsonSchemaType,
+  StructuredOutputSettings,
+} from './types';
+
+export const EXAMPLE_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "answer": {"type": "string"},
+    "confidence": {"type": "number", "minimum": 0, "maximum": 1},
+    "tags": {"type": "array", "items": {"type": "string"}}
+  },
+  "required": ["answer", "confidence"]
+}`;
+
+const SCHEMA_TYPES: JsonSchemaType[] = [
+  'object',
+  'array',
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'null',
+];
+
+const CLOSERS: Record<string, string> = {'{': '}', '[': ']'};
+
+/**
+ * First balanced JSON object or array in `text` that opens with one of
+ * `openers`, skipping brackets inside strings. Models often wrap JSON in
+ * prose or code fences; this finds the value without parsing it.
+ */
+export function firstJsonValue(text: string, openers = '{['): string | null {
+  let start = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (openers.includes(text[i])) {
+      start = i;
+      break;
+    }
+  }
+  if (start < 0) {
+    return null;
+  }
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char in CLOSERS) {
+      stack.push(CLOSERS[char]);
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) {
+        return null;
+      }
+      if (stack.length === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+  }
+  return null;
+}
+
+// Parses schema source from the settings; the error is shown as typed.
+export function parseSchema(
+  text: string,
+): {schema: JsonSchema} | {error: string} {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return {error: e instanceof Error ? e.message : 'Invalid JSON'};
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return {error: 'The schema must be a JSON object'};
+  }
+  const {type} = parsed as JsonSchema;
+  const types = Array.isArray(type) ? type : type ? [type] : [];
+  const unknown = types.find(t => !SCHEMA_TYPES.includes(t));
+  if (unknown) {
+    return {error: `Unknown type "${unknown}"`};
+  }
+  return {schema: parsed as JsonSchema};
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Checks `value` against `schema` and lists every mismatch as
+ * "<path>: <problem>", e.g. `$.tags[1]: expected string`. Empty means valid.
+ */
+export function validateJson(
+  value: unknown,
+  schema: JsonSchema,
+  path = '$',
+): string[] {
+  const errors: string[] = [];
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+  if (
+    schema.enum &&
+    !schema.enum.some(
+      option => JSON.stringify(option) === JSON.stringify(value),
+    )
+  ) {
+    errors.push(
+      `${path}: must be one of ${schema.enum
+        .map(option => JSON.stringify(option))
+        .join(', ')}`,
+    );
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be at most ${schema.maximum}`);
+    }
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: needs at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: allows at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, i) =>
+        errors.push(...validateJson(item, items, `${path}[${i}]`)),
+      );
+    }
+  }
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) {
+        errors.push(`${path}: missing "${key}"`);
+      }
+    }
+    for (const [key, child] of Object.entries(object)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        errors.push(...validateJson(child, property, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected "${key}"`);
+      }
+    }
+  }
+  return errors;
+}
+
+export type StructuredResult =
+  | {ok: true; value: unknown}
+  | {ok: false; errors: string[]};
+
+// Pulls the JSON value out of model output and validates it.
+export function parseStructuredOutput(
+  output: string,
+  schema: JsonSchema,
+): StructuredResult {
+  const json = firstJsonValue(output);
+  if (!json) {
+    return {ok: false, errors: ['No JSON value in the output']};
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (e) {
+    return {ok: false, errors: [e instanceof Error ? e.message : 'Bad JSON']};
+  }
+  const errors = validateJson(value, schema);
+  return errors.length > 0 ? {ok: false, errors} : {ok: true, value};
+}
+
+// Follow-up prompt asking the model to fix output that failed validation.
+export function buildRepairPrompt(
+  task: string,
+  output: string,
+  errors: string[],
+  schema: JsonSchema,
+): string {
+  return [
+    `Your previous answer to "${task}" was not valid JSON for the schema.`,
+    `Schema: ${JSON.stringify(schema)}`,
+    `Previous answer: ${output.trim() || '(empty)'}`,
+    `Problems:\n${errors.map(error => `- ${error}`).join('\n')}`,
+    'Reply with only the corrected JSON.',
+  ].join('\n\n');
+}
+
+export const DEFAULT_STRUCTURED_OUTPUT: StructuredOutputSettings = {
+  enabled: false,
+  schema: EXAMPLE_SCHEMA,
+};
+
+// Follow-up runs asking the model to fix output that failed validation.
+export const STRUCTURED_REPAIR_PASSES = 1;
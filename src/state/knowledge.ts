@@ -0,0 +1,118 @@
+import type {KnowledgeDocument, RetrievedChunk} from './types';
+import {createId} from './id';
+import {readJson, writeJson} from './storage';
+import {DEFAULT_RESULT_COUNT, buildIndex, search} from './retrieval';
+import type {SearchIndex} from './retrieval';
+
+const KNOWLEDGE_KEY = 'knowledge.v1';
+// Longer notes are cut; everything lives in one stored blob.
+export const MAX_DOCUMENT_CHARS = 100_000;
+
+export interface KnowledgeState {
+  documents: KnowledgeDocument[];
+  // Whether chat runs retrieve from the documents.
+  enabled: boolean;
+}
+
+type Listener = (state: KnowledgeState) => void;
+
+const EMPTY_STATE: KnowledgeState = {documents: [], enabled: true};
+
+let state: KnowledgeState | null = null;
+let loading: Promise<KnowledgeState> | null = null;
+// Rebuilt lazily when the document list changes.
+let index: {documents: KnowledgeDocument[]; index: SearchIndex} | null = null;
+const listeners = new Set<Listener>();
+
+export function loadKnowledge(): Promise<KnowledgeState> {
+  if (state) {
+    return Promise.resolve(state);
+  }
+  if (!loading) {
+    loading = readJson<Partial<KnowledgeState>>(KNOWLEDGE_KEY, {}).then(
+      stored => {
+        state = {...EMPTY_STATE, ...stored};
+        loading = null;
+        return state;
+      },
+    );
+  }
+  return loading;
+}
+
+async function update(change: (current: KnowledgeState) => KnowledgeState) {
+  state = change(await loadKnowledge());
+  const snapshot = state;
+  listeners.forEach(listener => listener(snapshot));
+  try {
+    await writeJson(KNOWLEDGE_KEY, state);
+  } catch (e) {
+    console.warn('Failed to save knowledge base:', e);
+  }
+}
+
+export async function addDocument(
+  title: string,
+  text: string,
+): Promise<KnowledgeDocument> {
+  const doc: KnowledgeDocument = {
+    id: createId('doc'),
+    title: title.trim() || 'Untitled note',
+    text: text.slice(0, MAX_DOCUMENT_CHARS),
+    addedAt: Date.now(),
+  };
+  await update(current => ({
+    ...current,
+    documents: [...current.documents, doc],
+  }));
+  return doc;
+}
+
+export function removeDocument(id: string): Promise<void> {
+  return update(current => ({
+    ...current,
+    documents: current.documents.filter(doc => doc.id !== id),
+  }));
+}
+
+export function setKnowledgeEnabled(enabled: boolean): Promise<void> {
+  return update(current => ({...current, enabled}));
+}
+
+function getIndex(documents: KnowledgeDocument[]): SearchIndex {
+  if (index?.documents !== documents) {
+    index = {documents, index: buildIndex(documents)};
+  }
+  return index.index;
+}
+
+// Best passages for a chat task; empty when retrieval is off or finds nothing.
+export async function retrieve(
+  query: string,
+  limit = DEFAULT_RESULT_COUNT,
+): Promise<RetrievedChunk[]> {
+  const {documents, enabled} = await loadKnowledge();
+  if (!enabled || documents.length === 0) {
+    return [];
+  }
+  return search(getIndex(documents), query, limit);
+}
+
+export function subscribeKnowledge(listener: Listener): () => void {
+  listeners.add(listener);
+  loadKnowledge().then(current => {
+    if (listeners.has(listener)) {
+      listener(current);
+    }
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Test hook: forget the cached copy so the next load re-reads storage.
+export function resetKnowledgeCache() {
+  state = null;
+  loading = null;
+  index = null;
+}
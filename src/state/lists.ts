@@ -0,0 +1,17 @@
+// Moves the item with `id` by `offset` places. Returns the same array when
+// the item is missing or the move would leave the list.
+export function moveItem<T extends {id: string}>(
+  items: T[],
+  id: string,
+  offset: number,
+): T[] {
+  const from = items.findIndex(item => item.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= items.length) {
+    return items;
+  }
+  const next = items.slice();
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
@@ -0,0 +1,529 @@
+// Small Markdown parser for model output. Covers what the models actually
+// emit (headings, lists, code, tables, quotes, emphasis, links), not the
+// full CommonMark spec. Rendering lives in components/Markdown.tsx.
+
+export type Inline =
+  | {type: 'text'; text: string}
+  | {type: 'strong'; children: Inline[]}
+  | {type: 'em'; children: Inline[]}
+  | {type: 'code'; text: string}
+  | {type: 'link'; href: string; children: Inline[]};
+
+export interface ListItem {
+  content: Inline[];
+  children: ListBlock[];
+}
+
+export interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  start: number;
+  items: ListItem[];
+}
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type Block =
+  | {type: 'heading'; level: number; children: Inline[]}
+  | {type: 'paragraph'; children: Inline[]}
+  | ListBlock
+  // `closed` is false while a streamed fence has not been terminated yet.
+  | {type: 'code'; lang: string; text: string; closed: boolean}
+  | {
+      type: 'table';
+      align: TableAlign[];
+      header: Inline[][];
+      rows: Inline[][][];
+    }
+  | {type: 'quote'; children: Block[]}
+  | {type: 'rule'};
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const AUTOLINK = /^https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"*_]/;
+const ESCAPABLE = /[\\`*_[\]()#|>~-]/;
+// Schemes a model-written link may open; anything else (intent:, tel:,
+// file:, app schemes) is shown as plain text.
+const SAFE_HREF = /^(https?:\/\/|mailto:)/i;
+
+export function isSafeHref(href: string): boolean {
+  return SAFE_HREF.test(href);
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  const next = lines[index + 1];
+  return (
+    lines[index].includes('|') &&
+    next !== undefined &&
+    next.includes('-') &&
+    TABLE_SEPARATOR.test(next)
+  );
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    LIST_ITEM.test(line) ||
+    QUOTE.test(line) ||
+    isTableStart(lines, index)
+  );
+}
+
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) {
+    row = row.slice(1);
+  }
+  if (row.endsWith('|') && !row.endsWith('\\|')) {
+    row = row.slice(0, -1);
+  }
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i += 1;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseAlign(separator: string): TableAlign[] {
+  return splitRow(separator).map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) {
+      return 'center';
+    }
+    if (right) {
+      return 'right';
+    }
+    return left ? 'left' : null;
+  });
+}
+
+function canOpen(text: string, index: number, marker: string): boolean {
+  const next = text[index + marker.length];
+  if (next === undefined || /\s/.test(next)) {
+    return false;
+  }
+  // snake_case identifiers are not emphasis.
+  return marker[0] !== '_' || index === 0 || !/\w/.test(text[index - 1]);
+}
+
+function findClose(text: string, from: number, marker: string): number {
+  let index = text.indexOf(marker, from);
+  while (index !== -1) {
+    const prev = text[index - 1];
+    const next = text[index + marker.length];
+    const single = marker.length === 1;
+    const valid =
+      index > from &&
+      !/\s/.test(prev) &&
+      (!single || (next !== marker && prev !== marker)) &&
+      (marker[0] !== '_' || next === undefined || !/\w/.test(next));
+    if (valid) {
+      return index;
+    }
+    index = text.indexOf(marker, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * Parses inline formatting. With `partial` set (the tail of a response that
+ * is still streaming) unclosed markers are treated as open until the end of
+ * the text and a dangling marker is hidden, so `**bo` renders as bold "bo"
+ * instead of flashing raw asterisks.
+ */
+export function parseInline(text: string, partial = false): Inline[] {
+  const out: Inline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) {
+      out.push({type: 'text', text: buffer});
+      buffer = '';
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+
+    if (ch === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = /^`+/.exec(rest)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        flush();
+        out.push({type: 'code', text: text.slice(i + run.length, end)});
+        i = end + run.length;
+        continue;
+      }
+      if (partial) {
+        flush();
+        const code = text.slice(i + run.length);
+        if (code) {
+          out.push({type: 'code', text: code});
+        }
+        break;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (ch === '*' || ch === '_') {
+      const marker = text[i + 1] === ch ? ch + ch : ch;
+      const type = marker.length === 2 ? 'strong' : 'em';
+      if (partial && i + marker.length >= text.length) {
+        break;
+      }
+      if (canOpen(text, i, marker)) {
+        const end = findClose(text, i + marker.length, marker);
+        if (end !== -1) {
+          flush();
+          out.push({
+            type,
+            children: parseInline(text.slice(i + marker.length, end)),
+          });
+          i = end + marker.length;
+          continue;
+        }
+        if (partial) {
+          flush();
+          out.push({
+            type,
+            children: parseInline(text.slice(i + marker.length), true),
+          });
+          break;
+        }
+      }
+      buffer += marker;
+      i += marker.length;
+      continue;
+    }
+
+    if (ch === '[') {
+      const link = /^\[([^\]\n]*)\]\(([^)\s]*)\)/.exec(rest);
+      if (link) {
+        flush();
+        const children = parseInline(link[1]);
+        if (isSafeHref(link[2])) {
+          out.push({type: 'link', href: link[2], children});
+        } else {
+          out.push(...children);
+        }
+        i += link[0].length;
+        continue;
+      }
+      // Show only the label while the URL is still arriving.
+      const pending = partial && /^\[([^\]\n]*)(\]\([^)\s]*)?\]?$/.exec(rest);
+      if (pending) {
+        flush();
+        out.push(...parseInline(pending[1], true));
+        break;
+      }
+    }
+
+    if (ch === 'h' && (i === 0 || /[\s(]/.test(text[i - 1]))) {
+      const url = AUTOLINK.exec(rest);
+      if (url) {
+        flush();
+        out.push({
+          type: 'link',
+          href: url[0],
+          children: [{type: 'text', text: url[0]}],
+        });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i += 1;
+  }
+
+  flush();
+  return out;
+}
+
+interface RawItem {
+  indent: number;
+  marker: string;
+  text: string;
+}
+
+function newList(item: RawItem): ListBlock {
+  const ordered = /\d/.test(item.marker);
+  return {
+    type: 'list',
+    ordered,
+    start: ordered ? parseInt(item.marker, 10) : 1,
+    items: [],
+  };
+}
+
+function buildList(raw: RawItem[], partial: boolean): ListBlock {
+  const root = newList(raw[0]);
+  const stack = [{indent: raw[0].indent, list: root}];
+  raw.forEach((item, index) => {
+    while (stack.length > 1 && item.indent < stack[stack.length - 1].indent) {
+      stack.pop();
+    }
+    let top = stack[stack.length - 1];
+    if (item.indent > top.indent && top.list.items.length > 0) {
+      const parent = top.list.items[top.list.items.length - 1];
+      const sublist = newList(item);
+      parent.children.push(sublist);
+      top = {indent: item.indent, list: sublist};
+      stack.push(top);
+    }
+    top.list.items.push({
+      content: parseInline(item.text, partial && index === raw.length - 1),
+      children: [],
+    });
+  });
+  return root;
+}
+
+/**
+ * Parses `source` into blocks. `partial` marks the text as an unfinished
+ * stream: only the final block gets lenient inline parsing.
+ */
+export function parseMarkdown(source: string, partial = false): Block[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  // Inline content of the block that ends at the last line is parsed leniently.
+  const inline = (text: string) =>
+    parseInline(text, partial && i >= lines.length);
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i += 1;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      let closed = false;
+      i += 1;
+      while (i < lines.length) {
+        const current = lines[i];
+        i += 1;
+        if (
+          current.trim().startsWith(marker) &&
+          current.trim().replace(/[`~]/g, '') === ''
+        ) {
+          closed = true;
+          break;
+        }
+        body.push(current);
+      }
+      blocks.push({
+        type: 'code',
+        lang: fence[2],
+        text: body.join('\n'),
+        closed,
+      });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      i += 1;
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: inline(heading[2]),
+      });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      i += 1;
+      blocks.push({type: 'rule'});
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = parseAlign(lines[i + 1]);
+      const rawRows: string[] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && !isBlank(lines[i])) {
+        rawRows.push(lines[i]);
+        i += 1;
+      }
+      blocks.push({
+        type: 'table',
+        align,
+        header: header.map(cell => parseInline(cell)),
+        rows: rawRows.map(row =>
+          splitRow(row)
+            .slice(0, header.length)
+            .map(cell => inline(cell)),
+        ),
+      });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        body.push(QUOTE.exec(lines[i])![1]);
+        i += 1;
+      }
+      blocks.push({
+        type: 'quote',
+        children: parseMarkdown(body.join('\n'), partial && i >= lines.length),
+      });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const raw: RawItem[] = [];
+      while (i < lines.length) {
+        const current = lines[i];
+        const item = LIST_ITEM.exec(current);
+        if (item && !RULE.test(current)) {
+          raw.push({indent: item[1].length, marker: item[2], text: item[3]});
+          i += 1;
+          continue;
+        }
+        if (isBlank(current)) {
+          // A blank line only continues the list if another item follows.
+          let next = i + 1;
+          while (next < lines.length && isBlank(lines[next])) {
+            next += 1;
+          }
+          if (next < lines.length && LIST_ITEM.test(lines[next])) {
+            i = next;
+            continue;
+          }
+          break;
+        }
+        if (startsBlock(lines, i)) {
+          break;
+        }
+        // Continuation of the previous item's text.
+        raw[raw.length - 1].text += `\n${current.trim()}`;
+        i += 1;
+      }
+      blocks.push(buildList(raw, partial && i >= lines.length));
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      !isBlank(lines[i]) &&
+      (paragraph.length === 0 || !startsBlock(lines, i))
+    ) {
+      paragraph.push(lines[i].trim());
+      i += 1;
+    }
+    blocks.push({type: 'paragraph', children: inline(paragraph.join('\n'))});
+  }
+
+  return blocks;
+}
+
+/**
+ * Offset up to which a streamed `source` can no longer change meaning: the
+ * start of the last complete line that follows a blank line outside a code
+ * fence and does not continue a list. Scanning starts at `from`, which must
+ * itself be such a boundary (or 0).
+ */
+export function stableBoundary(source: string, from = 0): number {
+  let boundary = from;
+  let inFence: string | null = null;
+  let afterBlank = false;
+  let offset = from;
+
+  while (offset < source.length) {
+    const end = source.indexOf('\n', offset);
+    if (end === -1) {
+      break; // The last line is still being written.
+    }
+    const line = source.slice(offset, end);
+    if (inFence) {
+      if (
+        line.trim().startsWith(inFence) &&
+        line.trim().replace(/[`~]/g, '') === ''
+      ) {
+        inFence = null;
+      }
+    } else if (isBlank(line)) {
+      afterBlank = true;
+    } else {
+      if (afterBlank && !LIST_ITEM.test(line) && !/^\s/.test(line)) {
+        boundary = offset;
+      }
+      afterBlank = false;
+      const fence = FENCE.exec(line);
+      if (fence) {
+        inFence = fence[1];
+      }
+    }
+    offset = end + 1;
+  }
+  return boundary;
+}
+
+/**
+ * Returns a parse function that reuses the blocks of the stable prefix of a
+ * growing text, so each streamed token only re-parses the last few blocks
+ * and earlier blocks keep their identity (no re-layout, no flicker).
+ */
+export function createIncrementalParser() {
+  let stableSource = '';
+  let stableBlocks: Block[] = [];
+
+  return (source: string, streaming: boolean): Block[] => {
+    if (!source.startsWith(stableSource)) {
+      stableSource = '';
+      stableBlocks = [];
+    }
+    const boundary = stableBoundary(source, stableSource.length);
+    if (boundary > stableSource.length) {
+      stableBlocks = [
+        ...stableBlocks,
+        ...parseMarkdown(source.slice(stableSource.length, boundary)),
+      ];
+      stableSource = source.slice(0, boundary);
+    }
+    return [
+      ...stableBlocks,
+      ...parseMarkdown(source.slice(stableSource.length), streaming),
+    ];
+  };
+}
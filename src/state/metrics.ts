@@ -0,0 +1,126 @@
+import type {RunMetrics} from './types';
+
+export interface MetricsRecorder {
+  downloadStarted(): void;
+  // Ends the download phase, if there was one.
+  loadStarted(): void;
+  // The model is in memory; time to first token counts from here.
+  modelReady(): void;
+  // Timings measured natively (Device Agent runs load the model themselves).
+  modelLoaded(loadMs: number, downloadMs?: number): void;
+  token(): void;
+  decision(latencyMs: number, tokens: number): void;
+  snapshot(): RunMetrics;
+}
+
+/**
+ * Collects the timings of one run. Marks are taken with `now`, so a run that
+ * skips a phase (model already downloaded or loaded) leaves it null.
+ */
+export function createMetricsRecorder(
+  now: () => number = Date.now,
+): MetricsRecorder {
+  let downloadStartedAt: number | null = null;
+  let downloadMs: number | null = null;
+  let loadStartedAt: number | null = null;
+  let loadMs: number | null = null;
+  let readyAt: number | null = null;
+  let firstTokenAt: number | null = null;
+  let lastTokenAt: number | null = null;
+  let streamedTokens = 0;
+  let decisionTokens = 0;
+  const decisionLatenciesMs: number[] = [];
+
+  return {
+    downloadStarted() {
+      downloadStartedAt = now();
+    },
+    loadStarted() {
+      loadStartedAt = now();
+      if (downloadStartedAt !== null) {
+        downloadMs = loadStartedAt - downloadStartedAt;
+      }
+    },
+    modelReady() {
+      readyAt = now();
+      if (loadStartedAt !== null) {
+        loadMs = readyAt - loadStartedAt;
+      }
+    },
+    modelLoaded(nativeLoadMs, nativeDownloadMs) {
+      loadMs = nativeLoadMs;
+      downloadMs = nativeDownloadMs ?? null;
+    },
+    token() {
+      lastTokenAt = now();
+      if (firstTokenAt === null) {
+        firstTokenAt = lastTokenAt;
+      }
+      streamedTokens += 1;
+    },
+    decision(latencyMs, tokens) {
+      decisionLatenciesMs.push(latencyMs);
+      decisionTokens += tokens;
+    },
+    snapshot() {
+      let tokensPerSecond: number | null = null;
+      if (streamedTokens > 1 && firstTokenAt !== null && lastTokenAt !== null) {
+        // Decode rate: the first token's latency is already in TTFT.
+        const elapsed = lastTokenAt - firstTokenAt;
+        tokensPerSecond =
+          elapsed > 0 ? ((streamedTokens - 1) * 1000) / elapsed : null;
+      } else if (decisionTokens > 0) {
+        const elapsed = decisionLatenciesMs.reduce((sum, ms) => sum + ms, 0);
+        tokensPerSecond =
+          elapsed > 0 ? (decisionTokens * 1000) / elapsed : null;
+      }
+      return {
+        downloadMs,
+        loadMs,
+        timeToFirstTokenMs:
+          firstTokenAt !== null && readyAt !== null
+            ? firstTokenAt - readyAt
+            : null,
+        tokensPerSecond,
+        totalTokens: streamedTokens + decisionTokens,
+        decisionLatenciesMs: decisionLatenciesMs.slice(),
+      };
+    },
+  };
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function averageOf(values: number[]): number | null {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+}
+
+// Short labels for the stats strip and history, in a fixed order; phases
+// without data are left out.
+export function formatMetrics(metrics: RunMetrics): string[] {
+  const parts: string[] = [];
+  if (metrics.timeToFirstTokenMs !== null) {
+    parts.push(`TTFT ${formatDuration(metrics.timeToFirstTokenMs)}`);
+  }
+  if (metrics.tokensPerSecond !== null) {
+    parts.push(`${metrics.tokensPerSecond.toFixed(1)} tok/s`);
+  }
+  if (metrics.totalTokens > 0) {
+    parts.push(`${metrics.totalTokens} tok`);
+  }
+  const decision = averageOf(metrics.decisionLatenciesMs);
+  if (decision !== null) {
+    parts.push(`step ${formatDuration(decision)} avg`);
+  }
+  if (metrics.loadMs !== null) {
+    parts.push(`load ${formatDuration(metrics.loadMs)}`);
+  }
+  if (metrics.downloadMs !== null) {
+    parts.push(`download ${formatDuration(metrics.downloadMs)}`);
+  }
+  return parts;
+}
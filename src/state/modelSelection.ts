@@ -0,0 +1,143 @@
+import {rememberModels} from './models';
+import {
+  getActiveModel,
+  getAvailableModels,
+  setActiveModel,
+} from '../native/agentKernel';
+import {startModelDownload} from './downloads';
+import {
+  getLoadedModel,
+  listModels,
+  loadModel,
+  unloadModel,
+} from '../native/runanywhere';
+
+// One model is selected for the whole app. The native side keeps the same
+// value, so the Device Agent loads whatever LLM Chat would and vice versa.
+export interface ModelSelection {
+  availableModels: string[];
+  activeModelId: string;
+  // What the SDK currently has in memory; null when nothing is loaded.
+  loadedModelId: string | null;
+}
+
+type Listener = (selection: ModelSelection) => void;
+
+let selection: ModelSelection = {
+  availableModels: [],
+  activeModelId: '',
+  loadedModelId: null,
+};
+let loading: Promise<ModelSelection> | null = null;
+const listeners = new Set<Listener>();
+
+function update(patch: Partial<ModelSelection>) {
+  selection = {...selection, ...patch};
+  listeners.forEach(listener => listener(selection));
+}
+
+export function getModelSelection(): ModelSelection {
+  return selection;
+}
+
+export function loadModelSelection(): Promise<ModelSelection> {
+  if (selection.activeModelId) {
+    return Promise.resolve(selection);
+  }
+  if (!loading) {
+    loading = Promise.all([
+      getAvailableModels(),
+      getActiveModel(),
+      getLoadedModel(),
+    ])
+      .then(([availableModels, activeModelId, loadedModelId]) => {
+        update({availableModels, activeModelId, loadedModelId});
+        return selection;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+export async function selectModel(modelId: string): Promise<void> {
+  await setActiveModel(modelId);
+  update({activeModelId: modelId});
+}
+
+// Re-reads the loaded model after native code may have changed it
+// (a Device Agent run, or deleting the loaded model).
+export async function refreshLoadedModel(): Promise<string | null> {
+  const loadedModelId = await getLoadedModel();
+  update({loadedModelId});
+  return loadedModelId;
+}
+
+export async function unloadActiveModel(): Promise<void> {
+  await unloadModel();
+  update({loadedModelId: null});
+}
+
+export interface EnsureModelOptions {
+  // Defaults to the selected model; the benchmark loads others in turn.
+  modelId?: string;
+  // Fires before a download; skipped when the model is already on disk.
+  // Progress is published by src/state/downloads.ts.
+  onDownloading?: () => void;
+  // Fires once the download (if any) is finished and the load is about to
+  // start; skipped when the model is already loaded.
+  onLoading?: () => void;
+}
+
+/**
+ * Makes the selected model (or `modelId`) the one in memory: downloads it if
+ * missing, unloads whatever else is loaded, then loads it.
+ */
+export async function ensureModelLoaded({
+  modelId,
+  onDownloading,
+  onLoading,
+}: EnsureModelOptions = {}): Promise<string> {
+  const {activeModelId} = await loadModelSelection();
+  const targetId = modelId ?? activeModelId;
+  const loaded = await refreshLoadedModel();
+  if (loaded === targetId) {
+    return targetId;
+  }
+
+  const models = await listModels();
+  rememberModels(models);
+  const target = models.find(model => model.id === targetId);
+  if (!target?.downloaded) {
+    onDownloading?.();
+    await startModelDownload(targetId, target?.downloadSizeBytes);
+  }
+  onLoading?.();
+  if (loaded) {
+    await unloadActiveModel();
+  }
+  await loadModel(targetId);
+  update({loadedModelId: targetId});
+  return targetId;
+}
+
+export function subscribeModelSelection(listener: Listener): () => void {
+  listeners.add(listener);
+  loadModelSelection()
+    .then(current => {
+      if (listeners.has(listener)) {
+        listener(current);
+      }
+    })
+    .catch(e => console.warn('Failed to load models:', e));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Test hook: drop the cached selection so the next load asks native again.
+export function resetModelSelectionCache() {
+  selection = {availableModels: [], activeModelId: '', loadedModelId: null};
+  loading = null;
+}
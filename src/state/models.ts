@@ -0,0 +1,34 @@
+import type {ModelInfo} from './types';
+
+// Labels come from the native ModelCatalog via listModels(); cached here so
+// screens that only have a model id (history, badges) can show a name.
+const labels = new Map<string, string>();
+const contextLengths = new Map<string, number>();
+
+// Assumed until the catalog has been listed: the smallest window it ships.
+export const DEFAULT_CONTEXT_LENGTH = 2048;
+
+export function rememberModels(models: ModelInfo[]) {
+  models.forEach(model => {
+    labels.set(model.id, model.label);
+    contextLengths.set(model.id, model.contextLength);
+  });
+}
+
+export function getModelLabel(modelId: string): string {
+  return labels.get(modelId) || modelId;
+}
+
+export function getContextLength(modelId: string): number {
+  return contextLengths.get(modelId) || DEFAULT_CONTEXT_LENGTH;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes <= 0) {
+    return '0 MB';
+  }
+  if (bytes >= 1_000_000_000) {
+    return `${(bytes / 1_000_000_000).toFixed(2)} GB`;
+  }
+  return `${Math.round(bytes / 1_000_000)} MB`;
+}
@@ -0,0 +1,85 @@
+import type {DevicePlan, GenerationOptions, PlanStep} from './types';
+import {DEFAULT_GENERATION_OPTIONS} from './generationPresets';
+import {createId} from './id';
+
+// Longer plans are truncated; small models tend to pad lists with filler.
+export const MAX_PLAN_STEPS = 6;
+
+// Greedy and short. The list is one step per line, so a blank line ends it.
+export const PLANNER_OPTIONS: GenerationOptions = {
+  ...DEFAULT_GENERATION_OPTIONS,
+  temperature: 0,
+  maxTokens: 160,
+  stopSequences: ['\n\n', '\nTask:', '###'],
+  systemPrompt:
+    'You plan tasks for an agent that controls an Android phone. Reply only with a numbered list of short steps, one per line.',
+};
+
+export function buildPlanPrompt(goal: string): string {
+  return [
+    `Break this phone task into at most ${MAX_PLAN_STEPS} ordered steps.`,
+    'Each step is one thing the agent can finish on its own, like "open Settings" or "tap Bluetooth". Don\'t add explanations.',
+    `Task: ${goal.trim()}`,
+    'Steps:',
+  ].join('\n');
+}
+
+// "1. open Settings", "2) tap Wi-Fi", "- go back", "Step 3: done"
+const LIST_MARKER = /^\s*(?:step\s*\d+\s*[:.)-]?|\d+\s*[.):-]|[-*•])\s*/i;
+
+/**
+ * Turns the model's list into sub-goals. Falls back to the whole goal as a
+ * single step when nothing usable comes back.
+ */
+export function parsePlan(text: string, goal: string): string[] {
+  const steps: string[] = [];
+  for (const line of text.split('\n')) {
+    const step = line
+      .replace(LIST_MARKER, '')
+      .trim()
+      .replace(/[.;]+$/, '');
+    if (step && step.toLowerCase() !== steps[steps.length - 1]?.toLowerCase()) {
+      steps.push(step);
+    }
+  }
+  return steps.length > 0 ? steps.slice(0, MAX_PLAN_STEPS) : [goal.trim()];
+}
+
+export function createPlanStep(goal: string): PlanStep {
+  return {id: createId('step'), goal, status: 'pending'};
+}
+
+export function createPlan(goal: string, subGoals: string[]): DevicePlan {
+  return {goal: goal.trim(), steps: subGoals.map(createPlanStep)};
+}
+
+export function setStepStatus(
+  plan: DevicePlan,
+  id: string,
+  status: PlanStep['status'],
+): DevicePlan {
+  return {
+    ...plan,
+    steps: plan.steps.map(step => (step.id === id ? {...step, status} : step)),
+  };
+}
+
+// Marks every step that hasn't started as skipped.
+export function skipRemaining(plan: DevicePlan): DevicePlan {
+  return {
+    ...plan,
+    steps: plan.steps.map(step =>
+      step.status === 'pending' ? {...step, status: 'skipped'} : step,
+    ),
+  };
+}
+
+// Back to all-pending, dropping steps the user blanked out.
+export function resetPlan(plan: DevicePlan): DevicePlan {
+  return {
+    ...plan,
+    steps: plan.steps
+      .filter(step => step.goal.trim())
+      .map(step => ({...step, goal: step.goal.trim(), status: 'pending'})),
+  };
+}
@@ -0,0 +1,132 @@
+import type {PromptTemplate, RunKind} from './types';
+import {createId} from './id';
+import {readJson, writeJson} from './storage';
+
+const USER_TEMPLATES_KEY = 'prompts.templates.v1';
+
+const VARIABLE = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+// Includes the examples from the README so they don't need retyping.
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'chat-cook',
+    name: 'Cooking question',
+    mode: 'chat',
+    category: 'Examples',
+    task: 'How do I cook {{dish}}?',
+  },
+  {
+    id: 'chat-explain',
+    name: 'Explain simply',
+    mode: 'chat',
+    category: 'Examples',
+    task: 'Explain {{topic}} to a ten-year-old.',
+  },
+  {
+    id: 'chat-summarize',
+    name: 'Summarize text',
+    mode: 'chat',
+    category: 'Writing',
+    task: 'Summarize the context in {{count}} bullet points.',
+    context: '{{text}}',
+  },
+  {
+    id: 'chat-rewrite',
+    name: 'Rewrite politely',
+    mode: 'chat',
+    category: 'Writing',
+    task: 'Rewrite the context as a polite {{kind}}.',
+    context: '{{text}}',
+  },
+  {
+    id: 'device-settings',
+    name: 'Open Settings',
+    mode: 'device',
+    category: 'Apps',
+    task: 'open Settings',
+  },
+  {
+    id: 'device-open-app',
+    name: 'Open an app',
+    mode: 'device',
+    category: 'Apps',
+    task: 'open {{app}}',
+  },
+  {
+    id: 'device-bluetooth',
+    name: 'Turn on Bluetooth',
+    mode: 'device',
+    category: 'Settings',
+    task: 'Open Settings and turn on Bluetooth',
+  },
+  {
+    id: 'device-toggle',
+    name: 'Turn on a setting',
+    mode: 'device',
+    category: 'Settings',
+    task: 'Open Settings and turn on {{setting}}',
+  },
+];
+
+export function loadUserTemplates(): Promise<PromptTemplate[]> {
+  return readJson<PromptTemplate[]>(USER_TEMPLATES_KEY, []);
+}
+
+export function saveUserTemplates(templates: PromptTemplate[]): Promise<void> {
+  return writeJson(USER_TEMPLATES_KEY, templates);
+}
+
+export function createTemplate(
+  fields: Omit<PromptTemplate, 'id' | 'builtIn'>,
+): PromptTemplate {
+  const context = fields.context?.trim();
+  return {
+    id: createId('template'),
+    name: fields.name.trim(),
+    mode: fields.mode,
+    category: fields.category.trim() || 'Saved',
+    task: fields.task.trim(),
+    ...(context ? {context} : {}),
+  };
+}
+
+// Placeholder names in order of first appearance across task and context.
+export function templateVariables(template: PromptTemplate): string[] {
+  const names: string[] = [];
+  const text = `${template.task}\n${template.context ?? ''}`;
+  for (const match of text.matchAll(VARIABLE)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+// Unfilled placeholders are left as they are so the user can spot them.
+export function fillTemplate(
+  text: string,
+  values: Record<string, string>,
+): string {
+  return text.replace(VARIABLE, (placeholder, name: string) =>
+    values[name]?.trim() ? values[name].trim() : placeholder,
+  );
+}
+
+// Templates for one mode, grouped by category in first-seen order.
+export function groupTemplates(
+  templates: PromptTemplate[],
+  mode: RunKind,
+): {category: string; templates: PromptTemplate[]}[] {
+  const groups: {category: string; templates: PromptTemplate[]}[] = [];
+  templates
+    .filter(template => template.mode === mode)
+    .forEach(template => {
+      const group = groups.find(g => g.category === template.category);
+      if (group) {
+        group.templates.push(template);
+      } else {
+        groups.push({category: template.category, templates: [template]});
+      }
+    });
+  return groups;
+}
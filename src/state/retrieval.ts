@@ -0,0 +1,231 @@
+import type {KnowledgeChunk, KnowledgeDocument, RetrievedChunk} from './types';
+import {estimateTokens} from './conversation';
+
+// ~150 tokens per passage, so a few fit next to the chat history.
+export const MAX_CHUNK_CHARS = 600;
+export const DEFAULT_RESULT_COUNT = 3;
+
+// Standard BM25 tuning.
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by do does for from has have how i if in ' +
+    'into is it its me my of on or so than that the their them then there ' +
+    'these they this to was we what when where which who why will with you your'
+  ).split(' '),
+);
+
+const HEADING = /^#{1,6}\s+(.*)$/;
+
+/**
+ * Lowercased search terms: letters and digits only, stop words and
+ * single characters dropped, plain plurals folded ("notes" → "note").
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(word =>
+      word.length > 3 && word.endsWith('s') && !word.endsWith('ss')
+        ? word.slice(0, -1)
+        : word,
+    );
+}
+
+// Splits a paragraph longer than `max` at sentence ends, or hard if needed.
+function splitLong(paragraph: string, max: number): string[] {
+  if (paragraph.length <= max) {
+    return [paragraph];
+  }
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of paragraph.match(/[^.!?]+[.!?]*\s*/g) ?? []) {
+    if (current && current.length + sentence.length > max) {
+      parts.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+    while (current.length > max) {
+      parts.push(current.slice(0, max).trim());
+      current = current.slice(max);
+    }
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+/**
+ * Cuts a note into passages of at most `max` characters. Paragraphs are kept
+ * whole where they fit, and a passage never spans two Markdown sections, so
+ * each one can be labelled with its heading.
+ */
+export function chunkDocument(
+  doc: KnowledgeDocument,
+  max = MAX_CHUNK_CHARS,
+): KnowledgeChunk[] {
+  const chunks: KnowledgeChunk[] = [];
+  let heading: string | undefined;
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push({
+        id: `${doc.id}#${chunks.length}`,
+        documentId: doc.id,
+        title: doc.title,
+        heading,
+        text: current.trim(),
+      });
+    }
+    current = '';
+  };
+
+  const paragraphs: string[] = [];
+  for (const block of doc.text.replace(/\r\n/g, '\n').split(/\n\s*\n/)) {
+    // A heading can sit directly on top of its first paragraph.
+    let buffer: string[] = [];
+    for (const line of block.split('\n')) {
+      if (HEADING.test(line.trim())) {
+        if (buffer.length) {
+          paragraphs.push(buffer.join('\n'));
+          buffer = [];
+        }
+        paragraphs.push(line.trim());
+      } else {
+        buffer.push(line);
+      }
+    }
+    if (buffer.length) {
+      paragraphs.push(buffer.join('\n'));
+    }
+  }
+
+  for (const paragraph of paragraphs) {
+    const match = HEADING.exec(paragraph);
+    if (match) {
+      flush();
+      heading = match[1].trim() || undefined;
+      continue;
+    }
+    for (const part of splitLong(paragraph.trim(), max)) {
+      if (current && current.length + part.length + 2 > max) {
+        flush();
+      }
+      current = current ? `${current}\n\n${part}` : part;
+    }
+  }
+  flush();
+  return chunks;
+}
+
+export interface SearchIndex {
+  chunks: KnowledgeChunk[];
+  termCounts: Map<string, number>[];
+  lengths: number[];
+  averageLength: number;
+  // Number of chunks containing each term.
+  documentFrequency: Map<string, number>;
+}
+
+export function buildIndex(documents: KnowledgeDocument[]): SearchIndex {
+  const chunks = documents.flatMap(doc => chunkDocument(doc));
+  const documentFrequency = new Map<string, number>();
+  const termCounts = chunks.map(chunk => {
+    // Title and heading words count too, so "wifi" finds the Wi-Fi note.
+    const terms = tokenize(
+      [chunk.title, chunk.heading ?? '', chunk.text].join(' '),
+    );
+    const counts = new Map<string, number>();
+    terms.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+    counts.forEach((_, term) =>
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1),
+    );
+    return counts;
+  });
+  const lengths = termCounts.map(counts =>
+    [...counts.values()].reduce((sum, count) => sum + count, 0),
+  );
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    chunks,
+    termCounts,
+    lengths,
+    averageLength: chunks.length > 0 ? total / chunks.length : 0,
+    documentFrequency,
+  };
+}
+
+/**
+ * Ranks passages against `query` with BM25 and returns the best `limit`.
+ * Passages sharing no term with the query are never returned.
+ */
+export function search(
+  index: SearchIndex,
+  query: string,
+  limit = DEFAULT_RESULT_COUNT,
+): RetrievedChunk[] {
+  const terms = [...new Set(tokenize(query))];
+  const count = index.chunks.length;
+  if (terms.length === 0 || count === 0) {
+    return [];
+  }
+  const scored: RetrievedChunk[] = [];
+  index.chunks.forEach((chunk, i) => {
+    const counts = index.termCounts[i];
+    const norm = 1 - B + (B * index.lengths[i]) / (index.averageLength || 1);
+    let score = 0;
+    for (const term of terms) {
+      const tf = counts.get(term);
+      if (!tf) {
+        continue;
+      }
+      const df = index.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+      score += (idf * tf * (K1 + 1)) / (tf + K1 * norm);
+    }
+    if (score > 0) {
+      scored.push({...chunk, score});
+    }
+  });
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+export function sourceLabel(chunk: KnowledgeChunk): string {
+  return chunk.heading ? `${chunk.title} › ${chunk.heading}` : chunk.title;
+}
+
+// Context section handed to the model, numbered to match the UI.
+export function formatSources(sources: RetrievedChunk[]): string {
+  if (sources.length === 0) {
+    return '';
+  }
+  return [
+    "Notes from the user's knowledge base (use them if relevant):",
+    ...sources.map(
+      (source, i) => `[${i + 1}] ${sourceLabel(source)}\n${source.text}`,
+    ),
+  ].join('\n\n');
+}
+
+/**
+ * The sources whose formatted section fits in `budget` tokens, dropping the
+ * lowest-scoring ones first. The rest keep their order.
+ */
+export function fitSources(
+  sources: RetrievedChunk[],
+  budget: number,
+): RetrievedChunk[] {
+  let kept = sources;
+  while (kept.length > 0 && estimateTokens(formatSources(kept)) > budget) {
+    const lowest = kept.reduce((min, source) =>
+      source.score < min.score ? source : min,
+    );
+    kept = kept.filter(source => source !== lowest);
+  }
+  return kept;
+}
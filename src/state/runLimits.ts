@@ -0,0 +1,53 @@
+import type {AgentRunLimits} from './types';
+
+// Mirrors RunLimits defaults in AgentKernelModule.kt.
+export const DEFAULT_RUN_LIMITS: AgentRunLimits = {
+  maxSteps: 10,
+  maxDurationMs: 45_000,
+  stepDelayMs: 1000,
+  maxElements: 8,
+  maxTextLength: 16,
+  decisionMaxTokens: 24,
+  decisionTemperature: 0,
+};
+
+// Larger models can afford more screen detail and slower steps.
+const MODEL_DEFAULTS: Record<string, Partial<AgentRunLimits>> = {
+  'qwen2.5-1.5b-instruct-q4_k_m': {
+    maxDurationMs: 90_000,
+    maxElements: 12,
+    maxTextLength: 24,
+  },
+  'lfm2.5-1.2b-instruct-q4_k_m': {
+    maxDurationMs: 60_000,
+    maxElements: 10,
+  },
+};
+
+// Same bounds the native side clamps to.
+export const RUN_LIMIT_RANGES: Record<keyof AgentRunLimits, [number, number]> =
+  {
+    maxSteps: [1, 50],
+    maxDurationMs: [5_000, 600_000],
+    stepDelayMs: [0, 10_000],
+    maxElements: [1, 40],
+    maxTextLength: [4, 80],
+    decisionMaxTokens: [8, 256],
+    decisionTemperature: [0, 2],
+  };
+
+export function getDefaultLimits(modelId: string): AgentRunLimits {
+  return {...DEFAULT_RUN_LIMITS, ...MODEL_DEFAULTS[modelId]};
+}
+
+export function clampLimits(limits: AgentRunLimits): AgentRunLimits {
+  const clamped = {...limits};
+  (Object.keys(RUN_LIMIT_RANGES) as (keyof AgentRunLimits)[]).forEach(key => {
+    const [min, max] = RUN_LIMIT_RANGES[key];
+    const value = Number.isFinite(limits[key])
+      ? limits[key]
+      : DEFAULT_RUN_LIMITS[key];
+    clamped[key] = Math.min(max, Math.max(min, value));
+  });
+  return clamped;
+}
@@ -0,0 +1,51 @@
+import {isKeyValueStoreAvailable, nativeStorage} from '../native/keyValueStore';
+
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export function createMemoryStorage(
+  initial: Record<string, string> = {},
+): StorageAdapter {
+  const data = new Map(Object.entries(initial));
+  return {
+    async getItem(key) {
+      return data.get(key) ?? null;
+    },
+    async setItem(key, value) {
+      data.set(key, value);
+    },
+    async removeItem(key) {
+      data.delete(key);
+    },
+  };
+}
+
+// Falls back to memory when the native module is missing (Jest, iOS).
+let adapter: StorageAdapter = isKeyValueStoreAvailable()
+  ? nativeStorage
+  : createMemoryStorage();
+
+export function getStorage(): StorageAdapter {
+  return adapter;
+}
+
+export function setStorageAdapter(next: StorageAdapter) {
+  adapter = next;
+}
+
+export async function readJson<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const raw = await adapter.getItem(key);
+    return raw == null ? fallback : (JSON.parse(raw) as T);
+  } catch (e) {
+    console.warn(`Failed to read ${key}:`, e);
+    return fallback;
+  }
+}
+
+export function writeJson(key: string, value: unknown): Promise<void> {
+  return adapter.setItem(key, JSON.stringify(value));
+}
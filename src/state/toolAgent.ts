@@ -0,0 +1,118 @@
+import type {
+  ChatTurn,
+  RetrievedChunk,
+  ToolInvocation,
+  ToolSettings,
+} from './types';
+import {buildContext, spareSectionTokens} from './conversation';
+import {fitSources, formatSources} from './retrieval';
+import {
+  describeInvocations,
+  describeTools,
+  parseToolCall,
+  visibleText,
+} from './tools';
+import type {ToolRegistry} from './tools';
+
+export const MAX_TOOL_TURNS = 8;
+
+export const DEFAULT_TOOL_SETTINGS: ToolSettings = {
+  enabled: false,
+  maxTurns: 4,
+  disabledTools: [],
+};
+
+// Cuts generation off right after a call so the model can't invent a result.
+export const TOOL_CALL_STOP = '</tool_call>';
+
+const FINAL_TURN_NOTE =
+  'Answer the user now using the tool results above. Do not call any more tools.';
+
+export function clampToolSettings(settings: ToolSettings): ToolSettings {
+  return {
+    enabled: settings.enabled,
+    maxTurns: Math.min(
+      Math.max(Math.round(settings.maxTurns), 1),
+      MAX_TOOL_TURNS,
+    ),
+    disabledTools: settings.disabledTools,
+  };
+}
+
+export interface ToolLoopOptions {
+  task: string;
+  context?: string;
+  // Knowledge base passages; each turn sends the best ones that fit.
+  sources?: RetrievedChunk[];
+  history: ChatTurn[];
+  registry: ToolRegistry;
+  maxTurns: number;
+  // Prompt tokens each turn's context must fit in (promptTokenBudget).
+  budget: number;
+  // Runs one model turn; resolves with its full output.
+  complete: (task: string, context: string, turn: number) => Promise<string>;
+  onInvocation?: (invocation: ToolInvocation) => void;
+}
+
+export interface ToolLoopResult {
+  answer: string;
+  invocations: ToolInvocation[];
+  // Model turns used, at most maxTurns.
+  turns: number;
+  // Passages sent with the turn that gave the answer.
+  sources: RetrievedChunk[];
+}
+
+/**
+ * Asks the model, runs the tool it calls and asks again with the result,
+ * until it answers without a call. The last allowed turn leaves the tools
+ * out of the prompt so the run always ends with an answer.
+ */
+export async function runToolLoop({
+  task,
+  context,
+  sources = [],
+  history,
+  registry,
+  maxTurns,
+  budget,
+  complete,
+  onInvocation,
+}: ToolLoopOptions): Promise<ToolLoopResult> {
+  const invocations: ToolInvocation[] = [];
+  for (let turn = 1; ; turn++) {
+    const last = turn >= maxTurns || registry.tools.length === 0;
+    const toolSections = [
+      last ? '' : describeTools(registry.tools),
+      describeInvocations(invocations),
+      last && invocations.length > 0 ? FINAL_TURN_NOTE : '',
+    ];
+    // Tool results grow each turn; passages give way to them.
+    const kept = fitSources(
+      sources,
+      spareSectionTokens(task, [context ?? '', ...toolSections], budget),
+    );
+    const output = await complete(
+      task,
+      buildContext(
+        history,
+        task,
+        [context ?? '', formatSources(kept), ...toolSections],
+        budget,
+      ),
+      turn,
+    );
+    const call = last ? null : parseToolCall(output);
+    if (!call) {
+      return {
+        answer: visibleText(output).trim(),
+        invocations,
+        turns: turn,
+        sources: kept,
+      };
+    }
+    const invocation = await registry.execute(call, turn);
+    invocations.push(invocation);
+    onInvocation?.(invocation);
+  }
+}
@@ -0,0 +1,206 @@
+import type {ToolInvocation} from './types';
+import {createId} from './id';
+import {firstJsonValue} from './jsonSchema';
+
+export type ToolParameterType = 'string' | 'number' | 'integer' | 'boolean';
+
+// The subset of JSON Schema the registry validates against.
+export interface ToolParameters {
+  type: 'object';
+  properties: Record<
+    string,
+    {type: ToolParameterType; description?: string; enum?: string[]}
+  >;
+  required?: string[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolParameters;
+  // Resolves with text for the model; throw to report a failure to it.
+  handler: (args: Record<string, unknown>) => Promise<string>;
+}
+
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolRegistry {
+  tools: ToolDefinition[];
+  get(name: string): ToolDefinition | undefined;
+  execute(call: ToolCall, turn: number): Promise<ToolInvocation>;
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Checks `args` against the schema. Numeric strings are accepted for number
+ * parameters since small models often quote them. Returns the coerced
+ * arguments, or an error message for the model.
+ */
+export function validateArguments(
+  parameters: ToolParameters,
+  args: Record<string, unknown>,
+): {args: Record<string, unknown>} | {error: string} {
+  const coerced: Record<string, unknown> = {};
+  for (const name of parameters.required ?? []) {
+    if (args[name] === undefined || args[name] === null || args[name] === '') {
+      return {error: `Missing argument "${name}"`};
+    }
+  }
+  for (const [name, value] of Object.entries(args)) {
+    const spec = parameters.properties[name];
+    if (!spec) {
+      return {error: `Unknown argument "${name}"`};
+    }
+    let next = value;
+    if (
+      (spec.type === 'number' || spec.type === 'integer') &&
+      typeof value === 'string' &&
+      value.trim() !== '' &&
+      !isNaN(Number(value))
+    ) {
+      next = Number(value);
+    }
+    const matches =
+      spec.type === 'integer'
+        ? Number.isInteger(next)
+        : typeof next === spec.type;
+    if (!matches) {
+      const article = spec.type === 'integer' ? 'an' : 'a';
+      return {error: `Argument "${name}" must be ${article} ${spec.type}`};
+    }
+    if (spec.enum && !spec.enum.includes(next as string)) {
+      return {
+        error: `Argument "${name}" must be one of ${spec.enum.join(', ')}`,
+      };
+    }
+    coerced[name] = next;
+  }
+  return {args: coerced};
+}
+
+export function createToolRegistry(tools: ToolDefinition[]): ToolRegistry {
+  const get = (name: string) => tools.find(tool => tool.name === name);
+  return {
+    tools,
+    get,
+    async execute(call, turn) {
+      const invocation = {
+        id: createId('tool'),
+        turn,
+        name: call.name,
+        arguments: call.arguments,
+      };
+      const tool = get(call.name);
+      if (!tool) {
+        return {
+          ...invocation,
+          ok: false,
+          output: `Unknown tool "${call.name}". Available: ${tools
+            .map(t => t.name)
+            .join(', ')}`,
+        };
+      }
+      const checked = validateArguments(tool.parameters, call.arguments);
+      if ('error' in checked) {
+        return {...invocation, ok: false, output: checked.error};
+      }
+      try {
+        return {
+          ...invocation,
+          ok: true,
+          output: await tool.handler(checked.args),
+        };
+      } catch (e) {
+        return {...invocation, ok: false, output: messageOf(e)};
+      }
+    },
+  };
+}
+
+// Prompt section listing the tools and how to call them.
+export function describeTools(tools: ToolDefinition[]): string {
+  const lines = tools.map(
+    tool =>
+      `- ${tool.name}: ${tool.description} Arguments: ${JSON.stringify(
+        tool.parameters.properties,
+      )}`,
+  );
+  return [
+    'You can use these tools:',
+    ...lines,
+    'To use a tool, reply with only:',
+    '<tool_call>{"name": "TOOL_NAME", "arguments": {...}}</tool_call>',
+    'Otherwise answer the user directly.',
+  ].join('\n');
+}
+
+// One line per call, e.g. `calculator({"expression":"2+2"}) -> 4`.
+export function formatInvocation(invocation: ToolInvocation): string {
+  return `${invocation.name}(${JSON.stringify(invocation.arguments)}) -> ${
+    invocation.ok ? '' : 'Error: '
+  }${invocation.output}`;
+}
+
+export function describeInvocations(invocations: ToolInvocation[]): string {
+  if (invocations.length === 0) {
+    return '';
+  }
+  return ['Tool results so far:', ...invocations.map(formatInvocation)].join(
+    '\n',
+  );
+}
+
+const TOOL_CALL_TAG = /<tool_call>([\s\S]*?)(?:<\/tool_call>|$)/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Finds a tool call in model output: a `<tool_call>` block (the closing tag
+ * may be cut off by a stop sequence), or a reply that is nothing but a
+ * `{"name", "arguments"}` object. Anything else is a final answer.
+ */
+export function parseToolCall(output: string): ToolCall | null {
+  const tagged = TOOL_CALL_TAG.exec(output);
+  const body = tagged ? tagged[1] : output.trim();
+  const json = firstJsonValue(body, '{');
+  if (!json || (!tagged && json !== body)) {
+    return null;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!isRecord(parsed)) {
+    return null;
+  }
+  const name = parsed.name ?? parsed.tool;
+  let args: unknown =
+    parsed.arguments ?? parsed.args ?? parsed.parameters ?? {};
+  if (typeof args === 'string') {
+    try {
+      args = JSON.parse(args);
+    } catch {
+      return null;
+    }
+  }
+  if (typeof name !== 'string' || !isRecord(args)) {
+    return null;
+  }
+  return {name, arguments: args};
+}
+
+// Streamed text up to where a tool call starts, for display.
+export function visibleText(output: string): string {
+  const index = output.indexOf('<tool_call>');
+  return index < 0 ? output : output.slice(0, index);
+}
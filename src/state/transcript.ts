@@ -0,0 +1,192 @@
+import type {AgentStep, ChatTurn, DeviceRunOutcome, RunMetrics} from './types';
+import {describeDecision} from './agentTimeline';
+import {OUTCOME_LABELS} from './deviceOutcome';
+import {formatMetrics} from './metrics';
+import {getModelLabel} from './models';
+
+// Identifies the JSON export; bump TRANSCRIPT_VERSION on breaking changes and
+// update docs/transcript-format.md.
+export const TRANSCRIPT_FORMAT = 'runanywhere-agent-transcript';
+export const TRANSCRIPT_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'text' | 'json';
+
+export type DeviceRunStatus =
+  | 'running'
+  | 'done'
+  | 'timed_out'
+  | 'error'
+  | 'stopped';
+
+interface TranscriptBase {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: typeof TRANSCRIPT_VERSION;
+  // ISO 8601; every other timestamp is epoch milliseconds.
+  exportedAt: string;
+  model: string;
+  metrics: RunMetrics | null;
+}
+
+export interface ChatTranscriptExport extends TranscriptBase {
+  kind: 'chat';
+  turns: Omit<ChatTurn, 'id'>[];
+}
+
+export interface DeviceRunExport extends TranscriptBase {
+  kind: 'device';
+  goal: string;
+  status: DeviceRunStatus;
+  // How the run ended in detail, e.g. 'gave_up'; null while running.
+  outcome: DeviceRunOutcome | null;
+  // Done/error message, e.g. "Goal achieved"; null while running.
+  statusMessage: string | null;
+  steps: AgentStep[];
+  log: string[];
+}
+
+export type TranscriptExport = ChatTranscriptExport | DeviceRunExport;
+
+function base(model: string, metrics: RunMetrics | null, now: number) {
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    model,
+    metrics,
+  } as const;
+}
+
+export function buildChatExport(
+  run: {turns: ChatTurn[]; model: string; metrics: RunMetrics | null},
+  now = Date.now(),
+): ChatTranscriptExport {
+  return {
+    ...base(run.model, run.metrics, now),
+    kind: 'chat',
+    turns: run.turns.map(({role, text, createdAt}) => ({
+      role,
+      text,
+      createdAt,
+    })),
+  };
+}
+
+export function buildDeviceExport(
+  run: {
+    goal: string;
+    model: string;
+    metrics: RunMetrics | null;
+    status: DeviceRunStatus;
+    outcome?: DeviceRunOutcome | null;
+    statusMessage: string | null;
+    steps: AgentStep[];
+    log: string[];
+  },
+  now = Date.now(),
+): DeviceRunExport {
+  return {
+    ...base(run.model, run.metrics, now),
+    kind: 'device',
+    goal: run.goal,
+    status: run.status,
+    outcome: run.outcome ?? null,
+    statusMessage: run.statusMessage,
+    steps: run.steps,
+    log: run.log,
+  };
+}
+
+function describeStep(step: AgentStep): string[] {
+  const lines: string[] = [];
+  if (step.elementCount !== undefined) {
+    lines.push(`Screen: ${step.elementCount} elements`);
+  }
+  lines.push(
+    `Decision: ${step.decision ? describeDecision(step.decision) : 'none'}${
+      step.heuristic ? ' (heuristic)' : ''
+    }`,
+  );
+  if (step.approval) {
+    lines.push(`Approval: ${step.approval}`);
+  }
+  lines.push(step.executedAt !== undefined ? 'Executed' : 'Not executed');
+  return lines;
+}
+
+function header(doc: TranscriptExport): string[] {
+  const lines = [
+    `Model: ${getModelLabel(doc.model)} (${doc.model})`,
+    `Exported: ${doc.exportedAt}`,
+  ];
+  if (doc.kind === 'device') {
+    lines.unshift(`Goal: ${doc.goal}`);
+    lines.push(
+      `Status: ${doc.outcome ? OUTCOME_LABELS[doc.outcome] : doc.status}${
+        doc.statusMessage ? ` (${doc.statusMessage})` : ''
+      }`,
+    );
+  }
+  if (doc.metrics) {
+    const stats = formatMetrics(doc.metrics);
+    if (stats.length > 0) {
+      lines.push(`Stats: ${stats.join(', ')}`);
+    }
+  }
+  return lines;
+}
+
+function title(doc: TranscriptExport): string {
+  return doc.kind === 'chat' ? 'LLM Chat transcript' : 'Device Agent run';
+}
+
+function toMarkdown(doc: TranscriptExport): string {
+  const out = [`# ${title(doc)}`, '', ...header(doc).map(line => `- ${line}`)];
+  if (doc.kind === 'chat') {
+    doc.turns.forEach(turn => {
+      out.push('', `## ${turn.role === 'user' ? 'User' : 'Assistant'}`, '');
+      out.push(turn.text);
+    });
+  } else {
+    out.push('', '## Steps');
+    doc.steps.forEach(step => {
+      out.push('', `### Step ${step.step}`, '');
+      out.push(...describeStep(step).map(line => `- ${line}`));
+      if (step.rawDecision) {
+        out.push('', '```json', step.rawDecision, '```');
+      }
+    });
+    out.push('', '## Log', '', '```', ...doc.log, '```');
+  }
+  return `${out.join('\n')}\n`;
+}
+
+function toPlainText(doc: TranscriptExport): string {
+  const out = [title(doc), ...header(doc)];
+  if (doc.kind === 'chat') {
+    doc.turns.forEach(turn => {
+      out.push('', `${turn.role === 'user' ? 'User' : 'Assistant'}:`);
+      out.push(turn.text);
+    });
+  } else {
+    doc.steps.forEach(step => {
+      out.push('', `Step ${step.step}`);
+      out.push(...describeStep(step).map(line => `  ${line}`));
+    });
+    out.push('', 'Log:', ...doc.log);
+  }
+  return `${out.join('\n')}\n`;
+}
+
+export function renderTranscript(
+  doc: TranscriptExport,
+  format: ExportFormat,
+): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(doc);
+    case 'text':
+      return toPlainText(doc);
+    case 'json':
+      return JSON.stringify(doc, null, 2);
+  }
+}
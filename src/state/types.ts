@@ -1,20 +1,418 @@
 export type AgentState =
   | {phase: 'idle'}
-  | {phase: 'downloading'; progress: number}
+  | {phase: 'downloading'; progress: number; download?: ModelDownload}
+  // The model download found no network connection.
+  | {phase: 'offline'}
   | {phase: 'loading'}
   | {phase: 'running'; partialOutput: string}
   | {phase: 'done'; finalOutput: string}
+  // Stopped by the user; whatever streamed is kept as the answer.
+  | {phase: 'cancelled'}
+  | {phase: 'timed_out'; timeoutMs: number}
   | {phase: 'error'; message: string};
 
 export type AgentEvent =
-  | {type: 'download_progress'; progress: number}
+  | {
+      type: 'download_progress';
+      progress: number;
+      modelId?: string;
+      bytesDownloaded?: number;
+      totalBytes?: number;
+    }
   | {type: 'token'; text: string}
   | {type: 'done'}
   | {type: 'error'; message: string};
 
+// One tool call made during a tool-calling chat run.
+export interface ToolInvocation {
+  id: string;
+  // Model turn (1-based) that asked for the call.
+  turn: number;
+  name: string;
+  arguments: Record<string, unknown>;
+  // Tool output, or the error message fed back to the model.
+  output: string;
+  ok: boolean;
+}
+
+export interface ToolSettings {
+  // Chat runs through the tool-calling loop instead of a single completion.
+  enabled: boolean;
+  // Model turns per question, counting the final answer.
+  maxTurns: number;
+  // Names of built-in tools left out of the prompt.
+  disabledTools: string[];
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  // Short display name, e.g. "Qwen2.5 1.5B (Best)".
+  label: string;
+  downloadSizeBytes: number;
+  sizeOnDiskBytes: number;
+  memoryRequirement: number;
+  // Tokens of prompt plus answer the model is run with.
+  contextLength: number;
+  downloaded: boolean;
+  downloading: boolean;
+  loaded: boolean;
+}
+
+export type DownloadStatus =
+  | 'downloading'
+  // Stopped by the user. Starting it again restarts the transfer from zero.
+  | 'paused'
+  // Waiting to try again after a transient network failure.
+  | 'retrying'
+  | 'offline'
+  | 'failed';
+
+// A model download tracked by src/state/downloads.ts. Finished and cancelled
+// downloads are dropped.
+export interface ModelDownload {
+  modelId: string;
+  status: DownloadStatus;
+  // 0-100.
+  progress: number;
+  bytesDownloaded: number;
+  // True when bytesDownloaded (and so the speed) is derived from `progress`
+  // and the size rather than reported by native.
+  bytesEstimated: boolean;
+  // 0 when the size isn't known.
+  totalBytes: number;
+  // Smoothed over recent progress events; 0 until measured.
+  bytesPerSecond: number;
+  // At the current speed; null when unknown.
+  etaSeconds: number | null;
+  // 1-based; goes up with each retry.
+  attempt: number;
+  // While retrying: when the next attempt starts.
+  retryAt?: number;
+  // While retrying or after failing: what went wrong.
+  message?: string;
+}
+
+export interface GenerationOptions {
+  temperature: number;
+  topP: number;
+  maxTokens: number;
+  stopSequences: string[];
+  // Empty string sends no system prompt at all.
+  systemPrompt: string;
+}
+
+export type JsonSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null';
+
+// The subset of JSON Schema that structured chat output is checked against.
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface StructuredOutputSettings {
+  enabled: boolean;
+  // Schema source as typed, so a half-edited schema survives restarts.
+  schema: string;
+}
+
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  options: GenerationOptions;
+  builtIn?: boolean;
+}
+
 export interface RunAnywhereConfig {
   apiKey: string;
   endpoint: string;
   model?: string;
+  // Milliseconds a single generation may run before it is cancelled.
   timeout?: number;
 }
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatTurn {
+  id: string;
+  role: ChatRole;
+  text: string;
+  createdAt: number;
+  // Assistant turns only: knowledge base passages given to the model.
+  sources?: RetrievedChunk[];
+  // Assistant turns in structured mode: the value that passed the schema.
+  structured?: unknown;
+}
+
+// A note imported into the on-device knowledge base.
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  text: string;
+  addedAt: number;
+}
+
+export interface KnowledgeChunk {
+  id: string;
+  documentId: string;
+  title: string;
+  // Nearest Markdown heading above the passage, if any.
+  heading?: string;
+  text: string;
+}
+
+export interface RetrievedChunk extends KnowledgeChunk {
+  // BM25 relevance to the task; only comparable within one search.
+  score: number;
+}
+
+export type RunKind = 'chat' | 'device';
+
+// Saved Task/Context pair. `{{name}}` placeholders are filled in before use.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  mode: RunKind;
+  category: string;
+  task: string;
+  context?: string;
+  builtIn?: boolean;
+}
+
+export type RunOutcome = 'done' | 'error' | 'stopped';
+
+// How a Device Agent run ended, in more detail than RunOutcome: a run that
+// hit its step limit is 'gave_up', not 'done'.
+export type DeviceRunOutcome =
+  | 'succeeded'
+  | 'gave_up'
+  | 'timed_out'
+  | 'cancelled'
+  | 'error';
+
+// When a queued Device Agent goal should start. Goals without a schedule run
+// as soon as the queue reaches them.
+export type GoalSchedule =
+  | {kind: 'at'; at: number}
+  | {kind: 'daily'; hour: number; minute: number};
+
+export type QueuedGoalStatus = 'pending' | 'running' | RunOutcome;
+
+export interface QueuedGoal {
+  id: string;
+  goal: string;
+  schedule?: GoalSchedule;
+  // Daily goals go back to 'pending' after each run.
+  status: QueuedGoalStatus;
+  // Earliest start time; missing means immediately.
+  dueAt?: number;
+  lastOutcome?: RunOutcome;
+  lastRunAt?: number;
+}
+
+// One sub-goal of a planned Device Agent goal. 'skipped' steps were never
+// started because an earlier step didn't finish.
+export interface PlanStep {
+  id: string;
+  goal: string;
+  status: 'pending' | 'running' | 'skipped' | RunOutcome;
+}
+
+export interface DevicePlan {
+  goal: string;
+  steps: PlanStep[];
+}
+
+// Timings for one run. Null means the phase didn't happen (e.g. no download
+// because the model was already on disk) or there's not enough data yet.
+export interface RunMetrics {
+  downloadMs: number | null;
+  loadMs: number | null;
+  // Streaming runs only; Device Agent decisions are not streamed.
+  timeToFirstTokenMs: number | null;
+  tokensPerSecond: number | null;
+  totalTokens: number;
+  // Device Agent only: screen observed → decision parsed, one per step.
+  decisionLatenciesMs: number[];
+}
+
+export interface RunRecord {
+  id: string;
+  kind: RunKind;
+  goal: string;
+  model: string;
+  context?: string;
+  output: string;
+  finalPhase: RunOutcome;
+  startedAt: number;
+  durationMs: number;
+  // Missing on runs recorded before metrics were collected.
+  metrics?: RunMetrics;
+  // Device runs only; missing on runs recorded before outcomes were tracked.
+  outcome?: DeviceRunOutcome;
+  // Device runs only: 1 unless verification failed and the goal was retried.
+  attempts?: number;
+  // Chat runs in structured mode: the value that passed the schema.
+  structured?: unknown;
+}
+
+export type DeviceAction =
+  | 'tap'
+  | 'type'
+  | 'swipe'
+  | 'back'
+  | 'home'
+  | 'done'
+  | 'wait'
+  | 'unknown';
+
+export type SwipeDirection = 'up' | 'down' | 'left' | 'right';
+
+export interface AgentDecision {
+  action: DeviceAction;
+  index?: number;
+  text?: string;
+  direction?: SwipeDirection;
+}
+
+export type AgentDoneReason =
+  | 'shortcut'
+  | 'goal_achieved'
+  | 'max_steps'
+  | 'max_duration'
+  | 'aborted'
+  | 'verification_failed';
+
+export type AgentErrorReason =
+  | 'package_not_found'
+  | 'app_not_found'
+  | 'exception';
+
+export type ApprovalVerdict = 'approve' | 'edit' | 'skip' | 'abort';
+
+export interface SupervisionOptions {
+  enabled: boolean;
+  // Actions executed without asking, e.g. ['back', 'swipe'].
+  autoApprove: DeviceAction[];
+}
+
+export interface AgentRunLimits {
+  maxSteps: number;
+  maxDurationMs: number;
+  stepDelayMs: number;
+  // Passed to getCompactScreenState.
+  maxElements: number;
+  maxTextLength: number;
+  decisionMaxTokens: number;
+  decisionTemperature: number;
+}
+
+// Checking the final screen against the goal, and retrying when it fails.
+export interface VerificationOptions {
+  enabled: boolean;
+  // Extra attempts after the first; 0 only reports the failure.
+  maxRetries: number;
+  // Wait before the first retry; doubles for each one after that.
+  backoffMs: number;
+}
+
+export interface AgentStartOptions {
+  supervision?: SupervisionOptions;
+  limits?: AgentRunLimits;
+  // Ask the model whether the final screen shows the goal done.
+  verify?: boolean;
+}
+
+export interface PendingApproval {
+  requestId: string;
+  step: number;
+  raw: string;
+  decision: AgentDecision;
+}
+
+// Structured AGENT_EVENT payloads emitted by AgentKernelModule.
+export type DeviceAgentEvent =
+  | {type: 'step_started'; timestamp: number; step: number; maxSteps: number}
+  | {
+      type: 'screen_observed';
+      timestamp: number;
+      step: number;
+      screen: string;
+      elementCount: number;
+    }
+  | {
+      type: 'decision_parsed';
+      timestamp: number;
+      step: number;
+      raw: string;
+      decision: AgentDecision;
+      heuristic: boolean;
+      // Tokens the model generated for this decision.
+      tokens: number;
+    }
+  | {
+      type: 'action_executed';
+      timestamp: number;
+      step: number;
+      action: DeviceAction;
+    }
+  | ({type: 'approval_requested'; timestamp: number} & PendingApproval)
+  | {
+      type: 'approval_resolved';
+      timestamp: number;
+      step: number;
+      verdict: ApprovalVerdict;
+    }
+  | {type: 'download_progress'; timestamp: number; progress: number}
+  | {
+      type: 'model_loaded';
+      timestamp: number;
+      modelId: string;
+      loadMs: number;
+      // Only set when the model had to be downloaded first.
+      downloadMs?: number;
+    }
+  | {
+      type: 'verification';
+      timestamp: number;
+      passed: boolean;
+      // Model reply to the verification prompt.
+      raw: string;
+    }
+  | {type: 'done'; timestamp: number; reason: AgentDoneReason; message: string}
+  | {
+      type: 'error';
+      timestamp: number;
+      reason: AgentErrorReason;
+      message: string;
+    };
+
+export interface AgentStep {
+  step: number;
+  startedAt: number;
+  screen?: string;
+  elementCount?: number;
+  rawDecision?: string;
+  decision?: AgentDecision;
+  heuristic?: boolean;
+  approval?: ApprovalVerdict | 'pending';
+  executedAt?: number;
+}
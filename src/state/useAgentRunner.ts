@@ -1,54 +1,263 @@
-import {useState, useCallback, useRef, useEffect} from 'react';
-import type {AgentEvent, AgentState} from './types';
+import {useState, useCallback, useRef, useEffect, useMemo} from 'react';
+import type {
+  AgentEvent,
+  AgentState,
+  GenerationOptions,
+  JsonSchema,
+  ModelDownload,
+  RetrievedChunk,
+  RunAnywhereConfig,
+  RunMetrics,
+  RunOutcome,
+  StructuredOutputSettings,
+} from './types';
 import {
-  cancelRun,
-  downloadModel,
-  initialize,
-  loadModel,
-  runAgent,
-  subscribe,
-} from '../native/runanywhere';
-
-const MODEL_ID = 'smollm2-360m-instruct-q8_0';
-const API_KEY = '';
-const ENDPOINT = '';
-
-function getTodayString() {
-  return new Date().toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+  buildContext,
+  createTurn,
+  estimateTokens,
+  promptTokenBudget,
+  spareSectionTokens,
+} from './conversation';
+import {recordRun} from './history';
+import {retrieve} from './knowledge';
+import {fitSources, formatSources} from './retrieval';
+import {getContextLength} from './models';
+import {createFrameBatcher} from './frameBatcher';
+import {isNoNetwork, subscribeDownloads} from './downloads';
+import {formatDate} from './builtInTools';
+import {createMetricsRecorder} from './metrics';
+import type {MetricsRecorder} from './metrics';
+import {ensureModelLoaded, getModelSelection} from './modelSelection';
+import {DEFAULT_GENERATION_OPTIONS} from './generationPresets';
+import {
+  DEFAULT_STRUCTURED_OUTPUT,
+  STRUCTURED_REPAIR_PASSES,
+  buildRepairPrompt,
+  parseSchema,
+  parseStructuredOutput,
+} from './jsonSchema';
+import {readJson, writeJson} from './storage';
+import {useChatTurns} from './useChatTurns';
+import type {ChatTurns} from './useChatTurns';
+import {initialize, runAgent, subscribe} from '../native/runanywhere';
+import {isRunAborted} from '../native/cancellation';
+
+const CONFIG: RunAnywhereConfig = {
+  apiKey: '',
+  endpoint: '',
+  timeout: 120_000,
+};
+const STRUCTURED_KEY = 'chat.structured.v1';
+
+// A structured-mode run, kept so a repair pass can re-ask with the same inputs.
+interface SchemaRun {
+  schema: JsonSchema;
+  signal: AbortSignal;
+  task: string;
+  context: string;
+  options: GenerationOptions;
+  repairsLeft: number;
 }
 
-export function useAgentRunner() {
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+// Pass `conversation` to share the transcript with useToolAgent.
+export function useAgentRunner(conversation?: ChatTurns) {
+  const ownTurns = useChatTurns();
+  const {turns, getTurns, appendTurn, clearTurns} = conversation ?? ownTurns;
   const [state, setState] = useState<AgentState>({phase: 'idle'});
+  const [metrics, setMetrics] = useState<RunMetrics | null>(null);
+  const [structured, setStructuredState] = useState<StructuredOutputSettings>(
+    DEFAULT_STRUCTURED_OUTPUT,
+  );
+  const structuredRef = useRef(DEFAULT_STRUCTURED_OUTPUT);
+  const schemaRunRef = useRef<SchemaRun | null>(null);
   const mountedRef = useRef(true);
   const outputRef = useRef('');
   const unsubscribeRef = useRef<(() => void) | null>(null);
-  const modelReadyRef = useRef(false);
+  // Aborted by stop(); replaced for every run.
+  const controllerRef = useRef<AbortController | null>(null);
+  const metricsRef = useRef<MetricsRecorder | null>(null);
+  // Knowledge base passages given to the model for the current answer.
+  const sourcesRef = useRef<RetrievedChunk[]>([]);
+  const runRef = useRef<{
+    task: string;
+    context?: string;
+    model: string;
+    startedAt: number;
+  } | null>(null);
+
+  // Tokens arrive far faster than the screen refreshes; publish the
+  // accumulated output at most once per frame.
+  const tokenBatcher = useMemo(
+    () =>
+      createFrameBatcher(() => {
+        if (mountedRef.current) {
+          setState({phase: 'running', partialOutput: outputRef.current});
+          setMetrics(metricsRef.current?.snapshot() ?? null);
+        }
+      }),
+    [],
+  );
 
   const cleanup = useCallback(() => {
+    tokenBatcher.cancel();
+    schemaRunRef.current = null;
     if (unsubscribeRef.current) {
       unsubscribeRef.current();
       unsubscribeRef.current = null;
     }
-  }, []);
+  }, [tokenBatcher]);
 
   useEffect(() => {
     mountedRef.current = true;
+    readJson(STRUCTURED_KEY, DEFAULT_STRUCTURED_OUTPUT).then(stored => {
+      structuredRef.current = stored;
+      if (mountedRef.current) {
+        setStructuredState(stored);
+      }
+    });
     return () => {
       mountedRef.current = false;
       cleanup();
+      controllerRef.current?.abort();
     };
   }, [cleanup]);
 
+  const setStructured = useCallback((next: StructuredOutputSettings) => {
+    structuredRef.current = next;
+    setStructuredState(next);
+    writeJson(STRUCTURED_KEY, next).catch(e =>
+      console.warn('Failed to save structured output setting:', e),
+    );
+  }, []);
+
+  // Saves the active run to history; later calls for the same run are no-ops.
+  const finishRun = useCallback((
+    outcome: RunOutcome,
+    fallback = '',
+    structuredValue?: unknown,
+  ) => {
+    const run = runRef.current;
+    runRef.current = null;
+    if (!run) {
+      return;
+    }
+    const runMetrics = metricsRef.current?.snapshot();
+    if (runMetrics) {
+      setMetrics(runMetrics);
+    }
+    recordRun({
+      kind: 'chat',
+      goal: run.task,
+      model: run.model,
+      context: run.context,
+      output: outputRef.current || fallback,
+      finalPhase: outcome,
+      startedAt: run.startedAt,
+      durationMs: Date.now() - run.startedAt,
+      metrics: runMetrics,
+      structured: structuredValue,
+    }).catch(e => console.warn('Failed to record run:', e));
+  }, []);
+
+  // Keep whatever was streamed so far so the next question has the context.
+  const commitPartialOutput = useCallback((structuredValue?: unknown) => {
+    const text = outputRef.current.trim();
+    outputRef.current = '';
+    if (text) {
+      const turn = createTurn('assistant', text, sourcesRef.current);
+      appendTurn(
+        structuredValue === undefined
+          ? turn
+          : {...turn, structured: structuredValue},
+      );
+    }
+  }, [appendTurn]);
+
+  // A rejected start or repair call. Stop has settled a cancelled run
+  // already; anything else, including a failed cancel, ends it here.
+  const failRun = useCallback((error: unknown) => {
+    if (!mountedRef.current || isRunAborted(error, 'cancelled')) {
+      return;
+    }
+    if (isNoNetwork(error)) {
+      setState({phase: 'offline'});
+      finishRun('error', 'Error: No network connection');
+      cleanup();
+      return;
+    }
+    if (isRunAborted(error, 'timed_out')) {
+      if (!runRef.current) {
+        return;
+      }
+      setState({phase: 'timed_out', timeoutMs: error.timeoutMs ?? 0});
+      finishRun('error', error.message);
+      commitPartialOutput();
+      cleanup();
+      return;
+    }
+    const message = messageOf(error);
+    setState({phase: 'error', message});
+    finishRun('error', `Error: ${message}`);
+    cleanup();
+  }, [cleanup, commitPartialOutput, finishRun]);
+
+  // Structured mode: validate the finished output, asking the model to fix
+  // it while repair passes remain.
+  const settleStructured = useCallback((run: SchemaRun) => {
+    const result = parseStructuredOutput(outputRef.current, run.schema);
+    if (!result.ok && run.repairsLeft > 0) {
+      run.repairsLeft--;
+      const previous = outputRef.current;
+      outputRef.current = '';
+      tokenBatcher.cancel();
+      setState({phase: 'running', partialOutput: ''});
+      const prompt = buildRepairPrompt(
+        run.task,
+        previous,
+        result.errors,
+        run.schema,
+      );
+      runAgent(prompt, run.context, run.options, run.schema, {
+        signal: run.signal,
+        timeoutMs: CONFIG.timeout,
+      }).catch(failRun);
+      return;
+    }
+    if (result.ok) {
+      outputRef.current = JSON.stringify(result.value, null, 2);
+      setState({phase: 'done', finalOutput: outputRef.current});
+      finishRun('done', '', result.value);
+      commitPartialOutput(result.value);
+    } else {
+      const message = `Output doesn't match the schema: ${result.errors[0]}`;
+      setState({phase: 'error', message});
+      finishRun('error', `Error: ${message}`);
+      commitPartialOutput();
+    }
+    cleanup();
+  }, [cleanup, commitPartialOutput, failRun, finishRun, tokenBatcher]);
+
+  // Ends the run at once; aborting then cancels the native generation, and
+  // failRun reports it if that fails.
   const stop = useCallback(() => {
+    const active = runRef.current !== null;
     cleanup();
-    cancelRun().catch(() => null);
+    finishRun('stopped');
+    commitPartialOutput();
+    setState(active ? {phase: 'cancelled'} : {phase: 'idle'});
+    controllerRef.current?.abort();
+  }, [cleanup, commitPartialOutput, finishRun]);
+
+  const clearConversation = useCallback(() => {
+    clearTurns();
+    outputRef.current = '';
+    setMetrics(null);
     setState({phase: 'idle'});
-  }, [cleanup]);
+  }, [clearTurns]);
 
   const handleEvent = useCallback((event: AgentEvent) => {
     if (!mountedRef.current) {
@@ -56,61 +265,180 @@ export function useAgentRunner() {
     }
 
     switch (event.type) {
-      case 'download_progress':
-        setState({phase: 'downloading', progress: event.progress});
-        break;
       case 'token':
         outputRef.current += event.text;
-        setState({phase: 'running', partialOutput: outputRef.current});
+        metricsRef.current?.token();
+        tokenBatcher.schedule();
         break;
       case 'done':
+        if (schemaRunRef.current) {
+          settleStructured(schemaRunRef.current);
+          break;
+        }
         setState({phase: 'done', finalOutput: outputRef.current});
+        finishRun('done');
+        commitPartialOutput();
         cleanup();
         break;
       case 'error':
         setState({phase: 'error', message: event.message});
+        finishRun('error', `Error: ${event.message}`);
+        commitPartialOutput();
         cleanup();
         break;
       default:
         break;
     }
-  }, [cleanup]);
+  }, [cleanup, commitPartialOutput, finishRun, settleStructured, tokenBatcher]);
 
-  const start = useCallback(async (task: string, context?: string) => {
+  // Download progress comes from the download manager, which tracks speed,
+  // pauses and retries; other models may be downloading in parallel.
+  const handleDownloads = useCallback(
+    (downloads: Record<string, ModelDownload>) => {
+      const download = downloads[getModelSelection().activeModelId];
+      if (
+        !mountedRef.current ||
+        !download ||
+        download.status === 'failed' ||
+        download.status === 'offline'
+      ) {
+        return;
+      }
+      setState(current =>
+        current.phase === 'downloading'
+          ? {phase: 'downloading', progress: download.progress, download}
+          : current,
+      );
+    },
+    [],
+  );
+
+  const start = useCallback(async (
+    task: string,
+    context?: string,
+    options?: GenerationOptions,
+  ) => {
     cleanup();
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const control = {signal: controller.signal, timeoutMs: CONFIG.timeout};
     outputRef.current = '';
+    sourcesRef.current = [];
+    const history = getTurns();
+    appendTurn(createTurn('user', task));
+    runRef.current = {
+      task,
+      context,
+      model: getModelSelection().activeModelId,
+      startedAt: Date.now(),
+    };
+    const recorder = createMetricsRecorder();
+    metricsRef.current = recorder;
+    setMetrics(null);
     setState({phase: 'downloading', progress: 0});
-    unsubscribeRef.current = subscribe(handleEvent);
+    const unsubscribeEvents = subscribe(handleEvent);
+    const unsubscribeDownloads = subscribeDownloads(handleDownloads);
+    unsubscribeRef.current = () => {
+      unsubscribeEvents();
+      unsubscribeDownloads();
+    };
 
     try {
-      await initialize(API_KEY, ENDPOINT);
-
-      if (!modelReadyRef.current) {
-        await downloadModel(MODEL_ID);
-        if (!mountedRef.current) {
-          return;
+      let schema: JsonSchema | undefined;
+      if (structuredRef.current.enabled) {
+        const parsed = parseSchema(structuredRef.current.schema);
+        if ('error' in parsed) {
+          throw new Error(`Invalid JSON schema: ${parsed.error}`);
         }
-        setState({phase: 'loading'});
-        await loadModel(MODEL_ID);
-        modelReadyRef.current = true;
-      } else {
-        setState({phase: 'loading'});
+        schema = parsed.schema;
       }
 
-      const today = getTodayString();
+      await initialize(CONFIG.apiKey, CONFIG.endpoint);
+
+      // Reloads when the selection changed since the last run.
+      const modelId = await ensureModelLoaded({
+        onDownloading: recorder.downloadStarted,
+        onLoading: () => {
+          recorder.loadStarted();
+          if (mountedRef.current) {
+            setState({phase: 'loading'});
+          }
+        },
+      });
+      recorder.modelReady();
+      if (!mountedRef.current || controller.signal.aborted) {
+        return;
+      }
+      setMetrics(recorder.snapshot());
+      if (runRef.current) {
+        runRef.current.model = modelId;
+      }
+      setState({phase: 'loading'});
+
+      // Tool mode (useToolAgent) asks the current_datetime tool instead.
+      const today = formatDate();
       const dateContext = `Today's date is ${today}.`;
-      const finalContext = context
-        ? `${context}\n\n${dateContext}`
-        : dateContext;
+      // The SDK adds the schema to the prompt in structured mode.
+      const budget =
+        promptTokenBudget(
+          getContextLength(modelId),
+          options ?? DEFAULT_GENERATION_OPTIONS,
+        ) - (schema ? estimateTokens(JSON.stringify(schema)) : 0);
+      // Only the best-scoring passages that fit are sent, and listed.
+      const sources = fitSources(
+        await retrieve(task),
+        spareSectionTokens(task, [context ?? '', dateContext], budget),
+      );
+      sourcesRef.current = sources;
+      const finalContext = buildContext(
+        history,
+        task,
+        [context ?? '', formatSources(sources), dateContext],
+        budget,
+      );
 
-      await runAgent(task, finalContext);
+      if (!schema) {
+        await runAgent(task, finalContext, options, undefined, control);
+        return;
+      }
+      // Paragraph-break stop sequences would cut pretty-printed JSON short.
+      const schemaOptions = {
+        ...(options ?? DEFAULT_GENERATION_OPTIONS),
+        stopSequences: [],
+      };
+      schemaRunRef.current = {
+        schema,
+        signal: controller.signal,
+        task,
+        context: finalContext,
+        options: schemaOptions,
+        repairsLeft: STRUCTURED_REPAIR_PASSES,
+      };
+      await runAgent(task, finalContext, schemaOptions, schema, control);
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : 'Unknown error';
-      setState({phase: 'error', message});
-      cleanup();
+      // A newer run owns the state now.
+      if (controllerRef.current === controller) {
+        failRun(error);
+      }
     }
-  }, [cleanup, handleEvent]);
+  }, [
+    appendTurn,
+    cleanup,
+    failRun,
+    getTurns,
+    handleDownloads,
+    handleEvent,
+  ]);
 
-  return {state, start, stop};
+  return {
+    state,
+    turns,
+    metrics,
+    start,
+    stop,
+    clearConversation,
+    structured,
+    setStructured,
+  };
 }
@@ -0,0 +1,202 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {
+  BENCHMARK_OPTIONS,
+  DEFAULT_SUITE,
+  createPrompt,
+  loadSuite,
+  saveSuite,
+} from './benchmark';
+import type {
+  BenchmarkPrompt,
+  BenchmarkReport,
+  BenchmarkResult,
+} from './benchmark';
+import {runPrompt} from './completion';
+import type {PromptRun} from './completion';
+import {createMetricsRecorder} from './metrics';
+import {ensureModelLoaded} from './modelSelection';
+
+export interface BenchmarkProgress {
+  modelId: string;
+  promptId: string;
+  phase: 'loading' | 'running';
+  completed: number;
+  total: number;
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+export function useBenchmark() {
+  const [suite, setSuiteState] = useState<BenchmarkPrompt[]>(DEFAULT_SUITE);
+  const [report, setReport] = useState<BenchmarkReport | null>(null);
+  const [progress, setProgress] = useState<BenchmarkProgress | null>(null);
+  const suiteRef = useRef<BenchmarkPrompt[]>(DEFAULT_SUITE);
+  const mountedRef = useRef(true);
+  const runningRef = useRef(false);
+  const cancelledRef = useRef(false);
+  const promptRunRef = useRef<PromptRun | null>(null);
+
+  useEffect(() => {
+    loadSuite().then(stored => {
+      suiteRef.current = stored;
+      setSuiteState(stored);
+    });
+  }, []);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+    promptRunRef.current?.cancel();
+  }, []);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      cancel();
+    };
+  }, [cancel]);
+
+  const setSuite = useCallback((next: BenchmarkPrompt[]) => {
+    suiteRef.current = next;
+    setSuiteState(next);
+    saveSuite(next).catch(e => console.warn('Failed to save suite:', e));
+  }, []);
+
+  const addPrompt = useCallback(
+    (text: string) => {
+      if (text.trim()) {
+        setSuite([...suiteRef.current, createPrompt(text)]);
+      }
+    },
+    [setSuite],
+  );
+
+  const removePrompt = useCallback(
+    (id: string) => {
+      setSuite(suiteRef.current.filter(entry => entry.id !== id));
+    },
+    [setSuite],
+  );
+
+  const resetSuite = useCallback(() => setSuite(DEFAULT_SUITE), [setSuite]);
+
+  /**
+   * Runs every prompt of the suite on each model in turn. The first prompt of
+   * a model pays for its download and load, which its metrics record.
+   */
+  const run = useCallback(async (modelIds: string[]) => {
+    if (runningRef.current) {
+      return;
+    }
+    runningRef.current = true;
+    cancelledRef.current = false;
+    const prompts = suiteRef.current;
+    const total = modelIds.length * prompts.length;
+    let current: BenchmarkReport = {
+      startedAt: Date.now(),
+      options: BENCHMARK_OPTIONS,
+      models: modelIds,
+      suite: prompts,
+      results: [],
+    };
+    setReport(current);
+
+    const addResult = (result: BenchmarkResult) => {
+      current = {...current, results: [...current.results, result]};
+      if (mountedRef.current) {
+        setReport(current);
+      }
+    };
+    const showProgress = (next: BenchmarkProgress) => {
+      if (mountedRef.current) {
+        setProgress(next);
+      }
+    };
+
+    for (const modelId of modelIds) {
+      let loadError: string | null = null;
+      for (const entry of prompts) {
+        if (cancelledRef.current) {
+          break;
+        }
+        const recorder = createMetricsRecorder();
+        const base = {
+          modelId,
+          promptId: entry.id,
+          completed: current.results.length,
+          total,
+        };
+        if (loadError === null && entry === prompts[0]) {
+          showProgress({...base, phase: 'loading'});
+          try {
+            await ensureModelLoaded({
+              modelId,
+              onDownloading: recorder.downloadStarted,
+              onLoading: recorder.loadStarted,
+            });
+          } catch (e) {
+            loadError = messageOf(e);
+          }
+        }
+        if (loadError !== null) {
+          addResult({
+            modelId,
+            promptId: entry.id,
+            output: '',
+            metrics: recorder.snapshot(),
+            error: loadError,
+          });
+          continue;
+        }
+
+        recorder.modelReady();
+        showProgress({...base, phase: 'running'});
+        const promptRun = runPrompt(entry.prompt, BENCHMARK_OPTIONS, {
+          recorder,
+        });
+        promptRunRef.current = promptRun;
+        let output = '';
+        let error: string | undefined;
+        try {
+          output = await promptRun.result;
+        } catch (e) {
+          error = messageOf(e);
+        }
+        promptRunRef.current = null;
+        if (cancelledRef.current) {
+          break;
+        }
+        addResult({
+          modelId,
+          promptId: entry.id,
+          output,
+          metrics: recorder.snapshot(),
+          error,
+        });
+      }
+    }
+
+    if (!cancelledRef.current) {
+      current = {...current, finishedAt: Date.now()};
+    }
+    runningRef.current = false;
+    if (mountedRef.current) {
+      setReport(current);
+      setProgress(null);
+    }
+  }, []);
+
+  return {
+    suite,
+    addPrompt,
+    removePrompt,
+    resetSuite,
+    report,
+    progress,
+    running: progress !== null,
+    run,
+    cancel,
+  };
+}
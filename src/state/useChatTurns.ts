@@ -0,0 +1,32 @@
+import {useCallback, useMemo, useRef, useState} from 'react';
+import type {ChatTurn} from './types';
+
+/**
+ * The turns of one LLM Chat conversation. HomeScreen hands the same one to
+ * useAgentRunner and useToolAgent, so switching Tools on or off mid-chat
+ * keeps the transcript and the history the next answer sees.
+ */
+export function useChatTurns() {
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  // Read by runs in flight, which would otherwise see a stale render.
+  const turnsRef = useRef<ChatTurn[]>([]);
+
+  const getTurns = useCallback(() => turnsRef.current, []);
+
+  const appendTurn = useCallback((turn: ChatTurn) => {
+    turnsRef.current = [...turnsRef.current, turn];
+    setTurns(turnsRef.current);
+  }, []);
+
+  const clearTurns = useCallback(() => {
+    turnsRef.current = [];
+    setTurns([]);
+  }, []);
+
+  return useMemo(
+    () => ({turns, getTurns, appendTurn, clearTurns}),
+    [turns, getTurns, appendTurn, clearTurns],
+  );
+}
+
+export type ChatTurns = ReturnType<typeof useChatTurns>;
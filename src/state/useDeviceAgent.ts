@@ -1,64 +1,202 @@
-import {useCallback, useEffect, useRef, useState} from 'react';
+import {useCallback, useEffect, useMemo, useRef, useState} from 'react';
 import {
   isServiceEnabled,
+  resolveApproval,
   startAgent,
   stopAgent,
   subscribeAgentEvents,
-  getAvailableModels,
-  getActiveModel,
-  setActiveModel,
+  subscribeStructuredEvents,
 } from '../native/agentKernel';
+import {isRunAborted} from '../native/cancellation';
+import type {
+  AgentDecision,
+  AgentRunLimits,
+  AgentDoneReason,
+  AgentStep,
+  ApprovalVerdict,
+  DeviceAgentEvent,
+  DeviceRunOutcome,
+  PendingApproval,
+  RunMetrics,
+  RunOutcome,
+  SupervisionOptions,
+  VerificationOptions,
+} from './types';
+import {recordRun} from './history';
+import {refreshLoadedModel} from './modelSelection';
+import {useModelSelection} from './useModelSelection';
+import {readJson, writeJson} from './storage';
+import {clampLimits, getDefaultLimits} from './runLimits';
+import {applyAgentEvent} from './agentTimeline';
+import {createMetricsRecorder, formatDuration} from './metrics';
+import type {MetricsRecorder} from './metrics';
+import {
+  DEFAULT_VERIFICATION,
+  clampVerification,
+  outcomeForDone,
+  retryDelayMs,
+  toRunOutcome,
+} from './deviceOutcome';
 
 export type DeviceAgentState =
   | {phase: 'idle'}
   | {phase: 'running'; output: string}
-  | {phase: 'done'; output: string}
+  | {phase: 'done'; output: string; outcome: 'succeeded' | 'gave_up'}
+  | {phase: 'cancelled'; output: string}
+  | {phase: 'timed_out'; output: string}
   | {phase: 'error'; message: string};
 
-// Model display names
-const MODEL_LABELS: Record<string, string> = {
-  'smollm2-360m-instruct-q8_0': 'SmolLM2 360M (Fast)',
-  'qwen2.5-1.5b-instruct-q4_k_m': 'Qwen2.5 1.5B (Best)',
-  'lfm2.5-1.2b-instruct-q4_k_m': 'LFM2.5 1.2B (Edge)',
+const SUPERVISION_KEY = 'deviceAgent.supervision.v1';
+const LIMIT_PRESETS_KEY = 'deviceAgent.limits.v1';
+const VERIFICATION_KEY = 'deviceAgent.verification.v1';
+
+export const DEFAULT_SUPERVISION: SupervisionOptions = {
+  enabled: false,
+  autoApprove: ['back', 'swipe', 'home', 'wait', 'done'],
 };
 
-export function getModelLabel(modelId: string): string {
-  return MODEL_LABELS[modelId] || modelId;
+// Slack over maxDurationMs before JS stops a run the native side didn't end,
+// covering model loading and the final verification.
+export const STOP_GRACE_MS = 60_000;
+
+// Terminal state for a run that ended with `outcome` (other than error).
+function endedState(
+  outcome: Exclude<DeviceRunOutcome, 'error'>,
+  output: string,
+): DeviceAgentState {
+  switch (outcome) {
+    case 'cancelled':
+    case 'timed_out':
+      return {phase: outcome, output};
+    default:
+      return {phase: 'done', output, outcome};
+  }
+}
+
+// How the shown run ended, for exports; null while idle or running.
+export function stateOutcome(state: DeviceAgentState): DeviceRunOutcome | null {
+  switch (state.phase) {
+    case 'done':
+      return state.outcome;
+    case 'cancelled':
+    case 'timed_out':
+    case 'error':
+      return state.phase;
+    default:
+      return null;
+  }
 }
 
 export function useDeviceAgent() {
   const [state, setState] = useState<DeviceAgentState>({phase: 'idle'});
-  const [availableModels, setAvailableModels] = useState<string[]>([]);
-  const [activeModel, setActiveModelState] = useState<string>('');
+  const {activeModel} = useModelSelection();
+  const [steps, setSteps] = useState<AgentStep[]>([]);
+  const [metrics, setMetrics] = useState<RunMetrics | null>(null);
+  // Goal of the current or last run, kept after it ends for exporting.
+  const [lastGoal, setLastGoal] = useState<string | null>(null);
+  const [supervision, setSupervisionState] =
+    useState<SupervisionOptions>(DEFAULT_SUPERVISION);
+  const [verification, setVerificationState] =
+    useState<VerificationOptions>(DEFAULT_VERIFICATION);
+  const [pendingApproval, setPendingApproval] =
+    useState<PendingApproval | null>(null);
+  // Per-model run limits, keyed by model id; missing models use defaults.
+  const [limitPresets, setLimitPresets] = useState<
+    Record<string, AgentRunLimits>
+  >({});
+  const limitPresetsRef = useRef<Record<string, AgentRunLimits>>({});
   const outputRef = useRef('');
+  const linesRef = useRef<string[]>([]);
+  // Collapse key of the last pushed line, so progress updates replace it.
+  const lastKeyRef = useRef<string | null>(null);
+  const stepsRef = useRef<AgentStep[]>([]);
+  // Uncapped copy of the log for history; outputRef is trimmed for display.
+  const fullLogRef = useRef<string[]>([]);
+  const activeModelRef = useRef(activeModel);
+  activeModelRef.current = activeModel;
+  const runRef = useRef<{
+    goal: string;
+    startedAt: number;
+    attempts: number;
+    // Resolves the promise runGoal handed out for this run, if any.
+    settle?: (outcome: RunOutcome) => void;
+  } | null>(null);
   const unsubRef = useRef<null | (() => void)>(null);
+  const metricsRef = useRef<MetricsRecorder | null>(null);
+  // Pending retry after a failed verification.
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Aborted by stop(); shared by every attempt of the current run.
+  const controllerRef = useRef<AbortController | null>(null);
+  // Bumped by every start and stop, so a start still checking the service
+  // can tell it was stopped or replaced meanwhile.
+  const beginTokenRef = useRef(0);
 
-  // Load available models on mount
   useEffect(() => {
-    (async () => {
-      try {
-        const models = await getAvailableModels();
-        setAvailableModels(models);
-        const current = await getActiveModel();
-        setActiveModelState(current);
-      } catch (e) {
-        console.warn('Failed to load models:', e);
-      }
-    })();
+    readJson(SUPERVISION_KEY, DEFAULT_SUPERVISION).then(setSupervisionState);
+    readJson(VERIFICATION_KEY, DEFAULT_VERIFICATION).then(
+      setVerificationState,
+    );
+    readJson<Record<string, AgentRunLimits>>(LIMIT_PRESETS_KEY, {}).then(
+      stored => {
+        limitPresetsRef.current = stored;
+        setLimitPresets(stored);
+      },
+    );
   }, []);
 
-  const selectModel = useCallback(async (modelId: string) => {
-    try {
-      await setActiveModel(modelId);
-      setActiveModelState(modelId);
-      return true;
-    } catch (e) {
-      console.warn('Failed to set model:', e);
-      return false;
-    }
+  const limits = useMemo(
+    () => limitPresets[activeModel] ?? getDefaultLimits(activeModel),
+    [limitPresets, activeModel],
+  );
+
+  const saveLimitPresets = useCallback(
+    (next: Record<string, AgentRunLimits>) => {
+      limitPresetsRef.current = next;
+      setLimitPresets(next);
+      writeJson(LIMIT_PRESETS_KEY, next).catch(e =>
+        console.warn('Failed to save run limits:', e),
+      );
+    },
+    [],
+  );
+
+  const setLimits = useCallback(
+    (next: AgentRunLimits) => {
+      saveLimitPresets({
+        ...limitPresetsRef.current,
+        [activeModelRef.current]: clampLimits(next),
+      });
+    },
+    [saveLimitPresets],
+  );
+
+  const resetLimits = useCallback(() => {
+    const next = {...limitPresetsRef.current};
+    delete next[activeModelRef.current];
+    saveLimitPresets(next);
+  }, [saveLimitPresets]);
+
+  const setSupervision = useCallback((next: SupervisionOptions) => {
+    setSupervisionState(next);
+    writeJson(SUPERVISION_KEY, next).catch(e =>
+      console.warn('Failed to save supervision settings:', e),
+    );
+  }, []);
+
+  const setVerification = useCallback((next: VerificationOptions) => {
+    const clamped = clampVerification(next);
+    setVerificationState(clamped);
+    writeJson(VERIFICATION_KEY, clamped).catch(e =>
+      console.warn('Failed to save verification settings:', e),
+    );
   }, []);
 
   const cleanup = useCallback(() => {
+    setPendingApproval(null);
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
     if (unsubRef.current) {
       unsubRef.current();
       unsubRef.current = null;
@@ -66,53 +204,204 @@ export function useDeviceAgent() {
   }, []);
 
   useEffect(() => {
-    return () => cleanup();
+    return () => {
+      cleanup();
+      // Nothing would be left to report the run to.
+      controllerRef.current?.abort();
+    };
   }, [cleanup]);
 
-  const start = useCallback(async (goal: string) => {
+  const finishRun = useCallback((outcome: DeviceRunOutcome) => {
+    const run = runRef.current;
+    runRef.current = null;
+    if (!run) {
+      return;
+    }
+    run.settle?.(toRunOutcome(outcome));
+    const runMetrics = metricsRef.current?.snapshot();
+    if (runMetrics) {
+      setMetrics(runMetrics);
+    }
+    // The native run loads the selected model itself; sync the badge.
+    refreshLoadedModel().catch(e =>
+      console.warn('Failed to read loaded model:', e),
+    );
+    recordRun({
+      kind: 'device',
+      goal: run.goal,
+      model: activeModelRef.current,
+      output: fullLogRef.current.join('\n'),
+      finalPhase: toRunOutcome(outcome),
+      outcome,
+      attempts: run.attempts,
+      startedAt: run.startedAt,
+      durationMs: Date.now() - run.startedAt,
+      metrics: runMetrics,
+    }).catch(e => console.warn('Failed to record run:', e));
+  }, []);
+
+  const begin = useCallback(async (
+    goal: string,
+    settle?: (outcome: RunOutcome) => void,
+  ) => {
+    // A run replaced mid-flight ends as cancelled, so whoever waits on it
+    // doesn't get the new run's outcome.
+    if (runRef.current) {
+      finishRun('cancelled');
+    }
     cleanup();
+    // A run replaced mid-flight would otherwise keep its timeout armed.
+    controllerRef.current?.abort();
+    controllerRef.current = null;
     outputRef.current = '';
+    linesRef.current = [];
+    lastKeyRef.current = null;
+    fullLogRef.current = [];
+    stepsRef.current = [];
+    setSteps([]);
+    setMetrics(null);
+    setLastGoal(goal);
 
-    const enabled = await isServiceEnabled();
+    const token = ++beginTokenRef.current;
+    let enabled: boolean;
+    try {
+      enabled = await isServiceEnabled();
+    } catch (e) {
+      if (beginTokenRef.current === token) {
+        const message = e instanceof Error ? e.message : 'Unknown error';
+        setState({phase: 'error', message});
+      }
+      settle?.('error');
+      return;
+    }
+    if (beginTokenRef.current !== token) {
+      // Stopped or replaced before the run began.
+      settle?.('stopped');
+      return;
+    }
     if (!enabled) {
       setState({phase: 'error', message: 'Enable Accessibility Service first.'});
+      settle?.('error');
       return;
     }
 
-    const pushLine = (message: string) => {
+    const run = {goal, startedAt: Date.now(), attempts: 1, settle};
+    runRef.current = run;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const recorder = createMetricsRecorder();
+    metricsRef.current = recorder;
+    // When the current step's screen was sent to the model.
+    let observedAt: number | null = null;
+    // Reason from the structured `done` event, which precedes AGENT_DONE.
+    let doneReason: AgentDoneReason = 'goal_achieved';
+    const options = {supervision, limits, verify: verification.enabled};
+
+    const pushLine = (message: string, collapseKey?: string) => {
       const trimmedMessage = message.trim();
-      const lines = outputRef.current
-        .split('\n')
-        .map(line => line.trim())
-        .filter(line => line.length > 0);
-
-      if (lines.length > 0 && lines[lines.length - 1] === trimmedMessage) {
-        // Skip duplicate log lines
-      } else if (
-        trimmedMessage.startsWith('Downloading') ||
-        trimmedMessage.startsWith('Downloading model') ||
-        trimmedMessage.startsWith('Model download')
-      ) {
-        if (
-          lines.length > 0 &&
-          (lines[lines.length - 1].startsWith('Downloading') ||
-            lines[lines.length - 1].startsWith('Downloading model') ||
-            lines[lines.length - 1].startsWith('Model download'))
-        ) {
-          lines[lines.length - 1] = trimmedMessage;
-        } else {
-          lines.push(trimmedMessage);
-        }
+      if (!trimmedMessage) {
+        return;
+      }
+      const lines = linesRef.current;
+      const fullLog = fullLogRef.current;
+
+      if (collapseKey && lastKeyRef.current === collapseKey) {
+        lines[lines.length - 1] = trimmedMessage;
+        fullLog[fullLog.length - 1] = trimmedMessage;
+      } else if (lines[lines.length - 1] === trimmedMessage) {
+        // Skip duplicate log lines. The legacy copy of a progress line
+        // leaves it collapsible.
+        return;
       } else {
         lines.push(trimmedMessage);
+        fullLog.push(trimmedMessage);
       }
+      lastKeyRef.current = collapseKey ?? null;
 
       // Keep log size reasonable
-      const capped = lines.slice(-200);
-      outputRef.current = `${capped.join('\n')}\n`;
+      linesRef.current = lines.slice(-200);
+      outputRef.current = `${linesRef.current.join('\n')}\n`;
+    };
+
+    const handleStructuredEvent = (event: DeviceAgentEvent) => {
+      if (event.type === 'download_progress') {
+        pushLine(`Downloading... ${event.progress}%`, 'download');
+        setState({phase: 'running', output: outputRef.current});
+        return;
+      }
+      if (event.type === 'model_loaded') {
+        recorder.modelLoaded(event.loadMs, event.downloadMs);
+        setMetrics(recorder.snapshot());
+        return;
+      }
+      if (event.type === 'done') {
+        doneReason = event.reason;
+      } else if (event.type === 'verification') {
+        pushLine(event.passed ? 'Verified: goal reached' : 'Verification failed');
+      }
+      if (event.type === 'screen_observed') {
+        observedAt = event.timestamp;
+      } else if (event.type === 'decision_parsed' && observedAt !== null) {
+        recorder.decision(event.timestamp - observedAt, event.tokens);
+        observedAt = null;
+        setMetrics(recorder.snapshot());
+      }
+      if (event.type === 'approval_requested') {
+        setPendingApproval({
+          requestId: event.requestId,
+          step: event.step,
+          raw: event.raw,
+          decision: event.decision,
+        });
+      } else if (event.type === 'approval_resolved') {
+        setPendingApproval(null);
+      }
+      stepsRef.current = applyAgentEvent(stepsRef.current, event);
+      setSteps(stepsRef.current);
+    };
+
+    const failRun = (message: string) => {
+      fullLogRef.current.push(`Error: ${message}`);
+      setState({phase: 'error', message});
+      finishRun('error');
+      cleanup();
+    };
+
+    // The signal or the JS timeout stopped an attempt. After stop() the run
+    // has already ended; only a failed stopAgent is left to report.
+    const handleAbort = (error: Error) => {
+      if (!isRunAborted(error)) {
+        failRun(`Couldn't stop the agent: ${error.message}`);
+        return;
+      }
+      if (runRef.current !== run) {
+        return;
+      }
+      pushLine(error.message);
+      setState(endedState(error.reason, outputRef.current));
+      finishRun(error.reason);
+      cleanup();
     };
+    // Supervised runs wait on approvals the native clock doesn't count, so
+    // only unsupervised ones get a JS-side timeout.
+    const control = {
+      signal: controller.signal,
+      timeoutMs: supervision.enabled
+        ? undefined
+        : limits.maxDurationMs + STOP_GRACE_MS,
+      onAbort: handleAbort,
+    };
+    const launch = () =>
+      startAgent(goal, options, control).catch(e => {
+        if (isRunAborted(e)) {
+          handleAbort(e);
+        } else if (runRef.current === run) {
+          failRun(e instanceof Error ? e.message : 'Unknown error');
+        }
+      });
 
-    unsubRef.current = subscribeAgentEvents(
+    const unsubStructured = subscribeStructuredEvents(handleStructuredEvent);
+    const unsubLegacy = subscribeAgentEvents(
       message => {
         pushLine(message);
         setState({phase: 'running', output: outputRef.current});
@@ -121,23 +410,116 @@ export function useDeviceAgent() {
         if (message) {
           pushLine(message);
         }
-        setState({phase: 'done', output: outputRef.current});
-        cleanup();
-      },
-      message => {
-        setState({phase: 'error', message});
+        const reason = doneReason;
+        doneReason = 'goal_achieved';
+        if (
+          reason === 'verification_failed' &&
+          run.attempts <= verification.maxRetries
+        ) {
+          const delayMs = retryDelayMs(verification, run.attempts);
+          run.attempts += 1;
+          pushLine(
+            `Retrying in ${formatDuration(delayMs)} (attempt ${run.attempts} of ${
+              verification.maxRetries + 1
+            })`,
+          );
+          setState({phase: 'running', output: outputRef.current});
+          retryTimerRef.current = setTimeout(() => {
+            retryTimerRef.current = null;
+            stepsRef.current = [];
+            setSteps([]);
+            launch();
+          }, delayMs);
+          return;
+        }
+        const outcome = outcomeForDone(reason);
+        setState(endedState(outcome, outputRef.current));
+        finishRun(outcome);
         cleanup();
       },
+      failRun,
     );
+    unsubRef.current = () => {
+      unsubLegacy();
+      unsubStructured();
+    };
 
-    await startAgent(goal);
-  }, [cleanup]);
+    // Guarded: a rejection after subscribing must not leave the listeners up.
+    await launch();
+  }, [cleanup, finishRun, limits, supervision, verification]);
+
+  const respondToApproval = useCallback(
+    async (verdict: ApprovalVerdict, decision?: AgentDecision) => {
+      if (!pendingApproval) {
+        return;
+      }
+      setPendingApproval(null);
+      try {
+        await resolveApproval(pendingApproval.requestId, verdict, decision);
+      } catch (e) {
+        console.warn('Failed to resolve approval:', e);
+      }
+    },
+    [pendingApproval],
+  );
+
+  const start = useCallback((goal: string) => begin(goal), [begin]);
 
+  // Starts a run and resolves with its outcome once that run ends.
+  const runGoal = useCallback(
+    (goal: string) =>
+      new Promise<RunOutcome>(resolve => {
+        begin(goal, resolve).catch(e => {
+          const message = e instanceof Error ? e.message : 'Unknown error';
+          setState({phase: 'error', message});
+          finishRun('error');
+          cleanup();
+          resolve('error');
+        });
+      }),
+    [begin, cleanup, finishRun],
+  );
+
+  // Full log of the current or last run; `state.output` keeps only the tail.
+  const getLog = useCallback(() => fullLogRef.current.slice(), []);
+
+  // Keeps the log of a run in progress on screen, marked cancelled. With an
+  // attempt in flight, aborting makes startAgent stop the native run.
   const stop = useCallback(async () => {
+    beginTokenRef.current++;
+    const controller = controllerRef.current;
+    controllerRef.current = null;
     cleanup();
-    await stopAgent();
-    setState({phase: 'idle'});
-  }, [cleanup]);
+    finishRun('cancelled');
+    setState(current =>
+      current.phase === 'running'
+        ? {phase: 'cancelled', output: current.output}
+        : {phase: 'idle'},
+    );
+    if (controller) {
+      controller.abort();
+    } else {
+      await stopAgent();
+    }
+  }, [cleanup, finishRun]);
 
-  return {state, start, stop, availableModels, activeModel, selectModel};
+  return {
+    state,
+    steps,
+    metrics,
+    lastGoal,
+    getLog,
+    start,
+    runGoal,
+    stop,
+    supervision,
+    setSupervision,
+    verification,
+    setVerification,
+    pendingApproval,
+    respondToApproval,
+    limits,
+    setLimits,
+    resetLimits,
+  };
 }
@@ -0,0 +1,203 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+import type {DevicePlan, RunOutcome} from './types';
+import {runPrompt} from './completion';
+import type {PromptRun} from './completion';
+import {ensureModelLoaded} from './modelSelection';
+import {moveItem} from './lists';
+import {
+  PLANNER_OPTIONS,
+  buildPlanPrompt,
+  createPlan,
+  createPlanStep,
+  parsePlan,
+  resetPlan,
+  setStepStatus,
+  skipRemaining,
+} from './planner';
+import {readJson, writeJson} from './storage';
+
+const PLANNER_KEY = 'deviceAgent.planner.v1';
+// Same limit as one LLM Chat turn; a timeout shows as a planning error.
+const PLAN_TIMEOUT_MS = 120_000;
+
+export type PlannerPhase =
+  | 'idle'
+  | 'planning'
+  | 'ready'
+  | 'running'
+  | 'finished';
+
+interface Options {
+  // Runs one sub-goal on the Device Agent and resolves with how it ended.
+  runGoal: (goal: string) => Promise<RunOutcome>;
+  stopGoal: () => Promise<void>;
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+export function useDevicePlanner({runGoal, stopGoal}: Options) {
+  // Whether Run asks for a plan first instead of starting the goal directly.
+  const [enabled, setEnabledState] = useState(false);
+  const [plan, setPlanState] = useState<DevicePlan | null>(null);
+  const planRef = useRef<DevicePlan | null>(null);
+  const [phase, setPhase] = useState<PlannerPhase>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const promptRunRef = useRef<PromptRun | null>(null);
+  const stoppedRef = useRef(false);
+
+  useEffect(() => {
+    readJson(PLANNER_KEY, {enabled: false}).then(stored =>
+      setEnabledState(stored.enabled),
+    );
+  }, []);
+
+  const setEnabled = useCallback((next: boolean) => {
+    setEnabledState(next);
+    writeJson(PLANNER_KEY, {enabled: next}).catch(e =>
+      console.warn('Failed to save planner setting:', e),
+    );
+  }, []);
+
+  const setPlan = useCallback((next: DevicePlan | null) => {
+    planRef.current = next;
+    setPlanState(next);
+  }, []);
+
+  const makePlan = useCallback(
+    async (goal: string) => {
+      stoppedRef.current = false;
+      setPlan(null);
+      setError(null);
+      setPhase('planning');
+      let text: string;
+      try {
+        await ensureModelLoaded();
+        // Stopped while the model loaded, before there was a prompt to cancel.
+        if (stoppedRef.current) {
+          setPhase('idle');
+          return;
+        }
+        const promptRun = runPrompt(buildPlanPrompt(goal), PLANNER_OPTIONS, {
+          timeoutMs: PLAN_TIMEOUT_MS,
+        });
+        promptRunRef.current = promptRun;
+        text = await promptRun.result;
+      } catch (e) {
+        if (!stoppedRef.current) {
+          setError(messageOf(e));
+        }
+        setPhase('idle');
+        return;
+      } finally {
+        promptRunRef.current = null;
+      }
+      setPlan(createPlan(goal, parsePlan(text, goal)));
+      setPhase('ready');
+    },
+    [setPlan],
+  );
+
+  const editPlan = useCallback(
+    (change: (current: DevicePlan) => DevicePlan) => {
+      if (planRef.current) {
+        setPlan(change(planRef.current));
+      }
+    },
+    [setPlan],
+  );
+
+  const updateStep = useCallback(
+    (id: string, goal: string) =>
+      editPlan(current => ({
+        ...current,
+        steps: current.steps.map(step =>
+          step.id === id ? {...step, goal} : step,
+        ),
+      })),
+    [editPlan],
+  );
+
+  const removeStep = useCallback(
+    (id: string) =>
+      editPlan(current => ({
+        ...current,
+        steps: current.steps.filter(step => step.id !== id),
+      })),
+    [editPlan],
+  );
+
+  const moveStep = useCallback(
+    (id: string, offset: number) =>
+      editPlan(current => ({
+        ...current,
+        steps: moveItem(current.steps, id, offset),
+      })),
+    [editPlan],
+  );
+
+  const addStep = useCallback(
+    () =>
+      editPlan(current => ({
+        ...current,
+        steps: [...current.steps, createPlanStep('')],
+      })),
+    [editPlan],
+  );
+
+  // Runs the sub-goals in order, stopping at the first that doesn't finish.
+  const runPlan = useCallback(async () => {
+    if (!planRef.current) {
+      return;
+    }
+    stoppedRef.current = false;
+    setPlan(resetPlan(planRef.current));
+    setPhase('running');
+    for (const step of planRef.current?.steps ?? []) {
+      if (stoppedRef.current) {
+        break;
+      }
+      editPlan(current => setStepStatus(current, step.id, 'running'));
+      const outcome = await runGoal(step.goal);
+      editPlan(current => setStepStatus(current, step.id, outcome));
+      if (outcome !== 'done') {
+        break;
+      }
+    }
+    editPlan(skipRemaining);
+    setPhase('finished');
+  }, [editPlan, runGoal, setPlan]);
+
+  const stop = useCallback(async () => {
+    stoppedRef.current = true;
+    if (promptRunRef.current) {
+      promptRunRef.current.cancel();
+    } else {
+      await stopGoal();
+    }
+  }, [stopGoal]);
+
+  const discard = useCallback(() => {
+    setPlan(null);
+    setError(null);
+    setPhase('idle');
+  }, [setPlan]);
+
+  return {
+    enabled,
+    setEnabled,
+    plan,
+    phase,
+    error,
+    busy: phase === 'planning' || phase === 'running',
+    makePlan,
+    updateStep,
+    removeStep,
+    moveStep,
+    addStep,
+    runPlan,
+    stop,
+    discard,
+  };
+}
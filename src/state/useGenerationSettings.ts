@@ -0,0 +1,114 @@
+import {useCallback, useEffect, useMemo, useRef, useState} from 'react';
+import type {GenerationOptions, GenerationPreset} from './types';
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_GENERATION_OPTIONS,
+  createPreset,
+  loadUserPresets,
+  saveUserPresets,
+} from './generationPresets';
+import {readJson, writeJson} from './storage';
+
+const CURRENT_KEY = 'chat.generationOptions.v1';
+
+interface StoredSelection {
+  presetId: string | null;
+  options: GenerationOptions;
+}
+
+export function useGenerationSettings() {
+  const [options, setOptions] = useState<GenerationOptions>(
+    DEFAULT_GENERATION_OPTIONS,
+  );
+  // null once the user tweaks a field away from the selected preset.
+  const [presetId, setPresetId] = useState<string | null>('precise');
+  const [userPresets, setUserPresets] = useState<GenerationPreset[]>([]);
+  const userPresetsRef = useRef<GenerationPreset[]>([]);
+
+  useEffect(() => {
+    readJson<StoredSelection | null>(CURRENT_KEY, null).then(stored => {
+      if (stored) {
+        setOptions({...DEFAULT_GENERATION_OPTIONS, ...stored.options});
+        setPresetId(stored.presetId);
+      }
+    });
+    loadUserPresets().then(stored => {
+      userPresetsRef.current = stored;
+      setUserPresets(stored);
+    });
+  }, []);
+
+  const persistSelection = useCallback(
+    (nextPresetId: string | null, nextOptions: GenerationOptions) => {
+      setPresetId(nextPresetId);
+      setOptions(nextOptions);
+      writeJson(CURRENT_KEY, {
+        presetId: nextPresetId,
+        options: nextOptions,
+      }).catch(e => console.warn('Failed to save generation options:', e));
+    },
+    [],
+  );
+
+  const presets = useMemo(
+    () => [...BUILT_IN_PRESETS, ...userPresets],
+    [userPresets],
+  );
+
+  const selectPreset = useCallback(
+    (id: string) => {
+      const preset = presets.find(p => p.id === id);
+      if (preset) {
+        persistSelection(preset.id, preset.options);
+      }
+    },
+    [persistSelection, presets],
+  );
+
+  const updateOptions = useCallback(
+    (patch: Partial<GenerationOptions>) => {
+      persistSelection(null, {...options, ...patch});
+    },
+    [options, persistSelection],
+  );
+
+  const updateUserPresets = useCallback((next: GenerationPreset[]) => {
+    userPresetsRef.current = next;
+    setUserPresets(next);
+    saveUserPresets(next).catch(e =>
+      console.warn('Failed to save generation presets:', e),
+    );
+  }, []);
+
+  const savePreset = useCallback(
+    (name: string) => {
+      if (!name.trim()) {
+        return;
+      }
+      const preset = createPreset(name, options);
+      updateUserPresets([...userPresetsRef.current, preset]);
+      persistSelection(preset.id, preset.options);
+    },
+    [options, persistSelection, updateUserPresets],
+  );
+
+  const deletePreset = useCallback(
+    (id: string) => {
+      updateUserPresets(userPresetsRef.current.filter(p => p.id !== id));
+      if (presetId === id) {
+        persistSelection(null, options);
+      }
+    },
+    [options, persistSelection, presetId, updateUserPresets],
+  );
+
+  return {
+    options,
+    presetId,
+    presets,
+    selectPreset,
+    updateOptions,
+    savePreset,
+    deletePreset,
+  };
+}
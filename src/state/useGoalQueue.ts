@@ -0,0 +1,178 @@
+import {useCallback, useEffect, useRef, useState} from 'react';
+import type {GoalSchedule, QueuedGoal, RunOutcome} from './types';
+import {
+  DEFAULT_QUEUE,
+  clearFinished,
+  completeGoal,
+  createQueuedGoal,
+  loadQueue,
+  markRunning,
+  mergeQueues,
+  nextDueGoal,
+  nextWakeAt,
+  saveQueue,
+} from './goalQueue';
+import type {GoalQueueState} from './goalQueue';
+import {moveItem} from './lists';
+
+// Upper bound on a single wait, so clock changes and sleep are noticed.
+const MAX_WAIT_MS = 60_000;
+
+interface Options {
+  // Runs one goal on the Device Agent and resolves with how it ended.
+  runGoal: (goal: string) => Promise<RunOutcome>;
+  stopGoal: () => Promise<void>;
+  // Another run owns the model; due goals wait until it finishes.
+  busy: boolean;
+}
+
+export function useGoalQueue({runGoal, stopGoal, busy}: Options) {
+  const [queue, setQueue] = useState<GoalQueueState>(DEFAULT_QUEUE);
+  const queueRef = useRef<GoalQueueState>(DEFAULT_QUEUE);
+  const executingRef = useRef(false);
+  // Bumped by the wait timer to re-check for due goals.
+  const [tick, setTick] = useState(0);
+
+  // Saving before the stored queue is read would overwrite it.
+  const loadedRef = useRef(false);
+
+  const updateQueue = useCallback((next: GoalQueueState) => {
+    queueRef.current = next;
+    setQueue(next);
+    if (loadedRef.current) {
+      saveQueue(next).catch(e => console.warn('Failed to save goal queue:', e));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue().then(stored => {
+      loadedRef.current = true;
+      // Goals added before storage answered go after the stored ones.
+      const early = queueRef.current;
+      if (early.goals.length === 0 && !early.active) {
+        queueRef.current = stored;
+        setQueue(stored);
+        return;
+      }
+      updateQueue(mergeQueues(stored, early));
+    });
+  }, [updateQueue]);
+
+  const updateGoals = useCallback(
+    (change: (goals: QueuedGoal[]) => QueuedGoal[]) => {
+      updateQueue({
+        ...queueRef.current,
+        goals: change(queueRef.current.goals),
+      });
+    },
+    [updateQueue],
+  );
+
+  // Started queues may be waiting for a scheduled goal. The flag is saved,
+  // so a queue left running picks up again when the app reopens.
+  const setActive = useCallback(
+    (active: boolean) => {
+      updateQueue({...queueRef.current, active});
+    },
+    [updateQueue],
+  );
+
+  const execute = useCallback(
+    async (goal: QueuedGoal) => {
+      executingRef.current = true;
+      updateGoals(goals => markRunning(goals, goal.id));
+      const outcome = await runGoal(goal.goal);
+      executingRef.current = false;
+      updateGoals(goals => completeGoal(goals, goal.id, outcome));
+      if (
+        outcome === 'stopped' ||
+        (outcome === 'error' && queueRef.current.stopOnFailure)
+      ) {
+        setActive(false);
+      }
+      setTick(count => count + 1);
+    },
+    [runGoal, setActive, updateGoals],
+  );
+
+  useEffect(() => {
+    if (!queue.active || busy || executingRef.current) {
+      return;
+    }
+    const now = Date.now();
+    const due = nextDueGoal(queue.goals, now);
+    if (due) {
+      execute(due);
+      return;
+    }
+    const wakeAt = nextWakeAt(queue.goals);
+    if (wakeAt === undefined) {
+      // Nothing left to run.
+      setActive(false);
+      return;
+    }
+    const timer = setTimeout(
+      () => setTick(count => count + 1),
+      Math.min(wakeAt - now, MAX_WAIT_MS),
+    );
+    return () => clearTimeout(timer);
+  }, [queue.active, busy, queue.goals, tick, execute, setActive]);
+
+  const enqueue = useCallback(
+    (goal: string, schedule?: GoalSchedule) => {
+      if (!goal.trim()) {
+        return;
+      }
+      updateGoals(goals => [...goals, createQueuedGoal(goal, schedule)]);
+    },
+    [updateGoals],
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      updateGoals(goals => goals.filter(goal => goal.id !== id));
+    },
+    [updateGoals],
+  );
+
+  const move = useCallback(
+    (id: string, offset: number) => {
+      updateGoals(goals => moveItem(goals, id, offset));
+    },
+    [updateGoals],
+  );
+
+  const clear = useCallback(() => {
+    updateGoals(clearFinished);
+  }, [updateGoals]);
+
+  const setStopOnFailure = useCallback(
+    (stopOnFailure: boolean) => {
+      updateQueue({...queueRef.current, stopOnFailure});
+    },
+    [updateQueue],
+  );
+
+  const startQueue = useCallback(() => setActive(true), [setActive]);
+
+  // Halts the queue and the goal it is running, if any.
+  const stopQueue = useCallback(async () => {
+    setActive(false);
+    if (executingRef.current) {
+      await stopGoal();
+    }
+  }, [setActive, stopGoal]);
+
+  return {
+    goals: queue.goals,
+    stopOnFailure: queue.stopOnFailure,
+    setStopOnFailure,
+    active: queue.active,
+    enqueue,
+    remove,
+    move,
+    clearFinished: clear,
+    startQueue,
+    stopQueue,
+  };
+}
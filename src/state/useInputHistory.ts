@@ -0,0 +1,30 @@
+import {useCallback, useEffect, useState} from 'react';
+import type {RunKind} from './types';
+import type {InputDraft} from './inputHistory';
+import {
+  getInputState,
+  recordSubmission,
+  subscribeInputState,
+  updateDraft,
+} from './inputHistory';
+
+// Per-mode draft and recent submissions, shared by every Controls instance.
+export function useInputHistory(mode: RunKind) {
+  const [inputState, setInputState] = useState(getInputState);
+
+  useEffect(() => subscribeInputState(setInputState), []);
+
+  const {draft, recent} = inputState[mode];
+
+  const setDraft = useCallback(
+    (next: InputDraft) => updateDraft(mode, next),
+    [mode],
+  );
+
+  const record = useCallback(
+    (task: string, context?: string) => recordSubmission(mode, task, context),
+    [mode],
+  );
+
+  return {draft, recent, setDraft, record};
+}
@@ -0,0 +1,64 @@
+import {useCallback, useEffect, useState} from 'react';
+import type {KnowledgeState} from './knowledge';
+import {
+  addDocument,
+  removeDocument,
+  setKnowledgeEnabled,
+  subscribeKnowledge,
+} from './knowledge';
+import {isDocumentPickerAvailable, pickTextDocument} from '../native/documents';
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+export function useKnowledgeBase() {
+  const [knowledge, setKnowledge] = useState<KnowledgeState>({
+    documents: [],
+    enabled: true,
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeKnowledge(setKnowledge), []);
+
+  const add = useCallback(async (title: string, text: string) => {
+    if (!text.trim()) {
+      return;
+    }
+    setError(null);
+    await addDocument(title, text);
+  }, []);
+
+  // Opens the system file picker; resolves without adding if cancelled.
+  const importFile = useCallback(async () => {
+    setError(null);
+    try {
+      const file = await pickTextDocument();
+      if (file) {
+        await addDocument(
+          file.name.replace(/\.(md|markdown|txt)$/i, ''),
+          file.text,
+        );
+      }
+    } catch (e) {
+      setError(messageOf(e));
+    }
+  }, []);
+
+  const remove = useCallback((id: string) => removeDocument(id), []);
+  const setEnabled = useCallback(
+    (enabled: boolean) => setKnowledgeEnabled(enabled),
+    [],
+  );
+
+  return {
+    documents: knowledge.documents,
+    enabled: knowledge.enabled,
+    error,
+    canImportFiles: isDocumentPickerAvailable(),
+    add,
+    importFile,
+    remove,
+    setEnabled,
+  };
+}
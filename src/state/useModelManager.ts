@@ -0,0 +1,126 @@
+import {useCallback, useEffect, useMemo, useRef, useState} from 'react';
+import type {ModelDownload, ModelInfo} from './types';
+import {rememberModels} from './models';
+import {refreshLoadedModel} from './modelSelection';
+import {
+  cancelModelDownload,
+  getDownloads,
+  isDownloadCancelled,
+  isNoNetwork,
+  pauseModelDownload,
+  resumeModelDownload,
+  startModelDownload,
+  subscribeDownloads,
+} from './downloads';
+import {deleteModel, listModels} from '../native/runanywhere';
+
+export function useModelManager() {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  // Downloads in progress, stopped, or that failed, by model id.
+  const [downloads, setDownloads] =
+    useState<Record<string, ModelDownload>>(getDownloads);
+  const [error, setError] = useState<string | null>(null);
+  const mountedRef = useRef(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const list = await listModels();
+      rememberModels(list);
+      if (mountedRef.current) {
+        setModels(list);
+      }
+    } catch (e) {
+      console.warn('Failed to list models:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    refresh();
+    setDownloads(getDownloads());
+    const unsubscribe = subscribeDownloads(setDownloads);
+    return () => {
+      mountedRef.current = false;
+      unsubscribe();
+    };
+  }, [refresh]);
+
+  const download = useCallback(
+    async (modelId: string) => {
+      setError(null);
+      const model = models.find(m => m.id === modelId);
+      try {
+        await startModelDownload(modelId, model?.downloadSizeBytes);
+      } catch (e) {
+        // Cancelling is on request; offline and failed downloads show on
+        // the model's card.
+        if (
+          !isDownloadCancelled(e) &&
+          !isNoNetwork(e) &&
+          !getDownloads()[modelId] &&
+          mountedRef.current
+        ) {
+          setError(e instanceof Error ? e.message : 'Download failed');
+        }
+      } finally {
+        if (mountedRef.current) {
+          refresh();
+        }
+      }
+    },
+    [models, refresh],
+  );
+
+  const pause = useCallback((modelId: string) => {
+    pauseModelDownload(modelId).catch(e =>
+      console.warn('Failed to pause download:', e),
+    );
+  }, []);
+
+  const resume = useCallback((modelId: string) => {
+    resumeModelDownload(modelId);
+  }, []);
+
+  const cancel = useCallback(
+    async (modelId: string) => {
+      await cancelModelDownload(modelId).catch(e =>
+        console.warn('Failed to cancel download:', e),
+      );
+      refresh();
+    },
+    [refresh],
+  );
+
+  const remove = useCallback(
+    async (modelId: string) => {
+      setError(null);
+      try {
+        await deleteModel(modelId);
+        // Deleting the loaded model unloads it natively.
+        await refreshLoadedModel();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Delete failed');
+      }
+      refresh();
+    },
+    [refresh],
+  );
+
+  const totalBytes = useMemo(
+    () => models.reduce((sum, model) => sum + model.sizeOnDiskBytes, 0),
+    [models],
+  );
+
+  return {
+    models,
+    downloads,
+    error,
+    totalBytes,
+    refresh,
+    download,
+    pause,
+    resume,
+    cancel,
+    remove,
+  };
+}
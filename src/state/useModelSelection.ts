@@ -0,0 +1,39 @@
+import {useCallback, useEffect, useState} from 'react';
+import {
+  getModelSelection,
+  selectModel,
+  subscribeModelSelection,
+  unloadActiveModel,
+} from './modelSelection';
+
+export function useModelSelection() {
+  const [selection, setSelection] = useState(getModelSelection);
+
+  useEffect(() => subscribeModelSelection(setSelection), []);
+
+  const select = useCallback(async (modelId: string) => {
+    try {
+      await selectModel(modelId);
+      return true;
+    } catch (e) {
+      console.warn('Failed to set model:', e);
+      return false;
+    }
+  }, []);
+
+  const unload = useCallback(async () => {
+    try {
+      await unloadActiveModel();
+    } catch (e) {
+      console.warn('Failed to unload model:', e);
+    }
+  }, []);
+
+  return {
+    availableModels: selection.availableModels,
+    activeModel: selection.activeModelId,
+    loadedModel: selection.loadedModelId,
+    selectModel: select,
+    unload,
+  };
+}
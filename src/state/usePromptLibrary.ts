@@ -0,0 +1,55 @@
+import {useCallback, useEffect, useMemo, useRef, useState} from 'react';
+import type {PromptTemplate} from './types';
+import {
+  BUILT_IN_TEMPLATES,
+  createTemplate,
+  loadUserTemplates,
+  saveUserTemplates,
+} from './promptTemplates';
+
+export function usePromptLibrary() {
+  const [userTemplates, setUserTemplates] = useState<PromptTemplate[]>([]);
+  const userTemplatesRef = useRef<PromptTemplate[]>([]);
+
+  useEffect(() => {
+    loadUserTemplates().then(stored => {
+      userTemplatesRef.current = stored;
+      setUserTemplates(stored);
+    });
+  }, []);
+
+  const templates = useMemo(
+    () => [...BUILT_IN_TEMPLATES, ...userTemplates],
+    [userTemplates],
+  );
+
+  const updateUserTemplates = useCallback((next: PromptTemplate[]) => {
+    userTemplatesRef.current = next;
+    setUserTemplates(next);
+    saveUserTemplates(next).catch(e =>
+      console.warn('Failed to save templates:', e),
+    );
+  }, []);
+
+  const saveTemplate = useCallback(
+    (fields: Omit<PromptTemplate, 'id' | 'builtIn'>) => {
+      if (!fields.name.trim() || !fields.task.trim()) {
+        return;
+      }
+      updateUserTemplates([
+        ...userTemplatesRef.current,
+        createTemplate(fields),
+      ]);
+    },
+    [updateUserTemplates],
+  );
+
+  const deleteTemplate = useCallback(
+    (id: string) => {
+      updateUserTemplates(userTemplatesRef.current.filter(t => t.id !== id));
+    },
+    [updateUserTemplates],
+  );
+
+  return {templates, saveTemplate, deleteTemplate};
+}
@@ -0,0 +1,14 @@
+import {useCallback, useEffect, useState} from 'react';
+import type {RunRecord} from './types';
+import {clearHistory, deleteRun, subscribeHistory} from './history';
+
+export function useRunHistory() {
+  const [entries, setEntries] = useState<RunRecord[]>([]);
+
+  useEffect(() => subscribeHistory(setEntries), []);
+
+  const remove = useCallback((id: string) => deleteRun(id), []);
+  const clear = useCallback(() => clearHistory(), []);
+
+  return {entries, remove, clear};
+}
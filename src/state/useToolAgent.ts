@@ -0,0 +1,304 @@
+import {useCallback, useEffect, useMemo, useRef, useState} from 'react';
+import type {
+  AgentState,
+  GenerationOptions,
+  RunAnywhereConfig,
+  RunMetrics,
+  RunOutcome,
+  ToolInvocation,
+  ToolSettings,
+} from './types';
+import {createTurn, promptTokenBudget} from './conversation';
+import {recordRun} from './history';
+import {retrieve} from './knowledge';
+import {getContextLength} from './models';
+import {createFrameBatcher} from './frameBatcher';
+import {isNoNetwork} from './downloads';
+import {createMetricsRecorder} from './metrics';
+import type {MetricsRecorder} from './metrics';
+import {ensureModelLoaded, getModelSelection} from './modelSelection';
+import {runPrompt} from './completion';
+import type {PromptRun} from './completion';
+import {DEFAULT_GENERATION_OPTIONS} from './generationPresets';
+import {BUILT_IN_TOOLS} from './builtInTools';
+import {createToolRegistry, formatInvocation, visibleText} from './tools';
+import {
+  DEFAULT_TOOL_SETTINGS,
+  TOOL_CALL_STOP,
+  clampToolSettings,
+  runToolLoop,
+} from './toolAgent';
+import {readJson, writeJson} from './storage';
+import {useChatTurns} from './useChatTurns';
+import type {ChatTurns} from './useChatTurns';
+import {initialize} from '../native/runanywhere';
+import {isRunAborted} from '../native/cancellation';
+
+const TOOLS_KEY = 'chat.tools.v1';
+const CONFIG: RunAnywhereConfig = {
+  apiKey: '',
+  endpoint: '',
+  // Per model turn, not per question.
+  timeout: 120_000,
+};
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * LLM Chat with tool calling. Same surface as useAgentRunner, plus the calls
+ * made during the current answer and the tool settings. Pass the runner's
+ * `conversation` so both modes continue one transcript.
+ */
+export function useToolAgent(conversation?: ChatTurns) {
+  const ownTurns = useChatTurns();
+  const {turns, getTurns, appendTurn, clearTurns} = conversation ?? ownTurns;
+  const [settings, setSettingsState] = useState<ToolSettings>(
+    DEFAULT_TOOL_SETTINGS,
+  );
+  const [state, setState] = useState<AgentState>({phase: 'idle'});
+  const [metrics, setMetrics] = useState<RunMetrics | null>(null);
+  const [invocations, setInvocations] = useState<ToolInvocation[]>([]);
+  const mountedRef = useRef(true);
+  const outputRef = useRef('');
+  const metricsRef = useRef<MetricsRecorder | null>(null);
+  const promptRunRef = useRef<PromptRun | null>(null);
+  const runRef = useRef<{
+    task: string;
+    context?: string;
+    model: string;
+    startedAt: number;
+    invocations: ToolInvocation[];
+  } | null>(null);
+
+  const tokenBatcher = useMemo(
+    () =>
+      createFrameBatcher(() => {
+        if (mountedRef.current) {
+          setState({phase: 'running', partialOutput: outputRef.current});
+          setMetrics(metricsRef.current?.snapshot() ?? null);
+        }
+      }),
+    [],
+  );
+
+  useEffect(() => {
+    mountedRef.current = true;
+    readJson(TOOLS_KEY, DEFAULT_TOOL_SETTINGS).then(stored => {
+      if (mountedRef.current) {
+        setSettingsState(
+          clampToolSettings({...DEFAULT_TOOL_SETTINGS, ...stored}),
+        );
+      }
+    });
+    return () => {
+      mountedRef.current = false;
+      tokenBatcher.cancel();
+      promptRunRef.current?.cancel();
+    };
+  }, [tokenBatcher]);
+
+  const setSettings = useCallback((next: ToolSettings) => {
+    const clamped = clampToolSettings(next);
+    setSettingsState(clamped);
+    writeJson(TOOLS_KEY, clamped).catch(e =>
+      console.warn('Failed to save tool settings:', e),
+    );
+  }, []);
+
+  const registry = useMemo(
+    () =>
+      createToolRegistry(
+        BUILT_IN_TOOLS.filter(
+          tool => !settings.disabledTools.includes(tool.name),
+        ),
+      ),
+    [settings.disabledTools],
+  );
+
+  // Saves the active run to history; later calls for the same run are no-ops.
+  const finishRun = useCallback((outcome: RunOutcome, answer: string) => {
+    const run = runRef.current;
+    runRef.current = null;
+    if (!run) {
+      return;
+    }
+    const runMetrics = metricsRef.current?.snapshot();
+    if (runMetrics) {
+      setMetrics(runMetrics);
+    }
+    const trace = run.invocations.map(formatInvocation).join('\n');
+    recordRun({
+      kind: 'chat',
+      goal: run.task,
+      model: run.model,
+      context: run.context,
+      output: trace ? `${trace}\n\n${answer}` : answer,
+      finalPhase: outcome,
+      startedAt: run.startedAt,
+      durationMs: Date.now() - run.startedAt,
+      metrics: runMetrics,
+    }).catch(e => console.warn('Failed to record run:', e));
+  }, []);
+
+  const stop = useCallback(() => {
+    const active = runRef.current !== null;
+    tokenBatcher.cancel();
+    const partial = outputRef.current.trim();
+    outputRef.current = '';
+    finishRun('stopped', partial);
+    promptRunRef.current?.cancel();
+    promptRunRef.current = null;
+    if (partial) {
+      appendTurn(createTurn('assistant', partial));
+    }
+    setState(active ? {phase: 'cancelled'} : {phase: 'idle'});
+  }, [appendTurn, finishRun, tokenBatcher]);
+
+  const clearConversation = useCallback(() => {
+    clearTurns();
+    outputRef.current = '';
+    setInvocations([]);
+    setMetrics(null);
+    setState({phase: 'idle'});
+  }, [clearTurns]);
+
+  const start = useCallback(
+    async (task: string, context?: string, options?: GenerationOptions) => {
+      const generation = options ?? DEFAULT_GENERATION_OPTIONS;
+      const turnOptions = {
+        ...generation,
+        stopSequences: [...generation.stopSequences, TOOL_CALL_STOP],
+      };
+      // A run still in flight is superseded, so its model turn goes too.
+      promptRunRef.current?.cancel();
+      promptRunRef.current = null;
+      outputRef.current = '';
+      const history = getTurns();
+      appendTurn(createTurn('user', task));
+      const run = {
+        task,
+        context,
+        model: getModelSelection().activeModelId,
+        startedAt: Date.now(),
+        invocations: [] as ToolInvocation[],
+      };
+      runRef.current = run;
+      const recorder = createMetricsRecorder();
+      metricsRef.current = recorder;
+      setInvocations([]);
+      setMetrics(null);
+      setState({phase: 'downloading', progress: 0});
+
+      try {
+        await initialize(CONFIG.apiKey, CONFIG.endpoint);
+        run.model = await ensureModelLoaded({
+          onDownloading: recorder.downloadStarted,
+          onLoading: () => {
+            recorder.loadStarted();
+            if (mountedRef.current) {
+              setState({phase: 'loading'});
+            }
+          },
+        });
+        recorder.modelReady();
+        if (!mountedRef.current || runRef.current !== run) {
+          return;
+        }
+        setMetrics(recorder.snapshot());
+        setState({phase: 'loading'});
+
+        const sources = await retrieve(task);
+        const result = await runToolLoop({
+          task,
+          context,
+          sources,
+          history,
+          registry,
+          maxTurns: settings.maxTurns,
+          budget: promptTokenBudget(getContextLength(run.model), generation),
+          complete: (prompt, turnContext) => {
+            outputRef.current = '';
+            const promptRun = runPrompt(prompt, turnOptions, {
+              context: turnContext,
+              recorder,
+              timeoutMs: CONFIG.timeout,
+              onToken: output => {
+                outputRef.current = visibleText(output);
+                tokenBatcher.schedule();
+              },
+            });
+            promptRunRef.current = promptRun;
+            return promptRun.result;
+          },
+          onInvocation: invocation => {
+            run.invocations = [...run.invocations, invocation];
+            if (mountedRef.current && runRef.current === run) {
+              setInvocations(run.invocations);
+            }
+          },
+        });
+        if (!mountedRef.current || runRef.current !== run) {
+          return;
+        }
+        promptRunRef.current = null;
+        tokenBatcher.cancel();
+        outputRef.current = '';
+        const answer =
+          result.answer ||
+          `No answer after ${result.turns} turn${
+            result.turns === 1 ? '' : 's'
+          }.`;
+        finishRun('done', answer);
+        appendTurn(createTurn('assistant', answer, result.sources));
+        setState({phase: 'done', finalOutput: answer});
+      } catch (error) {
+        // Stop or a newer start already settled this run.
+        if (!mountedRef.current || runRef.current !== run) {
+          return;
+        }
+        promptRunRef.current = null;
+        tokenBatcher.cancel();
+        const message = messageOf(error);
+        const timedOut = isRunAborted(error, 'timed_out');
+        finishRun('error', timedOut ? message : `Error: ${message}`);
+        if (isNoNetwork(error)) {
+          setState({phase: 'offline'});
+          return;
+        }
+        const partial = outputRef.current.trim();
+        outputRef.current = '';
+        if (partial) {
+          appendTurn(createTurn('assistant', partial));
+        }
+        setState(
+          timedOut
+            ? {phase: 'timed_out', timeoutMs: error.timeoutMs ?? 0}
+            : {phase: 'error', message},
+        );
+      }
+    },
+    [
+      appendTurn,
+      finishRun,
+      getTurns,
+      registry,
+      settings.maxTurns,
+      tokenBatcher,
+    ],
+  );
+
+  return {
+    state,
+    turns,
+    metrics,
+    start,
+    stop,
+    clearConversation,
+    invocations,
+    settings,
+    setSettings,
+    tools: BUILT_IN_TOOLS,
+  };
+}